@@ -2,15 +2,26 @@ import process from "node:process";
 import { parseGlobalArgs, type GlobalArgs, type ParsedGlobal } from "./lib/argv.js";
 import { validateSessionName } from "./lib/sessionName.js";
 import { getSessionsDir } from "./lib/dirs.js";
-import { CommandIO, type OutputMode } from "./lib/io.js";
+import { CommandIO, processSink, type OutputMode, type OutputSink } from "./lib/io.js";
 import { getHelpText } from "./helpCanon.js";
 import { normalizeError, getExitCode } from "./lib/errors.js";
-import { CLIError } from "./lib/cliError.js";
+import { CLIError, usageError } from "./lib/cliError.js";
 import { getVersionString } from "./lib/version.js";
+import { execThroughLive, LIVE_ROUTED_COMMANDS } from "./lib/live.js";
+import type { ReplRequest } from "./lib/repl.js";
 
 import { cmdDoctor } from "./commands/doctor.js";
 import { cmdSessionReset, cmdSessionSet, cmdSessionShow, cmdSessionUnset } from "./commands/session.js";
-import { cmdDeviceBoot, cmdDeviceErase, cmdDeviceList, cmdDeviceScreenshot, cmdDeviceShutdown } from "./commands/device.js";
+import {
+  cmdDeviceBoot,
+  cmdDeviceErase,
+  cmdDeviceList,
+  cmdDeviceRecordServe,
+  cmdDeviceRecordStart,
+  cmdDeviceRecordStop,
+  cmdDeviceScreenshot,
+  cmdDeviceShutdown,
+} from "./commands/device.js";
 import {
   cmdAppBuildIOS,
   cmdAppId,
@@ -19,15 +30,16 @@ import {
   cmdAppTerminate,
   cmdAppUninstall,
 } from "./commands/app.js";
-import { cmdUiAssertVisible, cmdUiFind, cmdUiPress, cmdUiSnapshot, cmdUiSwipe, cmdUiTap, cmdUiType } from "./commands/ui.js";
-import { cmdFlowRun } from "./commands/flow.js";
+import { cmdUiAssertVisible, cmdUiAudit, cmdUiDiff, cmdUiFind, cmdUiGesture, cmdUiPress, cmdUiScreenshotCompare, cmdUiScrollTo, cmdUiSnapshot, cmdUiSwipe, cmdUiTap, cmdUiType, cmdUiWait } from "./commands/ui.js";
+import { cmdFlowLint, cmdFlowRecordStart, cmdFlowRecordStop, cmdFlowRun } from "./commands/flow.js";
 import { cmdTest } from "./commands/test.js";
 import { cmdGC } from "./commands/gc.js";
+import { cmdRunsExport, cmdRunsImport, cmdRunsLast, cmdRunsList, cmdRunsPath, cmdRunsShow, cmdRunsStats } from "./commands/runs.js";
 import { cmdLogsTail } from "./commands/logs.js";
-import { cmdLiveStart, cmdLiveStatus, cmdLiveStop, cmdRepl } from "./commands/live.js";
+import { cmdLiveServe, cmdLiveStart, cmdLiveStatus, cmdLiveStop, cmdRepl } from "./commands/live.js";
 
 function isGroupCommand(cmd: string): boolean {
-  return ["session", "device", "app", "ui", "flow", "logs", "live"].includes(cmd);
+  return ["session", "device", "app", "ui", "flow", "logs", "live", "runs"].includes(cmd);
 }
 
 function deriveCommandName(rest: string[]): string {
@@ -50,9 +62,9 @@ function helpKeyFromArgs(args: string[]): string {
   return cmd;
 }
 
-function printHelp(key: string): void {
+function printHelp(key: string, sink: OutputSink = processSink): void {
   const text = getHelpText(key) ?? getHelpText("") ?? "";
-  process.stdout.write(text);
+  sink.stdout(text);
 }
 
 function splitPositionalPrefix(args: string[]): { positionals: string[]; rest: string[] } {
@@ -136,7 +148,26 @@ function parseGlobalArgsLenient(argv: string[]): ParsedGlobal {
   return { globals, rest };
 }
 
+// Forwards the invocation to the session's Live process when one is running. Returns null to run locally.
+async function routeThroughLive(argv: string[]): Promise<number | null> {
+  const { globals, rest } = parseGlobalArgsLenient(argv);
+  if (globals.help || !rest[0] || !LIVE_ROUTED_COMMANDS.has(rest[0])) return null;
+  // Recordings are tied to a recorder process signalled by pid, so they always run in the invoking process.
+  if (rest[0] === "device" && rest[1] === "record") return null;
+  return await execThroughLive(globals.session, argv, processSink);
+}
+
 export async function main(argv: string[]): Promise<void> {
+  const routed = await routeThroughLive(argv);
+  if (routed !== null) {
+    process.exitCode = routed;
+    return;
+  }
+  process.exitCode = await runCli(argv, processSink);
+}
+
+// Runs one CLI invocation in this process, writing all output to sink. Live mode calls this per request.
+async function runCli(argv: string[], sink: OutputSink): Promise<number> {
   const startedAt = new Date();
 
   // Best-effort parse so we can still respect structured output flags if global parsing fails.
@@ -146,179 +177,258 @@ export async function main(argv: string[]): Promise<void> {
   // repl defaults to jsonl.
   if (rest[0] === "repl" && mode === "human") mode = "jsonl";
 
-  let io = new CommandIO({ mode, quiet: globals.quiet, verbose: globals.verbose });
+  let io = new CommandIO({ mode, quiet: globals.quiet, verbose: globals.verbose }, sink);
 
   try {
     ({ globals, rest } = parseGlobalArgs(argv));
     mode = globals.jsonl ? "jsonl" : globals.json ? "json" : "human";
     if (rest[0] === "repl" && mode === "human") mode = "jsonl";
-    io = new CommandIO({ mode, quiet: globals.quiet, verbose: globals.verbose });
+    io = new CommandIO({ mode, quiet: globals.quiet, verbose: globals.verbose }, sink);
 
     if (globals.help) {
       const key = helpKeyFromArgs(rest);
-      printHelp(key);
-      process.exitCode = 0;
-      return;
+      printHelp(key, sink);
+      return 0;
     }
 
     if (rest.length === 0) {
-      printHelp("");
-      process.exitCode = 2;
-      return;
+      printHelp("", sink);
+      return 2;
     }
 
-    const [commandRaw, ...argsRaw] = rest;
-    if (!commandRaw) {
-      printHelp("");
-      process.exitCode = 2;
-      return;
+    return await dispatch(rest, globals, io);
+  } catch (err) {
+    return reportError(err, { rest, globals, io, startedAt });
+  }
+}
+
+// Runs one repl request through the same command table as the CLI. Output is always jsonl, tagged with the id.
+async function runReplRequest(request: ReplRequest, sessionName: string, sink: OutputSink): Promise<number> {
+  const startedAt = new Date();
+  const io = new CommandIO({ mode: "jsonl", quiet: false, verbose: false }, sink, request.id);
+  let globals: GlobalArgs = { session: sessionName, json: false, jsonl: true, quiet: false, verbose: false, help: false };
+  let rest = request.argv;
+
+  try {
+    ({ globals, rest } = parseGlobalArgs(["--session", sessionName, ...request.argv]));
+    io.config.verbose = globals.verbose;
+    if (globals.help) throw usageError("--help is not available in repl; run `mobile-dev-agent <command> --help` instead.");
+    const [cmd, sub] = rest;
+    if (cmd === "repl") throw usageError("repl cannot run inside repl");
+    if (cmd === "live" && sub === "serve") throw usageError("live serve cannot run inside repl");
+    if (cmd === "device" && sub === "record" && rest[2] === "serve") throw usageError("device record serve cannot run inside repl");
+    if (cmd === "flow" && sub === "run" && !rest.some((t) => t === "--flow" || t.startsWith("--flow="))) {
+      throw usageError("flow run inside repl requires --flow <path> (stdin carries repl requests).");
     }
+    if (cmd === "flow" && sub === "lint" && !rest.slice(2).some((t, i, a) => !t.startsWith("-") && a[i - 1] !== "--app-id")) {
+      throw usageError("flow lint inside repl requires a flow file (stdin carries repl requests).");
+    }
+    return await dispatch(rest, globals, io);
+  } catch (err) {
+    return reportError(err, { rest, globals, io, startedAt });
+  }
+}
+
+async function dispatch(rest: string[], globals: GlobalArgs, io: CommandIO): Promise<number> {
+  let exitCode = 0;
+
+  const [commandRaw, ...argsRaw] = rest;
+  if (!commandRaw) {
+    printHelp("", io.sink);
+    return 2;
+  }
 
-    const runAndExit = async (p: Promise<{ envelope: any; exitCode: number }>): Promise<void> => {
-      const { envelope, exitCode } = await p;
-      io.result(envelope);
-      process.exitCode = exitCode;
-    };
-
-    const group = async (
-      label: string,
-      args: string[],
-      handlers: Record<string, (argv: string[]) => Promise<{ envelope: any; exitCode: number }>>
-    ): Promise<void> => {
+  const runAndExit = async (p: Promise<{ envelope: any; exitCode: number }>): Promise<void> => {
+    const result = await p;
+    io.result(result.envelope);
+    exitCode = result.exitCode;
+  };
+
+  const group = async (
+    label: string,
+    args: string[],
+    handlers: Record<string, (argv: string[]) => Promise<{ envelope: any; exitCode: number }>>
+  ): Promise<void> => {
+    const [sub, ...subArgs] = args;
+    if (!sub) throw new CLIError(`${label} requires a subcommand`, { exitCode: 2 });
+    const h = handlers[sub];
+    if (!h) throw new CLIError(`Unknown ${label} subcommand: ${sub}`, { exitCode: 2 });
+    await runAndExit(h(subArgs));
+  };
+
+  const commands: Record<string, (args: string[]) => Promise<void>> = {
+    doctor: async (args) => runAndExit(cmdDoctor({ argv: args, sessionName: globals.session, io })),
+    test: async (args) => runAndExit(cmdTest({ argv: args, sessionName: globals.session, io })),
+    gc: async (args) => runAndExit(cmdGC({ argv: args, sessionName: globals.session, io })),
+    runs: async (args) =>
+      group("runs", args, {
+        list: (a) => cmdRunsList({ argv: a, sessionName: globals.session, io }),
+        show: (a) => cmdRunsShow({ argv: a, sessionName: globals.session, io }),
+        last: (a) => cmdRunsLast({ argv: a, sessionName: globals.session, io }),
+        path: (a) => cmdRunsPath({ argv: a, sessionName: globals.session, io }),
+        stats: (a) => cmdRunsStats({ argv: a, sessionName: globals.session, io }),
+        export: (a) => cmdRunsExport({ argv: a, sessionName: globals.session, io }),
+        import: (a) => cmdRunsImport({ argv: a, sessionName: globals.session, io }),
+      }),
+    repl: async (args) =>
+      runAndExit(
+        cmdRepl({
+          argv: args,
+          sessionName: globals.session,
+          io,
+          execute: (request, sink) => runReplRequest(request, globals.session, sink),
+        })
+      ),
+    session: async (args) =>
+      group("session", args, {
+        show: (a) => cmdSessionShow({ argv: a, sessionName: globals.session, io }),
+        set: (a) => cmdSessionSet({ argv: a, sessionName: globals.session, io }),
+        unset: async (a) => {
+          const [key, ...restArgs] = a;
+          if (!key) throw new CLIError("session unset requires <key>", { exitCode: 2 });
+          return await cmdSessionUnset({ argv: restArgs, sessionName: globals.session, io, key });
+        },
+        reset: (a) => cmdSessionReset({ argv: a, sessionName: globals.session, io }),
+      }),
+    device: async (args) =>
+      group("device", args, {
+        list: (a) => cmdDeviceList({ argv: a, sessionName: globals.session, io }),
+        boot: (a) => cmdDeviceBoot({ argv: a, sessionName: globals.session, io }),
+        shutdown: (a) => cmdDeviceShutdown({ argv: a, sessionName: globals.session, io }),
+        erase: (a) => cmdDeviceErase({ argv: a, sessionName: globals.session, io }),
+        screenshot: (a) => cmdDeviceScreenshot({ argv: a, sessionName: globals.session, io }),
+        record: async (a) => {
+          const [action, ...actionArgs] = a;
+          if (action === "start") return await cmdDeviceRecordStart({ argv: actionArgs, sessionName: globals.session, io });
+          if (action === "stop") return await cmdDeviceRecordStop({ argv: actionArgs, sessionName: globals.session, io });
+          if (action === "serve") return await cmdDeviceRecordServe({ argv: actionArgs, sessionName: globals.session, io });
+          throw new CLIError(action ? `Unknown device record action: ${action}` : "device record requires start|stop", { exitCode: 2 });
+        },
+      }),
+    app: async (args) =>
+      group("app", args, {
+        "build-ios": (a) => cmdAppBuildIOS({ argv: a, sessionName: globals.session, io }),
+        install: (a) => cmdAppInstall({ argv: a, sessionName: globals.session, io }),
+        uninstall: (a) => cmdAppUninstall({ argv: a, sessionName: globals.session, io }),
+        launch: (a) => cmdAppLaunch({ argv: a, sessionName: globals.session, io }),
+        terminate: (a) => cmdAppTerminate({ argv: a, sessionName: globals.session, io }),
+        id: (a) => cmdAppId({ argv: a, sessionName: globals.session, io }),
+      }),
+    ui: async (args) => {
       const [sub, ...subArgs] = args;
-      if (!sub) throw new CLIError(`${label} requires a subcommand`, { exitCode: 2 });
-      const h = handlers[sub];
-      if (!h) throw new CLIError(`Unknown ${label} subcommand: ${sub}`, { exitCode: 2 });
-      await runAndExit(h(subArgs));
-    };
-
-    const commands: Record<string, (args: string[]) => Promise<void>> = {
-      doctor: async (args) => runAndExit(cmdDoctor({ argv: args, sessionName: globals.session, io })),
-      test: async (args) => runAndExit(cmdTest({ argv: args, sessionName: globals.session, io })),
-      gc: async (args) => runAndExit(cmdGC({ argv: args, sessionName: globals.session, io })),
-      repl: async (args) => runAndExit(cmdRepl({ argv: args, sessionName: globals.session, io })),
-      session: async (args) =>
-        group("session", args, {
-          show: (a) => cmdSessionShow({ argv: a, sessionName: globals.session, io }),
-          set: (a) => cmdSessionSet({ argv: a, sessionName: globals.session, io }),
-          unset: async (a) => {
-            const [key, ...restArgs] = a;
-            if (!key) throw new CLIError("session unset requires <key>", { exitCode: 2 });
-            return await cmdSessionUnset({ argv: restArgs, sessionName: globals.session, io, key });
-          },
-          reset: (a) => cmdSessionReset({ argv: a, sessionName: globals.session, io }),
-        }),
-      device: async (args) =>
-        group("device", args, {
-          list: (a) => cmdDeviceList({ argv: a, sessionName: globals.session, io }),
-          boot: (a) => cmdDeviceBoot({ argv: a, sessionName: globals.session, io }),
-          shutdown: (a) => cmdDeviceShutdown({ argv: a, sessionName: globals.session, io }),
-          erase: (a) => cmdDeviceErase({ argv: a, sessionName: globals.session, io }),
-          screenshot: (a) => cmdDeviceScreenshot({ argv: a, sessionName: globals.session, io }),
-        }),
-      app: async (args) =>
-        group("app", args, {
-          "build-ios": (a) => cmdAppBuildIOS({ argv: a, sessionName: globals.session, io }),
-          install: (a) => cmdAppInstall({ argv: a, sessionName: globals.session, io }),
-          uninstall: (a) => cmdAppUninstall({ argv: a, sessionName: globals.session, io }),
-          launch: (a) => cmdAppLaunch({ argv: a, sessionName: globals.session, io }),
-          terminate: (a) => cmdAppTerminate({ argv: a, sessionName: globals.session, io }),
-          id: (a) => cmdAppId({ argv: a, sessionName: globals.session, io }),
-        }),
-      ui: async (args) => {
-        const [sub, ...subArgs] = args;
-        if (!sub) throw new CLIError("ui requires a subcommand", { exitCode: 2 });
-        if (sub === "snapshot") return await runAndExit(cmdUiSnapshot({ argv: subArgs, sessionName: globals.session, io }));
-        if (sub === "tap") return await runAndExit(cmdUiTap({ argv: subArgs, sessionName: globals.session, io, selectorToken: null }));
-        if (sub === "type") {
-          const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
-          if (positionals.length === 0) throw new CLIError('ui type requires a "<text>" argument', { exitCode: 2 });
-          return await runAndExit(cmdUiType({ argv: optArgs, sessionName: globals.session, io, textArgs: positionals }));
-        }
-        if (sub === "press") {
-          const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
-          const key = positionals[0];
-          if (!key) throw new CLIError("ui press requires <key>", { exitCode: 2 });
-          return await runAndExit(cmdUiPress({ argv: optArgs, sessionName: globals.session, io, key }));
-        }
-        if (sub === "swipe") {
-          const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
-          const dir = positionals[0];
-          if (!dir) throw new CLIError("ui swipe requires <direction|coords>", { exitCode: 2 });
-          return await runAndExit(cmdUiSwipe({ argv: optArgs, sessionName: globals.session, io, directionOrCoords: dir }));
-        }
-        if (sub === "assert-visible" || sub === "assert-not-visible") {
-          const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
-          const query = positionals.join(" ");
-          if (!query) throw new CLIError(`ui ${sub} requires a "<query>" argument`, { exitCode: 2 });
-          return await runAndExit(
-            cmdUiAssertVisible({ argv: optArgs, sessionName: globals.session, io, query, negate: sub === "assert-not-visible" })
-          );
-        }
-        if (sub === "find") {
-          if (subArgs.length === 0) throw new CLIError("ui find requires <action>", { exitCode: 2 });
-          const action = subArgs[subArgs.length - 1]!;
-          const optArgs = subArgs.slice(0, -1);
-          return await runAndExit(cmdUiFind({ argv: optArgs, sessionName: globals.session, io, action }));
-        }
-        throw new CLIError(`Unknown ui subcommand: ${sub}`, { exitCode: 2 });
-      },
-      flow: async (args) =>
-        group("flow", args, {
-          run: (a) => cmdFlowRun({ argv: a, sessionName: globals.session, io }),
-        }),
-      logs: async (args) =>
-        group("logs", args, {
-          tail: (a) => cmdLogsTail({ argv: a, sessionName: globals.session, io }),
-        }),
-      live: async (args) =>
-        group("live", args, {
-          start: (a) => cmdLiveStart({ argv: a, sessionName: globals.session, io }),
-          status: (a) => cmdLiveStatus({ argv: a, sessionName: globals.session, io }),
-          stop: (a) => cmdLiveStop({ argv: a, sessionName: globals.session, io }),
-        }),
-    };
-
-    const handler = commands[commandRaw];
-    if (!handler) throw new CLIError(`Unknown command: ${commandRaw}`, { exitCode: 2 });
-    await handler(argsRaw);
-    return;
-  } catch (err) {
-    const normalized = normalizeError(err);
-    const exitCode = getExitCode(err);
-    const commandName = deriveCommandName(rest);
-    const durationMs = Date.now() - startedAt.getTime();
-    const details = [...normalized.details];
-    if (globals.verbose && err instanceof Error && err.stack) {
-      const lines = err.stack.split("\n").slice(0, 12).map((l) => l.trim()).filter(Boolean);
-      details.push(...lines.map((l) => `Stack: ${l}`));
-    }
+      if (!sub) throw new CLIError("ui requires a subcommand", { exitCode: 2 });
+      if (sub === "snapshot") return await runAndExit(cmdUiSnapshot({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "tap") return await runAndExit(cmdUiTap({ argv: subArgs, sessionName: globals.session, io, selectorToken: null }));
+      if (sub === "type") {
+        const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
+        if (positionals.length === 0) throw new CLIError('ui type requires a "<text>" argument', { exitCode: 2 });
+        return await runAndExit(cmdUiType({ argv: optArgs, sessionName: globals.session, io, textArgs: positionals }));
+      }
+      if (sub === "press") {
+        const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
+        const key = positionals[0];
+        if (!key) throw new CLIError("ui press requires <key>", { exitCode: 2 });
+        return await runAndExit(cmdUiPress({ argv: optArgs, sessionName: globals.session, io, key }));
+      }
+      if (sub === "swipe") {
+        const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
+        const dir = positionals[0];
+        if (!dir) throw new CLIError("ui swipe requires <direction|coords>", { exitCode: 2 });
+        return await runAndExit(cmdUiSwipe({ argv: optArgs, sessionName: globals.session, io, directionOrCoords: dir }));
+      }
+      if (sub === "long-press" || sub === "double-tap" || sub === "drag" || sub === "pinch") {
+        const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
+        return await runAndExit(cmdUiGesture({ argv: optArgs, sessionName: globals.session, io, kind: sub, selectorTokens: positionals }));
+      }
+      if (sub === "assert-visible" || sub === "assert-not-visible") {
+        const { positionals, rest: optArgs } = splitPositionalPrefix(subArgs);
+        const query = positionals.join(" ");
+        if (!query) throw new CLIError(`ui ${sub} requires a "<query>" argument`, { exitCode: 2 });
+        return await runAndExit(
+          cmdUiAssertVisible({ argv: optArgs, sessionName: globals.session, io, query, negate: sub === "assert-not-visible" })
+        );
+      }
+      if (sub === "diff") return await runAndExit(cmdUiDiff({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "scroll-to") return await runAndExit(cmdUiScrollTo({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "audit") return await runAndExit(cmdUiAudit({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "screenshot-compare") return await runAndExit(cmdUiScreenshotCompare({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "wait") return await runAndExit(cmdUiWait({ argv: subArgs, sessionName: globals.session, io }));
+      if (sub === "find") {
+        if (subArgs.length === 0) throw new CLIError("ui find requires <action>", { exitCode: 2 });
+        const action = subArgs[subArgs.length - 1]!;
+        const optArgs = subArgs.slice(0, -1);
+        return await runAndExit(cmdUiFind({ argv: optArgs, sessionName: globals.session, io, action }));
+      }
+      throw new CLIError(`Unknown ui subcommand: ${sub}`, { exitCode: 2 });
+    },
+    flow: async (args) =>
+      group("flow", args, {
+        run: (a) => cmdFlowRun({ argv: a, sessionName: globals.session, io }),
+        lint: (a) => cmdFlowLint({ argv: a, sessionName: globals.session, io }),
+        record: async (a) => {
+          const [action, ...actionArgs] = a;
+          if (action === "start") return await cmdFlowRecordStart({ argv: actionArgs, sessionName: globals.session, io });
+          if (action === "stop") return await cmdFlowRecordStop({ argv: actionArgs, sessionName: globals.session, io });
+          throw new CLIError(action ? `Unknown flow record action: ${action}` : "flow record requires start|stop", { exitCode: 2 });
+        },
+      }),
+    logs: async (args) =>
+      group("logs", args, {
+        tail: (a) => cmdLogsTail({ argv: a, sessionName: globals.session, io }),
+      }),
+    live: async (args) =>
+      group("live", args, {
+        start: (a) => cmdLiveStart({ argv: a, sessionName: globals.session, io }),
+        status: (a) => cmdLiveStatus({ argv: a, sessionName: globals.session, io }),
+        stop: (a) => cmdLiveStop({ argv: a, sessionName: globals.session, io }),
+        serve: (a) => cmdLiveServe({ argv: a, sessionName: globals.session, io, execute: runCli }),
+      }),
+  };
 
-    if (io.config.mode === "human" && !io.config.quiet) {
-      io.error([`Error: ${normalized.message}`, ...details]);
-      if (exitCode === 2) io.error("");
-      if (exitCode === 2) printHelp("");
-    }
+  const handler = commands[commandRaw];
+  if (!handler) throw new CLIError(`Unknown command: ${commandRaw}`, { exitCode: 2 });
+  await handler(argsRaw);
+  return exitCode;
+}
 
-    // For structured modes, command handlers typically emit a structured envelope.
-    // If we got here, we didn't manage to.
-    if (io.config.mode !== "human") {
-      io.result({
-        ok: false,
-        version: getVersionString(),
-        command: { name: commandName, argv: rest },
-        session: globals.session,
-        platform: null,
-        timing: { started_at: startedAt.toISOString(), duration_ms: durationMs },
-        run_dir: null,
-        target: { device: null, app: null },
-        artifacts: [],
-        data: {},
-        error: { code: normalized.code, message: normalized.message, details },
-        next_steps: [],
-      });
-    }
+function reportError(
+  err: unknown,
+  { rest, globals, io, startedAt }: { rest: string[]; globals: GlobalArgs; io: CommandIO; startedAt: Date }
+): number {
+  const normalized = normalizeError(err);
+  const exitCode = getExitCode(err);
+  const commandName = deriveCommandName(rest);
+  const durationMs = Date.now() - startedAt.getTime();
+  const details = [...normalized.details];
+  if (globals.verbose && err instanceof Error && err.stack) {
+    const lines = err.stack.split("\n").slice(0, 12).map((l) => l.trim()).filter(Boolean);
+    details.push(...lines.map((l) => `Stack: ${l}`));
+  }
 
-    process.exitCode = exitCode;
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.error([`Error: ${normalized.message}`, ...details]);
+    if (exitCode === 2) io.error("");
+    if (exitCode === 2) printHelp("", io.sink);
   }
+
+  // For structured modes, command handlers typically emit a structured envelope.
+  // If we got here, we didn't manage to.
+  if (io.config.mode !== "human") {
+    io.result({
+      ok: false,
+      version: getVersionString(),
+      command: { name: commandName, argv: rest },
+      session: globals.session,
+      platform: null,
+      timing: { started_at: startedAt.toISOString(), duration_ms: durationMs },
+      run_dir: null,
+      target: { device: null, app: null },
+      artifacts: [],
+      data: {},
+      error: { code: normalized.code, message: normalized.message, details },
+      next_steps: [],
+    });
+  }
+
+  return exitCode;
 }
@@ -16,8 +16,21 @@ import {
 import { flattenIOSDevices } from "../lib/simctl.js";
 import { ensureDir } from "../lib/paths.js";
 import { readSession } from "../lib/session.js";
-import { usageError } from "../lib/cliError.js";
+import { CLIError, usageError } from "../lib/cliError.js";
 import { parsePlatform, parsePlatformOrAll } from "../lib/platform.js";
+import { parseDurationMs } from "../lib/duration.js";
+import { isProcessAlive } from "../lib/live.js";
+import {
+  clearRecordingState,
+  readRecorderOutcome,
+  readRecordingState,
+  runRecorder,
+  spawnRecorder,
+  stopRecorder,
+  writeRecorderOutcome,
+  writeRecordingState,
+  type RecorderOutcome,
+} from "../lib/recording.js";
 
 type DeviceListValues = { platform?: string };
 
@@ -371,3 +384,226 @@ export async function cmdDeviceScreenshot({
 
   return { envelope, exitCode: 0 };
 }
+
+type DeviceRecordStartValues = { platform?: string; device?: string; duration?: string };
+
+export async function cmdDeviceRecordStart({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+      duration: { type: "string" },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: DeviceRecordStartValues };
+
+  const platform = parsePlatform(values.platform || "ios");
+  const durationMs = values.duration ? parseDurationMs(values.duration, "--duration") : null;
+
+  const existing = await readRecordingState(sessionName);
+  if (existing && isProcessAlive(existing.pid)) {
+    throw new CLIError(`A recording is already in progress for this session (pid=${existing.pid}).`, {
+      exitCode: 1,
+      code: "RECORDING_ACTIVE",
+      details: ["Stop it first: mobile-dev-agent device record stop"],
+    });
+  }
+
+  let targetDevice: NonNullable<ResultEnvelope["target"]["device"]>;
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(values.device?.trim() || "booted");
+    if (device.state !== "Booted") throw new CLIError(`iOS device is not booted (${device.name}).`, { exitCode: 1 });
+    targetDevice = { platform: "ios", id: device.udid, name: device.name };
+  } else {
+    const device = await resolveAndroidDevice(values.device);
+    targetDevice = { platform: "android", id: device.id, name: null };
+  }
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  const pid = await spawnRecorder(sessionName, { platform, deviceId: targetDevice.id, runDir, durationMs });
+  await writeRecordingState(sessionName, {
+    pid,
+    platform,
+    device_id: targetDevice.id,
+    run_dir: runDir,
+    started_at: startedAt.toISOString(),
+    duration_ms: durationMs,
+  });
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "device.record.start",
+    command_argv: ["device", "record", "start", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: targetDevice, app: null },
+    artifacts: run.artifacts,
+    data: { recording: true, pid, duration_ms: durationMs },
+    error: null,
+    next_steps: [{ label: "Stop the recording and collect the video", argv: ["device", "record", "stop"] }],
+  });
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([`Recording started (pid=${pid})${durationMs !== null ? `; stops after ${values.duration}` : ""}.`, `Run dir: ${runDir}`]);
+  }
+  return { envelope, exitCode: 0 };
+}
+
+export async function cmdDeviceRecordStop({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  parseArgs({ args: argv, options: {}, allowPositionals: false, strict: true });
+
+  const state = await readRecordingState(sessionName);
+  if (!state) {
+    throw new CLIError("No recording in progress for this session.", {
+      exitCode: 1,
+      code: "NOT_RECORDING",
+      details: ["Start one with: mobile-dev-agent device record start"],
+    });
+  }
+  await stopRecorder(state);
+  await clearRecordingState(sessionName);
+
+  const outcome = await readRecorderOutcome(state.run_dir);
+  if (!outcome || outcome.status !== "done") {
+    throw new CLIError(`Recording failed: ${outcome?.error ?? "the recorder exited without a result"}`, {
+      exitCode: 1,
+      code: "RECORDING_FAILED",
+      details: [`Recorder log: ${path.join(state.run_dir, "logs", "recorder.log")}`],
+    });
+  }
+
+  const run = new RunContext(state.run_dir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+  for (const file of outcome.files) run.artifact({ type: "video", path: file, mime: "video/mp4" });
+  for (const warning of outcome.warnings) io.event({ type: "event", ts: new Date().toISOString(), event: "warning", data: { message: warning } });
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "device.record.stop",
+    command_argv: ["device", "record", "stop", ...argv],
+    session: sessionName,
+    platform: state.platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: state.run_dir,
+    target: { device: { platform: state.platform, id: state.device_id, name: null }, app: null },
+    artifacts: run.artifacts,
+    data: {
+      recording: false,
+      pid: state.pid,
+      recorded_ms: Date.now() - new Date(state.started_at).getTime(),
+      stopped_by: outcome.stopped_by,
+      files: outcome.files,
+      chunks: outcome.chunks,
+      stitched: outcome.stitched,
+      warnings: outcome.warnings,
+    },
+    error: null,
+    next_steps: [],
+  });
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([...outcome.files.map((f) => `Video saved: ${f}`), ...outcome.warnings.map((w) => `Warning: ${w}`)]);
+  }
+  return { envelope, exitCode: 0 };
+}
+
+type DeviceRecordServeValues = { platform?: string; "device-id"?: string; "run-dir"?: string; "duration-ms"?: string };
+
+// Internal: the body of the detached recorder spawned by `device record start`. Its stdout/stderr is logs/recorder.log.
+export async function cmdDeviceRecordServe({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      platform: { type: "string" },
+      "device-id": { type: "string" },
+      "run-dir": { type: "string" },
+      "duration-ms": { type: "string" },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: DeviceRecordServeValues };
+
+  const platform = parsePlatform(values.platform || "");
+  const deviceId = values["device-id"]?.trim();
+  const runDir = values["run-dir"]?.trim();
+  if (!deviceId || !runDir) throw usageError("device record serve requires --device-id and --run-dir");
+  const durationMs = values["duration-ms"] ? parseDurationMs(values["duration-ms"], "--duration-ms") : null;
+
+  const run = new RunContext(runDir);
+  const stopRequested = new Promise<void>((resolve) => {
+    process.once("SIGINT", () => resolve());
+    process.once("SIGTERM", () => resolve());
+  });
+
+  let outcome: RecorderOutcome;
+  try {
+    outcome = await runRecorder(run, platform, {
+      deviceId,
+      durationMs,
+      stopRequested,
+      onStarted: () =>
+        writeRecorderOutcome(runDir, { status: "recording", files: [], chunks: 0, stitched: false, stopped_by: null, error: null, warnings: [] }),
+    });
+  } catch (e) {
+    outcome = { status: "failed", files: [], chunks: 0, stitched: false, stopped_by: null, error: String(e), warnings: [] };
+  }
+  await writeRecorderOutcome(runDir, outcome);
+
+  const envelope = createEnvelope({
+    ok: outcome.status === "done",
+    command_name: "device.record.serve",
+    command_argv: ["device", "record", "serve", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    artifacts: [],
+    data: outcome,
+    error: null,
+    next_steps: [],
+  });
+  if (io.config.mode === "human" && !io.config.quiet) io.human([`Recorder finished: ${outcome.status}`]);
+  return { envelope, exitCode: outcome.status === "done" ? 0 : 1 };
+}
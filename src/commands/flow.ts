@@ -7,10 +7,15 @@ import type { CommandIO } from "../lib/io.js";
 import { createRunDir, RunContext } from "../lib/run.js";
 import { parseEnvList } from "../lib/env.js";
 import { readSession } from "../lib/session.js";
-import { usageError } from "../lib/cliError.js";
+import { CLIError, usageError } from "../lib/cliError.js";
 import { parsePlatform } from "../lib/platform.js";
 import { resolveAndroidDevice, resolveIOSDeviceSelector } from "../lib/deviceResolver.js";
 import { simctlBoot, simctlBootStatus } from "../lib/simctl.js";
+import { startDeviceLogCapture } from "../lib/deviceLog.js";
+import { clearFlowRecording, readFlowRecording, renderMaestroFlow, writeFlowRecording, type FlowRecording } from "../lib/flowRecord.js";
+import { ensureDir } from "../lib/paths.js";
+import { collectMaestroResults, describeFlowFailure } from "../lib/maestroResults.js";
+import { flowInvalidError, formatLintIssue, lintFlow, type FlowLintResult } from "../lib/flowLint.js";
 
 function readStdinOrNull(): string | null {
   if (process.stdin.isTTY) return null;
@@ -35,6 +40,9 @@ type FlowRunValues = {
   output?: string;
   "no-reinstall-driver"?: boolean;
   env?: string[];
+  "device-logs"?: boolean;
+  "no-device-logs"?: boolean;
+  "no-lint"?: boolean;
 };
 
 export async function cmdFlowRun({
@@ -60,13 +68,16 @@ export async function cmdFlowRun({
       output: { type: "string" },
       "no-reinstall-driver": { type: "boolean", default: false },
       env: { type: "string", multiple: true, default: [] },
+      "device-logs": { type: "boolean", default: false },
+      "no-device-logs": { type: "boolean", default: false },
+      "no-lint": { type: "boolean", default: false },
     },
     allowPositionals: true,
     strict: true,
   }) as { values: FlowRunValues };
 
-  const stdinSteps = readStdinOrNull();
-  if (stdinSteps && values.flow) throw usageError("Provide either stdin steps OR --flow, not both.");
+  // With --flow, stdin is left alone: inside repl it carries the requests.
+  const stdinSteps = values.flow ? null : readStdinOrNull();
   if (!stdinSteps && !values.flow) throw usageError("Provide steps via stdin or pass --flow <path>.");
 
   const platform = parsePlatform(values.platform || "ios");
@@ -82,6 +93,12 @@ export async function cmdFlowRun({
   await fs.writeFile(flowPath, flowYaml, "utf8");
   run.artifact({ type: "flow", path: flowPath, mime: "application/x-yaml" });
 
+  // Lint the file Maestro will get, so runFlow includes resolve the way Maestro resolves them.
+  if (!values["no-lint"]) {
+    const lint = await lintFlow(flowYaml, flowPath);
+    if (!lint.ok) throw flowInvalidError(lint);
+  }
+
   const fmt = String(values.format || "noop").trim().toLowerCase();
   if (!["noop", "junit", "html"].includes(fmt)) throw usageError(`Invalid --format: ${values.format} (expected noop, junit, or html)`);
 
@@ -133,7 +150,13 @@ export async function cmdFlowRun({
   if (values["no-reinstall-driver"]) maestroArgs.push("--no-reinstall-driver");
   maestroArgs.push(flowPath);
 
+  // Device logs are on by default for --jsonl callers (agents), opt-in otherwise.
+  const captureDeviceLogs = !values["no-device-logs"] && (Boolean(values["device-logs"]) || io.config.mode === "jsonl");
+  const deviceLogs = captureDeviceLogs ? await startDeviceLogCapture(run, { platform, deviceId }) : null;
   const res = await run.execLogged("maestro", "test", "maestro", maestroArgs, { env, timeoutMs: 60 * 60 * 1000 });
+  const deviceLog = await deviceLogs?.stop();
+  const results = await collectMaestroResults(run, { reportPath: fmt === "junit" ? outputPath : null, debugDir: debugOutput });
+  const failedFlows = results.flows.filter((f) => f.status === "failed");
 
   const ok = res.ok;
   const envelope = createEnvelope({
@@ -153,8 +176,13 @@ export async function cmdFlowRun({
       flow: flowPath,
       report: outputPath,
       command: ["maestro", ...maestroArgs].join(" "),
+      device_log: deviceLog?.path ?? null,
+      summary: results.summary,
+      flows: results.flows,
     },
-    error: ok ? null : { code: "PROCESS_FAILED", message: "flow failed", details: [`code=${res.code ?? "unknown"}`] },
+    error: ok
+      ? null
+      : { code: "PROCESS_FAILED", message: "flow failed", details: [`code=${res.code ?? "unknown"}`, ...failedFlows.map((f) => describeFlowFailure(f))] },
     next_steps: ok
       ? [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }]
       : [{ label: "Retry", argv: ["flow", "run", ...argv] }],
@@ -164,8 +192,203 @@ export async function cmdFlowRun({
   envelope.artifacts = run.artifacts;
 
   if (io.config.mode === "human" && !io.config.quiet) {
-    io.human([ok ? "Maestro run succeeded." : `Maestro run failed (code=${res.code}).`, `Flow: ${flowPath}`, `Run: ${runDir}`]);
+    io.human([
+      ok ? "Maestro run succeeded." : `Maestro run failed (code=${res.code}).`,
+      ...failedFlows.map((f) => `  ${describeFlowFailure(f)}`),
+      `Flow: ${flowPath}`,
+      `Run: ${runDir}`,
+    ]);
   }
 
   return { envelope, exitCode: ok ? 0 : 1 };
 }
+
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+type FlowLintValues = { "app-id"?: string };
+
+// Checks a flow the way `flow run` would hand it to Maestro: with the session's appId header added when missing.
+export async function cmdFlowLint({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<FlowLintResult>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { "app-id": { type: "string" } },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: FlowLintValues; positionals: string[] };
+
+  if (positionals.length > 1) throw usageError("flow lint takes a single flow file (or stdin).");
+  const file = positionals[0] ? path.resolve(positionals[0]) : null;
+  const stdinSteps = file ? null : readStdinOrNull();
+  if (!file && !stdinSteps) throw usageError("Provide a flow file or pipe steps via stdin.");
+
+  const content = file ? await fs.readFile(file, "utf8").catch(() => null) : stdinSteps!;
+  if (content === null) throw usageError(`Flow file does not exist: ${positionals[0]}`);
+  const appId = values["app-id"]?.trim() || session.defaults.app?.app_id || null;
+  // Stdin flows have no location of their own; includes resolve from the working directory.
+  const stdinPath = path.resolve("<stdin>");
+  const result = await lintFlow(content, file ?? stdinPath, { appId });
+  for (const i of result.issues) if (i.file === stdinPath) i.file = "<stdin>";
+  result.files = result.files.map((f) => (f === stdinPath ? "<stdin>" : f));
+  const errors = result.issues.filter((i) => i.severity === "error");
+
+  const envelope = createEnvelope({
+    ok: result.ok,
+    command_name: "flow.lint",
+    command_argv: ["flow", "lint", ...argv],
+    session: sessionName,
+    platform: session.defaults.platform ?? null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    target: { device: null, app: { app_id: appId, app_path: null } },
+    artifacts: [],
+    data: result,
+    error: result.ok
+      ? null
+      : { code: "FLOW_INVALID", message: `${errors.length} lint error${errors.length === 1 ? "" : "s"}`, details: errors.map((i) => formatLintIssue(i)) },
+    next_steps: result.ok && file ? [{ label: "Run the flow", argv: ["flow", "run", "--flow", file] }] : [],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    const warnings = result.issues.length - errors.length;
+    io.human([
+      ...result.issues.map((i) => formatLintIssue(i)),
+      `${plural(result.commands, "command")} in ${plural(result.files.length, "file")}: ${plural(errors.length, "error")}, ${plural(warnings, "warning")}.`,
+    ]);
+  }
+  return { envelope, exitCode: result.ok ? 0 : 1 };
+}
+
+type FlowRecordStartValues = { "app-id"?: string; force?: boolean };
+
+// Starts collecting successful `ui` actions (tap, type, swipe, press, gestures, asserts) for this session.
+export async function cmdFlowRecordStart({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ recording: FlowRecording }>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "app-id": { type: "string" },
+      force: { type: "boolean", default: false },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: FlowRecordStartValues };
+
+  const existing = await readFlowRecording(sessionName);
+  if (existing && !values.force) {
+    throw new CLIError(`A flow recording is already in progress for this session (${existing.steps.length} steps).`, {
+      exitCode: 1,
+      code: "FLOW_RECORDING_ACTIVE",
+      details: ["Stop it first: mobile-dev-agent flow record stop", "Or discard it: mobile-dev-agent flow record start --force"],
+    });
+  }
+
+  const recording: FlowRecording = {
+    started_at: startedAt.toISOString(),
+    app_id: values["app-id"]?.trim() || session.defaults.app?.app_id || null,
+    steps: [],
+  };
+  await writeFlowRecording(sessionName, recording);
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "flow.record.start",
+    command_argv: ["flow", "record", "start", ...argv],
+    session: sessionName,
+    platform: session.defaults.platform ?? null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    target: { device: null, app: { app_id: recording.app_id, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: [],
+    data: { recording },
+    error: null,
+    next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) io.human(["Recording ui actions. Stop with: mobile-dev-agent flow record stop"]);
+  return { envelope, exitCode: 0 };
+}
+
+type FlowRecordStopValues = { out?: string };
+
+export async function cmdFlowRecordStop({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ flow: string; steps: number; app_id: string | null }>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: { out: { type: "string" } },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: FlowRecordStopValues };
+
+  const recording = await readFlowRecording(sessionName);
+  if (!recording) {
+    throw new CLIError("No flow recording in progress for this session.", {
+      exitCode: 1,
+      code: "NOT_RECORDING",
+      details: ["Start one with: mobile-dev-agent flow record start"],
+    });
+  }
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  const flowPath = values.out?.trim() ? path.resolve(values.out.trim()) : path.join(run.artifactsDir, "flow.yaml");
+  await ensureDir(path.dirname(flowPath));
+  await fs.writeFile(flowPath, renderMaestroFlow(recording), "utf8");
+  run.artifact({ type: "flow", path: flowPath, mime: "application/x-yaml" });
+  await clearFlowRecording(sessionName);
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "flow.record.stop",
+    command_argv: ["flow", "record", "stop", ...argv],
+    session: sessionName,
+    platform: session.defaults.platform ?? null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: null, app: { app_id: recording.app_id, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: { flow: flowPath, steps: recording.steps.length, app_id: recording.app_id },
+    error: null,
+    next_steps: [{ label: "Replay the flow", argv: ["flow", "run", "--flow", flowPath] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) io.human([`Recorded ${recording.steps.length} steps.`, `Flow: ${flowPath}`]);
+  return { envelope, exitCode: 0 };
+}
@@ -2,6 +2,7 @@ import { parseArgs } from "node:util";
 import { createEnvelope, type ResultEnvelope } from "../lib/envelope.js";
 import type { CommandIO } from "../lib/io.js";
 import { executeGC, planGC } from "../lib/gc.js";
+import { syncFlowHistory } from "../lib/flowHistory.js";
 
 type GCValues = { "dry-run"?: boolean; "keep-last"?: string; "keep-failure-days"?: string; "max-bytes"?: string };
 
@@ -40,6 +41,8 @@ export async function cmdGC({
   const maxBytes = Number(values["max-bytes"] ?? 2147483648);
 
   const plan = await planGC({ keepLast, keepFailureDays, maxBytes });
+  // Index test results first so `runs stats` keeps them after their run dirs are gone.
+  if (!dryRun && plan.delete.length > 0) await syncFlowHistory();
   await executeGC(plan, { dryRun });
 
   const envelope = createEnvelope({
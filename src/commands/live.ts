@@ -1,10 +1,29 @@
 import { parseArgs } from "node:util";
+import readline from "node:readline";
+import process from "node:process";
 import { createEnvelope, type ResultEnvelope } from "../lib/envelope.js";
-import type { CommandIO } from "../lib/io.js";
+import { CommandIO } from "../lib/io.js";
 import { CLIError } from "../lib/cliError.js";
+import { getExitCode, normalizeError } from "../lib/errors.js";
+import { getLiveLogPath } from "../lib/dirs.js";
+import { parseDurationMs } from "../lib/duration.js";
+import { cleanupStaleLive, getLiveStatus, isProcessAlive, liveRequest, spawnLiveProcess, type LiveStatus } from "../lib/live.js";
+import { serveLive, type LiveExecutor } from "../lib/liveServer.js";
+import { parseReplRequest, replRequestIdOrNull, type ReplExecutor } from "../lib/repl.js";
+import { enableWarmState } from "../lib/warm.js";
 
 type LiveStartValues = { ttl?: string };
 
+function describeStatus(status: LiveStatus): string[] {
+  return [
+    `Live mode running (pid=${status.pid})`,
+    `Socket: ${status.socket}`,
+    `Started: ${status.started_at}`,
+    `Idle expires: ${status.idle_expires_at}`,
+    `Requests: ${status.requests}`,
+  ];
+}
+
 export async function cmdLiveStart({
   argv,
   sessionName,
@@ -22,8 +41,14 @@ export async function cmdLiveStart({
     strict: true,
   }) as { values: LiveStartValues };
 
+  const ttl = values.ttl?.trim() || "10m";
+  parseDurationMs(ttl, "--ttl");
+
+  const existing = await getLiveStatus(sessionName);
+  const status = existing ?? (await spawnLiveProcess(sessionName, { ttl }));
+
   const envelope = createEnvelope({
-    ok: false,
+    ok: true,
     command_name: "live.start",
     command_argv: ["live", "start", ...argv],
     session: sessionName,
@@ -32,13 +57,18 @@ export async function cmdLiveStart({
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: null,
     artifacts: [],
-    data: { ttl: values.ttl },
-    error: { code: "NOT_IMPLEMENTED", message: "Live mode is not implemented yet.", details: [] },
-    next_steps: [],
+    data: { running: true, already_running: existing !== null, ttl, log: getLiveLogPath(sessionName), status },
+    error: null,
+    next_steps: [
+      { label: "Show Live mode status", argv: ["live", "status"] },
+      { label: "Stop Live mode", argv: ["live", "stop"] },
+    ],
   });
 
-  if (io.config.mode === "human" && !io.config.quiet) io.error(envelope.error?.message ?? "Live start failed.");
-  return { envelope, exitCode: 1 };
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([...(existing ? ["Live mode already running."] : []), ...describeStatus(status)]);
+  }
+  return { envelope, exitCode: 0 };
 }
 
 export async function cmdLiveStatus({
@@ -51,10 +81,11 @@ export async function cmdLiveStatus({
   io: CommandIO;
 }): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
   const startedAt = new Date();
-  void argv;
-  void sessionName;
+  parseArgs({ args: argv, options: {}, allowPositionals: false, strict: true });
+
+  const status = await getLiveStatus(sessionName);
   const envelope = createEnvelope({
-    ok: false,
+    ok: true,
     command_name: "live.status",
     command_argv: ["live", "status", ...argv],
     session: sessionName,
@@ -63,12 +94,21 @@ export async function cmdLiveStatus({
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: null,
     artifacts: [],
-    data: {},
-    error: { code: "NOT_IMPLEMENTED", message: "Live mode is not implemented yet.", details: [] },
-    next_steps: [],
+    data: { running: status !== null, log: getLiveLogPath(sessionName), status },
+    error: null,
+    next_steps: status ? [{ label: "Stop Live mode", argv: ["live", "stop"] }] : [{ label: "Start Live mode", argv: ["live", "start"] }],
   });
-  if (io.config.mode === "human" && !io.config.quiet) io.error(envelope.error?.message ?? "Live status failed.");
-  return { envelope, exitCode: 1 };
+  if (io.config.mode === "human" && !io.config.quiet) io.human(status ? describeStatus(status) : ["Live mode is not running."]);
+  return { envelope, exitCode: 0 };
+}
+
+async function waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() <= deadline) {
+    if (!isProcessAlive(pid)) return true;
+    await new Promise((r) => setTimeout(r, 50));
+  }
+  return !isProcessAlive(pid);
 }
 
 export async function cmdLiveStop({
@@ -81,10 +121,28 @@ export async function cmdLiveStop({
   io: CommandIO;
 }): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
   const startedAt = new Date();
-  void argv;
-  void sessionName;
+  parseArgs({ args: argv, options: {}, allowPositionals: false, strict: true });
+
+  const status = await getLiveStatus(sessionName);
+  let forced = false;
+  if (status) {
+    await liveRequest(sessionName, { id: "stop", op: "stop" }, () => {}).catch(() => null);
+    if (!(await waitForExit(status.pid, 5000))) {
+      forced = true;
+      try {
+        process.kill(status.pid, "SIGTERM");
+      } catch {
+        // already gone
+      }
+      if (!(await waitForExit(status.pid, 2000))) {
+        throw new CLIError(`Live mode did not stop (pid=${status.pid}).`, { exitCode: 1, code: "LIVE_STOP_FAILED" });
+      }
+    }
+  }
+  await cleanupStaleLive(sessionName);
+
   const envelope = createEnvelope({
-    ok: false,
+    ok: true,
     command_name: "live.stop",
     command_argv: ["live", "stop", ...argv],
     session: sessionName,
@@ -93,30 +151,116 @@ export async function cmdLiveStop({
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: null,
     artifacts: [],
-    data: {},
-    error: { code: "NOT_IMPLEMENTED", message: "Live mode is not implemented yet.", details: [] },
+    data: { running: false, stopped: status !== null, pid: status?.pid ?? null, forced },
+    error: null,
+    next_steps: [{ label: "Start Live mode", argv: ["live", "start"] }],
+  });
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([status ? `Live mode stopped (pid=${status.pid}).` : "Live mode is not running."]);
+  }
+  return { envelope, exitCode: 0 };
+}
+
+// Internal: the body of the detached Live process spawned by `live start`. Its stdout/stderr is live.log.
+export async function cmdLiveServe({
+  argv,
+  sessionName,
+  io,
+  execute,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+  execute: LiveExecutor;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const { values } = parseArgs({
+    args: argv,
+    options: { ttl: { type: "string", default: "10m" } },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: LiveStartValues };
+  const ttlMs = parseDurationMs(values.ttl ?? "10m", "--ttl");
+
+  const summary = await serveLive({
+    sessionName,
+    ttlMs,
+    execute,
+    log: (line) => io.sink.stdout(`${new Date().toISOString()} live | ${line}\n`),
+  });
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "live.serve",
+    command_argv: ["live", "serve", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: summary,
+    error: null,
     next_steps: [],
   });
-  if (io.config.mode === "human" && !io.config.quiet) io.error(envelope.error?.message ?? "Live stop failed.");
-  return { envelope, exitCode: 1 };
+  return { envelope, exitCode: 0 };
 }
 
 export async function cmdRepl({
   argv,
   sessionName,
   io,
+  execute,
 }: {
   argv: string[];
   sessionName: string;
   io: CommandIO;
+  execute: ReplExecutor;
 }): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
-  void argv;
   const startedAt = new Date();
   if (io.config.mode !== "jsonl") {
     throw new CLIError("repl requires --jsonl (default true in vNext)", { exitCode: 2 });
   }
+  parseArgs({ args: argv, options: {}, allowPositionals: false, strict: true });
+
+  // The repl process stays up between requests, so it keeps the same warm state a Live process would.
+  enableWarmState();
+
+  let requests = 0;
+  let failed = 0;
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    requests += 1;
+    const requestStartedAt = new Date();
+    let code: number;
+    try {
+      code = await execute(parseReplRequest(line), io.sink);
+    } catch (e) {
+      const err = normalizeError(e);
+      code = getExitCode(e);
+      new CommandIO(io.config, io.sink, replRequestIdOrNull(line)).result(
+        createEnvelope({
+          ok: false,
+          command_name: "repl",
+          command_argv: ["repl", ...argv],
+          session: sessionName,
+          platform: null,
+          started_at: requestStartedAt.toISOString(),
+          duration_ms: Date.now() - requestStartedAt.getTime(),
+          run_dir: null,
+          artifacts: [],
+          data: {},
+          error: { code: err.code, message: err.message, details: err.details },
+          next_steps: [],
+        })
+      );
+    }
+    if (code !== 0) failed += 1;
+  }
+
   const envelope = createEnvelope({
-    ok: false,
+    ok: true,
     command_name: "repl",
     command_argv: ["repl", ...argv],
     session: sessionName,
@@ -125,15 +269,9 @@ export async function cmdRepl({
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: null,
     artifacts: [],
-    data: {},
-    error: { code: "NOT_IMPLEMENTED", message: "repl is not implemented yet.", details: [] },
+    data: { requests, failed },
+    error: null,
     next_steps: [],
   });
-  io.event({
-    type: "event",
-    ts: new Date().toISOString(),
-    event: "warning",
-    data: { message: envelope.error?.message ?? "repl failed" },
-  });
-  return { envelope, exitCode: 1 };
+  return { envelope, exitCode: 0 };
 }
@@ -1,14 +1,20 @@
 import { parseArgs } from "node:util";
 import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
 import { createEnvelope, type ResultEnvelope } from "../lib/envelope.js";
 import type { CommandIO } from "../lib/io.js";
 import { readSession } from "../lib/session.js";
-import { getLiveDir } from "../lib/dirs.js";
-import { CLIError, usageError } from "../lib/cliError.js";
+import { usageError } from "../lib/cliError.js";
 import { parsePlatform } from "../lib/platform.js";
+import { createRunDir, RunContext } from "../lib/run.js";
+import { resolveAndroidDevice, resolveIOSDeviceSelector } from "../lib/deviceResolver.js";
+import { resolveDeviceLogCommand } from "../lib/deviceLog.js";
 
 type LogsTailValues = { follow?: boolean; platform?: string; device?: string; "app-id"?: string };
 
+const TAIL_LINES = 200;
+
 export async function cmdLogsTail({
   argv,
   sessionName,
@@ -32,32 +38,84 @@ export async function cmdLogsTail({
     strict: true,
   }) as { values: LogsTailValues };
 
+  if (values.follow && io.config.mode !== "jsonl") {
+    throw usageError("logs tail --follow requires --jsonl");
+  }
+
+  const platform = parsePlatform(values.platform || "ios");
+  const appId = values["app-id"]?.trim() || null;
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  let targetDevice: ResultEnvelope["target"]["device"] = null;
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(values.device?.trim() || "booted");
+    targetDevice = { platform: "ios", id: device.udid, name: device.name };
+  } else {
+    const device = await resolveAndroidDevice(values.device);
+    targetDevice = { platform: "android", id: device.id, name: null };
+  }
+
+  const source = await resolveDeviceLogCommand({ platform, deviceId: targetDevice.id, appId, follow: Boolean(values.follow) });
+  const logPath = path.join(run.artifactsDir, "device.log");
+  const tool = platform === "ios" ? "simctl" : "adb";
+
+  let lines: string[] = [];
+  let lineCount = 0;
+  let stoppedBy: "signal" | "exit" | null = null;
+
   if (values.follow) {
-    if (io.config.mode !== "jsonl") {
-      throw usageError("logs tail --follow requires --jsonl");
+    // Log lines go straight to the event stream; the run dir keeps the full capture in device.log.
+    const stream = run.startStream(tool, "log_stream", source.cmd, source.args, {
+      outPath: logPath,
+      onLine: (line) => io.event({ type: "event", ts: new Date().toISOString(), event: "output", data: { stream: "device_log", line } }),
+    });
+    const onSignal = () => {
+      stoppedBy = "signal";
+      void stream.stop();
+    };
+    process.once("SIGINT", onSignal);
+    process.once("SIGTERM", onSignal);
+    const res = await stream.done;
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+    lineCount = res.lines;
+    if (stoppedBy === null) {
+      stoppedBy = "exit";
+      if (!res.ok) throw new Error(`${tool} log stream failed (code=${res.code}): ${res.stderr}`.trim());
     }
-    throw new CLIError("Live mode follow is not implemented yet.", { exitCode: 1 });
+  } else {
+    const res = await run.execLogged(tool, "log_show", source.cmd, source.args, { timeoutMs: 60000, stdoutPath: logPath });
+    if (!res.ok) throw new Error(`${tool} log failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+    const raw = await fs.readFile(logPath, "utf8").catch(() => "");
+    const all = raw ? raw.trimEnd().split(/\r?\n/) : [];
+    lineCount = all.length;
+    lines = all.slice(-TAIL_LINES);
   }
 
-  const liveLog = `${getLiveDir(sessionName)}/live.log`;
-  const raw = await fs.readFile(liveLog, "utf8").catch(() => "");
-  const lines = raw ? raw.trimEnd().split(/\r?\n/).slice(-200) : [];
+  run.artifact({ type: "device_log", path: logPath, mime: "text/plain" });
 
   const envelope = createEnvelope({
     ok: true,
     command_name: "logs.tail",
     command_argv: ["logs", "tail", ...argv],
     session: sessionName,
-    platform: parsePlatform(values.platform || "ios"),
+    platform,
     started_at: startedAt.toISOString(),
     duration_ms: Date.now() - startedAt.getTime(),
-    run_dir: null,
-    artifacts: [],
-    data: { lines, path: liveLog },
+    run_dir: runDir,
+    target: { device: targetDevice, app: appId ? { app_id: appId } : null },
+    artifacts: run.artifacts,
+    data: { path: logPath, filter: source.filter, line_count: lineCount, ...(values.follow ? { stopped_by: stoppedBy } : { lines }) },
     error: null,
-    next_steps: [{ label: "Follow logs (jsonl)", argv: ["logs", "tail", "--follow", "--jsonl"] }],
+    next_steps: values.follow ? [] : [{ label: "Follow logs (jsonl)", argv: ["logs", "tail", "--follow", "--jsonl"] }],
   });
 
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
   if (io.config.mode === "human" && !io.config.quiet) {
     io.human(lines.length ? lines : ["(no logs)"]);
   }
@@ -0,0 +1,407 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createEnvelope, type ResultArtifact, type ResultEnvelope } from "../lib/envelope.js";
+import type { CommandIO } from "../lib/io.js";
+import { CLIError, usageError } from "../lib/cliError.js";
+import { parseDurationMs } from "../lib/duration.js";
+import { parsePlatform } from "../lib/platform.js";
+import { getCacheDir } from "../lib/dirs.js";
+import { listRuns, type RunInfo } from "../lib/gc.js";
+import { filterRuns, resolveRun, summarizeRun, type RunFilter, type RunSummary } from "../lib/runLookup.js";
+import { computeFlowStats, syncFlowHistory, topFlakyFlows, type FlowStats } from "../lib/flowHistory.js";
+import { exportRunBundle, importRunBundle, type BundleManifest } from "../lib/runBundle.js";
+
+type RunFilterValues = { command?: string; failed?: boolean; since?: string; "all-sessions"?: boolean };
+
+type RunDetails = {
+  run: RunSummary;
+  // The stored result.json, or null when the run has none.
+  result: unknown;
+  artifacts: Array<ResultArtifact & { exists: boolean }>;
+};
+
+const FILTER_OPTIONS = {
+  command: { type: "string" },
+  failed: { type: "boolean", default: false },
+  since: { type: "string" },
+  "all-sessions": { type: "boolean", default: false },
+} as const;
+
+function runFilterFrom(values: RunFilterValues, sessionName: string): RunFilter {
+  return {
+    command: values.command ?? null,
+    failed: Boolean(values.failed),
+    since: values.since ? new Date(Date.now() - parseDurationMs(values.since, "--since")) : null,
+    session: values["all-sessions"] ? null : sessionName,
+  };
+}
+
+function runStatus(run: RunSummary): string {
+  return run.ok === null ? "unknown" : run.ok ? "ok" : "failed";
+}
+
+async function readRunDetails(info: RunInfo): Promise<RunDetails> {
+  const raw = await fs.readFile(path.join(info.dir, "result.json"), "utf8").catch(() => null);
+  let result: { artifacts?: unknown } | null = null;
+  try {
+    result = raw ? (JSON.parse(raw) as { artifacts?: unknown }) : null;
+  } catch {
+    result = null;
+  }
+  const stored = Array.isArray(result?.artifacts) ? (result.artifacts as ResultArtifact[]) : [];
+  const artifacts = await Promise.all(stored.map(async (a) => ({ ...a, exists: Boolean(await fs.stat(a.path).catch(() => null)) })));
+  return { run: summarizeRun(info), result, artifacts };
+}
+
+function runDetailLines(details: RunDetails): string[] {
+  const { run, result, artifacts } = details;
+  const error = (result as { error?: { code?: string; message?: string } | null } | null)?.error;
+  return [
+    `Run ${run.id}: ${run.command ?? "unknown command"} ${runStatus(run)} (session ${run.session ?? "unknown"}, started ${run.started_at})`,
+    ...(error ? [`Error: ${error.code ?? "FAILED"} ${error.message ?? ""}`.trim()] : []),
+    ...(result ? [] : ["No result.json (the command crashed or is still running)."]),
+    `Dir: ${run.dir}`,
+    ...(artifacts.length ? ["Artifacts:", ...artifacts.map((a) => `  ${a.type}  ${a.path}${a.exists ? "" : "  (missing)"}`)] : []),
+  ];
+}
+
+export async function cmdRunsList({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ runs: RunSummary[]; total: number }>; exitCode: number }> {
+  const startedAt = new Date();
+  const { values } = parseArgs({
+    args: argv,
+    options: { ...FILTER_OPTIONS, limit: { type: "string", default: "20" } },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: RunFilterValues & { limit?: string } };
+
+  const limit = Number(values.limit ?? 20);
+  if (!Number.isInteger(limit) || limit < 1) throw usageError(`Invalid --limit: ${values.limit} (expected a positive integer)`);
+  const matching = filterRuns(await listRuns(getCacheDir()), runFilterFrom(values, sessionName));
+  const runs = matching.slice(0, limit).map((r) => summarizeRun(r));
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.list",
+    command_argv: ["runs", "list", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: { runs, total: matching.length },
+    error: null,
+    next_steps: runs.length ? [{ label: "Show the newest run", argv: ["runs", "show", runs[0]!.id] }] : [],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([
+      ...runs.map((r) => `${r.id}  ${runStatus(r).padEnd(7)}  ${(r.command ?? "-").padEnd(18)}  ${r.session ?? "-"}`),
+      ...(runs.length ? [] : ["No runs."]),
+      ...(matching.length > runs.length ? [`(${matching.length - runs.length} more; raise --limit)`] : []),
+    ]);
+  }
+
+  return { envelope, exitCode: 0 };
+}
+
+export async function cmdRunsShow({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<RunDetails>; exitCode: number }> {
+  const startedAt = new Date();
+  const { positionals } = parseArgs({ args: argv, options: {}, allowPositionals: true, strict: true });
+  if (positionals.length !== 1) throw usageError("runs show requires a single <id>");
+  const details = await readRunDetails(resolveRun(await listRuns(getCacheDir()), positionals[0]!));
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.show",
+    command_argv: ["runs", "show", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: details,
+    error: null,
+    next_steps: [],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) io.human(runDetailLines(details));
+  return { envelope, exitCode: 0 };
+}
+
+export async function cmdRunsLast({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<RunDetails>; exitCode: number }> {
+  const startedAt = new Date();
+  const { values } = parseArgs({ args: argv, options: FILTER_OPTIONS, allowPositionals: true, strict: true }) as { values: RunFilterValues };
+
+  // listRuns is newest first.
+  const last = filterRuns(await listRuns(getCacheDir()), runFilterFrom(values, sessionName))[0];
+  if (!last) throw new CLIError("No run matches.", { exitCode: 1, code: "RUN_NOT_FOUND", details: argv.length ? [`Filters: ${argv.join(" ")}`] : [] });
+  const details = await readRunDetails(last);
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.last",
+    command_argv: ["runs", "last", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: details,
+    error: null,
+    next_steps: [],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) io.human(runDetailLines(details));
+  return { envelope, exitCode: 0 };
+}
+
+export async function cmdRunsPath({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ id: string; dir: string }>; exitCode: number }> {
+  const startedAt = new Date();
+  const { positionals } = parseArgs({ args: argv, options: {}, allowPositionals: true, strict: true });
+  if (positionals.length !== 1) throw usageError("runs path requires a single <id>");
+  const run = summarizeRun(resolveRun(await listRuns(getCacheDir()), positionals[0]!));
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.path",
+    command_argv: ["runs", "path", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: { id: run.id, dir: run.dir },
+    error: null,
+    next_steps: [],
+  });
+
+  // Just the path, so `cd "$(mobile-dev-agent runs path <id>)"` works.
+  if (io.config.mode === "human" && !io.config.quiet) io.human([run.dir]);
+  return { envelope, exitCode: 0 };
+}
+
+type RunsStatsValues = { since?: string; flow?: string; platform?: string; top?: string };
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+export async function cmdRunsStats({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{
+  envelope: ResultEnvelope<{ since: string; index: string; indexed: number; runs: number; flows: FlowStats[]; top_flaky: FlowStats[] }>;
+  exitCode: number;
+}> {
+  const startedAt = new Date();
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      since: { type: "string", default: "30d" },
+      flow: { type: "string" },
+      platform: { type: "string" },
+      top: { type: "string", default: "10" },
+    },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: RunsStatsValues };
+
+  const since = new Date(startedAt.getTime() - parseDurationMs(values.since ?? "30d", "--since"));
+  const platform = values.platform ? parsePlatform(values.platform) : null;
+  const top = Number(values.top ?? 10);
+  if (!Number.isInteger(top) || top < 1) throw usageError(`Invalid --top: ${values.top} (expected a positive integer)`);
+
+  const history = await syncFlowHistory();
+  const records = history.records.filter(
+    (r) => Date.parse(r.started_at) >= since.getTime() && (!platform || r.platform === platform) && (!values.flow || r.flow === values.flow)
+  );
+  const flows = computeFlowStats(records);
+  const topFlaky = topFlakyFlows(flows, top);
+  const runs = new Set(records.map((r) => r.run_id)).size;
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.stats",
+    command_argv: ["runs", "stats", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: { since: since.toISOString(), index: history.path, indexed: history.added, runs, flows, top_flaky: topFlaky },
+    error: null,
+    next_steps: flows.length ? [] : [{ label: "Run flows", argv: ["test", "--flow", "<path>"] }],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    const lines = [`Flow history since ${since.toISOString()}: ${runs} test run${runs === 1 ? "" : "s"}, ${flows.length} flow${flows.length === 1 ? "" : "s"}`];
+    for (const s of flows) {
+      const counts = `${s.passed} passed, ${s.flaky} flaky, ${s.failed} failed${s.skipped ? `, ${s.skipped} skipped` : ""}`;
+      lines.push(`  ${s.flow}  ${s.runs} runs (${counts})  pass ${formatRate(s.pass_rate)}  p50 ${formatMs(s.p50_ms)}  p95 ${formatMs(s.p95_ms)}`);
+    }
+    if (topFlaky.length) {
+      lines.push("", "Top flaky flows:");
+      for (const s of topFlaky) lines.push(`  ${s.flow}  flakiness ${formatRate(s.flakiness)} (${s.flaky} flaky, ${s.flips} flips over ${s.runs} runs)`);
+    }
+    lines.push(`Index: ${history.path}`);
+    io.human(lines);
+  }
+
+  return { envelope, exitCode: 0 };
+}
+
+type RunsExportValues = { out?: string; "no-external"?: boolean; "exclude-type"?: string[] };
+
+export async function cmdRunsExport({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{
+  envelope: ResultEnvelope<{ id: string; out: string; bytes: number; files: number } & Pick<BundleManifest, "external" | "excluded">>;
+  exitCode: number;
+}> {
+  const startedAt = new Date();
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      out: { type: "string" },
+      "no-external": { type: "boolean", default: false },
+      "exclude-type": { type: "string", multiple: true },
+    },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: RunsExportValues; positionals: string[] };
+  if (positionals.length !== 1) throw usageError("runs export requires a single <id>");
+
+  const run = summarizeRun(resolveRun(await listRuns(getCacheDir()), positionals[0]!));
+  const out = path.resolve(values.out ?? `${run.id}.tar.gz`);
+  const rel = path.relative(run.dir, out);
+  if (!rel.startsWith("..") && !path.isAbsolute(rel)) throw usageError(`--out must be outside the run dir: ${out}`);
+
+  const manifest = await exportRunBundle(run.dir, out, {
+    includeExternal: !values["no-external"],
+    excludeTypes: values["exclude-type"] ?? [],
+  });
+  const bytes = (await fs.stat(out)).size;
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.export",
+    command_argv: ["runs", "export", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [{ type: "bundle", path: out, mime: "application/gzip" }],
+    data: { id: run.id, out, bytes, files: manifest.files.length, external: manifest.external, excluded: manifest.excluded },
+    error: null,
+    next_steps: [{ label: "Import elsewhere", argv: ["runs", "import", out] }],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([
+      `Exported ${run.id}: ${manifest.files.length} files, ${bytes} bytes`,
+      ...manifest.external.map((e) => `  ${e.type}  ${e.original_path} -> ${e.path}`),
+      ...manifest.excluded.map((e) => `  ${e.type}  ${e.path}  (${e.reason === "missing" ? "missing" : "excluded"})`),
+      `Bundle: ${out}`,
+    ]);
+  }
+
+  return { envelope, exitCode: 0 };
+}
+
+export async function cmdRunsImport({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{
+  envelope: ResultEnvelope<{ id: string; dir: string; files: number; source_dir: string; exported_at: string }>;
+  exitCode: number;
+}> {
+  const startedAt = new Date();
+  const { positionals } = parseArgs({ args: argv, options: {}, allowPositionals: true, strict: true });
+  if (positionals.length !== 1) throw usageError("runs import requires a single <bundle>");
+  const bundle = path.resolve(positionals[0]!);
+  if (!(await fs.stat(bundle).catch(() => null))?.isFile()) throw usageError(`Bundle not found: ${bundle}`);
+
+  const cacheDir = getCacheDir();
+  const { dir, manifest } = await importRunBundle(bundle, path.join(cacheDir, "runs"), path.join(cacheDir, "tmp"));
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "runs.import",
+    command_argv: ["runs", "import", ...argv],
+    session: sessionName,
+    platform: null,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: { id: manifest.run_id, dir, files: manifest.files.length, source_dir: manifest.source_dir, exported_at: manifest.exported_at },
+    error: null,
+    next_steps: [{ label: "Show the run", argv: ["runs", "show", manifest.run_id] }],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([`Imported ${manifest.run_id} (${manifest.files.length} files, exported ${manifest.exported_at})`, `Dir: ${dir}`]);
+  }
+
+  return { envelope, exitCode: 0 };
+}
@@ -6,10 +6,41 @@ import type { CommandIO } from "../lib/io.js";
 import { createRunDir, RunContext } from "../lib/run.js";
 import { parseEnvList } from "../lib/env.js";
 import { readSession } from "../lib/session.js";
-import { usageError } from "../lib/cliError.js";
+import { usageError, type CLIError } from "../lib/cliError.js";
 import { parsePlatform } from "../lib/platform.js";
 import { resolveAndroidDevice, resolveIOSDeviceSelector } from "../lib/deviceResolver.js";
-import { simctlBoot, simctlBootStatus } from "../lib/simctl.js";
+import {
+  ensureIOSShardDevices,
+  simctlAppContainer,
+  simctlAppVersion,
+  simctlBoot,
+  simctlBootStatus,
+  simctlInstallApp,
+  type IOSDevice,
+} from "../lib/simctl.js";
+import { adbAppVersion, adbCopyApp, adbEmulatorAvdName, adbListDevices, bootAvds, emulatorListAvds } from "../lib/android.js";
+import { defaultOutputRoot, ensureDir } from "../lib/paths.js";
+import { startDeviceLogCapture } from "../lib/deviceLog.js";
+import { flowInvalidError, lintFlowPath } from "../lib/flowLint.js";
+import { findWorkspaceConfig, listFlowFiles, splitFlows } from "../lib/maestro.js";
+import { mergeJUnitReports, renderJUnitReport, type JUnitShardReport, type JUnitTotals } from "../lib/junit.js";
+import type { Platform } from "../lib/deviceResolver.js";
+import {
+  classifyFlowAttempts,
+  collectMaestroResults,
+  describeFlowFailure,
+  flowFilesByName,
+  summarizeMaestroResults,
+  type MaestroFlowResult,
+  type MaestroResultsSummary,
+  type RetriedFlowResult,
+} from "../lib/maestroResults.js";
+
+// The app version under test, recorded in data.app_version for `runs stats`.
+async function installedAppVersion(platform: Platform, deviceId: string, appId: string | null): Promise<string | null> {
+  if (!appId) return null;
+  return platform === "ios" ? await simctlAppVersion(deviceId, appId) : await adbAppVersion(deviceId, appId);
+}
 
 type TestValues = {
   flow?: string;
@@ -23,6 +54,12 @@ type TestValues = {
   "test-output-dir"?: string;
   "no-reinstall-driver"?: boolean;
   env?: string[];
+  "device-logs"?: boolean;
+  "no-device-logs"?: boolean;
+  "no-lint"?: boolean;
+  devices?: string;
+  shards?: string;
+  retries?: string;
 };
 
 export async function cmdTest({
@@ -50,6 +87,12 @@ export async function cmdTest({
       "test-output-dir": { type: "string" },
       "no-reinstall-driver": { type: "boolean", default: false },
       env: { type: "string", multiple: true, default: [] },
+      "device-logs": { type: "boolean", default: false },
+      "no-device-logs": { type: "boolean", default: false },
+      "no-lint": { type: "boolean", default: false },
+      devices: { type: "string" },
+      shards: { type: "string" },
+      retries: { type: "string" },
     },
     allowPositionals: true,
     strict: true,
@@ -60,27 +103,40 @@ export async function cmdTest({
 
   const flowStat = await fs.stat(flowPath).catch(() => null);
   if (!flowStat) throw usageError(`Flow path does not exist: ${flowPath}`);
+  if (!values["no-lint"]) {
+    const lint = await lintFlowPath(flowPath);
+    if (!lint.ok) throw flowInvalidError(lint);
+  }
 
   const platform = parsePlatform(values.platform || "ios");
 
   const fmt = String(values.format || "noop").trim().toLowerCase();
   if (!["noop", "junit", "html"].includes(fmt)) throw usageError(`Invalid --format: ${values.format} (expected noop, junit, or html)`);
 
+  const retries = parseRetries(values.retries);
+  const deviceSelectors = (values.devices ?? "").split(",").map((d) => d.trim()).filter(Boolean);
+  const sharded = deviceSelectors.length > 0 || values.shards !== undefined;
+  if (retries > 0 && fmt === "html") throw usageError("--format html is not available with --retries; retries always write JUnit.");
+  if (sharded) {
+    return await runShardedTest({
+      argv,
+      sessionName,
+      io,
+      values,
+      platform,
+      flowPath,
+      flowIsDir: flowStat.isDirectory(),
+      deviceSelectors,
+      retries,
+      appId: session.defaults.app?.app_id ?? null,
+      startedAt,
+    });
+  }
+
   const runDir = await createRunDir();
   const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
   io.attachRun(run);
 
-  const debugOutput = values["debug-output"]?.trim()
-    ? path.resolve(values["debug-output"])
-    : path.join(run.artifactsDir, "maestro-debug");
-  const testOutputDir = values["test-output-dir"]?.trim()
-    ? path.resolve(values["test-output-dir"])
-    : path.join(run.artifactsDir, "maestro-test-output");
-  await fs.mkdir(debugOutput, { recursive: true });
-  await fs.mkdir(testOutputDir, { recursive: true });
-  run.artifact({ type: "maestro_debug_dir", path: debugOutput, mime: "application/vnd.directory" });
-  run.artifact({ type: "maestro_test_output_dir", path: testOutputDir, mime: "application/vnd.directory" });
-
   const env = parseEnvList(values.env ?? []);
 
   let deviceId: string;
@@ -113,19 +169,63 @@ export async function cmdTest({
     targetDevice = { platform: "android", id: device.id, name: null };
   }
 
+  // Device logs are on by default for --jsonl callers (agents), opt-in otherwise.
+  const captureDeviceLogs = !values["no-device-logs"] && (Boolean(values["device-logs"]) || io.config.mode === "jsonl");
+  if (retries > 0) {
+    return await runTestWithRetries({
+      argv,
+      sessionName,
+      io,
+      run,
+      values,
+      platform,
+      flowPath,
+      flowIsDir: flowStat.isDirectory(),
+      deviceId,
+      targetDevice,
+      retries,
+      env,
+      captureDeviceLogs,
+      appId: session.defaults.app?.app_id ?? null,
+      startedAt,
+    });
+  }
+
+  const debugOutput = values["debug-output"]?.trim()
+    ? path.resolve(values["debug-output"])
+    : path.join(run.artifactsDir, "maestro-debug");
+  const testOutputDir = values["test-output-dir"]?.trim()
+    ? path.resolve(values["test-output-dir"])
+    : path.join(run.artifactsDir, "maestro-test-output");
+  await fs.mkdir(debugOutput, { recursive: true });
+  await fs.mkdir(testOutputDir, { recursive: true });
+  run.artifact({ type: "maestro_debug_dir", path: debugOutput, mime: "application/vnd.directory" });
+  run.artifact({ type: "maestro_test_output_dir", path: testOutputDir, mime: "application/vnd.directory" });
+
+  // JUnit goes to a known path by default so its per-flow results can be read back.
+  const reportPath = values.output?.trim()
+    ? path.resolve(values.output.trim())
+    : fmt === "junit"
+      ? path.join(run.artifactsDir, "report.xml")
+      : null;
+  if (reportPath) run.artifact({ type: "report", path: reportPath, mime: fmt === "junit" ? "application/xml" : "text/html" });
+
   const maestroArgs: string[] = ["--device", deviceId, "test"];
   if (fmt !== "noop") {
     maestroArgs.push("--format", fmt);
-    if (values.output?.trim()) {
-      maestroArgs.push("--output", path.resolve(values.output.trim()));
-    }
+    if (reportPath) maestroArgs.push("--output", reportPath);
   }
   maestroArgs.push("--test-output-dir", testOutputDir);
   maestroArgs.push("--debug-output", debugOutput);
   if (values["no-reinstall-driver"]) maestroArgs.push("--no-reinstall-driver");
   maestroArgs.push(flowPath);
 
+  const deviceLogs = captureDeviceLogs ? await startDeviceLogCapture(run, { platform, deviceId }) : null;
   const res = await run.execLogged("maestro", "test", "maestro", maestroArgs, { env, timeoutMs: 60 * 60 * 1000 });
+  const deviceLog = await deviceLogs?.stop();
+  const appVersion = await installedAppVersion(platform, deviceId, session.defaults.app?.app_id ?? null);
+  const results = await collectMaestroResults(run, { reportPath: fmt === "junit" ? reportPath : null, debugDir: debugOutput });
+  const failedFlows = results.flows.filter((f) => f.status === "failed");
 
   const ok = res.ok;
   const envelope = createEnvelope({
@@ -144,9 +244,621 @@ export async function cmdTest({
       device: targetDevice,
       flow: flowPath,
       command: ["maestro", ...maestroArgs].join(" "),
-      report: values.output?.trim() ? path.resolve(values.output.trim()) : null,
+      device_log: deviceLog?.path ?? null,
+      app_version: appVersion,
+      report: reportPath,
+      summary: results.summary,
+      flows: results.flows,
+    },
+    error: ok
+      ? null
+      : { code: "PROCESS_FAILED", message: "test failed", details: [`code=${res.code ?? "unknown"}`, ...failedFlows.map((f) => describeFlowFailure(f))] },
+    next_steps: ok ? [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }] : [{ label: "Retry", argv: ["test", ...argv] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([
+      ok ? "Maestro test succeeded." : `Maestro test failed (code=${res.code}).`,
+      ...(results.summary.total ? [`Flows: ${results.summary.passed} passed, ${results.summary.failed} failed, ${results.summary.skipped} skipped`] : []),
+      ...failedFlows.map((f) => `  ${describeFlowFailure(f)}`),
+      `Run: ${runDir}`,
+    ]);
+  }
+
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
+
+type ShardDevice = { platform: Platform; id: string; name: string | null };
+
+type ShardResult = {
+  shard: string;
+  device: ShardDevice;
+  flows: string[];
+  ok: boolean;
+  code: number | null;
+  error: string | null;
+  run_dir: string;
+  report: string | null;
+  command: string | null;
+  device_log: string | null;
+  app_version: string | null;
+  summary: MaestroResultsSummary | null;
+  // With --retries: the shard's attempts (<shard run_dir>/attempts/attempt-N); `report` is then the shard's final one.
+  attempts?: AttemptResult[];
+};
+
+type ShardedTestData = {
+  ok: boolean;
+  flow: string;
+  report: string;
+  totals: JUnitTotals;
+  summary: MaestroResultsSummary;
+  flows: Array<(MaestroFlowResult | RetriedFlowResult) & { shard: string }>;
+  shards: ShardResult[];
+};
+
+function parseShardCount(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw usageError(`Invalid --shards: ${value} (expected a positive integer)`);
+  return n;
+}
+
+// Without --app, devices set up for shards get the app from the shard-1 device; that needs an app id to find it.
+function shardAppRequired(what: string): CLIError {
+  return usageError(`${what} need the app installed: pass --app, or set the session's app id (session set --app-id) to copy it from the first device.`);
+}
+
+async function resolveShardDevices(
+  platform: Platform,
+  { selectors, count, defaultDevice, appId, appPath }: { selectors: string[]; count: number; defaultDevice: string; appId: string | null; appPath: string | null }
+): Promise<ShardDevice[]> {
+  if (platform === "ios") {
+    let devices: IOSDevice[];
+    let base: IOSDevice | null = null;
+    if (selectors.length > 0) {
+      devices = [];
+      for (const selector of selectors) devices.push(await resolveIOSDeviceSelector(selector));
+    } else {
+      base = await resolveIOSDeviceSelector(defaultDevice || "booted");
+      // A running simulator cannot be cloned, so its shard copies are created empty.
+      if (count > 1 && base.state !== "Shutdown" && !appPath && !appId) throw shardAppRequired(`Shard simulators created from the running ${base.name}`);
+      devices = await ensureIOSShardDevices(base, count);
+    }
+    const udids = devices.map((d) => d.udid);
+    if (new Set(udids).size !== udids.length) throw usageError(`--devices resolves the same simulator more than once: ${selectors.join(", ")}`);
+    // Shards run at the same time, so every simulator must be up before any Maestro process starts.
+    await Promise.all(
+      devices
+        .filter((d) => d.state !== "Booted")
+        .map(async (d) => {
+          await simctlBoot(d.udid);
+          await simctlBootStatus(d.udid);
+        })
+    );
+    // --app is installed on every shard later; otherwise copies that lack the app get the base's build.
+    if (base && appId && !appPath) {
+      const copies = devices.slice(1);
+      const missing = (await Promise.all(copies.map(async (d) => ((await simctlAppContainer(d.udid, appId)) ? null : d)))).filter((d) => d !== null);
+      if (missing.length > 0) {
+        const bundle = await simctlAppContainer(base.udid, appId);
+        if (!bundle) throw usageError(`${appId} is not installed on ${base.name}, so it cannot be copied to the shard simulators; pass --app.`);
+        for (const d of missing) await simctlInstallApp(d.udid, bundle);
+      }
+    }
+    return devices.map((d) => ({ platform: "ios", id: d.udid, name: d.name }));
+  }
+
+  if (selectors.length > 0) {
+    const devices = [];
+    for (const selector of selectors) devices.push(await resolveAndroidDevice(selector));
+    const ids = devices.map((d) => d.id);
+    if (new Set(ids).size !== ids.length) throw usageError(`--devices lists the same device more than once: ${selectors.join(", ")}`);
+    return devices.map((d) => ({ platform: "android", id: d.id, name: d.model ?? null }));
+  }
+  const listed = await adbListDevices();
+  const online = listed.filter((d) => d.state === "device");
+  // The session's (or --device) device goes first so a single shard behaves like an unsharded run.
+  online.sort((a, b) => Number(b.id === defaultDevice) - Number(a.id === defaultDevice));
+  if (online.length >= count) return online.slice(0, count).map((d) => ({ platform: "android", id: d.id, name: d.model ?? null }));
+
+  // Boot AVDs that are not running yet for the missing shards.
+  const missing = count - online.length;
+  if (!appPath && (!appId || online.length === 0)) throw shardAppRequired(`Emulators booted for --shards ${count}`);
+  const running = await Promise.all(online.filter((d) => d.type === "emulator").map((d) => adbEmulatorAvdName(d.id)));
+  const avds = (await emulatorListAvds()).filter((a) => !running.includes(a));
+  if (avds.length < missing) {
+    throw usageError(`--shards ${count} needs ${count} Android devices; found ${online.length} online and ${avds.length} AVDs to boot.`, [
+      ...online.map((d) => `Online: ${d.id}`),
+      ...avds.map((a) => `AVD: ${a}`),
+      "Create more AVDs (or start more emulators), or pass --devices <id,id,...>.",
+    ]);
+  }
+  const booted = await bootAvds(avds.slice(0, missing), listed.map((d) => d.id));
+  if (!appPath) {
+    const tmpDir = defaultOutputRoot("shard-app");
+    await ensureDir(tmpDir);
+    try {
+      for (const d of booted) await adbCopyApp(online[0]!.id, d.id, appId!, tmpDir);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+  return [...online, ...booted].map((d) => ({ platform: "android", id: d.id, name: d.model ?? null }));
+}
+
+// Splits the flow directory across devices and runs one Maestro process per shard, each in its own sub-run
+// (<run_dir>/shards/shard-N), then merges the shards' JUnit reports into one. With --retries every shard re-runs its
+// own failed flows on its device.
+async function runShardedTest({
+  argv,
+  sessionName,
+  io,
+  values,
+  platform,
+  flowPath,
+  flowIsDir,
+  deviceSelectors,
+  retries,
+  appId,
+  startedAt,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+  values: TestValues;
+  platform: Platform;
+  flowPath: string;
+  flowIsDir: boolean;
+  deviceSelectors: string[];
+  retries: number;
+  appId: string | null;
+  startedAt: Date;
+}): Promise<{ envelope: ResultEnvelope<ShardedTestData>; exitCode: number }> {
+  const requested = parseShardCount(values.shards);
+  if (requested !== null && deviceSelectors.length > 0 && requested !== deviceSelectors.length) {
+    throw usageError(`--shards ${requested} does not match the ${deviceSelectors.length} devices in --devices`);
+  }
+  if (!flowIsDir) throw usageError("Sharding splits a directory of flows; pass --flow <dir>.");
+  const fmt = String(values.format || "noop").trim().toLowerCase();
+  if (fmt === "html") throw usageError("--format html is not available with sharding; shards always write JUnit and merge it.");
+
+  const flows = await listFlowFiles(flowPath);
+  if (flows.length === 0) throw usageError(`No flow files (*.yaml, *.yml) in ${flowPath}`);
+  const wanted = requested ?? deviceSelectors.length;
+  const count = Math.min(wanted, flows.length);
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+  if (count < wanted) {
+    io.event({
+      type: "event",
+      ts: new Date().toISOString(),
+      event: "warning",
+      data: { message: `Only ${flows.length} flows for ${wanted} shards; running ${count} shards.` },
+    });
+  }
+
+  const devices = (
+    await resolveShardDevices(platform, {
+      selectors: deviceSelectors,
+      count: wanted,
+      defaultDevice: values.device?.trim() ?? "",
+      appId,
+      appPath: values.app ? path.resolve(values.app) : null,
+    })
+  ).slice(0, count);
+  const groups = splitFlows(flows, count);
+  const env = parseEnvList(values.env ?? []);
+  const captureDeviceLogs = !values["no-device-logs"] && (Boolean(values["device-logs"]) || io.config.mode === "jsonl");
+  const config = await findWorkspaceConfig(flowPath);
+
+  const shardFlowResults: ShardedTestData["flows"][] = groups.map(() => []);
+  const shards = await Promise.all(
+    groups.map(async (shardFlows, i): Promise<ShardResult> => {
+      const shard = `shard-${i + 1}`;
+      const device = devices[i]!;
+      const shardRun = await run.createSubRun("shards", shard);
+      const result: ShardResult = {
+        shard,
+        device,
+        flows: shardFlows,
+        ok: false,
+        code: null,
+        error: null,
+        run_dir: shardRun.runDir,
+        report: null,
+        command: null,
+        device_log: null,
+        app_version: null,
+        summary: null,
+      };
+
+      if (values.app) {
+        const appPath = path.resolve(values.app);
+        const res =
+          platform === "ios"
+            ? await shardRun.execLogged("simctl", "install", "xcrun", ["simctl", "install", device.id, appPath], { timeoutMs: 120000 })
+            : await shardRun.execLogged("adb", "install", "adb", ["-s", device.id, "install", "-r", appPath], { timeoutMs: 120000 });
+        if (!res.ok) {
+          result.error = `install failed (code=${res.code}): ${res.stderr || res.stdout}`.trim();
+          return result;
+        }
+      }
+
+      const report = path.join(shardRun.artifactsDir, "report.xml");
+      const deviceLogs = captureDeviceLogs ? await startDeviceLogCapture(shardRun, { platform, deviceId: device.id }) : null;
+      if (retries > 0) {
+        const outcome = await runAttempts(shardRun, {
+          io,
+          values,
+          deviceId: device.id,
+          first: [...(config ? ["--config", config] : []), ...shardFlows],
+          filesByName: await flowFilesByName(shardFlows),
+          config,
+          retries,
+          env,
+          outputSuffix: [shard],
+          reportPath: report,
+        });
+        const last = outcome.attempts[outcome.attempts.length - 1]!;
+        result.ok = outcome.ok;
+        result.code = last.code;
+        result.command = outcome.attempts[0]!.command;
+        result.report = report;
+        result.attempts = outcome.attempts;
+        result.summary = summarizeMaestroResults(outcome.flows);
+        shardFlowResults[i] = outcome.flows.map((f) => ({ ...f, shard }));
+      } else {
+        const debugOutput = values["debug-output"]?.trim()
+          ? path.join(path.resolve(values["debug-output"]), shard)
+          : path.join(shardRun.artifactsDir, "maestro-debug");
+        const testOutputDir = values["test-output-dir"]?.trim()
+          ? path.join(path.resolve(values["test-output-dir"]), shard)
+          : path.join(shardRun.artifactsDir, "maestro-test-output");
+        await fs.mkdir(debugOutput, { recursive: true });
+        await fs.mkdir(testOutputDir, { recursive: true });
+        shardRun.artifact({ type: "maestro_debug_dir", path: debugOutput, mime: "application/vnd.directory" });
+        shardRun.artifact({ type: "maestro_test_output_dir", path: testOutputDir, mime: "application/vnd.directory" });
+
+        const maestroArgs = ["--device", device.id, "test", "--format", "junit", "--output", report];
+        maestroArgs.push("--test-output-dir", testOutputDir, "--debug-output", debugOutput);
+        if (values["no-reinstall-driver"]) maestroArgs.push("--no-reinstall-driver");
+        if (config) maestroArgs.push("--config", config);
+        maestroArgs.push(...shardFlows);
+        result.command = ["maestro", ...maestroArgs].join(" ");
+
+        const res = await shardRun.execLogged("maestro", "test", "maestro", maestroArgs, { env, timeoutMs: 60 * 60 * 1000 });
+        result.ok = res.ok;
+        result.code = res.code;
+        if (await fs.stat(report).catch(() => null)) {
+          result.report = report;
+          shardRun.artifact({ type: "report", path: report, mime: "application/xml" });
+        }
+        if (!res.ok && !result.report) result.error = `maestro exited (code=${res.code ?? "unknown"}) without a report`;
+        const shardResults = await collectMaestroResults(shardRun, { reportPath: result.report, debugDir: debugOutput });
+        result.summary = shardResults.summary;
+        shardFlowResults[i] = shardResults.flows.map((f) => ({ ...f, shard }));
+      }
+      result.device_log = (await deviceLogs?.stop())?.path ?? null;
+      result.app_version = await installedAppVersion(platform, device.id, appId);
+      return result;
+    })
+  );
+
+  const reports: JUnitShardReport[] = await Promise.all(
+    shards.map(async (s) => ({
+      shard: `${s.shard} ${s.device.name ?? s.device.id}`,
+      xml: s.report ? await fs.readFile(s.report, "utf8") : null,
+      error: s.error ?? undefined,
+    }))
+  );
+  const merged = mergeJUnitReports(reports);
+  const reportPath = values.output?.trim() ? path.resolve(values.output.trim()) : path.join(run.artifactsDir, "report.xml");
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.writeFile(reportPath, merged.xml, "utf8");
+  run.artifact({ type: "report", path: reportPath, mime: "application/xml" });
+
+  const ok = shards.every((s) => s.ok) && merged.totals.failures + merged.totals.errors === 0;
+  const failed = shards.filter((s) => !s.ok);
+  const flowResults = shardFlowResults.flat();
+  const failedFlows = flowResults.filter((f) => f.status === "failed");
+  const summary = summarizeMaestroResults(flowResults);
+  const envelope = createEnvelope({
+    ok,
+    command_name: "test",
+    command_argv: ["test", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: null, app: { app_id: appId, app_path: values.app ? path.resolve(values.app) : null } },
+    artifacts: run.artifacts,
+    data: { ok, flow: flowPath, report: reportPath, totals: merged.totals, summary, flows: flowResults, shards },
+    error: ok
+      ? null
+      : {
+          code: "PROCESS_FAILED",
+          message: "test failed",
+          details: [
+            ...failed.map((s) => `${s.shard} (${s.device.name ?? s.device.id}): ${s.error ?? `code=${s.code ?? "unknown"}`}`),
+            ...failedFlows.map((f) => `${f.shard}: ${describeFlowFailure(f)}`),
+          ],
+        },
+    next_steps: ok ? [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }] : [{ label: "Retry", argv: ["test", ...argv] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    const { tests, failures, errors } = merged.totals;
+    io.human([
+      ...shards.map((s) => `${s.shard} ${s.device.name ?? s.device.id}: ${s.flows.length} flow${s.flows.length === 1 ? "" : "s"}, ${s.ok ? "passed" : (s.error ?? `failed (code=${s.code})`)}`),
+      `${ok ? "Maestro test succeeded" : "Maestro test failed"}: ${tests} tests, ${failures} failures, ${errors} errors across ${shards.length} shards.`,
+      ...flowResults
+        .filter((f): f is RetriedFlowResult & { shard: string } => f.status === "flaky")
+        .map((f) => `  ${f.shard}: ${f.name} flaky (passed on attempt ${f.attempts[f.attempts.length - 1]!.attempt})`),
+      ...failedFlows.map((f) => `  ${f.shard}: ${describeFlowFailure(f)}`),
+      `Report: ${reportPath}`,
+      `Run: ${runDir}`,
+    ]);
+  }
+
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
+
+type AttemptResult = {
+  attempt: number;
+  run_dir: string;
+  // Flow names this attempt ran; attempt 1 runs everything under --flow.
+  flows: string[];
+  ok: boolean;
+  code: number | null;
+  report: string | null;
+  command: string;
+  summary: MaestroResultsSummary;
+};
+
+type RetriedTestData = {
+  ok: boolean;
+  device: ResultEnvelope["target"]["device"];
+  flow: string;
+  device_log: string | null;
+  app_version: string | null;
+  report: string;
+  summary: MaestroResultsSummary;
+  flows: RetriedFlowResult[];
+  attempts: AttemptResult[];
+};
+
+function parseRetries(value: string | undefined): number {
+  if (value === undefined) return 0;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw usageError(`Invalid --retries: ${value} (expected a non-negative integer)`);
+  return n;
+}
+
+function missingResults(names: string[], code: number | null): MaestroFlowResult[] {
+  return names.map((name) => ({
+    name,
+    status: "failed",
+    duration_ms: null,
+    failure: `maestro exited (code=${code ?? "unknown"}) without results`,
+    failed_step: null,
+    steps: [],
+    commands_json: null,
+    failure_screenshots: [],
+  }));
+}
+
+type AttemptsOutcome = {
+  ok: boolean;
+  attempts: AttemptResult[];
+  flows: RetriedFlowResult[];
+};
+
+// Runs `first` (the Maestro arguments naming attempt 1's flows), then re-runs only the flows that failed, each
+// attempt in its own sub-run (<run>/attempts/attempt-N), and writes the outcome per flow as JUnit to `reportPath`.
+// A flow that fails and then passes is reported as flaky.
+async function runAttempts(
+  run: RunContext,
+  {
+    io,
+    values,
+    deviceId,
+    first,
+    filesByName,
+    config,
+    retries,
+    env,
+    outputSuffix,
+    reportPath,
+  }: {
+    io: CommandIO;
+    values: TestValues;
+    deviceId: string;
+    first: string[];
+    filesByName: Map<string, string>;
+    config: string | null;
+    retries: number;
+    env: Record<string, string>;
+    // Appended to --debug-output/--test-output-dir before the attempt name (the shard, when sharded).
+    outputSuffix: string[];
+    reportPath: string;
+  }
+): Promise<AttemptsOutcome> {
+  const attempts: AttemptResult[] = [];
+  const attemptFlows: Array<{ attempt: number; run_dir: string; flows: MaestroFlowResult[] }> = [];
+  let targets = [...filesByName.keys()];
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    const name = `attempt-${attempt}`;
+    const attemptRun = await run.createSubRun("attempts", name);
+    const report = path.join(attemptRun.artifactsDir, "report.xml");
+    const debugOutput = values["debug-output"]?.trim()
+      ? path.join(path.resolve(values["debug-output"]), ...outputSuffix, name)
+      : path.join(attemptRun.artifactsDir, "maestro-debug");
+    const testOutputDir = values["test-output-dir"]?.trim()
+      ? path.join(path.resolve(values["test-output-dir"]), ...outputSuffix, name)
+      : path.join(attemptRun.artifactsDir, "maestro-test-output");
+    await fs.mkdir(debugOutput, { recursive: true });
+    await fs.mkdir(testOutputDir, { recursive: true });
+    attemptRun.artifact({ type: "maestro_debug_dir", path: debugOutput, mime: "application/vnd.directory" });
+    attemptRun.artifact({ type: "maestro_test_output_dir", path: testOutputDir, mime: "application/vnd.directory" });
+
+    const maestroArgs = ["--device", deviceId, "test", "--format", "junit", "--output", report];
+    maestroArgs.push("--test-output-dir", testOutputDir, "--debug-output", debugOutput);
+    if (values["no-reinstall-driver"]) maestroArgs.push("--no-reinstall-driver");
+    // Retries name flow files one by one, which skips the directory's config.yaml unless it is passed explicitly.
+    if (attempt === 1) maestroArgs.push(...first);
+    else maestroArgs.push(...(config ? ["--config", config] : []), ...targets.map((t) => filesByName.get(t)!));
+
+    const res = await attemptRun.execLogged("maestro", "test", "maestro", maestroArgs, { env, timeoutMs: 60 * 60 * 1000 });
+    const hasReport = Boolean(await fs.stat(report).catch(() => null));
+    if (hasReport) attemptRun.artifact({ type: "report", path: report, mime: "application/xml" });
+    const results = await collectMaestroResults(attemptRun, { reportPath: hasReport ? report : null, debugDir: debugOutput });
+    const flows = results.flows.length === 0 && !res.ok ? missingResults(targets, res.code) : results.flows;
+    attempts.push({
+      attempt,
+      run_dir: attemptRun.runDir,
+      flows: attempt === 1 ? flows.map((f) => f.name) : targets,
+      ok: res.ok,
+      code: res.code,
+      report: hasReport ? report : null,
+      command: ["maestro", ...maestroArgs].join(" "),
+      summary: summarizeMaestroResults(flows),
+    });
+    attemptFlows.push({ attempt, run_dir: attemptRun.runDir, flows });
+
+    const failed = flows.filter((f) => f.status === "failed").map((f) => f.name);
+    const unmapped = failed.filter((n) => !filesByName.has(n));
+    if (unmapped.length > 0 && attempt <= retries) {
+      io.event({
+        type: "event",
+        ts: new Date().toISOString(),
+        event: "warning",
+        data: { message: `Cannot map failed flows to files, not retrying: ${unmapped.join(", ")}` },
+      });
+    }
+    targets = failed.filter((n) => filesByName.has(n));
+    if (targets.length === 0) break;
+  }
+
+  const flows = classifyFlowAttempts(attemptFlows);
+  const xml = renderJUnitReport(
+    "Test Suite",
+    flows.map((f) => ({
+      name: f.name,
+      time_s: f.duration_ms === null ? null : f.duration_ms / 1000,
+      status: f.status,
+      message: f.failure,
+      flaky_messages: f.attempts.filter((a) => a.status === "failed").map((a) => a.failure ?? "failed"),
+    }))
+  );
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.writeFile(reportPath, xml, "utf8");
+  run.artifact({ type: "report", path: reportPath, mime: "application/xml" });
+
+  const ok = !flows.some((f) => f.status === "failed") && (flows.length > 0 || attempts[attempts.length - 1]!.ok);
+  return { ok, attempts, flows };
+}
+
+// Single-device --retries: the attempts run against the whole --flow path.
+async function runTestWithRetries({
+  argv,
+  sessionName,
+  io,
+  run,
+  values,
+  platform,
+  flowPath,
+  flowIsDir,
+  deviceId,
+  targetDevice,
+  retries,
+  env,
+  captureDeviceLogs,
+  appId,
+  startedAt,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+  run: RunContext;
+  values: TestValues;
+  platform: Platform;
+  flowPath: string;
+  flowIsDir: boolean;
+  deviceId: string;
+  targetDevice: ResultEnvelope["target"]["device"];
+  retries: number;
+  env: Record<string, string>;
+  captureDeviceLogs: boolean;
+  appId: string | null;
+  startedAt: Date;
+}): Promise<{ envelope: ResultEnvelope<RetriedTestData>; exitCode: number }> {
+  const filesByName = await flowFilesByName(flowIsDir ? await listFlowFiles(flowPath) : [flowPath]);
+  const config = flowIsDir ? await findWorkspaceConfig(flowPath) : null;
+  const reportPath = values.output?.trim() ? path.resolve(values.output.trim()) : path.join(run.artifactsDir, "report.xml");
+
+  const deviceLogs = captureDeviceLogs ? await startDeviceLogCapture(run, { platform, deviceId }) : null;
+  const { ok, attempts, flows } = await runAttempts(run, {
+    io,
+    values,
+    deviceId,
+    first: [flowPath],
+    filesByName,
+    config,
+    retries,
+    env,
+    outputSuffix: [],
+    reportPath,
+  });
+  const deviceLog = await deviceLogs?.stop();
+  const appVersion = await installedAppVersion(platform, deviceId, appId);
+  const summary = summarizeMaestroResults(flows);
+
+  const last = attempts[attempts.length - 1]!;
+  const failedFlows = flows.filter((f) => f.status === "failed");
+  const flakyFlows = flows.filter((f) => f.status === "flaky");
+  const envelope = createEnvelope({
+    ok,
+    command_name: "test",
+    command_argv: ["test", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: run.runDir,
+    target: { device: targetDevice, app: { app_id: appId, app_path: values.app ? path.resolve(values.app) : null } },
+    artifacts: run.artifacts,
+    data: {
+      ok,
+      device: targetDevice,
+      flow: flowPath,
+      device_log: deviceLog?.path ?? null,
+      app_version: appVersion,
+      report: reportPath,
+      summary,
+      flows,
+      attempts,
     },
-    error: ok ? null : { code: "PROCESS_FAILED", message: "test failed", details: [`code=${res.code ?? "unknown"}`] },
+    error: ok
+      ? null
+      : {
+          code: "PROCESS_FAILED",
+          message: "test failed",
+          details: [
+            `code=${last.code ?? "unknown"}`,
+            `attempts=${attempts.length}`,
+            ...failedFlows.map((f) => describeFlowFailure(f)),
+          ],
+        },
     next_steps: ok ? [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }] : [{ label: "Retry", argv: ["test", ...argv] }],
   });
 
@@ -154,7 +866,15 @@ export async function cmdTest({
   envelope.artifacts = run.artifacts;
 
   if (io.config.mode === "human" && !io.config.quiet) {
-    io.human([ok ? "Maestro test succeeded." : `Maestro test failed (code=${res.code}).`, `Run: ${runDir}`]);
+    io.human([
+      ...attempts.map((a) => `attempt-${a.attempt}: ${a.flows.length} flow${a.flows.length === 1 ? "" : "s"}, ${a.summary.failed} failed`),
+      ok ? "Maestro test succeeded." : `Maestro test failed after ${attempts.length} attempt${attempts.length === 1 ? "" : "s"}.`,
+      `Flows: ${summary.passed} passed, ${summary.flaky} flaky, ${summary.failed} failed, ${summary.skipped} skipped`,
+      ...flakyFlows.map((f) => `  ${f.name} flaky (passed on attempt ${f.attempts[f.attempts.length - 1]!.attempt})`),
+      ...failedFlows.map((f) => `  ${describeFlowFailure(f)}`),
+      `Report: ${reportPath}`,
+      `Run: ${run.runDir}`,
+    ]);
   }
 
   return { envelope, exitCode: ok ? 0 : 1 };
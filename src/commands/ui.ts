@@ -4,13 +4,36 @@ import { parseArgs } from "node:util";
 import { createEnvelope, type ResultEnvelope } from "../lib/envelope.js";
 import type { CommandIO } from "../lib/io.js";
 import { createRunDir, RunContext } from "../lib/run.js";
-import { readSession, readLastSnapshot, writeLastSnapshot, writeLastTarget } from "../lib/session.js";
+import { readSession, readLastSnapshot, readPreviousSnapshot, writeLastSnapshot, writeLastTarget } from "../lib/session.js";
 import { usageError, dependencyError, CLIError } from "../lib/cliError.js";
-import { resolveAxePath } from "../lib/axe.js";
+import { buildAxeKeyArgs, buildAxeSwipeArgs, buildAxeTapArgs, buildAxeTouchArgs, IOS_KEYS, resolveAxePath } from "../lib/axe.js";
+import { parseAndroidTextStrategy, typeAndroidText, type AndroidTextStrategy } from "../lib/androidText.js";
 import { resolveAndroidDevice, resolveIOSDeviceSelector } from "../lib/deviceResolver.js";
-import { parseIOSAxeDescribeUI, parseAndroidUiautomatorXml, buildSnapshot, isUISnapshot, type UISnapshot, type CanonicalElement } from "../lib/uiSnapshot.js";
-import { parseSelectorToken, resolveTapTarget, type ParsedSelector } from "../lib/selector.js";
+import { parseIOSAxeDescribeUI, parseAndroidUiautomatorXml, buildSnapshot, axeScreenSize, isUISnapshot, type UISnapshot, type CanonicalElement } from "../lib/uiSnapshot.js";
+import { ambiguousSelectorError, matchSelector, parseSelectorToken, resolveElement, resolveTapTarget, type ParsedSelector } from "../lib/selector.js";
 import { parsePlatform } from "../lib/platform.js";
+import { diffSnapshots, isEmptyDiff, renderDiff, type UIDiff } from "../lib/uiDiff.js";
+import {
+  adbMotionDragArgs,
+  adbSendeventPinchArgs,
+  buildAdbGestureArgs,
+  centerInside,
+  directionSwipe,
+  parseGeteventTouchscreen,
+  parseSwipeDirection,
+  scrollSwipe,
+  snapshotViewport,
+  type SwipeCoords,
+  type TouchGesture,
+} from "../lib/gesture.js";
+import { decodePNG, encodePNG } from "../lib/png.js";
+import { annotateScreenshot } from "../lib/annotate.js";
+import { auditSnapshot, auditToSarif, minTargetSize, parseAuditSeverity, parseWmDensity, SEVERITY_RANK, type AuditReport } from "../lib/a11yAudit.js";
+import { getVersionString } from "../lib/version.js";
+import { flowTargetFor, MAESTRO_KEYS, recordFlowStep } from "../lib/flowRecord.js";
+import { diffImages, parseRect, scaleBounds, screenshotScale } from "../lib/imageDiff.js";
+import { ensureDir } from "../lib/paths.js";
+import { checkWaitCondition, createStabilityCheck, parseWaitCondition, type UIWaitCheck, type UIWaitSpec } from "../lib/uiWait.js";
 
 function isOlderThanMs(ts: string, ms: number): boolean {
   const t = Date.parse(ts);
@@ -37,9 +60,36 @@ type UiSnapshotValues = {
   out?: string;
 };
 
+// Saves a screenshot as artifacts/screenshot.png and returns its path.
+async function captureScreenshot(run: RunContext, { platform, deviceId }: { platform: "ios" | "android"; deviceId: string }): Promise<string> {
+  const screenshotPath = path.join(run.artifactsDir, "screenshot.png");
+  if (platform === "ios") {
+    const ss = await run.execLogged("simctl", "screenshot", "xcrun", ["simctl", "io", deviceId, "screenshot", screenshotPath], {
+      timeoutMs: 60000,
+    });
+    if (!ss.ok) throw new CLIError(`simctl screenshot failed (code=${ss.code})`, { exitCode: 1, details: [ss.stderr || ss.stdout] });
+  } else {
+    await run.execBinaryToFile("adb", "screencap", "adb", ["-s", deviceId, "exec-out", "screencap", "-p"], {
+      timeoutMs: 60000,
+      outPath: screenshotPath,
+    });
+  }
+  run.artifact({ type: "screenshot", path: screenshotPath, mime: "image/png" });
+  return screenshotPath;
+}
+
+// Saves artifacts/screenshot_annotated.png: the screenshot with every snapshot element boxed and labeled with its ref.
+async function writeAnnotatedScreenshot(run: RunContext, snapshot: UISnapshot, screenshotPath: string): Promise<void> {
+  const annotated = annotateScreenshot(decodePNG(await fs.readFile(screenshotPath)), snapshot);
+  const annotatedPath = path.join(run.artifactsDir, "screenshot_annotated.png");
+  await fs.writeFile(annotatedPath, encodePNG(annotated));
+  run.artifact({ type: "screenshot_annotated", path: annotatedPath, mime: "image/png" });
+}
+
 async function takeIosSnapshot({
   values,
   session,
+  previous,
   run,
   interactiveOnly,
   withScreenshot,
@@ -47,6 +97,7 @@ async function takeIosSnapshot({
 }: {
   values: UiSnapshotValues;
   session: Awaited<ReturnType<typeof readSession>>;
+  previous: unknown;
   run: RunContext;
   interactiveOnly: boolean;
   withScreenshot: boolean;
@@ -89,16 +140,11 @@ async function takeIosSnapshot({
     deviceId: device.udid,
     appId: session.defaults.app?.app_id ?? null,
     elements,
+    previous,
+    screen: axeScreenSize(parsed),
   });
 
-  if (withScreenshot) {
-    const screenshotPath = path.join(run.artifactsDir, "screenshot.png");
-    const ss = await run.execLogged("simctl", "screenshot", "xcrun", ["simctl", "io", device.udid, "screenshot", screenshotPath], {
-      timeoutMs: 60000,
-    });
-    if (!ss.ok) throw new CLIError(`simctl screenshot failed (code=${ss.code})`, { exitCode: 1, details: [ss.stderr || ss.stdout] });
-    run.artifact({ type: "screenshot", path: screenshotPath, mime: "image/png" });
-  }
+  if (withScreenshot) await captureScreenshot(run, { platform: "ios", deviceId: device.udid });
 
   return { snapshot, targetDevice };
 }
@@ -106,6 +152,7 @@ async function takeIosSnapshot({
 async function takeAndroidSnapshot({
   values,
   session,
+  previous,
   run,
   interactiveOnly,
   withScreenshot,
@@ -113,6 +160,7 @@ async function takeAndroidSnapshot({
 }: {
   values: UiSnapshotValues;
   session: Awaited<ReturnType<typeof readSession>>;
+  previous: unknown;
   run: RunContext;
   interactiveOnly: boolean;
   withScreenshot: boolean;
@@ -140,16 +188,10 @@ async function takeAndroidSnapshot({
     deviceId: device.id,
     appId: session.defaults.app?.app_id ?? null,
     elements,
+    previous,
   });
 
-  if (withScreenshot) {
-    const screenshotPath = path.join(run.artifactsDir, "screenshot.png");
-    await run.execBinaryToFile("adb", "screencap", "adb", ["-s", device.id, "exec-out", "screencap", "-p"], {
-      timeoutMs: 60000,
-      outPath: screenshotPath,
-    });
-    run.artifact({ type: "screenshot", path: screenshotPath, mime: "image/png" });
-  }
+  if (withScreenshot) await captureScreenshot(run, { platform: "android", deviceId: device.id });
 
   return { snapshot, targetDevice };
 }
@@ -193,15 +235,26 @@ export async function cmdUiSnapshot({
 
   const outPath = values.out ? path.resolve(values.out) : path.join(run.artifactsDir, "ui_snapshot.json");
 
+  // Elements still on screen keep the refs the previous snapshot gave them.
+  const previous = await readLastSnapshot(sessionName);
   const { snapshot, targetDevice } =
     platform === "ios"
-      ? await takeIosSnapshot({ values, session, run, interactiveOnly, withScreenshot, timeoutMs })
-      : await takeAndroidSnapshot({ values, session, run, interactiveOnly, withScreenshot, timeoutMs });
+      ? await takeIosSnapshot({ values, session, previous, run, interactiveOnly, withScreenshot, timeoutMs })
+      : await takeAndroidSnapshot({ values, session, previous, run, interactiveOnly, withScreenshot, timeoutMs });
 
   await fs.writeFile(outPath, `${JSON.stringify(snapshot, null, 2)}\n`, "utf8");
   run.artifact({ type: "ui_snapshot", path: outPath, mime: "application/json" });
   await writeLastSnapshot(sessionName, snapshot);
 
+  if (withScreenshot) {
+    try {
+      await writeAnnotatedScreenshot(run, snapshot, path.join(run.artifactsDir, "screenshot.png"));
+    } catch (e) {
+      const message = `Could not annotate screenshot: ${e instanceof Error ? e.message : String(e)}`;
+      io.event({ type: "event", ts: new Date().toISOString(), event: "warning", data: { message } });
+    }
+  }
+
   const nextSteps = snapshot.elements.length ? [{ label: "Tap an element", argv: ["ui", "tap", `@${snapshot.elements[0].ref}`] }] : [];
 
   const envelope = createEnvelope({
@@ -280,13 +333,15 @@ async function tapWithResolvedTarget({
       element = resolved.kind === "element" ? resolved.element : null;
     }
 
+    // AXe resolves --id/--label to the first match, so repeated ids or labels (list rows) are tapped by coordinates.
+    const unique = (key: "id" | "label", value: string) => snapshot?.elements.filter((e) => e.selectors.ios[key] === value).length === 1;
     const axePath = await resolveAxePath();
     let res;
-    if (element?.selectors.ios.id) {
+    if (element?.selectors.ios.id && unique("id", element.selectors.ios.id)) {
       res = await run.execLogged("axe", "tap", axePath, ["tap", "--id", element.selectors.ios.id, "--udid", device.udid], {
         timeoutMs,
       });
-    } else if (element?.selectors.ios.label) {
+    } else if (element?.selectors.ios.label && unique("label", element.selectors.ios.label)) {
       res = await run.execLogged("axe", "tap", axePath, ["tap", "--label", element.selectors.ios.label, "--udid", device.udid], {
         timeoutMs,
       });
@@ -336,6 +391,7 @@ async function tapWithResolvedTarget({
     role: element?.role ?? null,
   };
   await writeLastTarget(sessionName, { at: new Date().toISOString(), tap: tapInfo });
+  await recordFlowStep(sessionName, { action: "tap", target: flowTargetFor(element, { x: tapX, y: tapY }, snapshot), ref: element?.ref ?? null });
 
   const envelope = createEnvelope({
     ok: true,
@@ -410,20 +466,7 @@ export async function cmdUiTap({
   });
 }
 
-type UiTypeValues = { platform?: string; device?: string; "timeout-ms"?: string };
-
-function encodeAndroidText(input: string): string {
-  // Allowed: A-Z a-z 0-9 @ . _ - : / + and space
-  const allowed = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789@._-:/+ ";
-  for (const ch of input) {
-    if (!allowed.includes(ch)) {
-      throw usageError(
-        "Android ui type v1 only supports: A-Z a-z 0-9 @ . _ - : / + and space. For complex typing, use: mobile-dev-agent flow run"
-      );
-    }
-  }
-  return input.split(" ").join("%s");
-}
+type UiTypeValues = { platform?: string; device?: string; strategy?: string; "timeout-ms"?: string };
 
 export async function cmdUiType({
   argv,
@@ -435,7 +478,7 @@ export async function cmdUiType({
   sessionName: string;
   io: CommandIO;
   textArgs: string[];
-}): Promise<{ envelope: ResultEnvelope<{ typed: string }>; exitCode: number }> {
+}): Promise<{ envelope: ResultEnvelope<{ typed: string; strategy: AndroidTextStrategy | "axe_type" }>; exitCode: number }> {
   const startedAt = new Date();
   const session = await readSession(sessionName);
   const { values } = parseArgs({
@@ -443,6 +486,7 @@ export async function cmdUiType({
     options: {
       platform: { type: "string", default: session.defaults.platform ?? "ios" },
       device: { type: "string", default: session.defaults.device?.selector ?? "" },
+      strategy: { type: "string", default: "auto" },
       "timeout-ms": { type: "string", default: "15000" },
     },
     allowPositionals: true,
@@ -455,12 +499,15 @@ export async function cmdUiType({
   const platform = parsePlatform(values.platform || "ios");
   const timeoutMs = Number(values["timeout-ms"] ?? 15000);
   if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw usageError(`Invalid --timeout-ms: ${values["timeout-ms"]}`);
+  const strategy = parseAndroidTextStrategy(values.strategy ?? "auto");
+  if (platform === "ios" && strategy !== "auto") throw usageError("--strategy only applies to Android.");
 
   const runDir = await createRunDir();
   const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
   io.attachRun(run);
 
   let targetDevice: ResultEnvelope["target"]["device"] = null;
+  let used: AndroidTextStrategy | "axe_type" = "axe_type";
 
   if (platform === "ios") {
     const selector = values.device?.trim() || "booted";
@@ -476,13 +523,9 @@ export async function cmdUiType({
   } else {
     const device = await resolveAndroidDevice(values.device);
     targetDevice = { platform: "android", id: device.id, name: null };
-    const encoded = encodeAndroidText(text);
-    const res = await run.execLogged("adb", "type", "adb", ["-s", device.id, "shell", "input", "text", encoded], { timeoutMs });
-    if (!res.ok) {
-      if (res.code === null) throw dependencyError("Missing dependency: adb", ["Install Android Platform Tools and ensure `adb` is on PATH."]);
-      throw new CLIError(`type failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
-    }
+    used = await typeAndroidText(run, device.id, text, { strategy, timeoutMs });
   }
+  await recordFlowStep(sessionName, { action: "input-text", text });
 
   const envelope = createEnvelope({
     ok: true,
@@ -495,7 +538,7 @@ export async function cmdUiType({
     run_dir: runDir,
     target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
     artifacts: run.artifacts,
-    data: { typed: text },
+    data: { typed: text, strategy: used },
     error: null,
     next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i"] }],
   });
@@ -510,6 +553,40 @@ export async function cmdUiType({
 
 type UiPressValues = { platform?: string; device?: string };
 
+function assertAxeOk(res: { ok: boolean; code: number | null; stdout: string; stderr: string }, what: string): void {
+  if (res.ok) return;
+  if (res.code === null) {
+    throw dependencyError("Missing dependency: AXe CLI (axe).", [
+      "Set MOBILE_DEV_AGENT_AXE_PATH to the absolute path of the axe binary, or put `axe` on PATH.",
+    ]);
+  }
+  throw new CLIError(`${what} failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+}
+
+// iOS screen size in points: from the session's last snapshot of this simulator when there is one, otherwise from a
+// fresh describe-ui (the application element spans the screen).
+async function iosScreenSize({
+  udid,
+  session,
+  sessionName,
+  run,
+}: {
+  udid: string;
+  session: Awaited<ReturnType<typeof readSession>>;
+  sessionName: string;
+  run: RunContext;
+}): Promise<{ w: number; h: number }> {
+  const last = await readLastSnapshot(sessionName);
+  const snapshot =
+    isUISnapshot(last) && last.platform === "ios" && last.device_id === udid
+      ? last
+      : await takeQuickSnapshot({ platform: "ios", deviceSelector: udid, session, previous: last, run });
+  if (snapshot.screen) return snapshot.screen;
+  const viewport = snapshotViewport(snapshot);
+  if (!viewport) throw new CLIError("Cannot determine the iOS screen size: the UI snapshot has no visible elements.", { exitCode: 1 });
+  return { w: viewport.x + viewport.w, h: viewport.y + viewport.h };
+}
+
 const ANDROID_KEYCODES: Record<string, string> = {
   back: "KEYCODE_BACK",
   enter: "KEYCODE_ENTER",
@@ -543,12 +620,10 @@ export async function cmdUiPress({
 
   const platform = parsePlatform(values.platform || "ios");
 
-  if (platform === "ios") {
-    throw new CLIError("ui press is not implemented for iOS in v1. Use flow run for navigation keys.", { exitCode: 1 });
-  }
+  if (platform === "ios") return await pressIOSKey({ argv, sessionName, session, io, key, deviceSelector: values.device?.trim() || "", startedAt });
 
   const code = ANDROID_KEYCODES[key];
-  if (!code) throw usageError(`Unknown key: ${key}`);
+  if (!code) throw usageError(IOS_KEYS[key] ? `Key ${key} is only supported on iOS.` : `Unknown key: ${key}`);
 
   const runDir = await createRunDir();
   const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
@@ -558,6 +633,7 @@ export async function cmdUiPress({
 
   const res = await run.execLogged("adb", "keyevent", "adb", ["-s", device.id, "shell", "input", "keyevent", code], { timeoutMs: 15000 });
   if (!res.ok) throw new CLIError(`press failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+  await recordFlowStep(sessionName, { action: "press-key", key: MAESTRO_KEYS[key] ?? key });
 
   const envelope = createEnvelope({
     ok: true,
@@ -580,9 +656,70 @@ export async function cmdUiPress({
   return { envelope, exitCode: 0 };
 }
 
+async function pressIOSKey({
+  argv,
+  sessionName,
+  session,
+  io,
+  key,
+  deviceSelector,
+  startedAt,
+}: {
+  argv: string[];
+  sessionName: string;
+  session: Awaited<ReturnType<typeof readSession>>;
+  io: CommandIO;
+  key: string;
+  deviceSelector: string;
+  startedAt: Date;
+}): Promise<{ envelope: ResultEnvelope<{ pressed: string }>; exitCode: number }> {
+  const action = IOS_KEYS[key];
+  if (!action) throw usageError(`Unknown key: ${key}`);
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  const device = await resolveIOSDeviceSelector(deviceSelector || "booted");
+  if (device.state !== "Booted") throw new CLIError(`iOS device is not booted (${device.name}).`, { exitCode: 1 });
+
+  if (action.kind === "edge-swipe") {
+    const size = await iosScreenSize({ udid: device.udid, session, sessionName, run });
+    const y = Math.round(size.h / 2);
+    const coords = { x1: 1, y1: y, x2: Math.round(size.w * 0.6), y2: y };
+    await performSwipe(run, { platform: "ios", deviceId: device.udid, coords, durationMs: 300 });
+    await recordFlowStep(sessionName, { action: "swipe", from: { x: coords.x1, y: coords.y1 }, to: { x: coords.x2, y: coords.y2 }, duration_ms: 300 });
+  } else {
+    const axePath = await resolveAxePath();
+    const res = await run.execLogged("axe", action.kind, axePath, buildAxeKeyArgs(device.udid, action), { timeoutMs: 15000 });
+    assertAxeOk(res, "press");
+    await recordFlowStep(sessionName, { action: "press-key", key: MAESTRO_KEYS[key] ?? key });
+  }
+
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "ui.press",
+    command_argv: ["ui", "press", key, ...argv],
+    session: sessionName,
+    platform: "ios",
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: { platform: "ios", id: device.udid, name: device.name }, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: { pressed: key },
+    error: null,
+    next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i", "--platform", "ios"] }],
+  });
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+  if (io.config.mode === "human" && !io.config.quiet) io.human(["OK"]);
+  return { envelope, exitCode: 0 };
+}
+
 type UiSwipeValues = { "amount-px"?: string; "duration-ms"?: string; platform?: string; device?: string };
 
-function parseSwipeCoords(token: string): { x1: number; y1: number; x2: number; y2: number } {
+function parseSwipeCoords(token: string): SwipeCoords {
   if (!token.startsWith("coords:")) throw usageError(`Invalid coords: ${token}`);
   const parts = token.slice("coords:".length).split(",");
   if (parts.length !== 4) throw usageError(`Invalid coords: ${token}`);
@@ -598,6 +735,26 @@ function parseWmSize(output: string): { w: number; h: number } | null {
   return { w: Number(m[1]), h: Number(m[2]) };
 }
 
+async function performSwipe(
+  run: RunContext,
+  { platform, deviceId, coords, durationMs }: { platform: "ios" | "android"; deviceId: string; coords: SwipeCoords; durationMs: number }
+): Promise<void> {
+  if (platform === "ios") {
+    const axePath = await resolveAxePath();
+    const res = await run.execLogged("axe", "swipe", axePath, buildAxeSwipeArgs(deviceId, coords, durationMs), { timeoutMs: 15000 + durationMs });
+    assertAxeOk(res, "swipe");
+    return;
+  }
+  const res = await run.execLogged(
+    "adb",
+    "swipe",
+    "adb",
+    ["-s", deviceId, "shell", "input", "swipe", String(coords.x1), String(coords.y1), String(coords.x2), String(coords.y2), String(durationMs)],
+    { timeoutMs: 15000 }
+  );
+  if (!res.ok) throw new CLIError(`swipe failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+}
+
 export async function cmdUiSwipe({
   argv,
   sessionName,
@@ -624,7 +781,6 @@ export async function cmdUiSwipe({
   }) as { values: UiSwipeValues };
 
   const platform = parsePlatform(values.platform || "ios");
-  if (platform === "ios") throw new CLIError("ui swipe is not implemented for iOS in v1. Use flow run for gestures.", { exitCode: 1 });
 
   const amountPx = Number(values["amount-px"] ?? 300);
   const durationMs = Number(values["duration-ms"] ?? 300);
@@ -635,47 +791,50 @@ export async function cmdUiSwipe({
   const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
   io.attachRun(run);
 
-  const device = await resolveAndroidDevice(values.device);
+  let targetDevice: NonNullable<ResultEnvelope["target"]["device"]>;
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(values.device?.trim() || "booted");
+    if (device.state !== "Booted") throw new CLIError(`iOS device is not booted (${device.name}).`, { exitCode: 1 });
+    targetDevice = { platform: "ios", id: device.udid, name: device.name };
+  } else {
+    const device = await resolveAndroidDevice(values.device);
+    targetDevice = { platform: "android", id: device.id, name: null };
+  }
 
-  let coords: { x1: number; y1: number; x2: number; y2: number };
+  let coords: SwipeCoords;
   const input = directionOrCoords.trim().toLowerCase();
   if (input.startsWith("coords:")) {
     coords = parseSwipeCoords(directionOrCoords);
   } else {
-    const sizeRes = await run.execLogged("adb", "wm_size", "adb", ["-s", device.id, "shell", "wm", "size"], { timeoutMs: 15000 });
-    const size = parseWmSize(sizeRes.stdout || "") ?? { w: 1080, h: 1920 };
-    const cx = Math.round(size.w / 2);
-    const cy = Math.round(size.h / 2);
-    if (input === "up") coords = { x1: cx, y1: cy, x2: cx, y2: cy - amountPx };
-    else if (input === "down") coords = { x1: cx, y1: cy, x2: cx, y2: cy + amountPx };
-    else if (input === "left") coords = { x1: cx, y1: cy, x2: cx - amountPx, y2: cy };
-    else if (input === "right") coords = { x1: cx, y1: cy, x2: cx + amountPx, y2: cy };
-    else throw usageError(`Invalid direction: ${directionOrCoords} (expected up|down|left|right or coords:x1,y1,x2,y2)`);
+    const direction = parseSwipeDirection(input);
+    if (!direction) throw usageError(`Invalid direction: ${directionOrCoords} (expected up|down|left|right or coords:x1,y1,x2,y2)`);
+    let size: { w: number; h: number };
+    if (platform === "ios") {
+      size = await iosScreenSize({ udid: targetDevice.id, session, sessionName, run });
+    } else {
+      const sizeRes = await run.execLogged("adb", "wm_size", "adb", ["-s", targetDevice.id, "shell", "wm", "size"], { timeoutMs: 15000 });
+      size = parseWmSize(sizeRes.stdout || "") ?? { w: 1080, h: 1920 };
+    }
+    coords = directionSwipe({ x: Math.round(size.w / 2), y: Math.round(size.h / 2) }, direction, amountPx);
   }
 
-  const res = await run.execLogged(
-    "adb",
-    "swipe",
-    "adb",
-    ["-s", device.id, "shell", "input", "swipe", String(coords.x1), String(coords.y1), String(coords.x2), String(coords.y2), String(durationMs)],
-    { timeoutMs: 15000 }
-  );
-  if (!res.ok) throw new CLIError(`swipe failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+  await performSwipe(run, { platform, deviceId: targetDevice.id, coords, durationMs });
+  await recordFlowStep(sessionName, { action: "swipe", from: { x: coords.x1, y: coords.y1 }, to: { x: coords.x2, y: coords.y2 }, duration_ms: durationMs });
 
   const envelope = createEnvelope({
     ok: true,
     command_name: "ui.swipe",
     command_argv: ["ui", "swipe", directionOrCoords, ...argv],
     session: sessionName,
-    platform: "android",
+    platform,
     started_at: startedAt.toISOString(),
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: runDir,
-    target: { device: { platform: "android", id: device.id, name: null }, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
     artifacts: run.artifacts,
     data: { swipe: { ...coords, duration_ms: durationMs } },
     error: null,
-    next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i", "--platform", "android"] }],
+    next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i", "--platform", platform] }],
   });
   await run.writeResultJson(envelope);
   envelope.artifacts = run.artifacts;
@@ -683,172 +842,710 @@ export async function cmdUiSwipe({
   return { envelope, exitCode: 0 };
 }
 
-type UiAssertValues = { "timeout-ms"?: string; "interval-ms"?: string; platform?: string; device?: string };
+type UiGestureValues = { "duration-ms"?: string; scale?: string; platform?: string; device?: string };
 
-async function takeQuickSnapshot({
-  platform,
-  deviceSelector,
-  session,
-  run,
-}: {
-  platform: "ios" | "android";
-  deviceSelector: string;
-  session: Awaited<ReturnType<typeof readSession>>;
-  run: RunContext;
-}): Promise<UISnapshot> {
+const GESTURE_DEFAULT_DURATION_MS: Record<"long-press" | "drag" | "pinch", number> = { "long-press": 1000, drag: 1500, pinch: 500 };
+
+function pinchUnsupportedOnIOS(): CLIError {
+  return new CLIError("ui pinch is not supported on iOS", {
+    exitCode: 1,
+    code: "UNSUPPORTED",
+    details: ["AXe injects one touch at a time and a pinch needs two.", "Android devices and emulators support ui pinch."],
+  });
+}
+
+async function performGesture(
+  run: RunContext,
+  { platform, deviceId, gesture }: { platform: "ios" | "android"; deviceId: string; gesture: TouchGesture }
+): Promise<void> {
   if (platform === "ios") {
-    const device = await resolveIOSDeviceSelector(deviceSelector || "booted");
+    if (gesture.kind === "pinch") throw pinchUnsupportedOnIOS();
+    if (gesture.kind === "drag") {
+      // AXe has no press-and-hold move; a slow swipe is recognized as a pan by drag handles and reorder controls.
+      await performSwipe(run, { platform, deviceId, coords: { x1: gesture.from.x, y1: gesture.from.y, x2: gesture.to.x, y2: gesture.to.y }, durationMs: gesture.durationMs });
+      return;
+    }
     const axePath = await resolveAxePath();
-    const res = await run.execLogged("axe", "describe-ui", axePath, ["describe-ui", "--udid", device.udid], { timeoutMs: 15000 });
-    if (!res.ok) throw new Error(`axe describe-ui failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
-    const parsed = JSON.parse(res.stdout) as unknown;
-    const elements = parseIOSAxeDescribeUI(parsed, { interactiveOnly: false });
-    return buildSnapshot({ platform: "ios", deviceId: device.udid, appId: session.defaults.app?.app_id ?? null, elements });
+    if (gesture.kind === "long-press") {
+      const res = await run.execLogged("axe", "long_press", axePath, buildAxeTouchArgs(deviceId, gesture.at, gesture.durationMs), {
+        timeoutMs: 15000 + gesture.durationMs,
+      });
+      assertAxeOk(res, "long-press");
+      return;
+    }
+    for (let i = 0; i < 2; i++) {
+      assertAxeOk(await run.execLogged("axe", "tap", axePath, buildAxeTapArgs(deviceId, gesture.at), { timeoutMs: 15000 }), "double-tap");
+    }
+    return;
   }
 
-  const device = await resolveAndroidDevice(deviceSelector);
-  await run.execLogged("adb", "uiautomator_dump", "adb", ["-s", device.id, "shell", "uiautomator", "dump", "/sdcard/mobile-dev-agent-ui.xml"], {
-    timeoutMs: 15000,
-  });
-  const xmlPath = path.join(run.artifactsDir, "ui_dump.xml");
-  await run.execLogged("adb", "pull_ui_dump", "adb", ["-s", device.id, "pull", "/sdcard/mobile-dev-agent-ui.xml", xmlPath], { timeoutMs: 15000 });
-  const xml = await fs.readFile(xmlPath, "utf8");
-  const elements = parseAndroidUiautomatorXml(xml, { interactiveOnly: false });
-  return buildSnapshot({ platform: "android", deviceId: device.id, appId: session.defaults.app?.app_id ?? null, elements });
+  if (gesture.kind === "pinch") {
+    const events = await run.execLogged("adb", "getevent", "adb", ["-s", deviceId, "shell", "getevent", "-pl"], { timeoutMs: 15000 });
+    if (events.code === null) throw dependencyError("Missing dependency: adb", ["Install Android Platform Tools and ensure `adb` is on PATH."]);
+    const touch = parseGeteventTouchscreen(events.stdout);
+    if (!touch) {
+      throw new CLIError("No multi-touch screen found for ui pinch", {
+        exitCode: 1,
+        code: "UNSUPPORTED",
+        details: ["`adb shell getevent -pl` lists no input device with ABS_MT_SLOT and ABS_MT_POSITION_X/Y.", events.stderr].filter(Boolean),
+      });
+    }
+    const sizeRes = await run.execLogged("adb", "wm_size", "adb", ["-s", deviceId, "shell", "wm", "size"], { timeoutMs: 15000 });
+    const size = parseWmSize(sizeRes.stdout || "");
+    if (!size) throw new CLIError("Could not read the screen size for ui pinch", { exitCode: 1, details: [sizeRes.stderr || sizeRes.stdout] });
+    // One sendevent per axis and finger per step, each a process on the device: allow well beyond the duration.
+    const res = await run.execLogged("adb", "pinch", "adb", adbSendeventPinchArgs(deviceId, gesture, touch, size), { timeoutMs: 30000 + gesture.durationMs });
+    if (!res.ok) throw new CLIError(`pinch failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+    return;
+  }
+
+  const timeoutMs = 15000 + ("durationMs" in gesture ? gesture.durationMs : 0);
+  let res = await run.execLogged("adb", gesture.kind, "adb", buildAdbGestureArgs(deviceId, gesture), { timeoutMs });
+  if (res.code === null) throw dependencyError("Missing dependency: adb", ["Install Android Platform Tools and ensure `adb` is on PATH."]);
+  // `input` reports unknown commands on stderr, sometimes with exit code 0 on older releases.
+  if (gesture.kind === "drag" && (!res.ok || /unknown command/i.test(res.stderr))) {
+    res = await run.execLogged("adb", "drag_motionevent", "adb", adbMotionDragArgs(deviceId, gesture), { timeoutMs });
+  }
+  if (!res.ok) throw new CLIError(`${gesture.kind} failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
 }
 
-export async function cmdUiAssertVisible({
+// `ui long-press`, `ui double-tap`, `ui drag` and `ui pinch`: selectors resolve against the last snapshot, like `ui tap`.
+export async function cmdUiGesture({
   argv,
   sessionName,
   io,
-  query,
-  negate,
+  kind,
+  selectorTokens,
 }: {
   argv: string[];
   sessionName: string;
   io: CommandIO;
-  query: string;
-  negate: boolean;
-}): Promise<{ envelope: ResultEnvelope<{ query: string; found: boolean }>; exitCode: number }> {
+  kind: TouchGesture["kind"];
+  selectorTokens: string[];
+}): Promise<{ envelope: ResultEnvelope<{ gesture: unknown }>; exitCode: number }> {
   const startedAt = new Date();
   const session = await readSession(sessionName);
   const { values } = parseArgs({
     args: argv,
     options: {
-      "timeout-ms": { type: "string", default: "10000" },
-      "interval-ms": { type: "string", default: "300" },
+      "duration-ms": { type: "string" },
+      scale: { type: "string" },
       platform: { type: "string", default: session.defaults.platform ?? "ios" },
       device: { type: "string", default: session.defaults.device?.selector ?? "" },
     },
     allowPositionals: true,
     strict: true,
-  }) as { values: UiAssertValues };
+  }) as { values: UiGestureValues };
 
   const platform = parsePlatform(values.platform || "ios");
-  const timeoutMs = Number(values["timeout-ms"] ?? 10000);
-  const intervalMs = Number(values["interval-ms"] ?? 300);
-  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw usageError(`Invalid --timeout-ms: ${values["timeout-ms"]}`);
-  if (!Number.isFinite(intervalMs) || intervalMs <= 0) throw usageError(`Invalid --interval-ms: ${values["interval-ms"]}`);
+  const arity = kind === "drag" ? 2 : 1;
+  if (selectorTokens.length !== arity) {
+    throw usageError(kind === "drag" ? "ui drag requires <from-selector> <to-selector>" : `ui ${kind} requires <selector>`);
+  }
+  if (kind === "double-tap" && values["duration-ms"] !== undefined) throw usageError("--duration-ms does not apply to ui double-tap.");
+  const durationMs = kind === "double-tap" ? 0 : Number(values["duration-ms"] ?? GESTURE_DEFAULT_DURATION_MS[kind]);
+  if (kind !== "double-tap" && (!Number.isFinite(durationMs) || durationMs <= 0)) throw usageError(`Invalid --duration-ms: ${values["duration-ms"]}`);
+  if (kind !== "pinch" && values.scale !== undefined) throw usageError("--scale only applies to ui pinch.");
+  const scale = Number(values.scale);
+  if (kind === "pinch") {
+    if (values.scale === undefined) throw usageError("ui pinch requires --scale <factor> (e.g. 2 to zoom in, 0.5 to zoom out)");
+    if (!Number.isFinite(scale) || scale <= 0 || scale === 1) throw usageError(`Invalid --scale: ${values.scale} (expected a positive number other than 1)`);
+    if (platform === "ios") throw pinchUnsupportedOnIOS();
+  }
+
+  const selectors = selectorTokens.map((t) => parseSelectorToken(t));
+  const snapshot = selectors.every((s) => s.kind === "coords") ? null : await loadLastSnapshotOrThrow(sessionName);
+  const targets = selectors.map((selector) => {
+    if (selector.kind === "coords") return { selector, x: selector.x, y: selector.y, element: null };
+    const resolved = resolveTapTarget(snapshot!, selector);
+    return { selector, x: resolved.x, y: resolved.y, element: resolved.kind === "element" ? resolved.element : null };
+  });
+  const [first, second] = targets as [(typeof targets)[number], ...(typeof targets)[number][]];
+  // Pinches span most of the target's width; a bare point gets a fixed spread.
+  const radiusPx = first.element ? Math.max(Math.round(first.element.bounds.w * 0.4), 20) : 200;
+  const gesture: TouchGesture =
+    kind === "drag"
+      ? { kind, from: { x: first.x, y: first.y }, to: { x: second!.x, y: second!.y }, durationMs }
+      : kind === "pinch"
+        ? { kind, at: { x: first.x, y: first.y }, scale, radiusPx, durationMs }
+        : kind === "long-press"
+          ? { kind, at: { x: first.x, y: first.y }, durationMs }
+          : { kind, at: { x: first.x, y: first.y } };
 
   const runDir = await createRunDir();
   const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
   io.attachRun(run);
 
-  const deadline = Date.now() + timeoutMs;
-  let last: UISnapshot | null = null;
-  let found = false;
-  let interval = intervalMs;
-  const maxInterval = Math.max(intervalMs, 2000);
+  let targetDevice: NonNullable<ResultEnvelope["target"]["device"]>;
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(values.device?.trim() || "booted");
+    if (device.state !== "Booted") throw new CLIError(`iOS device is not booted (${device.name}).`, { exitCode: 1 });
+    targetDevice = { platform: "ios", id: device.udid, name: device.name };
+  } else {
+    const device = await resolveAndroidDevice(values.device);
+    targetDevice = { platform: "android", id: device.id, name: null };
+  }
 
-  while (Date.now() <= deadline) {
-    last = await takeQuickSnapshot({ platform, deviceSelector: values.device?.trim() || "", session, run });
-    await writeLastSnapshot(sessionName, last);
-    found = last.elements.some((e) => e.name.includes(query));
-    if ((!negate && found) || (negate && !found)) break;
-    await new Promise((r) => setTimeout(r, interval));
-    interval = Math.min(maxInterval, Math.ceil(interval * 1.4));
+  await performGesture(run, { platform, deviceId: targetDevice.id, gesture });
+  // Maestro has no drag command; a swipe with the same duration replays it. It has no pinch at all.
+  if (gesture.kind === "drag") {
+    await recordFlowStep(sessionName, { action: "swipe", from: gesture.from, to: gesture.to, duration_ms: gesture.durationMs });
+  } else if (gesture.kind !== "pinch") {
+    await recordFlowStep(sessionName, { action: gesture.kind, target: flowTargetFor(first.element, gesture.at, snapshot), ref: first.element?.ref ?? null });
   }
 
-  const ok = (!negate && found) || (negate && !found);
+  const describe = (t: (typeof targets)[number]) => ({
+    selector: t.selector,
+    x: t.x,
+    y: t.y,
+    ref: t.element?.ref ?? null,
+    name: t.element?.name ?? null,
+    role: t.element?.role ?? null,
+  });
+  const data = {
+    gesture: {
+      kind,
+      ...(kind === "drag" ? { from: describe(first), to: describe(second!) } : { target: describe(first) }),
+      ...(kind === "pinch" ? { scale } : {}),
+      ...(kind === "double-tap" ? {} : { duration_ms: durationMs }),
+    },
+  };
+
   const envelope = createEnvelope({
-    ok,
-    command_name: negate ? "ui.assert-not-visible" : "ui.assert-visible",
-    command_argv: ["ui", negate ? "assert-not-visible" : "assert-visible", query, ...argv],
+    ok: true,
+    command_name: `ui.${kind}`,
+    command_argv: ["ui", kind, ...selectorTokens, ...argv],
     session: sessionName,
     platform,
     started_at: startedAt.toISOString(),
     duration_ms: Date.now() - startedAt.getTime(),
     run_dir: runDir,
-    target: { device: null, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
     artifacts: run.artifacts,
-    data: { query, found },
-    error: ok ? null : { code: "ASSERTION_FAILED", message: "Assertion failed.", details: [`query=${JSON.stringify(query)}`, `found=${found}`] },
-    next_steps: [{ label: "Capture a snapshot", argv: ["ui", "snapshot", "-i", "--with-screenshot"] }],
+    data,
+    error: null,
+    next_steps: [{ label: "Capture a UI snapshot", argv: ["ui", "snapshot", "-i", "--platform", platform] }],
   });
-
   await run.writeResultJson(envelope);
   envelope.artifacts = run.artifacts;
-  if (io.config.mode === "human" && !io.config.quiet) io.human([ok ? "OK" : "FAIL"]);
-  return { envelope, exitCode: ok ? 0 : 1 };
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    const label = (t: (typeof targets)[number]) => `(${t.x}, ${t.y})${t.element ? ` @${t.element.ref} ${t.element.name}` : ""}`;
+    const verb = kind === "long-press" ? "Long-pressed" : kind === "pinch" ? `Pinched x${scale}` : "Double-tapped";
+    io.human([kind === "drag" ? `Dragged: ${label(first)} -> ${label(second!)}` : `${verb}: ${label(first)}`]);
+  }
+  return { envelope, exitCode: 0 };
 }
 
-type UiFindValues = { role?: string; name?: string; contains?: string; platform?: string; device?: string };
+type UiScrollToValues = { direction?: string; "max-swipes"?: string; container?: string; platform?: string; device?: string };
 
-export async function cmdUiFind({
+// Lets momentum scrolling come to rest before the next snapshot, so "no change" really means the end of the content.
+const SCROLL_SETTLE_MS = 500;
+
+export async function cmdUiScrollTo({
   argv,
   sessionName,
   io,
-  action,
 }: {
   argv: string[];
   sessionName: string;
   io: CommandIO;
-  action: string;
 }): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
   const startedAt = new Date();
   const session = await readSession(sessionName);
-  const { values } = parseArgs({
+  const { values, positionals } = parseArgs({
     args: argv,
     options: {
-      role: { type: "string" },
-      name: { type: "string" },
-      contains: { type: "string" },
+      direction: { type: "string", default: "down" },
+      "max-swipes": { type: "string", default: "10" },
+      container: { type: "string" },
       platform: { type: "string", default: session.defaults.platform ?? "ios" },
       device: { type: "string", default: session.defaults.device?.selector ?? "" },
     },
     allowPositionals: true,
     strict: true,
-  }) as { values: UiFindValues };
+  }) as { values: UiScrollToValues; positionals: string[] };
+
+  const selectorToken = positionals[0]?.trim();
+  if (!selectorToken) throw usageError("ui scroll-to requires <selector>.");
+  const selector = parseSelectorToken(selectorToken);
+  if (selector.kind === "coords") throw usageError("ui scroll-to does not accept coords: selectors.");
+  const containerSelector = values.container?.trim() ? parseSelectorToken(values.container) : null;
+  if (containerSelector?.kind === "coords") throw usageError("--container does not accept coords: selectors.");
+  const direction = parseSwipeDirection(values.direction ?? "down");
+  if (!direction) throw usageError(`Invalid --direction: ${values.direction} (expected up|down|left|right)`);
+  const maxSwipes = Number(values["max-swipes"] ?? 10);
+  if (!Number.isInteger(maxSwipes) || maxSwipes < 0) throw usageError(`Invalid --max-swipes: ${values["max-swipes"]}`);
 
-  const snapshot = await loadLastSnapshotOrThrow(sessionName);
-  let matches = snapshot.elements;
-  if (values.role) matches = matches.filter((e) => e.role === values.role);
-  if (values.name) matches = matches.filter((e) => e.name === values.name);
-  if (values.contains) matches = matches.filter((e) => e.name.includes(values.contains!));
+  const platform = parsePlatform(values.platform || "ios");
+  const deviceSelector = values.device?.trim() || "";
 
-  const act = action.trim().toLowerCase();
-  if (!["print", "tap"].includes(act)) throw usageError(`Unknown action: ${action} (expected print or tap)`);
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
 
-  if (act === "tap") {
-    if (!matches.length) {
-      const envelope = createEnvelope({
-        ok: false,
-        command_name: "ui.find",
-        command_argv: ["ui", "find", ...argv, action],
-        session: sessionName,
-        platform: snapshot.platform,
-        started_at: startedAt.toISOString(),
-        duration_ms: Date.now() - startedAt.getTime(),
-        run_dir: null,
-        artifacts: [],
-        data: { matches: [], action: act },
-        error: { code: "NOT_FOUND", message: "No matches.", details: [] },
-        next_steps: [{ label: "Capture a snapshot", argv: ["ui", "snapshot", "-i"] }],
-      });
-      if (io.config.mode === "human" && !io.config.quiet) io.human(["No matches."]);
+  let targetDevice: ResultEnvelope["target"]["device"];
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(deviceSelector || "booted");
+    targetDevice = { platform: "ios", id: device.udid, name: device.name };
+  } else {
+    const device = await resolveAndroidDevice(deviceSelector);
+    targetDevice = { platform: "android", id: device.id, name: null };
+  }
+
+  const snap = async (previous: unknown) => {
+    const next = await takeQuickSnapshot({ platform, deviceSelector, session, previous, run });
+    await writeLastSnapshot(sessionName, next);
+    return next;
+  };
+
+  let snapshot = await snap(await readLastSnapshot(sessionName));
+  // The container is resolved once: its bounds define both where to swipe and what counts as on screen.
+  const container = containerSelector ? resolveElement(snapshot, containerSelector) : null;
+  const viewport = container?.bounds ?? snapshotViewport(snapshot);
+  if (!viewport) throw new CLIError("Cannot scroll: the snapshot has no visible elements to measure the screen.", { exitCode: 1 });
+
+  const visibleMatches = (s: UISnapshot) => matchSelector(s, selector).filter((e) => e.states.visible && centerInside(e.bounds, viewport));
+
+  let swipes = 0;
+  let matches = visibleMatches(snapshot);
+  let error: { code: string; message: string; details: string[] } | null = null;
+  while (!matches.length) {
+    if (swipes >= maxSwipes) {
+      error = { code: "NOT_FOUND", message: `Not found after ${swipes} swipes: ${selectorToken}`, details: [`direction=${direction}`] };
+      break;
+    }
+    await performSwipe(run, { platform, deviceId: targetDevice.id, coords: scrollSwipe(viewport, direction), durationMs: 300 });
+    swipes += 1;
+    await new Promise((r) => setTimeout(r, SCROLL_SETTLE_MS));
+    const next = await snap(snapshot);
+    const unchanged = isEmptyDiff(diffSnapshots(snapshot, next));
+    snapshot = next;
+    matches = visibleMatches(snapshot);
+    if (!matches.length && unchanged) {
+      error = {
+        code: "SCROLL_END_REACHED",
+        message: `Content stopped changing after ${swipes} swipes without finding: ${selectorToken}`,
+        details: [`direction=${direction}`, "The end of the scrollable content was reached; try the opposite --direction or a --container."],
+      };
+      break;
+    }
+  }
+
+  const element = matches[0] ?? null;
+  const snapshotPath = path.join(run.artifactsDir, "ui_snapshot.json");
+  await fs.writeFile(snapshotPath, `${JSON.stringify(snapshot, null, 2)}\n`, "utf8");
+  run.artifact({ type: "ui_snapshot", path: snapshotPath, mime: "application/json" });
+
+  const ok = element !== null;
+  const envelope = createEnvelope({
+    ok,
+    command_name: "ui.scroll-to",
+    command_argv: ["ui", "scroll-to", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: {
+      selector: selectorToken,
+      direction,
+      container: container?.ref ?? null,
+      swipes,
+      element,
+      ref: element?.ref ?? null,
+      match_count: matches.length,
+    },
+    error,
+    next_steps: element
+      ? [{ label: "Tap the element", argv: ["ui", "tap", `@${element.ref}`] }]
+      : [{ label: "Inspect the screen", argv: ["ui", "snapshot", "-i", "--with-screenshot"] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([element ? `Found @${element.ref} after ${swipes} swipes.` : `${error?.code}: ${error?.message}`]);
+  }
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
+
+type UiAssertValues = { "timeout-ms"?: string; "interval-ms"?: string; platform?: string; device?: string };
+
+async function takeQuickSnapshot({
+  platform,
+  deviceSelector,
+  session,
+  previous,
+  run,
+}: {
+  platform: "ios" | "android";
+  deviceSelector: string;
+  session: Awaited<ReturnType<typeof readSession>>;
+  previous: unknown;
+  run: RunContext;
+}): Promise<UISnapshot> {
+  if (platform === "ios") {
+    const device = await resolveIOSDeviceSelector(deviceSelector || "booted");
+    const axePath = await resolveAxePath();
+    const res = await run.execLogged("axe", "describe-ui", axePath, ["describe-ui", "--udid", device.udid], { timeoutMs: 15000 });
+    if (!res.ok) throw new Error(`axe describe-ui failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+    const parsed = JSON.parse(res.stdout) as unknown;
+    const elements = parseIOSAxeDescribeUI(parsed, { interactiveOnly: false });
+    return buildSnapshot({
+      platform: "ios",
+      deviceId: device.udid,
+      appId: session.defaults.app?.app_id ?? null,
+      elements,
+      previous,
+      screen: axeScreenSize(parsed),
+    });
+  }
+
+  const device = await resolveAndroidDevice(deviceSelector);
+  await run.execLogged("adb", "uiautomator_dump", "adb", ["-s", device.id, "shell", "uiautomator", "dump", "/sdcard/mobile-dev-agent-ui.xml"], {
+    timeoutMs: 15000,
+  });
+  const xmlPath = path.join(run.artifactsDir, "ui_dump.xml");
+  await run.execLogged("adb", "pull_ui_dump", "adb", ["-s", device.id, "pull", "/sdcard/mobile-dev-agent-ui.xml", xmlPath], { timeoutMs: 15000 });
+  const xml = await fs.readFile(xmlPath, "utf8");
+  const elements = parseAndroidUiautomatorXml(xml, { interactiveOnly: false });
+  return buildSnapshot({ platform: "android", deviceId: device.id, appId: session.defaults.app?.app_id ?? null, elements, previous });
+}
+
+// Re-snapshots with backoff until `done` accepts a snapshot or the timeout passes. Every snapshot becomes the
+// session's last snapshot, so refs stay continuous across polls.
+async function pollSnapshots({
+  platform,
+  deviceSelector,
+  session,
+  sessionName,
+  run,
+  timeoutMs,
+  intervalMs,
+  done,
+}: {
+  platform: "ios" | "android";
+  deviceSelector: string;
+  session: Awaited<ReturnType<typeof readSession>>;
+  sessionName: string;
+  run: RunContext;
+  timeoutMs: number;
+  intervalMs: number;
+  done: (snapshot: UISnapshot) => boolean;
+}): Promise<{ snapshot: UISnapshot | null; satisfied: boolean; polls: number }> {
+  const deadline = Date.now() + timeoutMs;
+  let last: UISnapshot | null = null;
+  let polls = 0;
+  let interval = intervalMs;
+  const maxInterval = Math.max(intervalMs, 2000);
+
+  while (Date.now() <= deadline) {
+    const previous = last ?? (await readLastSnapshot(sessionName));
+    last = await takeQuickSnapshot({ platform, deviceSelector, session, previous, run });
+    polls += 1;
+    await writeLastSnapshot(sessionName, last);
+    if (done(last)) return { snapshot: last, satisfied: true, polls };
+    await new Promise((r) => setTimeout(r, interval));
+    interval = Math.min(maxInterval, Math.ceil(interval * 1.4));
+  }
+  return { snapshot: last, satisfied: false, polls };
+}
+
+export async function cmdUiAssertVisible({
+  argv,
+  sessionName,
+  io,
+  query,
+  negate,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+  query: string;
+  negate: boolean;
+}): Promise<{ envelope: ResultEnvelope<{ query: string; found: boolean }>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "timeout-ms": { type: "string", default: "10000" },
+      "interval-ms": { type: "string", default: "300" },
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+    },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: UiAssertValues };
+
+  const platform = parsePlatform(values.platform || "ios");
+  const timeoutMs = Number(values["timeout-ms"] ?? 10000);
+  const intervalMs = Number(values["interval-ms"] ?? 300);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw usageError(`Invalid --timeout-ms: ${values["timeout-ms"]}`);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) throw usageError(`Invalid --interval-ms: ${values["interval-ms"]}`);
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  let found = false;
+  await pollSnapshots({
+    platform,
+    deviceSelector: values.device?.trim() || "",
+    session,
+    sessionName,
+    run,
+    timeoutMs,
+    intervalMs,
+    done: (snapshot) => {
+      found = snapshot.elements.some((e) => e.name.includes(query));
+      return negate ? !found : found;
+    },
+  });
+
+  const ok = (!negate && found) || (negate && !found);
+  if (ok) await recordFlowStep(sessionName, { action: negate ? "assert-not-visible" : "assert-visible", text: query });
+  const envelope = createEnvelope({
+    ok,
+    command_name: negate ? "ui.assert-not-visible" : "ui.assert-visible",
+    command_argv: ["ui", negate ? "assert-not-visible" : "assert-visible", query, ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: null, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: { query, found },
+    error: ok ? null : { code: "ASSERTION_FAILED", message: "Assertion failed.", details: [`query=${JSON.stringify(query)}`, `found=${found}`] },
+    next_steps: [{ label: "Capture a snapshot", argv: ["ui", "snapshot", "-i", "--with-screenshot"] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+  if (io.config.mode === "human" && !io.config.quiet) io.human([ok ? "OK" : "FAIL"]);
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
+
+type UiWaitValues = {
+  for?: string;
+  value?: string;
+  count?: string;
+  "stable-snapshots"?: string;
+  "timeout-ms"?: string;
+  "interval-ms"?: string;
+  platform?: string;
+  device?: string;
+};
+
+export async function cmdUiWait({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      for: { type: "string" },
+      value: { type: "string" },
+      count: { type: "string" },
+      "stable-snapshots": { type: "string", default: "3" },
+      "timeout-ms": { type: "string", default: "10000" },
+      "interval-ms": { type: "string", default: "300" },
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+    },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: UiWaitValues; positionals: string[] };
+
+  const platform = parsePlatform(values.platform || "ios");
+  const timeoutMs = Number(values["timeout-ms"] ?? 10000);
+  const intervalMs = Number(values["interval-ms"] ?? 300);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw usageError(`Invalid --timeout-ms: ${values["timeout-ms"]}`);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) throw usageError(`Invalid --interval-ms: ${values["interval-ms"]}`);
+
+  const selectorToken = positionals[0]?.trim() || null;
+  const condition = values.for ? parseWaitCondition(values.for) : selectorToken ? "appears" : "stable";
+  let spec: UIWaitSpec;
+  if (condition === "stable") {
+    if (selectorToken) throw usageError("ui wait --for stable does not take a <selector>.");
+    const stableSnapshots = Number(values["stable-snapshots"]);
+    if (!Number.isInteger(stableSnapshots) || stableSnapshots < 2) throw usageError(`Invalid --stable-snapshots: ${values["stable-snapshots"]} (expected an integer >= 2)`);
+    spec = { condition, stableSnapshots };
+  } else {
+    if (!selectorToken) throw usageError(`ui wait --for ${condition} requires a <selector>.`);
+    const selector = parseSelectorToken(selectorToken);
+    if (selector.kind === "coords") throw usageError("ui wait does not accept coords: selectors.");
+    if (condition === "value-equals") {
+      if (values.value === undefined) throw usageError("ui wait --for value-equals requires --value <text>.");
+      spec = { condition, selector, value: values.value };
+    } else if (condition === "count") {
+      const count = Number(values.count);
+      if (!Number.isInteger(count) || count < 0) throw usageError(`ui wait --for count requires --count <n> (got: ${values.count ?? "none"})`);
+      spec = { condition, selector, count };
+    } else {
+      spec = { condition, selector };
+    }
+  }
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  let check: UIWaitCheck = { satisfied: false, element: null, match_count: 0 };
+  let streak = 0;
+  const stability = spec.condition === "stable" ? createStabilityCheck(spec.stableSnapshots) : null;
+  const poll = await pollSnapshots({
+    platform,
+    deviceSelector: values.device?.trim() || "",
+    session,
+    sessionName,
+    run,
+    timeoutMs,
+    intervalMs,
+    done: (snapshot) => {
+      if (stability) {
+        const res = stability(snapshot);
+        streak = res.streak;
+        return res.satisfied;
+      }
+      check = checkWaitCondition(spec as Exclude<UIWaitSpec, { condition: "stable" }>, snapshot);
+      return check.satisfied;
+    },
+  });
+
+  if (poll.snapshot) {
+    const snapshotPath = path.join(run.artifactsDir, "ui_snapshot.json");
+    await fs.writeFile(snapshotPath, `${JSON.stringify(poll.snapshot, null, 2)}\n`, "utf8");
+    run.artifact({ type: "ui_snapshot", path: snapshotPath, mime: "application/json" });
+  }
+
+  const ok = poll.satisfied;
+  const description = selectorToken ? `${condition} ${selectorToken}` : condition;
+  const envelope = createEnvelope({
+    ok,
+    command_name: "ui.wait",
+    command_argv: ["ui", "wait", ...argv],
+    session: sessionName,
+    platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: null, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: {
+      condition,
+      selector: selectorToken,
+      satisfied: ok,
+      element: stability ? null : check.element,
+      match_count: stability ? null : check.match_count,
+      stable_snapshots: stability ? streak : null,
+      polls: poll.polls,
+      snapshot: poll.snapshot,
+    },
+    error: ok
+      ? null
+      : {
+          code: "TIMEOUT",
+          message: `Timed out after ${timeoutMs}ms waiting for: ${description}`,
+          details: stability ? [`stable_snapshots=${streak}`] : [`match_count=${check.match_count}`],
+        },
+    next_steps: ok
+      ? check.element && condition !== "disappears"
+        ? [{ label: "Tap the matched element", argv: ["ui", "tap", `@${check.element.ref}`] }]
+        : []
+      : [{ label: "Inspect the screen", argv: ["ui", "snapshot", "-i", "--with-screenshot"] }],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([ok ? `OK: ${description}${check.element ? ` (@${check.element.ref})` : ""}` : `TIMEOUT: ${description}`]);
+  }
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
+
+type UiFindValues = { selector?: string; role?: string; name?: string; contains?: string; platform?: string; device?: string };
+
+export async function cmdUiFind({
+  argv,
+  sessionName,
+  io,
+  action,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+  action: string;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      selector: { type: "string" },
+      role: { type: "string" },
+      name: { type: "string" },
+      contains: { type: "string" },
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+    },
+    allowPositionals: true,
+    strict: true,
+  }) as { values: UiFindValues };
+
+  const selector = values.selector?.trim() ? parseSelectorToken(values.selector) : null;
+  if (selector?.kind === "coords") throw usageError("ui find --selector does not accept coords:");
+
+  const snapshot = await loadLastSnapshotOrThrow(sessionName);
+  let matches = selector ? matchSelector(snapshot, selector) : snapshot.elements;
+  if (values.role) matches = matches.filter((e) => e.role === values.role);
+  if (values.name) matches = matches.filter((e) => e.name === values.name);
+  if (values.contains) matches = matches.filter((e) => e.name.includes(values.contains!));
+
+  const act = action.trim().toLowerCase();
+  if (!["print", "tap"].includes(act)) throw usageError(`Unknown action: ${action} (expected print or tap)`);
+
+  if (act === "tap") {
+    if (!matches.length) {
+      const envelope = createEnvelope({
+        ok: false,
+        command_name: "ui.find",
+        command_argv: ["ui", "find", ...argv, action],
+        session: sessionName,
+        platform: snapshot.platform,
+        started_at: startedAt.toISOString(),
+        duration_ms: Date.now() - startedAt.getTime(),
+        run_dir: null,
+        artifacts: [],
+        data: { matches: [], action: act },
+        error: { code: "NOT_FOUND", message: "No matches.", details: [] },
+        next_steps: [{ label: "Capture a snapshot", argv: ["ui", "snapshot", "-i"] }],
+      });
+      if (io.config.mode === "human" && !io.config.quiet) io.human(["No matches."]);
       return { envelope, exitCode: 1 };
     }
 
+    if (matches.length > 1) {
+      const filters = [
+        values.selector ? values.selector.trim() : null,
+        values.role ? `--role ${JSON.stringify(values.role)}` : null,
+        values.name ? `--name ${JSON.stringify(values.name)}` : null,
+        values.contains ? `--contains ${JSON.stringify(values.contains)}` : null,
+      ].filter(Boolean);
+      throw ambiguousSelectorError(filters.join(" ") || "(no filters)", matches);
+    }
+
     const p = parsePlatform(values.platform || "ios");
 
     return await tapWithResolvedTarget({
@@ -883,3 +1580,365 @@ export async function cmdUiFind({
   }
   return { envelope, exitCode: 0 };
 }
+
+type UiDiffValues = { from?: string; to?: string };
+
+// Accepts a snapshot JSON file, a `ui snapshot` result envelope, or a run dir produced by `ui snapshot`.
+async function loadSnapshotSource(spec: string, flag: string): Promise<UISnapshot> {
+  const p = path.resolve(spec);
+  const st = await fs.stat(p).catch(() => null);
+  if (!st) throw usageError(`${flag} path does not exist: ${spec}`);
+  const candidates = st.isDirectory() ? [path.join(p, "artifacts", "ui_snapshot.json"), path.join(p, "result.json")] : [p];
+  for (const candidate of candidates) {
+    const raw = await fs.readFile(candidate, "utf8").catch(() => null);
+    if (raw === null) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw usageError(`${flag} is not valid JSON: ${candidate}`);
+    }
+    if (isUISnapshot(parsed)) return parsed;
+    const nested = (parsed as { data?: { snapshot?: unknown } } | null)?.data?.snapshot;
+    if (isUISnapshot(nested)) return nested;
+  }
+  throw usageError(`${flag} does not contain a UI snapshot: ${spec}`);
+}
+
+export async function cmdUiDiff({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ diff: UIDiff }>; exitCode: number }> {
+  const startedAt = new Date();
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: UiDiffValues };
+
+  const to = values.to?.trim() ? await loadSnapshotSource(values.to.trim(), "--to") : await loadLastSnapshotOrThrow(sessionName);
+  let from: UISnapshot;
+  if (values.from?.trim()) {
+    from = await loadSnapshotSource(values.from.trim(), "--from");
+  } else {
+    const previous = await readPreviousSnapshot(sessionName);
+    if (!isUISnapshot(previous)) {
+      throw new CLIError("No previous snapshot for this session. Take another snapshot or pass --from.", {
+        exitCode: 1,
+        details: ["Run: mobile-dev-agent ui snapshot -i"],
+      });
+    }
+    from = previous;
+  }
+
+  const diff = diffSnapshots(from, to);
+  const envelope = createEnvelope({
+    ok: true,
+    command_name: "ui.diff",
+    command_argv: ["ui", "diff", ...argv],
+    session: sessionName,
+    platform: to.platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: null,
+    artifacts: [],
+    data: { diff },
+    error: null,
+    next_steps: diff.added[0] ? [{ label: "Tap a new element", argv: ["ui", "tap", `@${diff.added[0].ref}`] }] : [],
+  });
+
+  if (io.config.mode === "human" && !io.config.quiet) io.human(renderDiff(diff));
+  return { envelope, exitCode: 0 };
+}
+
+type UiScreenshotCompareValues = {
+  baseline?: string;
+  actual?: string;
+  ignore?: string[];
+  threshold?: string;
+  "max-mismatch"?: string;
+  update?: boolean;
+  platform?: string;
+  device?: string;
+};
+
+export async function cmdUiScreenshotCompare({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<unknown>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      baseline: { type: "string" },
+      actual: { type: "string" },
+      ignore: { type: "string", multiple: true },
+      threshold: { type: "string", default: "0.1" },
+      "max-mismatch": { type: "string", default: "0" },
+      update: { type: "boolean", default: false },
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: UiScreenshotCompareValues };
+
+  const platform = parsePlatform(values.platform || "ios");
+  const baselinePath = values.baseline?.trim() ? path.resolve(values.baseline.trim()) : "";
+  if (!baselinePath) throw usageError("ui screenshot-compare requires --baseline <png>");
+  const threshold = Number(values.threshold ?? 0.1);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) throw usageError(`Invalid --threshold: ${values.threshold} (expected 0..1)`);
+  const maxMismatch = Number(values["max-mismatch"] ?? 0);
+  if (!Number.isFinite(maxMismatch) || maxMismatch < 0 || maxMismatch > 100) throw usageError(`Invalid --max-mismatch: ${values["max-mismatch"]} (expected 0..100)`);
+  const ignoreTokens = (values.ignore ?? []).map((t) => t.trim()).filter(Boolean);
+  const ignoreRects = ignoreTokens.filter((t) => t.startsWith("rect:")).map((t) => ({ token: t, bounds: parseRect(t) }));
+  const ignoreSelectors = ignoreTokens.filter((t) => !t.startsWith("rect:")).map((t) => ({ token: t, selector: parseSelectorToken(t) }));
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  // Selector regions need element bounds from the same screen: a fresh snapshot, or the last one for --actual.
+  let snapshot: UISnapshot | null = null;
+  let actualPath: string;
+  let targetDevice: ResultEnvelope["target"]["device"] = null;
+  if (values.actual?.trim()) {
+    actualPath = path.resolve(values.actual.trim());
+    if (ignoreSelectors.length) snapshot = await loadLastSnapshotOrThrow(sessionName);
+  } else {
+    const deviceSelector = values.device?.trim() || "";
+    if (ignoreSelectors.length) {
+      snapshot = await takeQuickSnapshot({ platform, deviceSelector, session, previous: await readLastSnapshot(sessionName), run });
+      await writeLastSnapshot(sessionName, snapshot);
+    }
+    let deviceId: string;
+    if (platform === "ios") {
+      const device = await resolveIOSDeviceSelector(deviceSelector || "booted");
+      if (device.state !== "Booted") throw new CLIError(`iOS device is not booted (${device.name}).`, { exitCode: 1 });
+      targetDevice = { platform: "ios", id: device.udid, name: device.name };
+      deviceId = device.udid;
+    } else {
+      const device = await resolveAndroidDevice(values.device);
+      targetDevice = { platform: "android", id: device.id, name: null };
+      deviceId = device.id;
+    }
+    actualPath = await captureScreenshot(run, { platform, deviceId });
+  }
+
+  const actualBuf = await fs.readFile(actualPath).catch(() => null);
+  if (!actualBuf) throw usageError(`Screenshot not found: ${actualPath}`);
+  const actual = decodePNG(actualBuf);
+
+  const finish = async (ok: boolean, data: Record<string, unknown>, error: { code: string; message: string; details: string[] } | null, human: string[]) => {
+    const envelope = createEnvelope({
+      ok,
+      command_name: "ui.screenshot-compare",
+      command_argv: ["ui", "screenshot-compare", ...argv],
+      session: sessionName,
+      platform,
+      started_at: startedAt.toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+      run_dir: runDir,
+      target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+      artifacts: run.artifacts,
+      data,
+      error,
+      next_steps: ok ? [] : [{ label: "Accept the new screenshot as the baseline", argv: ["ui", "screenshot-compare", "--baseline", baselinePath, "--update"] }],
+    });
+    await run.writeResultJson(envelope);
+    envelope.artifacts = run.artifacts;
+    if (io.config.mode === "human" && !io.config.quiet) io.human(human);
+    return { envelope, exitCode: ok ? 0 : 1 };
+  };
+
+  if (values.update) {
+    await ensureDir(path.dirname(baselinePath));
+    await fs.copyFile(actualPath, baselinePath);
+    return await finish(true, { baseline: baselinePath, actual: actualPath, updated: true }, null, [`Baseline updated: ${baselinePath}`]);
+  }
+
+  const baselineBuf = await fs.readFile(baselinePath).catch(() => null);
+  if (!baselineBuf) {
+    throw new CLIError(`Baseline not found: ${baselinePath}`, {
+      exitCode: 1,
+      code: "BASELINE_MISSING",
+      details: ["Create it from the current screen with --update."],
+    });
+  }
+  const baseline = decodePNG(baselineBuf);
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    const details = [`baseline=${baseline.width}x${baseline.height}`, `actual=${actual.width}x${actual.height}`];
+    return await finish(
+      false,
+      { baseline: baselinePath, actual: actualPath, updated: false, size_mismatch: true },
+      { code: "SIZE_MISMATCH", message: "Screenshot size differs from the baseline.", details },
+      ["FAIL: screenshot size differs from the baseline", ...details]
+    );
+  }
+
+  const scale = snapshot ? screenshotScale(actual.width, snapshot) : 1;
+  const ignored = [
+    ...ignoreSelectors.map(({ token, selector }) => {
+      const matches = matchSelector(snapshot!, selector);
+      if (!matches.length) io.event({ type: "event", ts: new Date().toISOString(), event: "warning", data: { message: `Ignore selector matched nothing: ${token}` } });
+      return { ignore: token, regions: matches.map((e) => scaleBounds(e.bounds, scale)) };
+    }),
+    ...ignoreRects.map(({ token, bounds }) => ({ ignore: token, regions: [bounds] })),
+  ];
+
+  const result = diffImages(baseline, actual, { threshold, ignore: ignored.flatMap((i) => i.regions) });
+  const diffPath = path.join(run.artifactsDir, "screenshot_diff.png");
+  await fs.writeFile(diffPath, encodePNG(result.diff));
+  run.artifact({ type: "image_diff", path: diffPath, mime: "image/png" });
+
+  const ok = result.mismatch_pct <= maxMismatch;
+  const stats = {
+    width: result.width,
+    height: result.height,
+    compared_pixels: result.compared_pixels,
+    mismatched_pixels: result.mismatched_pixels,
+    ignored_pixels: result.ignored_pixels,
+    mismatch_pct: result.mismatch_pct,
+  };
+  const summary = `${result.mismatch_pct}% of pixels differ (${result.mismatched_pixels}/${result.compared_pixels}; max ${maxMismatch}%)`;
+  return await finish(
+    ok,
+    { baseline: baselinePath, actual: actualPath, diff_image: diffPath, updated: false, threshold, max_mismatch_pct: maxMismatch, scale, ignored, ...stats },
+    ok ? null : { code: "VISUAL_MISMATCH", message: "Screenshot differs from the baseline.", details: [summary, `diff=${diffPath}`] },
+    [`${ok ? "OK" : "FAIL"}: ${summary}`, `Diff: ${diffPath}`]
+  );
+}
+
+type UiAuditValues = {
+  platform?: string;
+  device?: string;
+  snapshot?: string;
+  density?: string;
+  sarif?: string;
+  "fail-on"?: string;
+  "timeout-ms"?: string;
+};
+
+export async function cmdUiAudit({
+  argv,
+  sessionName,
+  io,
+}: {
+  argv: string[];
+  sessionName: string;
+  io: CommandIO;
+}): Promise<{ envelope: ResultEnvelope<{ audit: AuditReport }>; exitCode: number }> {
+  const startedAt = new Date();
+  const session = await readSession(sessionName);
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      platform: { type: "string", default: session.defaults.platform ?? "ios" },
+      device: { type: "string", default: session.defaults.device?.selector ?? "" },
+      snapshot: { type: "string" },
+      density: { type: "string" },
+      sarif: { type: "string" },
+      "fail-on": { type: "string" },
+      "timeout-ms": { type: "string", default: "15000" },
+    },
+    allowPositionals: false,
+    strict: true,
+  }) as { values: UiAuditValues };
+
+  const failOn = values["fail-on"]?.trim() ? parseAuditSeverity(values["fail-on"].trim(), "--fail-on") : null;
+  let density: number | null = null;
+  if (values.density?.trim()) {
+    density = Number(values.density);
+    if (!Number.isFinite(density) || density <= 0) throw usageError(`Invalid --density: ${values.density} (expected dpi, e.g. 420)`);
+  }
+  const timeoutMs = Number(values["timeout-ms"] ?? "15000");
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw usageError(`Invalid --timeout-ms: ${values["timeout-ms"]}`);
+
+  const runDir = await createRunDir();
+  const run = new RunContext(runDir, { onEvent: (e) => io.event(e) });
+  io.attachRun(run);
+
+  // Rules need every element (labels and containers), so a fresh snapshot is never interactive-only.
+  let snapshot: UISnapshot;
+  let targetDevice: ResultEnvelope["target"]["device"] = null;
+  if (values.snapshot?.trim()) {
+    snapshot = await loadSnapshotSource(values.snapshot.trim(), "--snapshot");
+  } else {
+    const platform = parsePlatform(values.platform || "ios");
+    const previous = await readLastSnapshot(sessionName);
+    const args = { values, session, previous, run, interactiveOnly: false, withScreenshot: false, timeoutMs };
+    ({ snapshot, targetDevice } = platform === "ios" ? await takeIosSnapshot(args) : await takeAndroidSnapshot(args));
+    const snapshotPath = path.join(run.artifactsDir, "ui_snapshot.json");
+    await fs.writeFile(snapshotPath, `${JSON.stringify(snapshot, null, 2)}\n`, "utf8");
+    run.artifact({ type: "ui_snapshot", path: snapshotPath, mime: "application/json" });
+    await writeLastSnapshot(sessionName, snapshot);
+    if (platform === "android" && density === null && targetDevice) {
+      const res = await run.execLogged("adb", "wm_density", "adb", ["-s", targetDevice.id, "shell", "wm", "density"], { timeoutMs: 15000 });
+      density = res.ok ? parseWmDensity(res.stdout) : null;
+    }
+  }
+
+  const audit = auditSnapshot(snapshot, { minTarget: minTargetSize(snapshot.platform, density) });
+  if (audit.rules_skipped.includes("small-tap-target")) {
+    const message = "Skipped small-tap-target: screen density unknown. Pass --density <dpi>.";
+    io.event({ type: "event", ts: new Date().toISOString(), event: "warning", data: { message } });
+  }
+
+  if (values.sarif?.trim()) {
+    const sarifPath = path.resolve(values.sarif.trim());
+    await ensureDir(path.dirname(sarifPath));
+    await fs.writeFile(sarifPath, `${JSON.stringify(auditToSarif(audit, getVersionString()), null, 2)}\n`, "utf8");
+    run.artifact({ type: "sarif", path: sarifPath, mime: "application/sarif+json" });
+  }
+
+  const failing = failOn ? audit.findings.filter((f) => SEVERITY_RANK[f.severity] >= SEVERITY_RANK[failOn]) : [];
+  const ok = failing.length === 0;
+  const first = audit.findings[0];
+  const envelope = createEnvelope({
+    ok,
+    command_name: "ui.audit",
+    command_argv: ["ui", "audit", ...argv],
+    session: sessionName,
+    platform: snapshot.platform,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    run_dir: runDir,
+    target: { device: targetDevice, app: { app_id: session.defaults.app?.app_id ?? null, app_path: session.defaults.app?.app_path ?? null } },
+    artifacts: run.artifacts,
+    data: { audit },
+    error: ok
+      ? null
+      : {
+          code: "A11Y_VIOLATIONS",
+          message: `${failing.length} accessibility finding(s) at or above ${failOn}`,
+          details: failing.map((f) => `@${f.ref} ${f.rule}: ${f.message}`),
+        },
+    next_steps: first ? [{ label: "Find the element", argv: ["ui", "find", "--selector", `@${first.ref}`, "print"] }] : [],
+  });
+
+  await run.writeResultJson(envelope);
+  envelope.artifacts = run.artifacts;
+
+  if (io.config.mode === "human" && !io.config.quiet) {
+    io.human([
+      ...audit.findings.map((f) => `${f.severity.padEnd(7)} @${f.ref} ${f.rule}: ${f.message}`),
+      `${audit.counts.error} error(s), ${audit.counts.warning} warning(s), ${audit.counts.info} info`,
+    ]);
+  }
+  return { envelope, exitCode: ok ? 0 : 1 };
+}
@@ -1,18 +1,19 @@
 // This file is generated from plans/CLI_HELP_CANON.md
 export const HELP_CANON: Record<string, string> = {
-  "": "mobile-dev-agent - Agent-native native mobile automation (iOS Simulator + Android)\n\nUsage:\n  mobile-dev-agent [global options] <command> [<args>]\n\nCommands:\n  doctor                 Check toolchain dependencies\n  session                Manage per-session defaults (platform/device/app/env)\n  device                 Manage simulators/devices and capture screenshots\n  app                    Build/install/launch/terminate apps\n  ui                     Snapshot native UI and interact using refs (@eN)\n  flow                   Run ad-hoc Maestro steps (stdin or file)\n  test                   Run Maestro flows (file/dir) with reports\n  gc                     Clean cache and old run artifacts\n  logs                   View logs (Live mode for --follow)\n  repl                   Interactive mode (starts Live mode)\n  live                   Manage Live mode (optional)\n\nGlobal options:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print a single JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output (use structured output)\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent doctor --json\n  mobile-dev-agent session set --platform ios --device \"iphone-latest\" --app-id com.example.app\n  mobile-dev-agent ui snapshot -i --with-screenshot --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
+  "": "mobile-dev-agent - Agent-native native mobile automation (iOS Simulator + Android)\n\nUsage:\n  mobile-dev-agent [global options] <command> [<args>]\n\nCommands:\n  doctor                 Check toolchain dependencies\n  session                Manage per-session defaults (platform/device/app/env)\n  device                 Manage simulators/devices and capture screenshots\n  app                    Build/install/launch/terminate apps\n  ui                     Snapshot native UI and interact using refs (@eN)\n  flow                   Run ad-hoc Maestro steps (stdin or file)\n  test                   Run Maestro flows (file/dir) with reports\n  gc                     Clean cache and old run artifacts\n  runs                   Find past runs and flow statistics\n  logs                   View device logs\n  repl                   Interactive mode (JSON requests on stdin)\n  live                   Manage Live mode (optional)\n\nGlobal options:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print a single JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output (use structured output)\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent doctor --json\n  mobile-dev-agent session set --platform ios --device \"iphone-latest\" --app-id com.example.app\n  mobile-dev-agent ui snapshot -i --with-screenshot --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "doctor": "doctor - Check toolchain dependencies for iOS/Android automation\n\nUsage:\n  mobile-dev-agent doctor [options]\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent doctor\n  mobile-dev-agent doctor --json\n\nExit codes:\n  0 all checks passed\n  1 one or more checks failed\n  2 usage error\n  127 missing dependency\n",
   "session": "session - Manage per-session defaults (platform/device/app/env)\n\nUsage:\n  mobile-dev-agent session <subcommand> [options]\n\nSubcommands:\n  show                   Show current session defaults\n  set                    Set session defaults\n  unset                  Unset a specific default\n  reset                  Clear session defaults and last snapshot\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent session show --json\n  mobile-dev-agent session set --platform ios --device \"iphone-latest\" --app-id com.example.app\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "session show": "session show - Show current session defaults\n\nUsage:\n  mobile-dev-agent session show [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent session show\n  mobile-dev-agent session show --session default --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "session set": "session set - Set session defaults (persisted)\n\nUsage:\n  mobile-dev-agent session set [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --platform <ios|android>\n                          Platform default (no default)\n  --device <selector>     Device selector default (no default)\n  --app-id <id>           App id default (bundle id / package name) (no default)\n  --app <path>            App path default (.app/.apk) (no default)\n  --env <KEY=VALUE>       Add/replace an env var (repeatable) (default: none)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent session set --platform ios --device \"iphone-latest\" --app-id com.example.app\n  mobile-dev-agent session set --env EMAIL=test@example.com --env PASS=secret --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "session unset": "session unset - Unset a specific session default\n\nUsage:\n  mobile-dev-agent session unset <key> [options]\n\nKeys:\n  platform\n  device\n  app-id\n  app\n  env.KEY               Unset a specific env var (example: env.EMAIL)\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent session unset device\n  mobile-dev-agent session unset env.EMAIL --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "session reset": "session reset - Clear session defaults and last snapshot\n\nUsage:\n  mobile-dev-agent session reset [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent session reset\n  mobile-dev-agent session reset --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
-  "device": "device - Manage simulators/devices and capture screenshots\n\nUsage:\n  mobile-dev-agent device <subcommand> [options]\n\nSubcommands:\n  list                   List available devices\n  boot                   Boot/start a device\n  shutdown               Shutdown an iOS simulator\n  erase                  Erase an iOS simulator\n  screenshot             Capture a screenshot from a device\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device list --platform all\n  mobile-dev-agent device boot --platform ios --device \"iphone-latest\"\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
+  "device": "device - Manage simulators/devices and capture screenshots\n\nUsage:\n  mobile-dev-agent device <subcommand> [options]\n\nSubcommands:\n  list                   List available devices\n  boot                   Boot/start a device\n  shutdown               Shutdown an iOS simulator\n  erase                  Erase an iOS simulator\n  screenshot             Capture a screenshot from a device\n  record                 Record the screen (start|stop)\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device list --platform all\n  mobile-dev-agent device boot --platform ios --device \"iphone-latest\"\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "device list": "device list - List available devices\n\nUsage:\n  mobile-dev-agent device list [options]\n\nOptions:\n  --platform <ios|android|all>\n                          Platform filter (default: \"ios\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device list\n  mobile-dev-agent device list --platform all --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "device boot": "device boot - Boot/start a device\n\nUsage:\n  mobile-dev-agent device boot [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     iOS: booted|iphone-latest|ipad-latest|<udid>|<name>\n                          Android: <adb device id> (default: session.device)\n  --avd <name>            Android AVD name to start (optional)\n  --wait                  Wait for device to be ready (default: true)\n  --headless              Android emulator headless (default: false)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device boot --platform ios --device \"iphone-latest\"\n  mobile-dev-agent device boot --platform android --avd Pixel_6 --wait --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "device shutdown": "device shutdown - Shutdown an iOS simulator\n\nUsage:\n  mobile-dev-agent device shutdown [options]\n\nOptions:\n  --device <selector>     iOS selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device shutdown --device booted\n  mobile-dev-agent device shutdown --device \"iphone-latest\" --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "device erase": "device erase - Erase an iOS simulator (destructive)\n\nUsage:\n  mobile-dev-agent device erase [options]\n\nOptions:\n  --device <selector>     iOS selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device erase --device booted\n  mobile-dev-agent device erase --device \"iphone-latest\" --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "device screenshot": "device screenshot - Capture a screenshot from a device\n\nUsage:\n  mobile-dev-agent device screenshot [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --out <path>            Output path (default: run_dir/artifacts/screenshot.png)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent device screenshot --device booted\n  mobile-dev-agent device screenshot --platform android --device emulator-5554 --out /tmp/screen.png --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
+  "device record": "device record - Record the screen (start|stop)\n\nUsage:\n  mobile-dev-agent device record start [options]\n  mobile-dev-agent device record stop\n\nOptions (start):\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --duration <d>          Stop recording after e.g. 30s, 5m (default: until stop)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - start runs the recorder in the background; its pid is kept in the session state dir, so stop works from another shell.\n  - stop returns the video as a `video` artifact in the recording's run dir (artifacts/recording.mp4).\n  - iOS uses `xcrun simctl io recordVideo`; Android uses `adb shell screenrecord` in chunks of up to 3 minutes,\n    stitched with ffmpeg when it is installed (otherwise each chunk is its own artifact).\n  - With --duration, the recorder stops by itself; stop still collects the video.\n\nExamples:\n  mobile-dev-agent device record start\n  mobile-dev-agent device record start --platform android --duration 5m --json\n  mobile-dev-agent device record stop --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "app": "app - Build/install/launch/terminate apps\n\nUsage:\n  mobile-dev-agent app <subcommand> [options]\n\nSubcommands:\n  build-ios               Build an iOS Simulator .app via xcodebuild\n  install                 Install an app (.app or .apk) to a device\n  uninstall               Uninstall an app by app id\n  launch                  Launch an app by app id\n  terminate               Terminate an app by app id\n  id                      Extract app id from an app bundle\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app build-ios --project MyApp.xcodeproj --scheme MyApp\n  mobile-dev-agent app install --app /path/MyApp.app --device \"iphone-latest\" --boot\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "app build-ios": "app build-ios - Build an iOS Simulator .app via xcodebuild\n\nUsage:\n  mobile-dev-agent app build-ios [options]\n\nOptions:\n  --project <path>        Path to .xcodeproj (required unless --workspace)\n  --workspace <path>      Path to .xcworkspace (required unless --project)\n  --scheme <name>         Scheme name (required)\n  --configuration <name>  Build configuration (default: \"Debug\")\n  --destination <value>   Destination alias or xcodebuild destination (default: \"iphone-latest\")\n  --derived-data <dir>    DerivedData directory (default: cache-managed)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app build-ios --project MyApp.xcodeproj --scheme MyApp\n  mobile-dev-agent app build-ios --workspace MyApp.xcworkspace --scheme MyApp --destination booted --json\n\nExit codes:\n  0 success (returns built app path)\n  1 build failed\n  2 usage error\n  127 missing dependency\n",
   "app install": "app install - Install an app (.app or .apk) to a device\n\nUsage:\n  mobile-dev-agent app install [options]\n\nOptions:\n  --app <path>            Path to .app (iOS) or .apk (Android) (required)\n  --platform <ios|android>\n                          Platform override (default: inferred from --app or session.platform)\n  --device <selector>     Device selector (default: session.device)\n  --boot                  Boot device if needed (default: false)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app install --app /path/MyApp.app --device \"iphone-latest\" --boot\n  mobile-dev-agent app install --app /path/app.apk --platform android --device emulator-5554 --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
@@ -20,24 +21,43 @@ export const HELP_CANON: Record<string, string> = {
   "app launch": "app launch - Launch an app by app id\n\nUsage:\n  mobile-dev-agent app launch [options]\n\nOptions:\n  --app-id <id>           App id (bundle id / package name) (required)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app launch --platform ios --device booted --app-id com.example.app\n  mobile-dev-agent app launch --platform android --device emulator-5554 --app-id com.example.app --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "app terminate": "app terminate - Terminate an app by app id\n\nUsage:\n  mobile-dev-agent app terminate [options]\n\nOptions:\n  --app-id <id>           App id (bundle id / package name) (required)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app terminate --platform ios --device booted --app-id com.example.app\n  mobile-dev-agent app terminate --platform android --device emulator-5554 --app-id com.example.app --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
   "app id": "app id - Extract app id from an app bundle\n\nUsage:\n  mobile-dev-agent app id [options]\n\nOptions:\n  --app <path>            Path to .app (iOS) or .apk (Android) (required)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent app id --app /path/MyApp.app\n  mobile-dev-agent app id --app /path/app.apk --json\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
-  "ui": "ui - Snapshot native UI and interact using refs (@eN)\n\nUsage:\n  mobile-dev-agent ui <subcommand> [options]\n\nSubcommands:\n  snapshot                Capture UI snapshot and generate refs\n  tap                     Tap an element (supports @eN or --ref eN)\n  type                    Type text\n  press                   Press a navigation/keyboard key\n  swipe                   Swipe gesture\n  assert-visible           Assert something becomes visible\n  assert-not-visible       Assert something becomes not visible\n  find                    Query the last snapshot (print or tap)\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui snapshot -i --with-screenshot --json\n  mobile-dev-agent ui tap @e12\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
-  "ui snapshot": "ui snapshot - Capture a native UI snapshot and generate refs for agent interaction\n\nUsage:\n  mobile-dev-agent ui snapshot [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  -i, --interactive-only  Include only interactable elements (default: true)\n  --with-screenshot       Capture a screenshot artifact (default: true)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --out <path>            Write snapshot JSON to an explicit path (default: run_dir/artifacts/ui_snapshot.json)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nRefs:\n  - Snapshot assigns refs e1..eN to elements.\n  - Target by CLI ref token: @e12\n  - Or target explicitly: --ref e12\n  - The latest snapshot is saved to the session for later @eN usage.\n\nExamples:\n  mobile-dev-agent ui snapshot -i --json\n  mobile-dev-agent ui snapshot --platform android --device emulator-5554 --with-screenshot --json\n\nExit codes:\n  0 success\n  1 snapshot failed\n  2 usage error\n  127 missing dependency (e.g., AXe for iOS)\n",
-  "ui tap": "ui tap - Tap an element\n\nUsage:\n  mobile-dev-agent ui tap <selector> [options]\n  mobile-dev-agent ui tap --ref <eN> [options]\n\nSelectors:\n  @eN                     Tap element ref from the latest snapshot (preferred)\n  coords:x,y              Tap explicit coordinates\n  text:\"Exact Label\"      Tap an element by exact name from the latest snapshot\n  id:\"Identifier\"         Tap an element by platform-specific identifier (if available)\n\nOptions:\n  --ref <eN>              Explicit ref (example: e12)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui tap @e12\n  mobile-dev-agent ui tap --ref e12 --json\n\nExit codes:\n  0 success\n  1 tap failed\n  2 usage error\n  127 missing dependency\n",
-  "ui type": "ui type - Type text\n\nUsage:\n  mobile-dev-agent ui type \"<text>\" [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Android v1 supports a limited character set for ui type. For complex input, use flow run.\n\nExamples:\n  mobile-dev-agent ui type \"hello\"\n  mobile-dev-agent ui type \"test@example.com\" --json\n\nExit codes:\n  0 success\n  1 type failed\n  2 usage error\n  127 missing dependency\n",
-  "ui press": "ui press - Press a navigation/keyboard key\n\nUsage:\n  mobile-dev-agent ui press <key> [options]\n\nKeys:\n  back\n  enter\n  tab\n  escape\n  home\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui press back\n  mobile-dev-agent ui press enter --json\n\nExit codes:\n  0 success\n  1 press failed\n  2 usage error\n  127 missing dependency\n",
-  "ui swipe": "ui swipe - Swipe gesture\n\nUsage:\n  mobile-dev-agent ui swipe <direction|coords> [options]\n\nDirections:\n  up|down|left|right\n\nCoords:\n  coords:x1,y1,x2,y2\n\nOptions:\n  --amount-px <n>         Distance for directional swipes (default: 300)\n  --duration-ms <n>       Duration for coordinate swipes (default: 300)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui swipe down --amount-px 500\n  mobile-dev-agent ui swipe coords:10,100,10,20 --duration-ms 600 --json\n\nExit codes:\n  0 success\n  1 swipe failed\n  2 usage error\n  127 missing dependency\n",
+  "ui": "ui - Snapshot native UI and interact using refs (@eN)\n\nUsage:\n  mobile-dev-agent ui <subcommand> [options]\n\nSubcommands:\n  snapshot                Capture UI snapshot and generate refs\n  tap                     Tap an element (supports @eN or --ref eN)\n  type                    Type text\n  press                   Press a navigation/keyboard key\n  swipe                   Swipe gesture\n  long-press              Press and hold an element\n  double-tap              Double-tap an element\n  drag                    Drag from one element to another\n  pinch                   Pinch to zoom an element (Android)\n  assert-visible           Assert something becomes visible\n  assert-not-visible       Assert something becomes not visible\n  find                    Query the last snapshot (print or tap)\n  diff                    Show what changed between two snapshots\n  wait                    Wait for an element condition or a stable screen\n  scroll-to               Swipe until an element is on screen\n  screenshot-compare      Compare a screenshot against a baseline PNG\n  audit                   Check the screen for accessibility problems\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui snapshot -i --with-screenshot --json\n  mobile-dev-agent ui tap @e12\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
+  "ui snapshot": "ui snapshot - Capture a native UI snapshot and generate refs for agent interaction\n\nUsage:\n  mobile-dev-agent ui snapshot [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  -i, --interactive-only  Include only interactable elements (default: true)\n  --with-screenshot       Capture a screenshot and an annotated copy with refs boxed (default: true)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --out <path>            Write snapshot JSON to an explicit path (default: run_dir/artifacts/ui_snapshot.json)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nRefs:\n  - Snapshot assigns refs e1..eN to elements.\n  - Elements still on screen keep their ref in the next snapshot; new elements get fresh numbers.\n  - Refs are never reused: tapping a ref whose element is gone fails with STALE_REF.\n  - Target by CLI ref token: @e12\n  - Or target explicitly: --ref e12\n  - The latest snapshot is saved to the session for later @eN usage.\n  - With a screenshot, artifacts/screenshot_annotated.png boxes each element and labels it @eN.\n\nExamples:\n  mobile-dev-agent ui snapshot -i --json\n  mobile-dev-agent ui snapshot --platform android --device emulator-5554 --with-screenshot --json\n\nExit codes:\n  0 success\n  1 snapshot failed\n  2 usage error\n  127 missing dependency (e.g., AXe for iOS)\n",
+  "ui tap": "ui tap - Tap an element\n\nUsage:\n  mobile-dev-agent ui tap <selector> [options]\n  mobile-dev-agent ui tap --ref <eN> [options]\n\nSelectors:\n  @eN                     Tap element ref from the latest snapshot (preferred)\n  coords:x,y              Tap explicit coordinates\n  text:\"Exact Label\"      Tap an element by exact name from the latest snapshot\n  id:\"Identifier\"         Tap an element by platform-specific identifier (if available)\n  <scope> >> <selector>   Tap a match inside an element matching <scope> (example: text:\"Invoice 42\" >> text:\"Delete\")\n\nSelector clauses (space-separated, all must match):\n  role=button             Role\n  name=\"Sign in\"          Exact name (text:\"...\" is the same)\n  name~=sign              Case-insensitive substring of the name\n  text:/^Continue/i       Regex on the name (name=/.../ also works)\n  value:\"me@example.com\"  Exact value (value~= and value:/.../ also work)\n  state=enabled           enabled|disabled|visible|hidden|focused|unfocused|checked|unchecked\n  nth=2                   The 2nd match (1-based; nearest first for spatial clauses)\n  below:<selector>        Below an anchor (also above:, right-of:, left-of:); picks the nearest match\n  within:(<selector>)     Inside an element matching <selector>; group multi-clause anchors in ( )\n\nNotes:\n  - A selector matching several elements fails with AMBIGUOUS_SELECTOR and lists the candidates.\n\nOptions:\n  --ref <eN>              Explicit ref (example: e12)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui tap @e12\n  mobile-dev-agent ui tap --ref e12 --json\n  mobile-dev-agent ui tap 'text:\"Invoice 42\" >> text:\"Delete\"'\n  mobile-dev-agent ui tap 'role=textbox below:text:\"Email\"'\n  mobile-dev-agent ui tap 'role=button name~=\"Sign\" state=enabled'\n\nExit codes:\n  0 success\n  1 tap failed\n  2 usage error\n  127 missing dependency\n",
+  "ui type": "ui type - Type text\n\nUsage:\n  mobile-dev-agent ui type \"<text>\" [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --strategy <auto|input-text|adb-keyboard|clipboard>\n                          Android text input strategy (default: auto)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - On Android, auto uses `input text` for printable ASCII (shell metacharacters are escaped).\n  - Other text (Unicode, emoji) needs ADBKeyBoard or Clipper installed on the device; auto picks whichever is present.\n  - The strategy used is reported as data.strategy.\n\nExamples:\n  mobile-dev-agent ui type \"hello\"\n  mobile-dev-agent ui type \"test@example.com\" --json\n  mobile-dev-agent ui type \"Grüße 👋\" --platform android\n\nExit codes:\n  0 success\n  1 type failed\n  2 usage error\n  127 missing dependency\n",
+  "ui press": "ui press - Press a navigation/keyboard key\n\nUsage:\n  mobile-dev-agent ui press <key> [options]\n\nKeys:\n  back                    Android back; iOS swipes from the left screen edge\n  enter\n  tab\n  escape\n  home\n  lock                    iOS only\n  volume-up               iOS only\n  volume-down             iOS only\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui press back\n  mobile-dev-agent ui press enter --json\n\nExit codes:\n  0 success\n  1 press failed\n  2 usage error\n  127 missing dependency\n",
+  "ui swipe": "ui swipe - Swipe gesture\n\nUsage:\n  mobile-dev-agent ui swipe <direction|coords> [options]\n\nDirections:\n  up|down|left|right\n\nCoords:\n  coords:x1,y1,x2,y2\n\nOptions:\n  --amount-px <n>         Distance for directional swipes (default: 300)\n  --duration-ms <n>       Swipe duration (default: 300)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Directional swipes start at the screen center and move the finger in <direction>.\n  - iOS coordinates are in points (as in ui snapshot bounds); Android coordinates are in pixels.\n\nExamples:\n  mobile-dev-agent ui swipe down --amount-px 500\n  mobile-dev-agent ui swipe coords:10,100,10,20 --duration-ms 600 --json\n\nExit codes:\n  0 success\n  1 swipe failed\n  2 usage error\n  127 missing dependency\n",
+  "ui long-press": "ui long-press - Press and hold an element\n\nUsage:\n  mobile-dev-agent ui long-press <selector> [options]\n\nOptions:\n  --duration-ms <n>       How long to hold (default: 1000)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Selectors resolve against the last snapshot, as in ui tap (@eN, coords:x,y, or selector clauses).\n\nExamples:\n  mobile-dev-agent ui long-press @e7\n  mobile-dev-agent ui long-press 'text:\"Invoice 42\"' --duration-ms 1500 --json\n\nExit codes:\n  0 success\n  1 long-press failed\n  2 usage error\n  127 missing dependency\n",
+  "ui double-tap": "ui double-tap - Double-tap an element\n\nUsage:\n  mobile-dev-agent ui double-tap <selector> [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Selectors resolve against the last snapshot, as in ui tap (@eN, coords:x,y, or selector clauses).\n\nExamples:\n  mobile-dev-agent ui double-tap @e3\n  mobile-dev-agent ui double-tap coords:200,400 --json\n\nExit codes:\n  0 success\n  1 double-tap failed\n  2 usage error\n  127 missing dependency\n",
+  "ui drag": "ui drag - Drag from one element to another\n\nUsage:\n  mobile-dev-agent ui drag <from-selector> <to-selector> [options]\n\nOptions:\n  --duration-ms <n>       Drag duration (default: 1500)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Both selectors resolve against the last snapshot; the finger moves between their centers.\n  - Android holds before moving (input draganddrop); iOS performs a slow swipe.\n\nExamples:\n  mobile-dev-agent ui drag @e4 @e9\n  mobile-dev-agent ui drag 'text:\"Milk\"' 'text:\"Eggs\"' --duration-ms 2000 --json\n\nExit codes:\n  0 success\n  1 drag failed\n  2 usage error\n  127 missing dependency\n",
+  "ui pinch": "ui pinch - Pinch to zoom an element (Android)\n\nUsage:\n  mobile-dev-agent ui pinch <selector> --scale <factor> [options]\n\nOptions:\n  --scale <factor>        Final finger distance over the initial one: > 1 zooms in, < 1 zooms out (required)\n  --duration-ms <n>       Pinch duration (default: 500)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Two fingers move apart or together on a horizontal line through the target's center, spanning 80% of its width\n    at the wide end (400px for coords: targets).\n  - Android only: the fingers are written to the touchscreen with sendevent. iOS fails with UNSUPPORTED (AXe injects\n    one touch at a time).\n  - Not recorded by flow record (Maestro has no pinch command).\n\nExamples:\n  mobile-dev-agent ui pinch @e5 --scale 2 --platform android\n  mobile-dev-agent ui pinch 'id:\"map\"' --scale 0.5 --duration-ms 800 --json\n\nExit codes:\n  0 success\n  1 pinch failed or unsupported\n  2 usage error\n  127 missing dependency\n",
   "ui assert-visible": "ui assert-visible - Assert something becomes visible (polls snapshots)\n\nUsage:\n  mobile-dev-agent ui assert-visible \"<query>\" [options]\n\nOptions:\n  --timeout-ms <n>        Timeout in ms (default: 10000)\n  --interval-ms <n>       Poll interval in ms (default: 300)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui assert-visible \"Welcome\"\n  mobile-dev-agent ui assert-visible \"Home\" --timeout-ms 20000 --json\n\nExit codes:\n  0 success\n  1 assertion failed\n  2 usage error\n  127 missing dependency\n",
   "ui assert-not-visible": "ui assert-not-visible - Assert something becomes not visible (polls snapshots)\n\nUsage:\n  mobile-dev-agent ui assert-not-visible \"<query>\" [options]\n\nOptions:\n  --timeout-ms <n>        Timeout in ms (default: 10000)\n  --interval-ms <n>       Poll interval in ms (default: 300)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui assert-not-visible \"Loading\"\n  mobile-dev-agent ui assert-not-visible \"Error\" --json\n\nExit codes:\n  0 success\n  1 assertion failed\n  2 usage error\n  127 missing dependency\n",
-  "ui find": "ui find - Query the last snapshot (print or tap)\n\nUsage:\n  mobile-dev-agent ui find [options] <action>\n\nActions:\n  print                  Print matching elements\n  tap                    Tap the first matching element\n\nOptions:\n  --role <role>          Role filter (optional)\n  --name <exact>         Exact name match (optional)\n  --contains <substr>    Substring name match (optional)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui find --role button --contains \"Sign\" print\n  mobile-dev-agent ui find --role button --name \"Sign in\" tap --json\n\nExit codes:\n  0 success\n  1 find failed\n  2 usage error\n  127 missing dependency\n",
-  "flow": "flow - Run ad-hoc Maestro steps (stdin or file)\n\nUsage:\n  mobile-dev-agent flow <subcommand> [options]\n\nSubcommands:\n  run                    Run steps from stdin or a flow file\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent flow run --platform ios --device booted --app-id com.example.app <<'YAML'\n  - launchApp\n  - assertVisible: \"Home\"\n  YAML\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
-  "flow run": "flow run - Run steps from stdin or a flow file (Maestro)\n\nUsage:\n  mobile-dev-agent flow run [options]\n  mobile-dev-agent flow run --flow <path> [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --app-id <id>           App id to embed into the generated flow header (optional)\n  --app <path>            Install this app before running (optional)\n  --flow <path>           Run an existing flow file instead of stdin (optional)\n  --format <noop|junit|html>\n                          Report format (default: \"noop\")\n  --output <path>         Report output path (default: run_dir/artifacts/report.* when format != noop)\n  --no-reinstall-driver   Pass --no-reinstall-driver to Maestro (default: false)\n  --env <KEY=VALUE>       Pass env var to Maestro (repeatable) (default: none)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent flow run --platform ios --device booted --app-id com.example.app <<'YAML'\n  - launchApp\n  - assertVisible: \"Home\"\n  YAML\n  mobile-dev-agent flow run --flow flows/login.yaml --format junit --json\n\nExit codes:\n  0 success\n  1 flow failed\n  2 usage error\n  127 missing dependency\n",
-  "test": "test - Run Maestro flows (file/dir) with reports\n\nUsage:\n  mobile-dev-agent test [options]\n\nOptions:\n  --flow <path>           Path to flow file or directory (required)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --boot                  Boot device if needed (default: false)\n  --app <path>            Install this app before running (optional)\n  --format <noop|junit|html>\n                          Report format (default: \"noop\")\n  --output <path>         Report output path (default: none)\n  --debug-output <dir>    Maestro debug output directory (default: run_dir/artifacts/maestro-debug)\n  --test-output-dir <dir> Maestro test output directory (default: run_dir/artifacts/maestro-test-output)\n  --no-reinstall-driver   Pass --no-reinstall-driver to Maestro (default: false)\n  --env <KEY=VALUE>       Pass env var to Maestro (repeatable) (default: none)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent test --flow flows --device \"iphone-latest\" --boot --format junit --output /tmp/report.xml\n  mobile-dev-agent test --flow flows/login.yaml --no-reinstall-driver --json\n\nExit codes:\n  0 success\n  1 test failed\n  2 usage error\n  127 missing dependency\n",
+  "ui find": "ui find - Query the last snapshot (print or tap)\n\nUsage:\n  mobile-dev-agent ui find [options] <action>\n\nActions:\n  print                  Print matching elements\n  tap                    Tap the matching element (fails with AMBIGUOUS_SELECTOR on several matches)\n\nOptions:\n  --selector <selector>  Selector filter, same language as ui tap (optional)\n  --role <role>          Role filter (optional)\n  --name <exact>         Exact name match (optional)\n  --contains <substr>    Substring name match (optional)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent ui find --role button --contains \"Sign\" print\n  mobile-dev-agent ui find --role button --name \"Sign in\" tap --json\n  mobile-dev-agent ui find --selector 'role=button text:/^Continue/i' print\n\nExit codes:\n  0 success\n  1 find failed\n  2 usage error\n  127 missing dependency\n",
+  "ui diff": "ui diff - Show what changed between two snapshots\n\nUsage:\n  mobile-dev-agent ui diff [options]\n\nOptions:\n  --from <snapshot.json|run_dir>\n                          Older snapshot (default: the session's previous snapshot)\n  --to <snapshot.json|run_dir>\n                          Newer snapshot (default: the session's last snapshot)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Reports added, removed, moved, resized, renamed, state-changed, and value-changed elements.\n\nExamples:\n  mobile-dev-agent ui diff\n  mobile-dev-agent ui diff --from /path/to/run_dir --json\n\nExit codes:\n  0 success\n  1 diff failed\n  2 usage error\n  127 missing dependency\n",
+  "ui wait": "ui wait - Wait for an element condition or a stable screen\n\nUsage:\n  mobile-dev-agent ui wait <selector> [--for <condition>] [options]\n  mobile-dev-agent ui wait --for stable [options]\n\nConditions:\n  appears                 An element matches <selector> (default with a selector)\n  disappears              No element matches <selector>\n  enabled                 A matching element is enabled\n  value-equals            A matching element's value equals --value\n  count                   At least --count elements match\n  stable                  --stable-snapshots consecutive snapshots are identical (default without a selector)\n\nOptions:\n  --for <condition>       Condition to wait for\n  --value <text>          Expected value (value-equals)\n  --count <n>             Minimum number of matches (count)\n  --stable-snapshots <n>  Identical snapshots in a row that count as stable (default: 3)\n  --timeout-ms <n>        Give up after this long (default: 10000)\n  --interval-ms <n>       First poll interval; grows with backoff up to 2s (default: 300)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <selector> uses the ui tap selector language.\n  - The result includes the matched element and the final snapshot, which also becomes the session's last snapshot.\n\nExamples:\n  mobile-dev-agent ui wait 'role=button name=\"Pay\"' --for enabled --json\n  mobile-dev-agent ui wait @e7 --for disappears --timeout-ms 5000\n  mobile-dev-agent ui wait --for stable\n\nExit codes:\n  0 condition met\n  1 timed out (error.code TIMEOUT) or wait failed\n  2 usage error\n  127 missing dependency\n",
+  "ui scroll-to": "ui scroll-to - Swipe until an element is on screen\n\nUsage:\n  mobile-dev-agent ui scroll-to <selector> [options]\n\nOptions:\n  --direction <up|down|left|right>\n                          Direction to scroll the content (default: down)\n  --max-swipes <n>        Give up after this many swipes (default: 10)\n  --container <selector>  Scroll inside this element instead of the whole screen\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <selector> uses the ui tap selector language; the element counts once its center is inside the screen (or container).\n  - If a swipe leaves the UI unchanged, the end of the content was reached: fails with SCROLL_END_REACHED.\n  - Running out of --max-swipes fails with NOT_FOUND.\n\nExamples:\n  mobile-dev-agent ui scroll-to 'text:\"Privacy\"' --json\n  mobile-dev-agent ui scroll-to 'role=button name=\"Load more\"' --container 'id:\"feed\"' --max-swipes 20\n\nExit codes:\n  0 element found\n  1 not found or scroll failed\n  2 usage error\n  127 missing dependency\n",
+  "ui screenshot-compare": "ui screenshot-compare - Compare a screenshot against a baseline PNG\n\nUsage:\n  mobile-dev-agent ui screenshot-compare --baseline <png> [options]\n\nOptions:\n  --baseline <path>       Golden PNG to compare against (required)\n  --actual <path>         Compare this PNG instead of capturing a fresh screenshot\n  --ignore <region>       Mask a region: a selector (its elements' bounds) or rect:x,y,w,h in pixels (repeatable)\n  --threshold <0..1>      Per-channel color tolerance for a pixel to match (default: 0.1)\n  --max-mismatch <pct>    Percentage of differing pixels still treated as a pass (default: 0)\n  --update                Write the screenshot to --baseline instead of comparing\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Selector regions come from a fresh full snapshot (or the last snapshot with --actual); iOS points are scaled to pixels.\n  - The diff image (artifacts/screenshot_diff.png) shows mismatches in red and ignored regions in blue.\n  - data.mismatch_pct is relative to the pixels outside ignored regions.\n\nExamples:\n  mobile-dev-agent ui screenshot-compare --baseline goldens/login.png --update\n  mobile-dev-agent ui screenshot-compare --baseline goldens/login.png --ignore 'id:clock' --ignore rect:0,0,1170,140 --json\n\nExit codes:\n  0 screenshot matches the baseline\n  1 mismatch, size mismatch, or missing baseline\n  2 usage error\n  127 missing dependency\n",
+  "ui audit": "ui audit - Check the screen for accessibility problems\n\nUsage:\n  mobile-dev-agent ui audit [options]\n\nOptions:\n  --snapshot <path>       Audit a saved snapshot (JSON, result.json, or run dir) instead of capturing one\n  --density <dpi>         Android screen density for the 48dp tap-target rule (default: adb shell wm density)\n  --sarif <path>          Also write the findings as SARIF 2.1.0\n  --fail-on <severity>    Exit 1 when a finding is at or above error|warning|info (default: never fail)\n  --timeout-ms <n>        Driver timeout in ms (default: 15000)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nRules:\n  missing-label           error    Interactive element without an accessibility label\n  textbox-unlabeled       error    Text field without a label\n  small-tap-target        warning  Tap target smaller than 44x44 pt (iOS) or 48x48 dp (Android)\n  duplicate-label         warning  Distinct buttons sharing the same label\n  disabled-unlabeled      info     Visible, disabled element without a label\n\nNotes:\n  - A fresh audit takes a full (not interactive-only) snapshot and saves it as the session's last snapshot.\n  - Findings carry refs (@eN) usable with ui tap / ui find.\n\nExamples:\n  mobile-dev-agent ui audit --json\n  mobile-dev-agent ui audit --platform android --fail-on error --sarif a11y.sarif\n\nExit codes:\n  0 audit completed (and nothing at or above --fail-on)\n  1 audit failed, or findings at or above --fail-on\n  2 usage error\n  127 missing dependency\n",
+  "flow": "flow - Run ad-hoc Maestro steps (stdin or file)\n\nUsage:\n  mobile-dev-agent flow <subcommand> [options]\n\nSubcommands:\n  run                    Run steps from stdin or a flow file\n  lint                   Check a flow against the Maestro command set\n  record                 Record ui actions into a Maestro flow (start|stop)\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent flow run --platform ios --device booted --app-id com.example.app <<'YAML'\n  - launchApp\n  - assertVisible: \"Home\"\n  YAML\n\nExit codes:\n  0 success\n  1 command failed\n  2 usage error\n  127 missing dependency\n",
+  "flow run": "flow run - Run steps from stdin or a flow file (Maestro)\n\nUsage:\n  mobile-dev-agent flow run [options]\n  mobile-dev-agent flow run --flow <path> [options]\n\nOptions:\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --app-id <id>           App id to embed into the generated flow header (optional)\n  --app <path>            Install this app before running (optional)\n  --flow <path>           Run an existing flow file instead of stdin (optional)\n  --format <noop|junit|html>\n                          Report format (default: \"noop\")\n  --output <path>         Report output path (default: run_dir/artifacts/report.* when format != noop)\n  --no-reinstall-driver   Pass --no-reinstall-driver to Maestro (default: false)\n  --env <KEY=VALUE>       Pass env var to Maestro (repeatable) (default: none)\n  --device-logs           Capture device logs for the run as a device_log artifact (default: true with --jsonl)\n  --no-device-logs        Skip device log capture (default: false)\n  --no-lint               Skip the pre-flight flow lint (default: false)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - The flow is linted (see flow lint) before any device setup; lint errors fail with FLOW_INVALID.\n  - data.flows and data.summary report per-flow and per-step results, as for test.\n\nExamples:\n  mobile-dev-agent flow run --platform ios --device booted --app-id com.example.app <<'YAML'\n  - launchApp\n  - assertVisible: \"Home\"\n  YAML\n  mobile-dev-agent flow run --flow flows/login.yaml --format junit --json\n\nExit codes:\n  0 success\n  1 flow failed\n  2 usage error\n  127 missing dependency\n",
+  "flow lint": "flow lint - Check a flow against the Maestro command set\n\nUsage:\n  mobile-dev-agent flow lint <file> [options]\n  mobile-dev-agent flow lint [options] < steps.yaml\n\nOptions:\n  --app-id <id>           App id for the header, as flow run adds it (default: session.app.app_id)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nChecks:\n  - YAML syntax (anchors, aliases and complex keys are not read: a warning, and the file is skipped)\n  - appId (or url) header followed by a --- separator\n  - command names, with a suggestion for misspellings\n  - argument shapes (scalar, mapping, required keys); unknown keys are warnings\n  - runFlow / runScript files exist (relative to the including flow); included flows are linted too\n  Issues print as <file>:<line>: <error|warning>: <message>.\n\nExamples:\n  mobile-dev-agent flow lint flows/login.yaml\n  mobile-dev-agent flow lint --app-id com.example.app --json <<'YAML'\n  - launchApp\n  - tapOn: \"Sign in\"\n  YAML\n\nExit codes:\n  0 no errors (warnings allowed)\n  1 lint errors (FLOW_INVALID)\n  2 usage error\n",
+  "flow record": "flow record - Record ui actions into a Maestro flow\n\nUsage:\n  mobile-dev-agent flow record start [options]\n  mobile-dev-agent flow record stop [options]\n\nOptions (start):\n  --app-id <id>           App id for the flow header (default: session.app.app_id)\n  --force                 Discard a recording already in progress (default: false)\n\nOptions (stop):\n  --out <path>            Write the flow here (default: run_dir/artifacts/flow.yaml)\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nRecorded actions:\n  ui tap / long-press / double-tap  tapOn / longPressOn / doubleTapOn (id, else text, else point)\n  ui type                           inputText\n  ui swipe, ui drag                 swipe (start, end, duration)\n  ui press                          pressKey (iOS back is recorded as its edge swipe)\n  ui assert-visible / -not-visible  assertVisible / assertNotVisible\n  Only successful actions are recorded.\n\nExamples:\n  mobile-dev-agent flow record start\n  mobile-dev-agent ui tap 'text:\"Sign in\"'\n  mobile-dev-agent flow record stop --out flows/sign-in.yaml --json\n\nExit codes:\n  0 success\n  1 recording already in progress (start) or nothing recorded (stop)\n  2 usage error\n",
+  "test": "test - Run Maestro flows (file/dir) with reports\n\nUsage:\n  mobile-dev-agent test [options]\n\nOptions:\n  --flow <path>           Path to flow file or directory (required)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --boot                  Boot device if needed (default: false)\n  --app <path>            Install this app before running (optional)\n  --format <noop|junit|html>\n                          Report format (default: \"noop\")\n  --output <path>         Report output path (default: run_dir/artifacts/report.xml with junit, else none)\n  --debug-output <dir>    Maestro debug output directory (default: run_dir/artifacts/maestro-debug)\n  --test-output-dir <dir> Maestro test output directory (default: run_dir/artifacts/maestro-test-output)\n  --no-reinstall-driver   Pass --no-reinstall-driver to Maestro (default: false)\n  --env <KEY=VALUE>       Pass env var to Maestro (repeatable) (default: none)\n  --device-logs           Capture device logs for the run as a device_log artifact (default: true with --jsonl)\n  --no-device-logs        Skip device log capture (default: false)\n  --no-lint               Skip the pre-flight flow lint (default: false)\n  --devices <list>        Shard the flows across these devices (comma-separated selectors) (optional)\n  --shards <n>            Shard the flows across n devices (optional)\n  --retries <n>           Re-run failed flows up to n more times (default: 0)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Every flow (each *.yaml in a directory, except config.yaml) is linted before any device setup.\n  - Sharding (--devices or --shards) needs --flow <dir>. Its top-level flows are dealt round-robin across the devices,\n    and one Maestro process runs per shard in parallel, each in run_dir/shards/shard-N.\n  - --shards on iOS uses --device plus \"<name> (shard N)\" simulators (cloned or created on first use, reused after);\n    on Android it uses the online devices, then boots AVDs that are not running (headless, left running after) for\n    the rest. All devices are booted before any shard starts.\n  - Without --app, simulators created from a running --device and emulators booted for shards get the app copied from\n    the first device, which needs the session's app id; without one they are refused before anything is set up.\n  - Shards always write JUnit; the merged report goes to --output (default: run_dir/artifacts/report.xml).\n  - data.flows lists each flow's status, duration, failure message and steps (from the JUnit report and Maestro's\n    --debug-output commands JSON); failed_step names the command that failed. data.summary counts them.\n  - Per-flow command logs and failure screenshots are indexed as maestro_commands and failure_screenshot artifacts.\n  - --retries re-runs only the flows that failed, each attempt in run_dir/attempts/attempt-N with its own report and\n    debug output. A flow that fails and then passes is \"flaky\" and does not fail the run. Sharded runs retry per\n    shard, on the shard's device, in run_dir/shards/shard-N/attempts/attempt-N; data.shards[].attempts lists them.\n  - With --retries the final JUnit report (--output, default: run_dir/artifacts/report.xml) has one testcase per flow;\n    flaky ones pass with a <flakyFailure> per failed attempt. data.attempts lists each attempt's flows and exit code.\n\nExamples:\n  mobile-dev-agent test --flow flows --device \"iphone-latest\" --boot --format junit --output /tmp/report.xml\n  mobile-dev-agent test --flow flows/login.yaml --no-reinstall-driver --json\n  mobile-dev-agent test --flow flows --devices \"iPhone 15,iPhone 15 Pro\" --format junit --json\n  mobile-dev-agent test --flow flows --platform android --shards 4\n  mobile-dev-agent test --flow flows --retries 2 --json\n  mobile-dev-agent test --flow flows --platform android --shards 2 --retries 1 --json\n\nExit codes:\n  0 success\n  1 test failed\n  2 usage error\n  127 missing dependency\n",
   "gc": "gc - Clean cache and old run artifacts\n\nUsage:\n  mobile-dev-agent gc [options]\n\nOptions:\n  --dry-run               Print what would be deleted (default: false)\n  --keep-last <n>         Keep last N runs (default: 20)\n  --keep-failure-days <n> Keep failed runs for N days (default: 7)\n  --max-bytes <n>         Max total cache size in bytes (default: 2147483648)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent gc --dry-run\n  mobile-dev-agent gc --keep-last 50 --max-bytes 4294967296 --json\n\nExit codes:\n  0 success\n  1 gc failed\n  2 usage error\n  127 missing dependency\n",
-  "logs": "logs - View logs (Live mode for --follow)\n\nUsage:\n  mobile-dev-agent logs <subcommand> [options]\n\nSubcommands:\n  tail                   Print logs once or follow\n\nOptions:\n  --json                  Print JSON result to stdout (non-follow only)\n  --jsonl                 Stream JSON events (required for --follow)\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent logs tail\n  mobile-dev-agent logs tail --follow\n\nExit codes:\n  0 success\n  1 logs failed\n  2 usage error\n  127 missing dependency\n",
-  "logs tail": "logs tail - Print logs once or follow (Live mode for --follow)\n\nUsage:\n  mobile-dev-agent logs tail [options]\n\nOptions:\n  --follow                Follow logs (starts Live mode) (default: false)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --app-id <id>           Filter logs to an app id if supported (optional)\n  --json                  Print JSON result to stdout (non-follow only)\n  --jsonl                 Stream JSON events; final line is the JSON result (follow emits events continuously)\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent logs tail --platform ios --device booted\n  mobile-dev-agent logs tail --follow --platform android --device emulator-5554\n\nExit codes:\n  0 success\n  1 logs failed\n  2 usage error\n  127 missing dependency\n",
-  "repl": "repl - Interactive mode (starts Live mode)\n\nUsage:\n  mobile-dev-agent repl [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --jsonl                 Stream JSON events (default: true)\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent repl\n  mobile-dev-agent repl --session default\n\nExit codes:\n  0 success\n  1 repl failed\n  2 usage error\n  127 missing dependency\n",
+  "runs": "runs - Find past runs and flow statistics\n\nUsage:\n  mobile-dev-agent runs <subcommand> [options]\n\nSubcommands:\n  list                   List run dirs, newest first\n  show                   Print a run's stored result and artifact index\n  last                   Show the newest run matching the filters\n  path                   Print a run's directory\n  stats                  Pass rate, durations and flaky flows from the flow history\n  export                 Package a run into a .tar.gz bundle\n  import                 Unpack a run bundle into the cache\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent runs list --failed --since 1h\n  mobile-dev-agent runs last --command test --failed --json\n  mobile-dev-agent runs stats --since 7d\n  mobile-dev-agent runs export 20260301-101500-a1b2c3 --out failure.tar.gz\n\nExit codes:\n  0 success\n  1 runs failed\n  2 usage error\n  127 missing dependency\n",
+  "runs list": "runs list - List run dirs, newest first\n\nUsage:\n  mobile-dev-agent runs list [options]\n\nOptions:\n  --command <name>        Only runs of this command, e.g. test, flow.run, ui.tap (optional)\n  --failed                Only failed runs and runs without a result (default: false)\n  --since <duration>      Only runs started within this window (e.g. 30m, 1h, 7d) (optional)\n  --session <name>        Only runs of this session (default: \"default\")\n  --all-sessions          Include runs of every session (default: false)\n  --limit <n>             Maximum number of runs to list (default: 20)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Runs are the dirs under <CACHE>/runs; a run's id is its dir name (<YYYYMMDD-HHMMSS>-<rand>).\n  - A run without result.json (crashed or still running) has status \"unknown\"; it counts as failed and matches every\n    session.\n  - data.total counts all matching runs; data.runs holds the first --limit of them.\n\nExamples:\n  mobile-dev-agent runs list\n  mobile-dev-agent runs list --command ui.tap --failed --since 1h --json\n  mobile-dev-agent runs list --session ci --command test\n\nExit codes:\n  0 success\n  1 runs list failed\n  2 usage error\n  127 missing dependency\n",
+  "runs show": "runs show - Print a run's stored result and artifact index\n\nUsage:\n  mobile-dev-agent runs show <id> [options]\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <id> is a run id, a unique prefix of one, or the run dir path.\n  - data.result is the stored result.json (null if the run has none); data.artifacts lists its artifacts, each with\n    exists (false once the file is gone).\n  - Fails with RUN_NOT_FOUND when no run matches.\n\nExamples:\n  mobile-dev-agent runs show 20260301-101500-a1b2c3\n  mobile-dev-agent runs show 20260301-1015 --json\n\nExit codes:\n  0 success\n  1 run not found\n  2 usage error\n  127 missing dependency\n",
+  "runs last": "runs last - Show the newest run matching the filters\n\nUsage:\n  mobile-dev-agent runs last [options]\n\nOptions:\n  --command <name>        Only runs of this command, e.g. test, flow.run, ui.tap (optional)\n  --failed                Only failed runs and runs without a result (default: false)\n  --since <duration>      Only runs started within this window (e.g. 30m, 1h, 7d) (optional)\n  --session <name>        Only runs of this session (default: \"default\")\n  --all-sessions          Include runs of every session (default: false)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - Same output as runs show. Fails with RUN_NOT_FOUND when no run matches.\n\nExamples:\n  mobile-dev-agent runs last\n  mobile-dev-agent runs last --command test --failed --json\n\nExit codes:\n  0 success\n  1 no matching run\n  2 usage error\n  127 missing dependency\n",
+  "runs path": "runs path - Print a run's directory\n\nUsage:\n  mobile-dev-agent runs path <id> [options]\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <id> is a run id or a unique prefix of one. Human output is the path alone.\n\nExamples:\n  cd \"$(mobile-dev-agent runs path 20260301-101500-a1b2c3)\"\n  mobile-dev-agent runs path 20260301-1015 --json\n\nExit codes:\n  0 success\n  1 run not found\n  2 usage error\n  127 missing dependency\n",
+  "runs stats": "runs stats - Pass rate, durations and flaky flows from the flow history\n\nUsage:\n  mobile-dev-agent runs stats [options]\n\nOptions:\n  --since <duration>      Only runs started within this window (e.g. 24h, 7d) (default: \"30d\")\n  --flow <name>           Only this flow (optional)\n  --platform <ios|android>\n                          Only runs on this platform (optional)\n  --top <n>               Number of flaky flows to list (default: 10)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - The flow history (<CACHE>/history/flows.jsonl) has one record per flow per test run: status, duration, attempts,\n    device and app version. It is updated from run dirs' result.json before stats are computed and before gc deletes\n    run dirs, so it outlives them. Records older than 90 days are dropped.\n  - pass_rate counts first-attempt passes over non-skipped runs; flaky (--retries) runs do not count as passes.\n  - flips counts pass/fail changes between consecutive runs; flakiness is (flaky runs + flips) / non-skipped runs.\n  - p50_ms and p95_ms are nearest-rank percentiles of the flow's durations.\n  - App versions are read from the device after each test run when the session has an app id.\n\nExamples:\n  mobile-dev-agent runs stats\n  mobile-dev-agent runs stats --since 7d --platform ios --top 5 --json\n  mobile-dev-agent runs stats --flow \"Login\" --json\n\nExit codes:\n  0 success\n  1 runs stats failed\n  2 usage error\n  127 missing dependency\n",
+  "runs export": "runs export - Package a run into a .tar.gz bundle\n\nUsage:\n  mobile-dev-agent runs export <id> [options]\n\nOptions:\n  --out <path>            Bundle file to write (default: \"./<id>.tar.gz\")\n  --no-external           Leave out artifacts stored outside the run dir (default: false)\n  --exclude-type <type>   Leave out artifacts of this type, e.g. app (repeatable) (optional)\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <id> is a run id, a unique prefix of one, or the run dir path.\n  - The bundle holds the run dir (result.json, trace.jsonl, logs/, artifacts/ and the rest) under <id>/, plus\n    artifacts stored elsewhere (e.g. --output reports, --derived-data app bundles) under <id>/external/.\n  - result.json's artifact paths are rewritten relative to <id>/ and run_dir becomes \".\".\n  - <id>/manifest.json lists every file with its size and sha256, the external copies, and the excluded artifacts.\n  - --out may not point inside the run dir.\n\nExamples:\n  mobile-dev-agent runs export 20260301-101500-a1b2c3\n  mobile-dev-agent runs export 20260301-1015 --out /tmp/failure.tar.gz --exclude-type app --json\n  mobile-dev-agent runs export \"$(mobile-dev-agent runs last --failed --json | jq -r .data.run.id)\" --no-external\n\nExit codes:\n  0 success\n  1 run not found or export failed\n  2 usage error\n  127 missing dependency\n",
+  "runs import": "runs import - Unpack a run bundle into the cache\n\nUsage:\n  mobile-dev-agent runs import <bundle> [options]\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - <bundle> is a file written by runs export. The run lands in <CACHE>/runs/<id>, so runs list/show/path find it.\n  - Every file is checked against the manifest's sha256 first; a missing, changed or unlisted file fails with\n    BUNDLE_INVALID and nothing is imported. Entries with absolute or \"..\" paths are rejected.\n  - result.json's artifact paths are made absolute again for the new location.\n  - Fails with RUN_EXISTS when the run is already in the cache.\n\nExamples:\n  mobile-dev-agent runs import failure.tar.gz\n  mobile-dev-agent runs import ./20260301-101500-a1b2c3.tar.gz --json\n\nExit codes:\n  0 success\n  1 invalid bundle or run exists\n  2 usage error\n  127 missing dependency\n",
+  "logs": "logs - View device logs\n\nUsage:\n  mobile-dev-agent logs <subcommand> [options]\n\nSubcommands:\n  tail                   Print recent device logs or follow them\n\nOptions:\n  --json                  Print JSON result to stdout (non-follow only)\n  --jsonl                 Stream JSON events (required for --follow)\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent logs tail\n  mobile-dev-agent logs tail --follow --jsonl\n\nExit codes:\n  0 success\n  1 logs failed\n  2 usage error\n  127 missing dependency\n",
+  "logs tail": "logs tail - Print recent device logs or follow them\n\nUsage:\n  mobile-dev-agent logs tail [options]\n\nOptions:\n  --follow                Stream logs until interrupted (requires --jsonl) (default: false)\n  --platform <ios|android>\n                          Platform (default: session.platform or \"ios\")\n  --device <selector>     Device selector (default: session.device)\n  --app-id <id>           Only show logs from this app (optional)\n  --json                  Print JSON result to stdout (non-follow only)\n  --jsonl                 Stream JSON events; final line is the JSON result (follow emits events continuously)\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - iOS filters by the app's process name; Android filters by the app's pid (the app must be running).\n  - Logs are saved to the run dir as a device_log artifact.\n\nExamples:\n  mobile-dev-agent logs tail --platform ios --device booted\n  mobile-dev-agent logs tail --follow --jsonl --platform android --device emulator-5554 --app-id com.example.app\n\nExit codes:\n  0 success\n  1 logs failed\n  2 usage error\n  127 missing dependency\n",
+  "repl": "repl - Interactive mode (JSON requests on stdin)\n\nUsage:\n  mobile-dev-agent repl [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --jsonl                 Stream JSON events (default: true)\n  -h, --help              Show help\n\nNotes:\n  - Send one request per line: {\"id\":1,\"argv\":[\"ui\",\"tap\",\"@e3\"]}\n  - Every event and result line is tagged with the request \"id\".\n  - flow run inside repl requires --flow <path>; flow lint requires a file.\n\nExamples:\n  mobile-dev-agent repl\n  echo '{\"id\":1,\"argv\":[\"ui\",\"snapshot\",\"-i\"]}' | mobile-dev-agent repl --session default\n\nExit codes:\n  0 success\n  1 repl failed\n  2 usage error\n  127 missing dependency\n",
   "live": "live - Manage Live mode (optional)\n\nUsage:\n  mobile-dev-agent live <subcommand> [options]\n\nSubcommands:\n  start                  Start Live mode\n  status                 Show Live mode status\n  stop                   Stop Live mode\n\nOptions:\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent live start --ttl 10m\n  mobile-dev-agent live stop\n\nExit codes:\n  0 success\n  1 live command failed\n  2 usage error\n  127 missing dependency\n",
-  "live start": "live start - Start Live mode\n\nUsage:\n  mobile-dev-agent live start [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --ttl <duration>        Idle timeout (default: \"10m\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent live start\n  mobile-dev-agent live start --ttl 30m --json\n\nExit codes:\n  0 success\n  1 live start failed\n  2 usage error\n  127 missing dependency\n",
+  "live start": "live start - Start Live mode\n\nUsage:\n  mobile-dev-agent live start [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --ttl <duration>        Idle timeout (default: \"10m\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nNotes:\n  - While Live mode runs, session/device/app/ui commands for the session are served by it.\n  - Live mode stops after --ttl without requests.\n\nExamples:\n  mobile-dev-agent live start\n  mobile-dev-agent live start --ttl 30m --json\n\nExit codes:\n  0 success\n  1 live start failed\n  2 usage error\n  127 missing dependency\n",
   "live status": "live status - Show Live mode status\n\nUsage:\n  mobile-dev-agent live status [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent live status\n  mobile-dev-agent live status --json\n\nExit codes:\n  0 success\n  1 live status failed\n  2 usage error\n  127 missing dependency\n",
   "live stop": "live stop - Stop Live mode\n\nUsage:\n  mobile-dev-agent live stop [options]\n\nOptions:\n  --session <name>        Session name (default: \"default\")\n  --json                  Print JSON result to stdout\n  --jsonl                 Stream JSON events; final line is the JSON result\n  --quiet                 Suppress human output\n  --verbose               Emit more detail while staying structured\n  -h, --help              Show help\n\nExamples:\n  mobile-dev-agent live stop\n  mobile-dev-agent live stop --json\n\nExit codes:\n  0 success\n  1 live stop failed\n  2 usage error\n  127 missing dependency\n",
 };
@@ -0,0 +1,163 @@
+import { usageError } from "./cliError.js";
+import { INTERACTABLE_ROLES, type Bounds, type CanonicalElement, type UISnapshot } from "./uiSnapshot.js";
+
+export type AuditSeverity = "error" | "warning" | "info";
+
+export type AuditRuleId = "missing-label" | "small-tap-target" | "duplicate-label" | "textbox-unlabeled" | "disabled-unlabeled";
+
+export type AuditRule = { id: AuditRuleId; severity: AuditSeverity; description: string };
+
+export const AUDIT_RULES: AuditRule[] = [
+  { id: "missing-label", severity: "error", description: "Interactive elements need an accessibility label." },
+  { id: "small-tap-target", severity: "warning", description: "Tap targets should be at least 44x44 pt (iOS) or 48x48 dp (Android)." },
+  { id: "duplicate-label", severity: "warning", description: "Distinct buttons should not share the same label." },
+  { id: "textbox-unlabeled", severity: "error", description: "Text fields need a label describing what to enter." },
+  { id: "disabled-unlabeled", severity: "info", description: "Visible disabled elements should still be labeled." },
+];
+
+export type AuditFinding = {
+  rule: AuditRuleId;
+  severity: AuditSeverity;
+  ref: string;
+  role: string;
+  name: string;
+  bounds: Bounds;
+  message: string;
+  // Other elements involved in the finding (the rest of a duplicate-label group).
+  related_refs: string[];
+};
+
+export type AuditReport = {
+  snapshot_id: string;
+  platform: "ios" | "android";
+  // Minimum tap target side in snapshot units (points on iOS, pixels on Android), or null when the rule was skipped.
+  min_target: number | null;
+  rules_skipped: AuditRuleId[];
+  findings: AuditFinding[];
+  counts: Record<AuditSeverity, number>;
+};
+
+export const SEVERITY_RANK: Record<AuditSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+export function parseAuditSeverity(value: string, flag: string): AuditSeverity {
+  if (value === "error" || value === "warning" || value === "info") return value;
+  throw usageError(`Invalid ${flag}: ${value} (expected error, warning, or info)`);
+}
+
+// Parses `adb shell wm density`; an override (set by the user or the emulator skin) wins over the physical density.
+export function parseWmDensity(output: string): number | null {
+  const m = output.match(/Override density:\s*(\d+)/) ?? output.match(/Physical density:\s*(\d+)/);
+  return m ? Number(m[1]) : null;
+}
+
+// The minimum tap target side in snapshot units. iOS bounds are points; Android bounds are pixels, so 48dp needs the
+// screen density (dpi / 160 pixels per dp), and the rule is skipped without it.
+export function minTargetSize(platform: "ios" | "android", densityDpi: number | null): number | null {
+  if (platform === "ios") return 44;
+  return densityDpi ? Math.ceil((48 * densityDpi) / 160) : null;
+}
+
+function lastSegment(value: string | null, sep: string): string {
+  return value ? (value.split(sep).pop() ?? value) : "";
+}
+
+// What a screen reader announces. On Android the snapshot name falls back to the resource id or class name, which
+// are not announced, so only text and content-desc count. Text fields exclude their text, which is the typed value.
+export function accessibleLabel(el: CanonicalElement, platform: "ios" | "android"): string {
+  if (platform === "ios") return (el.selectors.ios.label ?? "").trim();
+  const desc = (el.selectors.android.content_desc ?? "").trim();
+  if (desc || el.role === "textbox") return desc;
+  const name = el.name.trim();
+  if (name === lastSegment(el.selectors.android.resource_id, "/") || name === lastSegment(el.selectors.android.class, ".")) return "";
+  return name;
+}
+
+function finding(el: CanonicalElement, rule: AuditRuleId, message: string, related: string[] = []): AuditFinding {
+  const severity = AUDIT_RULES.find((r) => r.id === rule)!.severity;
+  return { rule, severity, ref: el.ref, role: el.role, name: el.name, bounds: el.bounds, message, related_refs: related };
+}
+
+export function auditSnapshot(snapshot: UISnapshot, { minTarget }: { minTarget: number | null }): AuditReport {
+  const platform = snapshot.platform;
+  const findings: AuditFinding[] = [];
+  const onScreen = snapshot.elements.filter((e) => e.states.visible && e.bounds.w > 0 && e.bounds.h > 0);
+  const labelOf = (e: CanonicalElement) => accessibleLabel(e, platform);
+  const unit = platform === "ios" ? "pt" : "px";
+
+  for (const el of onScreen) {
+    const label = labelOf(el);
+    const interactive = INTERACTABLE_ROLES.has(el.role);
+    if (el.role === "textbox") {
+      if (!label) findings.push(finding(el, "textbox-unlabeled", "Text field has no accessibility label."));
+    } else if (interactive && el.states.enabled && !label) {
+      findings.push(finding(el, "missing-label", `Interactive ${el.role} has no accessibility label.`));
+    }
+    if (!el.states.enabled && !label && el.role !== "textbox") {
+      findings.push(finding(el, "disabled-unlabeled", `Disabled ${el.role} is visible but has no accessibility label.`));
+    }
+    if (interactive && minTarget !== null && (el.bounds.w < minTarget || el.bounds.h < minTarget)) {
+      findings.push(
+        finding(el, "small-tap-target", `Tap target is ${el.bounds.w}x${el.bounds.h} ${unit}; minimum is ${minTarget}x${minTarget} ${unit}.`)
+      );
+    }
+  }
+
+  const buttonsByLabel = new Map<string, CanonicalElement[]>();
+  for (const el of onScreen) {
+    const label = labelOf(el).toLowerCase();
+    if (el.role !== "button" || !label) continue;
+    buttonsByLabel.set(label, [...(buttonsByLabel.get(label) ?? []), el]);
+  }
+  for (const group of buttonsByLabel.values()) {
+    if (group.length < 2) continue;
+    for (const el of group) {
+      const others = group.filter((o) => o !== el).map((o) => o.ref);
+      findings.push(finding(el, "duplicate-label", `Label "${labelOf(el)}" is shared with ${others.map((r) => `@${r}`).join(", ")}.`, others));
+    }
+  }
+
+  findings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  const counts: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const f of findings) counts[f.severity] += 1;
+  return {
+    snapshot_id: snapshot.snapshot_id,
+    platform,
+    min_target: minTarget,
+    rules_skipped: minTarget === null ? ["small-tap-target"] : [],
+    findings,
+    counts,
+  };
+}
+
+const SARIF_LEVEL: Record<AuditSeverity, string> = { error: "error", warning: "warning", info: "note" };
+
+// SARIF 2.1.0. Findings have no source file, so each result points at its element through a logical location.
+export function auditToSarif(report: AuditReport, toolVersion: string): Record<string, unknown> {
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "mobile-dev-agent ui audit",
+            semanticVersion: toolVersion.split("@").pop(),
+            rules: AUDIT_RULES.map((r) => ({
+              id: r.id,
+              shortDescription: { text: r.description },
+              defaultConfiguration: { level: SARIF_LEVEL[r.severity] },
+            })),
+          },
+        },
+        results: report.findings.map((f) => ({
+          ruleId: f.rule,
+          level: SARIF_LEVEL[f.severity],
+          message: { text: f.message },
+          locations: [{ logicalLocations: [{ name: `@${f.ref}`, fullyQualifiedName: `${report.platform}/${f.role}/@${f.ref}`, kind: "element" }] }],
+          properties: { ref: f.ref, role: f.role, name: f.name, bounds: f.bounds, related_refs: f.related_refs },
+        })),
+        properties: { snapshot_id: report.snapshot_id, platform: report.platform },
+      },
+    ],
+  };
+}
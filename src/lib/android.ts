@@ -1,6 +1,8 @@
 import { spawn } from "node:child_process";
 import fs from "node:fs";
+import path from "node:path";
 import { execFile } from "./exec.js";
+import { DEVICE_LIST_WARM_TTL_MS, invalidateWarm, warm } from "./warm.js";
 
 export type AndroidDevice = {
   id: string;
@@ -45,11 +47,13 @@ export function parseAdbDevices(output: string): AndroidDevice[] {
 }
 
 export async function adbListDevices(): Promise<AndroidDevice[]> {
-  const res = await execFile("adb", ["devices", "-l"]);
-  if (!res.ok) {
-    throw new Error(`adb devices failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
-  }
-  return parseAdbDevices(res.stdout);
+  return await warm("devices:android", { ttlMs: DEVICE_LIST_WARM_TTL_MS }, async () => {
+    const res = await execFile("adb", ["devices", "-l"]);
+    if (!res.ok) {
+      throw new Error(`adb devices failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+    }
+    return parseAdbDevices(res.stdout);
+  });
 }
 
 export async function adbWaitForDevice(serial: string | undefined, timeoutMs = 120000): Promise<void> {
@@ -74,6 +78,8 @@ export async function waitForEmulator({
   let lastEmulator: AndroidDevice | null = null;
 
   while (Date.now() - started < timeoutMs) {
+    // Polling must observe the emulator appearing, so never reuse a warm device list here.
+    invalidateWarm("devices:android");
     const devices = await adbListDevices();
     const emulators = devices.filter((d) => d.type === "emulator");
     if (emulators.length > 0) {
@@ -97,6 +103,26 @@ export async function adbGetProp(serial: string | undefined, prop: string): Prom
   return (res.stdout || "").trim();
 }
 
+// Returns the pid of a running app process, or null when the app is not running.
+export async function adbPidOf(serial: string, appId: string): Promise<string | null> {
+  const res = await execFile("adb", ["-s", serial, "shell", "pidof", appId]);
+  const pid = (res.stdout || "").trim().split(/\s+/)[0] ?? "";
+  return res.ok && /^\d+$/.test(pid) ? pid : null;
+}
+
+// "<versionName> (<versionCode>)" from `dumpsys package`, or whichever of the two is present.
+export function parseDumpsysPackageVersion(output: string): string | null {
+  const version = output.match(/\bversionName=(\S+)/)?.[1] ?? null;
+  const build = output.match(/\bversionCode=(\d+)/)?.[1] ?? null;
+  return version && build ? `${version} (${build})` : (version ?? build);
+}
+
+// Null when the package is not installed or adb fails; callers use it for reporting only.
+export async function adbAppVersion(serial: string, appId: string): Promise<string | null> {
+  const res = await execFile("adb", ["-s", serial, "shell", "dumpsys", "package", appId], { timeoutMs: 15000 });
+  return res.ok ? parseDumpsysPackageVersion(res.stdout) : null;
+}
+
 export async function waitForBootCompleted(serial: string, timeoutMs = 180000): Promise<void> {
   const started = Date.now();
   while (Date.now() - started < timeoutMs) {
@@ -118,6 +144,59 @@ export function startEmulator(avdName: string, { headless = false }: { headless?
   }
   const child = spawn("emulator", args, { detached: true, stdio: "ignore" });
   child.unref();
+  invalidateWarm("devices:android");
+}
+
+export async function emulatorListAvds(): Promise<string[]> {
+  const res = await execFile("emulator", ["-list-avds"]);
+  if (!res.ok) return [];
+  return res.stdout
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    // Newer emulators print INFO lines before the names.
+    .filter((l) => l && !/^(INFO|WARNING|ERROR)\b/.test(l));
+}
+
+// The AVD an emulator runs: `adb emu avd name` prints it, then "OK".
+export async function adbEmulatorAvdName(serial: string): Promise<string | null> {
+  const res = await execFile("adb", ["-s", serial, "emu", "avd", "name"], { timeoutMs: 15000 });
+  const name = (res.stdout || "").split(/\r?\n/)[0]?.trim() ?? "";
+  return res.ok && name && name !== "OK" ? name : null;
+}
+
+// Starts each AVD headless and waits until all have booted; `knownIds` are the serials adb already lists.
+export async function bootAvds(avds: string[], knownIds: string[]): Promise<AndroidDevice[]> {
+  for (const avd of avds) startEmulator(avd, { headless: true });
+  const started: AndroidDevice[] = [];
+  for (const avd of avds) {
+    const seen = [...knownIds, ...started.map((d) => d.id)];
+    const emulator = await waitForEmulator({ existingIds: seen });
+    if (!emulator || seen.includes(emulator.id)) throw new Error(`Emulator for AVD ${avd} did not appear in adb devices.`);
+    started.push(emulator);
+  }
+  await Promise.all(started.map((d) => waitForBootCompleted(d.id)));
+  invalidateWarm("devices:android");
+  return started;
+}
+
+// Installs appId on `to` from the APKs (base and splits) installed on `from`, staged in `tmpDir`.
+export async function adbCopyApp(from: string, to: string, appId: string, tmpDir: string): Promise<void> {
+  const res = await execFile("adb", ["-s", from, "shell", "pm", "path", appId], { timeoutMs: 15000 });
+  const remote = (res.stdout || "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.startsWith("package:"))
+    .map((l) => l.slice("package:".length));
+  if (!res.ok || remote.length === 0) throw new Error(`${appId} is not installed on ${from}.`);
+  const local: string[] = [];
+  for (const [i, apk] of remote.entries()) {
+    const dest = path.join(tmpDir, `${i}-${path.posix.basename(apk)}`);
+    const pulled = await execFile("adb", ["-s", from, "pull", apk, dest], { timeoutMs: 120000 });
+    if (!pulled.ok) throw new Error(`adb pull failed (code=${pulled.code}): ${pulled.stderr || pulled.stdout}`.trim());
+    local.push(dest);
+  }
+  const installed = await execFile("adb", ["-s", to, "install-multiple", "-r", ...local], { timeoutMs: 120000 });
+  if (!installed.ok) throw new Error(`adb install-multiple failed (code=${installed.code}): ${installed.stderr || installed.stdout}`.trim());
 }
 
 export async function adbInstallApk(serial: string, apkPath: string): Promise<void> {
@@ -0,0 +1,119 @@
+import { CLIError, dependencyError, usageError } from "./cliError.js";
+import type { RunContext } from "./run.js";
+
+// How `ui type` delivered text on Android:
+// - input_text: `input text`, for printable ASCII only.
+// - adb_keyboard: base64 broadcast to the ADBKeyBoard IME (com.android.adbkeyboard), for any Unicode text.
+// - clipboard: Clipper broadcast (ca.zgrs.clipper) followed by a paste key event.
+export type AndroidTextStrategy = "input_text" | "adb_keyboard" | "clipboard";
+
+export const ANDROID_TEXT_STRATEGIES: readonly AndroidTextStrategy[] = ["input_text", "adb_keyboard", "clipboard"];
+
+export const ADB_KEYBOARD_IME = "com.android.adbkeyboard/.AdbIME";
+export const CLIPPER_PACKAGE = "ca.zgrs.clipper";
+const KEYCODE_PASTE = "279";
+
+export function parseAndroidTextStrategy(raw: string): AndroidTextStrategy | "auto" {
+  const v = raw.trim().toLowerCase().replace(/-/g, "_");
+  if (v === "auto") return "auto";
+  if (!(ANDROID_TEXT_STRATEGIES as readonly string[]).includes(v)) {
+    throw usageError(`Invalid --strategy: ${raw} (expected auto, input-text, adb-keyboard, or clipboard)`);
+  }
+  return v as AndroidTextStrategy;
+}
+
+// Quotes one argument for the device shell: `adb shell` joins its arguments into a single sh command line.
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// `input text` only handles printable ASCII, and reads "%s" as a space, so a literal "%s" cannot be expressed.
+export function canUseInputText(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text) && !text.includes("%s");
+}
+
+export function buildInputTextArgs(serial: string, text: string): string[] {
+  return ["-s", serial, "shell", "input", "text", shellQuote(text.replace(/ /g, "%s"))];
+}
+
+export function buildAdbKeyboardArgs(serial: string, text: string): string[] {
+  return ["-s", serial, "shell", "am", "broadcast", "-a", "ADB_INPUT_B64", "--es", "msg", Buffer.from(text, "utf8").toString("base64")];
+}
+
+export function buildClipperArgs(serial: string, text: string): string[] {
+  return ["-s", serial, "shell", "am", "broadcast", "-a", "clipper.set", "-e", "text", shellQuote(text)];
+}
+
+async function adb(run: RunContext, action: string, args: string[], timeoutMs: number) {
+  const res = await run.execLogged("adb", action, "adb", args, { timeoutMs });
+  if (res.code === null) throw dependencyError("Missing dependency: adb", ["Install Android Platform Tools and ensure `adb` is on PATH."]);
+  return res;
+}
+
+function assertOk(res: { ok: boolean; code: number | null; stdout: string; stderr: string }, what: string): void {
+  if (!res.ok) throw new CLIError(`${what} failed (code=${res.code})`, { exitCode: 1, details: [res.stderr || res.stdout] });
+}
+
+async function typeWithAdbKeyboard(run: RunContext, serial: string, text: string, timeoutMs: number): Promise<void> {
+  const current = await adb(run, "ime_current", ["-s", serial, "shell", "settings", "get", "secure", "default_input_method"], timeoutMs);
+  const previous = current.stdout.trim();
+  if (previous !== ADB_KEYBOARD_IME) {
+    assertOk(await adb(run, "ime_enable", ["-s", serial, "shell", "ime", "enable", ADB_KEYBOARD_IME], timeoutMs), "ime enable");
+    assertOk(await adb(run, "ime_set", ["-s", serial, "shell", "ime", "set", ADB_KEYBOARD_IME], timeoutMs), "ime set");
+  }
+  try {
+    assertOk(await adb(run, "type_adb_keyboard", buildAdbKeyboardArgs(serial, text), timeoutMs), "ADBKeyBoard broadcast");
+  } finally {
+    // Give the user's keyboard back; a failure here must not hide the typing result.
+    if (previous && previous !== "null" && previous !== ADB_KEYBOARD_IME) {
+      await adb(run, "ime_restore", ["-s", serial, "shell", "ime", "set", previous], timeoutMs).catch(() => null);
+    }
+  }
+}
+
+async function typeWithClipboard(run: RunContext, serial: string, text: string, timeoutMs: number): Promise<void> {
+  assertOk(await adb(run, "clipboard_set", buildClipperArgs(serial, text), timeoutMs), "Clipper broadcast");
+  assertOk(await adb(run, "paste", ["-s", serial, "shell", "input", "keyevent", KEYCODE_PASTE], timeoutMs), "paste");
+}
+
+// Types `text` into the focused field and reports the strategy used. With "auto", plain ASCII goes through
+// `input text`; anything else needs a helper installed on the device: ADBKeyBoard first, then Clipper.
+export async function typeAndroidText(
+  run: RunContext,
+  serial: string,
+  text: string,
+  { strategy = "auto", timeoutMs }: { strategy?: AndroidTextStrategy | "auto"; timeoutMs: number }
+): Promise<AndroidTextStrategy> {
+  let chosen = strategy;
+  if (chosen === "input_text" && !canUseInputText(text)) {
+    throw usageError("--strategy input-text only supports printable ASCII (and no literal %s).", ["Use --strategy auto, adb-keyboard, or clipboard."]);
+  }
+  if (chosen === "auto") {
+    if (canUseInputText(text)) {
+      chosen = "input_text";
+    } else {
+      const imes = await adb(run, "ime_list", ["-s", serial, "shell", "ime", "list", "-a", "-s"], timeoutMs);
+      if (imes.stdout.split(/\r?\n/).some((l) => l.trim() === ADB_KEYBOARD_IME)) {
+        chosen = "adb_keyboard";
+      } else {
+        const pkgs = await adb(run, "pm_list_clipper", ["-s", serial, "shell", "pm", "list", "packages", CLIPPER_PACKAGE], timeoutMs);
+        if (!pkgs.stdout.includes(`package:${CLIPPER_PACKAGE}`)) {
+          throw new CLIError("Typing non-ASCII text on Android needs ADBKeyBoard or Clipper installed on the device.", {
+            exitCode: 1,
+            code: "TEXT_INPUT_UNSUPPORTED",
+            details: [
+              `Install ADBKeyBoard (${ADB_KEYBOARD_IME}) or Clipper (${CLIPPER_PACKAGE}), then retry.`,
+              "Alternatively use: mobile-dev-agent flow run (Maestro inputText).",
+            ],
+          });
+        }
+        chosen = "clipboard";
+      }
+    }
+  }
+
+  if (chosen === "input_text") assertOk(await adb(run, "type", buildInputTextArgs(serial, text), timeoutMs), "type");
+  else if (chosen === "adb_keyboard") await typeWithAdbKeyboard(run, serial, text, timeoutMs);
+  else await typeWithClipboard(run, serial, text, timeoutMs);
+  return chosen;
+}
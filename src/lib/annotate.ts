@@ -0,0 +1,99 @@
+import { scaleBounds, screenshotScale } from "./imageDiff.js";
+import type { RGBAImage } from "./png.js";
+import type { Bounds, UISnapshot } from "./uiSnapshot.js";
+
+type RGB = [number, number, number];
+
+// Distinct, high-contrast box colors; neighbouring refs get different colors.
+const PALETTE: RGB[] = [
+  [230, 25, 75],
+  [60, 180, 75],
+  [0, 130, 200],
+  [245, 130, 48],
+  [145, 30, 180],
+  [0, 128, 128],
+  [240, 50, 230],
+  [128, 128, 0],
+];
+
+// 5x7 glyphs for the characters of a ref label (`@e` and digits), one string per row.
+const GLYPHS: Record<string, string[]> = {
+  "@": ["01110", "10001", "10111", "10101", "10111", "10000", "01111"],
+  e: ["00000", "00000", "01110", "10001", "11111", "10000", "01110"],
+  "0": ["01110", "10001", "10011", "10101", "11001", "10001", "01110"],
+  "1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+  "2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+  "3": ["11110", "00001", "00001", "01110", "00001", "00001", "11110"],
+  "4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+  "5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+  "6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+  "7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+  "8": ["01110", "10001", "10001", "01110", "10001", "10001", "01110"],
+  "9": ["01110", "10001", "10001", "01111", "00001", "00010", "01100"],
+};
+
+const GLYPH_W = 5;
+const GLYPH_H = 7;
+
+function fillRect(image: RGBAImage, x: number, y: number, w: number, h: number, [r, g, b]: RGB): void {
+  const x0 = Math.max(0, Math.round(x));
+  const y0 = Math.max(0, Math.round(y));
+  const x1 = Math.min(image.width, Math.round(x + w));
+  const y1 = Math.min(image.height, Math.round(y + h));
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const i = (py * image.width + px) * 4;
+      image.data[i] = r;
+      image.data[i + 1] = g;
+      image.data[i + 2] = b;
+      image.data[i + 3] = 255;
+    }
+  }
+}
+
+function strokeRect(image: RGBAImage, b: Bounds, width: number, color: RGB): void {
+  fillRect(image, b.x, b.y, b.w, width, color);
+  fillRect(image, b.x, b.y + b.h - width, b.w, width, color);
+  fillRect(image, b.x, b.y, width, b.h, color);
+  fillRect(image, b.x + b.w - width, b.y, width, b.h, color);
+}
+
+function labelHeight(px: number): number {
+  return (GLYPH_H + 2) * px;
+}
+
+// Draws `text` on a solid label in `color`, `px` image pixels per font pixel, with its top-left corner at (x, y).
+function drawLabel(image: RGBAImage, text: string, x: number, y: number, px: number, color: RGB): void {
+  const pad = px;
+  const w = text.length * (GLYPH_W + 1) * px - px + pad * 2;
+  fillRect(image, x, y, w, labelHeight(px), color);
+  [...text].forEach((ch, n) => {
+    const rows = GLYPHS[ch];
+    if (!rows) return;
+    rows.forEach((row, gy) => {
+      for (let gx = 0; gx < GLYPH_W; gx++) {
+        if (row[gx] === "1") fillRect(image, x + pad + (n * (GLYPH_W + 1) + gx) * px, y + pad + gy * px, px, px, [255, 255, 255]);
+      }
+    });
+  });
+}
+
+// Returns a copy of `screenshot` with every snapshot element boxed and labeled `@eN`. Snapshot bounds are scaled to
+// pixels (iOS points × device scale). Full-screen containers are skipped; they would only frame the image.
+export function annotateScreenshot(screenshot: RGBAImage, snapshot: UISnapshot): RGBAImage {
+  const image: RGBAImage = { width: screenshot.width, height: screenshot.height, data: Uint8Array.from(screenshot.data) };
+  const scale = screenshotScale(image.width, snapshot);
+  const line = Math.max(1, Math.round(image.width / 400));
+  const px = Math.max(1, Math.round(image.width / 360));
+
+  snapshot.elements.forEach((el, n) => {
+    if (!el.states.visible || el.bounds.w <= 0 || el.bounds.h <= 0) return;
+    const b = scaleBounds(el.bounds, scale);
+    if (b.w >= image.width * 0.98 && b.h >= image.height * 0.9) return;
+    const color = PALETTE[n % PALETTE.length]!;
+    strokeRect(image, b, line, color);
+    const h = labelHeight(px);
+    drawLabel(image, `@${el.ref}`, b.x, b.y >= h ? b.y - h : b.y, px, color);
+  });
+  return image;
+}
@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { warm } from "./warm.js";
 
 async function fileExists(p: string): Promise<boolean> {
   try {
@@ -12,6 +13,10 @@ async function fileExists(p: string): Promise<boolean> {
 }
 
 export async function resolveAxePath(): Promise<string> {
+  return await warm("axe_path", {}, findAxePath);
+}
+
+async function findAxePath(): Promise<string> {
   const override = process.env.MOBILE_DEV_AGENT_AXE_PATH;
   if (override) {
     const abs = path.resolve(override);
@@ -26,3 +31,55 @@ export async function resolveAxePath(): Promise<string> {
   // Fallback to PATH.
   return "axe";
 }
+
+// How `ui press <key>` is performed on iOS: hardware buttons via `axe button`, keyboard keys as HID usage codes via
+// `axe key`, and `back` as an edge swipe (iOS has no back key).
+export type IOSKeyAction = { kind: "button"; button: string } | { kind: "key"; keycode: number } | { kind: "edge-swipe" };
+
+export const IOS_KEYS: Record<string, IOSKeyAction> = {
+  back: { kind: "edge-swipe" },
+  enter: { kind: "key", keycode: 40 },
+  tab: { kind: "key", keycode: 43 },
+  escape: { kind: "key", keycode: 41 },
+  home: { kind: "button", button: "home" },
+  lock: { kind: "button", button: "lock" },
+  "volume-up": { kind: "key", keycode: 128 },
+  "volume-down": { kind: "key", keycode: 129 },
+};
+
+// Coordinates are in points, as reported by `axe describe-ui`.
+export function buildAxeSwipeArgs(
+  udid: string,
+  { x1, y1, x2, y2 }: { x1: number; y1: number; x2: number; y2: number },
+  durationMs: number
+): string[] {
+  return [
+    "swipe",
+    "--start-x",
+    String(Math.round(x1)),
+    "--start-y",
+    String(Math.round(y1)),
+    "--end-x",
+    String(Math.round(x2)),
+    "--end-y",
+    String(Math.round(y2)),
+    "--duration",
+    String(durationMs / 1000),
+    "--udid",
+    udid,
+  ];
+}
+
+export function buildAxeKeyArgs(udid: string, action: Exclude<IOSKeyAction, { kind: "edge-swipe" }>): string[] {
+  if (action.kind === "button") return ["button", action.button, "--udid", udid];
+  return ["key", String(action.keycode), "--udid", udid];
+}
+
+export function buildAxeTapArgs(udid: string, { x, y }: { x: number; y: number }): string[] {
+  return ["tap", "-x", String(Math.round(x)), "-y", String(Math.round(y)), "--udid", udid];
+}
+
+// A touch held in place for `holdMs` (long press): `axe touch` presses, waits `--delay` seconds, then releases.
+export function buildAxeTouchArgs(udid: string, { x, y }: { x: number; y: number }, holdMs: number): string[] {
+  return ["touch", "-x", String(Math.round(x)), "-y", String(Math.round(y)), "--down", "--up", "--delay", String(holdMs / 1000), "--udid", udid];
+}
@@ -0,0 +1,150 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { CLIError } from "./cliError.js";
+import { adbPidOf } from "./android.js";
+import { simctlAppExecutableName } from "./simctl.js";
+import type { Platform } from "./deviceResolver.js";
+import type { RunArtifact, RunContext } from "./run.js";
+
+export type DeviceLogFilter = {
+  app_id: string;
+  // iOS filters on the app's process (executable) name, Android on the pid of the running app.
+  process: string | null;
+  pid: string | null;
+};
+
+export type DeviceLogCommand = {
+  cmd: string;
+  args: string[];
+  filter: DeviceLogFilter | null;
+};
+
+function predicateString(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+export function buildIOSLogArgs(
+  udid: string,
+  { follow, processName = null, last = "5m" }: { follow: boolean; processName?: string | null; last?: string }
+): string[] {
+  const args = ["simctl", "spawn", udid, "log", follow ? "stream" : "show", "--style", "compact"];
+  if (follow) args.push("--level", "debug");
+  else args.push("--last", last);
+  if (processName) args.push("--predicate", `process == ${predicateString(processName)}`);
+  return args;
+}
+
+// Timestamps are printed in UTC with the year so captures can be trimmed against host time.
+export function buildAndroidLogcatArgs(
+  serial: string,
+  { follow, pid = null, tail = follow ? null : 200 }: { follow: boolean; pid?: string | null; tail?: number | null }
+): string[] {
+  const args = ["-s", serial, "logcat", "-v", "threadtime", "-v", "year", "-v", "UTC"];
+  if (pid) args.push(`--pid=${pid}`);
+  if (follow && tail !== null) args.push("-T", String(tail));
+  if (!follow) args.push("-d", "-t", String(tail ?? 200));
+  return args;
+}
+
+export async function resolveDeviceLogCommand({
+  platform,
+  deviceId,
+  appId,
+  follow,
+  tail,
+}: {
+  platform: Platform;
+  deviceId: string;
+  appId: string | null;
+  follow: boolean;
+  tail?: number | null;
+}): Promise<DeviceLogCommand> {
+  if (platform === "ios") {
+    const processName = appId ? await simctlAppExecutableName(deviceId, appId) : null;
+    return {
+      cmd: "xcrun",
+      args: buildIOSLogArgs(deviceId, { follow, processName }),
+      filter: appId ? { app_id: appId, process: processName, pid: null } : null,
+    };
+  }
+
+  let pid: string | null = null;
+  if (appId) {
+    pid = await adbPidOf(deviceId, appId);
+    if (!pid) {
+      throw new CLIError(`App is not running on ${deviceId}: ${appId}`, {
+        exitCode: 1,
+        code: "APP_NOT_RUNNING",
+        details: ["logcat filters by pid; launch the app first (mobile-dev-agent app launch)."],
+      });
+    }
+  }
+  return {
+    cmd: "adb",
+    args: buildAndroidLogcatArgs(deviceId, { follow, pid, tail }),
+    filter: appId ? { app_id: appId, process: null, pid } : null,
+  };
+}
+
+const LOG_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,6}))?/;
+
+// iOS compact logs print host-local time; logcat is asked for UTC (see buildAndroidLogcatArgs).
+export function parseDeviceLogTimestamp(line: string, platform: Platform): number | null {
+  const m = line.match(LOG_TIMESTAMP);
+  if (!m) return null;
+  const [year, month, day, hour, minute, second] = m.slice(1, 7).map(Number) as [number, number, number, number, number, number];
+  const ms = Math.floor(Number(`0.${m[7] ?? "0"}`) * 1000);
+  return platform === "android"
+    ? Date.UTC(year, month - 1, day, hour, minute, second, ms)
+    : new Date(year, month - 1, day, hour, minute, second, ms).getTime();
+}
+
+// Keeps lines stamped within [startMs, endMs]. Continuation lines follow the line before them; anything before
+// the first timestamp (stream headers, buffer dividers) is dropped.
+export function trimDeviceLogToWindow(text: string, platform: Platform, startMs: number, endMs: number): string {
+  const kept: string[] = [];
+  let keep = false;
+  for (const line of text.split(/\r?\n/)) {
+    const ts = parseDeviceLogTimestamp(line, platform);
+    if (ts !== null) keep = ts >= startMs && ts <= endMs;
+    if (keep) kept.push(line);
+  }
+  return kept.length ? `${kept.join("\n")}\n` : "";
+}
+
+export type DeviceLogCapture = {
+  stop: () => Promise<RunArtifact | null>;
+};
+
+// Captures the device log for the duration of a run (test, flow run). Capture failures are reported as warnings:
+// missing logs must never fail the run they were meant to explain.
+export async function startDeviceLogCapture(
+  run: RunContext,
+  { platform, deviceId }: { platform: Platform; deviceId: string }
+): Promise<DeviceLogCapture> {
+  const startMs = Date.now();
+  const tool = platform === "ios" ? "simctl" : "adb";
+  const rawPath = path.join(run.artifactsDir, "device.raw.log");
+  const outPath = path.join(run.artifactsDir, "device.log");
+  const source = await resolveDeviceLogCommand({ platform, deviceId, appId: null, follow: true, tail: 1 });
+  const stream = run.startStream(tool, "device_log", source.cmd, source.args, { outPath: rawPath });
+
+  const warn = (message: string) => run.emit({ type: "event", ts: new Date().toISOString(), event: "warning", data: { message } });
+
+  return {
+    stop: async () => {
+      const endMs = Date.now();
+      const res = await stream.stop();
+      const raw = await fs.readFile(rawPath, "utf8").catch(() => "");
+      await fs.rm(rawPath, { force: true }).catch(() => null);
+      if (!raw && !res.ok) {
+        warn(`Device log capture failed (code=${res.code ?? "unknown"}); see ${res.logPath}`);
+        return null;
+      }
+      await fs.writeFile(outPath, trimDeviceLogToWindow(raw, platform, startMs, endMs), "utf8");
+      const artifact: RunArtifact = { type: "device_log", path: outPath, mime: "text/plain" };
+      run.artifact(artifact);
+      return artifact;
+    },
+  };
+}
@@ -10,15 +10,19 @@ import {
   type IOSDevice,
 } from "./simctl.js";
 import { usageError } from "./cliError.js";
+import { DEVICE_LIST_WARM_TTL_MS, warm } from "./warm.js";
 
 export type Platform = "ios" | "android";
 
 export async function resolveIOSDeviceSelector(selector: string): Promise<IOSDevice> {
-  const json = await simctlListDevicesJSON();
-  const devices = flattenIOSDevices(json).filter((d) => d.isAvailable);
-
   const key = selector.trim();
   if (!key) throw usageError("Empty --device selector");
+  return await warm(`devices:ios:${key}`, { ttlMs: DEVICE_LIST_WARM_TTL_MS }, async () => await pickIOSDevice(selector, key));
+}
+
+async function pickIOSDevice(selector: string, key: string): Promise<IOSDevice> {
+  const json = await simctlListDevicesJSON();
+  const devices = flattenIOSDevices(json).filter((d) => d.isAvailable);
 
   const lower = key.toLowerCase();
   let chosen: IOSDevice | null = null;
@@ -55,8 +59,10 @@ export async function resolveAndroidDeviceDefault(): Promise<AndroidDevice> {
 
 export async function resolveAndroidDevice(selector?: string | null): Promise<AndroidDevice> {
   const key = selector?.trim() || "";
-  if (!key) return await resolveAndroidDeviceDefault();
-  const chosen = await resolveAndroidDeviceSelector(key);
-  if (!chosen) throw usageError(`No Android device matches "${key}".`);
-  return chosen;
+  return await warm(`devices:android:${key}`, { ttlMs: DEVICE_LIST_WARM_TTL_MS }, async () => {
+    if (!key) return await resolveAndroidDeviceDefault();
+    const chosen = await resolveAndroidDeviceSelector(key);
+    if (!chosen) throw usageError(`No Android device matches "${key}".`);
+    return chosen;
+  });
 }
@@ -37,6 +37,11 @@ export function getCacheDir(): string {
   return path.join(home, ".cache", "mobile-dev-agent");
 }
 
+// Per-flow outcomes of past `test` runs. It sits outside runs/ so it outlives the run dirs gc deletes.
+export function getFlowHistoryPath(): string {
+  return path.join(getCacheDir(), "history", "flows.jsonl");
+}
+
 export function getSessionsDir(): string {
   return path.join(getStateDir(), "sessions");
 }
@@ -55,11 +60,38 @@ export function getLastSnapshotPath(sessionName: string): string {
   return path.join(getSessionDir(sessionName), "last_snapshot.json");
 }
 
+// The snapshot that last_snapshot.json replaced; `ui diff` compares the two by default.
+export function getPreviousSnapshotPath(sessionName: string): string {
+  return path.join(getSessionDir(sessionName), "previous_snapshot.json");
+}
+
 export function getLastTargetPath(sessionName: string): string {
   return path.join(getSessionDir(sessionName), "last_target.json");
 }
 
+// The session's in-progress `device record` (recorder pid and run dir), so `stop` works from another invocation.
+export function getRecordingStatePath(sessionName: string): string {
+  return path.join(getSessionDir(sessionName), "recording.json");
+}
+
+// The session's in-progress `flow record`: the ui actions performed since `flow record start`.
+export function getFlowRecordingPath(sessionName: string): string {
+  return path.join(getSessionDir(sessionName), "flow_recording.json");
+}
+
 export function getLiveDir(sessionName: string): string {
   const name = validateSessionName(sessionName, getSessionsDir());
   return path.join(getStateDir(), "run", name);
 }
+
+export function getLiveSocketPath(sessionName: string): string {
+  return path.join(getLiveDir(sessionName), "live.sock");
+}
+
+export function getLivePidPath(sessionName: string): string {
+  return path.join(getLiveDir(sessionName), "live.pid");
+}
+
+export function getLiveLogPath(sessionName: string): string {
+  return path.join(getLiveDir(sessionName), "live.log");
+}
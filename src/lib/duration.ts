@@ -0,0 +1,19 @@
+import { usageError } from "./cliError.js";
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parses durations like "500ms", "30s", "10m", "1h", "7d". A bare number is milliseconds.
+export function parseDurationMs(value: string, flag = "duration"): number {
+  const v = String(value ?? "").trim().toLowerCase();
+  const m = v.match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/);
+  if (!m) throw usageError(`Invalid ${flag}: ${value} (expected e.g. 500ms, 30s, 10m, 1h, 7d)`);
+  const ms = Number(m[1]) * UNIT_MS[m[2] ?? "ms"]!;
+  if (!Number.isFinite(ms) || ms <= 0) throw usageError(`Invalid ${flag}: ${value}`);
+  return Math.round(ms);
+}
@@ -0,0 +1,200 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getCacheDir, getFlowHistoryPath } from "./dirs.js";
+import { atomicWriteFile } from "./fsAtomic.js";
+import { listRuns } from "./gc.js";
+import { withFileLock } from "./lock.js";
+import { ensureDir } from "./paths.js";
+
+export type FlowHistoryStatus = "passed" | "failed" | "skipped" | "flaky";
+
+// One flow's outcome in one `test` run.
+export type FlowHistoryRecord = {
+  run_id: string;
+  started_at: string;
+  session: string;
+  flow: string;
+  status: FlowHistoryStatus;
+  duration_ms: number | null;
+  attempts: number;
+  platform: "ios" | "android" | null;
+  device: { id: string; name: string | null } | null;
+  app_id: string | null;
+  app_version: string | null;
+};
+
+export type FlowStats = {
+  flow: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  // Share of non-skipped runs that passed on the first attempt.
+  pass_rate: number | null;
+  // Pass/fail changes between consecutive runs; flaky runs count as passed.
+  flips: number;
+  // (flaky runs + flips) / non-skipped runs: how often the outcome is not reproducible.
+  flakiness: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  last_status: FlowHistoryStatus;
+  last_run_at: string;
+  devices: string[];
+  app_versions: string[];
+};
+
+// Records older than this are dropped when the index is synced, so it stays bounded like the run dirs.
+const HISTORY_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+const STATUSES: FlowHistoryStatus[] = ["passed", "failed", "skipped", "flaky"];
+
+type StoredResult = {
+  command?: { name?: unknown };
+  session?: unknown;
+  platform?: unknown;
+  timing?: { started_at?: unknown };
+  target?: { device?: { id?: unknown; name?: unknown } | null; app?: { app_id?: unknown } | null };
+  data?: {
+    app_version?: unknown;
+    flows?: unknown;
+    shards?: Array<{ shard?: unknown; device?: { id?: unknown; name?: unknown }; app_version?: unknown }>;
+  };
+};
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function deviceOf(value: { id?: unknown; name?: unknown } | null | undefined): FlowHistoryRecord["device"] {
+  const id = str(value?.id);
+  return id ? { id, name: str(value?.name) } : null;
+}
+
+// Turns a `test` run's result.json into history records. Other commands (and `flow run`'s ad-hoc flows) have no
+// stable flow names and yield none.
+export function flowHistoryFromResult(runId: string, result: StoredResult): FlowHistoryRecord[] {
+  if (result.command?.name !== "test" || !Array.isArray(result.data?.flows)) return [];
+  const platform = result.platform === "ios" || result.platform === "android" ? result.platform : null;
+  const shards = result.data.shards ?? [];
+  const records: FlowHistoryRecord[] = [];
+  for (const flow of result.data.flows as Array<Record<string, unknown>>) {
+    const name = str(flow?.name);
+    const status = STATUSES.find((s) => s === flow?.status);
+    if (!name || !status) continue;
+    // Sharded runs have no single target device; each flow ran on its shard's device.
+    const shard = shards.find((s) => s.shard === flow.shard);
+    records.push({
+      run_id: runId,
+      started_at: str(result.timing?.started_at) ?? new Date(0).toISOString(),
+      session: str(result.session) ?? "default",
+      flow: name,
+      status,
+      duration_ms: typeof flow.duration_ms === "number" ? flow.duration_ms : null,
+      attempts: Array.isArray(flow.attempts) ? flow.attempts.length : 1,
+      platform,
+      device: shard ? deviceOf(shard.device) : deviceOf(result.target?.device),
+      app_id: str(result.target?.app?.app_id),
+      app_version: str(shard ? shard.app_version : result.data.app_version),
+    });
+  }
+  return records;
+}
+
+export async function readFlowHistory(historyPath = getFlowHistoryPath()): Promise<FlowHistoryRecord[]> {
+  const raw = await fs.readFile(historyPath, "utf8").catch(() => "");
+  const records: FlowHistoryRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as FlowHistoryRecord);
+    } catch {
+      // A line cut short by a crash; the run is re-read on the next sync if its dir still exists.
+    }
+  }
+  return records;
+}
+
+// Adds the `test` runs under <CACHE>/runs that are not indexed yet and drops expired records. `runs stats` calls it
+// before reading and `gc` before deleting, so outcomes are indexed while their run dirs still exist.
+export async function syncFlowHistory(): Promise<{ records: FlowHistoryRecord[]; added: number; path: string }> {
+  const historyPath = getFlowHistoryPath();
+  await ensureDir(path.dirname(historyPath));
+  return await withFileLock(path.dirname(historyPath), ".flows", async () => {
+    const existing = await readFlowHistory(historyPath);
+    const indexed = new Set(existing.map((r) => r.run_id));
+    const cutoff = Date.now() - HISTORY_MAX_AGE_MS;
+    const added: FlowHistoryRecord[] = [];
+    for (const run of await listRuns(getCacheDir())) {
+      const runId = path.basename(run.dir);
+      if (indexed.has(runId) || run.startedAt.getTime() < cutoff) continue;
+      const raw = await fs.readFile(path.join(run.dir, "result.json"), "utf8").catch(() => null);
+      if (!raw) continue;
+      try {
+        added.push(...flowHistoryFromResult(runId, JSON.parse(raw) as StoredResult));
+      } catch {
+        continue;
+      }
+    }
+
+    const kept = existing.filter((r) => Date.parse(r.started_at) >= cutoff);
+    const records = [...kept, ...added.sort((a, b) => a.started_at.localeCompare(b.started_at))];
+    if (added.length > 0 || kept.length !== existing.length) {
+      await atomicWriteFile(historyPath, records.map((r) => `${JSON.stringify(r)}\n`).join(""));
+    }
+    return { records, added: added.length, path: historyPath };
+  });
+}
+
+// Nearest-rank percentile.
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]!;
+}
+
+const ratio = (n: number, d: number) => (d > 0 ? Math.round((n / d) * 1000) / 1000 : null);
+
+export function computeFlowStats(records: FlowHistoryRecord[]): FlowStats[] {
+  const byFlow = new Map<string, FlowHistoryRecord[]>();
+  for (const r of records) byFlow.set(r.flow, [...(byFlow.get(r.flow) ?? []), r]);
+
+  const stats: FlowStats[] = [];
+  for (const [flow, runs] of byFlow) {
+    runs.sort((a, b) => a.started_at.localeCompare(b.started_at));
+    const count = (status: FlowHistoryStatus) => runs.filter((r) => r.status === status).length;
+    const executed = runs.filter((r) => r.status !== "skipped");
+    let flips = 0;
+    for (let i = 1; i < executed.length; i++) {
+      if ((executed[i]!.status === "failed") !== (executed[i - 1]!.status === "failed")) flips++;
+    }
+    const durations = executed.map((r) => r.duration_ms).filter((d): d is number => d !== null);
+    const last = runs[runs.length - 1]!;
+    stats.push({
+      flow,
+      runs: runs.length,
+      passed: count("passed"),
+      failed: count("failed"),
+      flaky: count("flaky"),
+      skipped: count("skipped"),
+      pass_rate: ratio(count("passed"), executed.length),
+      flips,
+      flakiness: ratio(count("flaky") + flips, executed.length),
+      p50_ms: percentile(durations, 50),
+      p95_ms: percentile(durations, 95),
+      last_status: last.status,
+      last_run_at: last.started_at,
+      devices: [...new Set(runs.map((r) => r.device?.name ?? r.device?.id).filter((d): d is string => Boolean(d)))],
+      app_versions: [...new Set(runs.map((r) => r.app_version).filter((v): v is string => Boolean(v)))],
+    });
+  }
+  return stats.sort((a, b) => a.flow.localeCompare(b.flow));
+}
+
+// Flows whose outcome changed without a clear cause, most flaky first; ties go to the flow with more runs.
+export function topFlakyFlows(stats: FlowStats[], limit: number): FlowStats[] {
+  return stats
+    .filter((s) => (s.flakiness ?? 0) > 0)
+    .sort((a, b) => b.flakiness! - a.flakiness! || b.runs - a.runs || a.flow.localeCompare(b.flow))
+    .slice(0, limit);
+}
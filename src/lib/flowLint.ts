@@ -0,0 +1,457 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseYamlDocuments, YamlSyntaxError, YamlUnsupportedError, type YamlNode } from "./yaml.js";
+import { CLIError } from "./cliError.js";
+import { listFlowFiles } from "./maestro.js";
+
+export type FlowLintIssue = {
+  severity: "error" | "warning";
+  file: string;
+  line: number;
+  message: string;
+};
+
+export type FlowLintResult = {
+  ok: boolean;
+  // Every file checked: the flow itself plus the files its runFlow/runScript steps include.
+  files: string[];
+  commands: number;
+  issues: FlowLintIssue[];
+};
+
+// Keys that locate an element, shared by tapOn, assertVisible, scrollUntilVisible's `element`, and friends.
+const SELECTOR_KEYS = [
+  "text",
+  "id",
+  "index",
+  "point",
+  "enabled",
+  "checked",
+  "focused",
+  "selected",
+  "below",
+  "above",
+  "leftOf",
+  "rightOf",
+  "containsChild",
+  "childOf",
+  "containsDescendants",
+  "traits",
+  "width",
+  "height",
+  "tolerance",
+  "css",
+];
+
+const COMMON_KEYS = ["label", "optional"];
+
+type CommandSpec = {
+  // `- back`: the command may be written without arguments.
+  bare?: boolean;
+  // `- tapOn: Login`: a scalar argument is accepted.
+  scalar?: boolean;
+  // `- addMedia: [a.png]`: a sequence argument is accepted.
+  list?: boolean;
+  // Accepted mapping keys; undefined means the command takes no mapping.
+  keys?: string[];
+  // At least one key of every group must be present in a mapping argument.
+  requires?: string[][];
+  selector?: boolean;
+  // Keys whose values are nested command lists.
+  nested?: string[];
+};
+
+const selectorCommand = (extra: string[] = []): CommandSpec => ({ scalar: true, selector: true, keys: [...SELECTOR_KEYS, ...COMMON_KEYS, ...extra] });
+const appCommand: CommandSpec = { bare: true, scalar: true, keys: ["appId", ...COMMON_KEYS] };
+const noArgs: CommandSpec = { bare: true, keys: COMMON_KEYS };
+const WHEN_KEYS = ["visible", "notVisible", "true", "platform"];
+
+export const MAESTRO_COMMANDS: Record<string, CommandSpec> = {
+  launchApp: { bare: true, scalar: true, keys: ["appId", "clearState", "clearKeychain", "stopApp", "permissions", "arguments", ...COMMON_KEYS] },
+  stopApp: appCommand,
+  killApp: appCommand,
+  clearState: appCommand,
+  clearKeychain: noArgs,
+  tapOn: selectorCommand(["repeat", "delay", "retryTapIfNoChange", "waitToSettleTimeoutMs"]),
+  doubleTapOn: selectorCommand(["delay"]),
+  longPressOn: selectorCommand(),
+  assertVisible: selectorCommand(),
+  assertNotVisible: selectorCommand(),
+  copyTextFrom: selectorCommand(),
+  inputText: { scalar: true, keys: ["text", ...COMMON_KEYS], requires: [["text"]] },
+  inputRandomText: { bare: true, keys: ["length", ...COMMON_KEYS] },
+  inputRandomNumber: { bare: true, keys: ["length", ...COMMON_KEYS] },
+  inputRandomEmail: noArgs,
+  inputRandomPersonName: noArgs,
+  eraseText: { bare: true, scalar: true, keys: ["charactersToErase", ...COMMON_KEYS] },
+  pasteText: noArgs,
+  setClipboard: { scalar: true, keys: ["text", ...COMMON_KEYS] },
+  pressKey: { scalar: true, keys: ["key", ...COMMON_KEYS], requires: [["key"]] },
+  back: noArgs,
+  hideKeyboard: noArgs,
+  scroll: noArgs,
+  scrollUntilVisible: {
+    keys: ["element", "direction", "timeout", "speed", "visibilityPercentage", "centerElement", ...COMMON_KEYS],
+    requires: [["element"]],
+  },
+  swipe: { keys: ["start", "end", "direction", "from", "duration", ...COMMON_KEYS], requires: [["start", "direction"]] },
+  assertTrue: { scalar: true, keys: ["condition", ...COMMON_KEYS], requires: [["condition"]] },
+  assertWithAI: { keys: ["assertion", ...COMMON_KEYS], requires: [["assertion"]] },
+  assertNoDefectsWithAI: noArgs,
+  extractTextWithAI: { scalar: true, keys: ["query", "outputVariable", ...COMMON_KEYS] },
+  extendedWaitUntil: { keys: ["visible", "notVisible", "timeout", ...COMMON_KEYS], requires: [["visible", "notVisible"]] },
+  waitForAnimationToEnd: { bare: true, keys: ["timeout", ...COMMON_KEYS] },
+  takeScreenshot: { scalar: true, keys: ["path", ...COMMON_KEYS] },
+  startRecording: { scalar: true, keys: ["path", ...COMMON_KEYS] },
+  stopRecording: noArgs,
+  openLink: { scalar: true, keys: ["link", "autoVerify", "browser", ...COMMON_KEYS], requires: [["link"]] },
+  setLocation: { keys: ["latitude", "longitude", ...COMMON_KEYS], requires: [["latitude"], ["longitude"]] },
+  travel: { keys: ["points", "speed", ...COMMON_KEYS], requires: [["points"]] },
+  setAirplaneMode: { scalar: true },
+  toggleAirplaneMode: noArgs,
+  setOrientation: { scalar: true },
+  addMedia: { list: true },
+  evalScript: { scalar: true },
+  runScript: { scalar: true, keys: ["file", "env", "when", ...COMMON_KEYS], requires: [["file"]] },
+  runFlow: { scalar: true, keys: ["file", "commands", "when", "env", ...COMMON_KEYS], requires: [["file", "commands"]], nested: ["commands"] },
+  repeat: { keys: ["times", "while", "commands", ...COMMON_KEYS], requires: [["commands"]], nested: ["commands"] },
+  retry: { keys: ["maxRetries", "commands", "file", ...COMMON_KEYS], requires: [["commands", "file"]], nested: ["commands"] },
+};
+
+const CONFIG_KEYS = ["appId", "url", "name", "tags", "env", "onFlowStart", "onFlowComplete", "jsEngine", "properties", "ext"];
+
+const PRESS_KEY_NAMES = [
+  "enter",
+  "backspace",
+  "home",
+  "lock",
+  "volume up",
+  "volume down",
+  "back",
+  "power",
+  "tab",
+  "escape",
+  "remote dpad up",
+  "remote dpad down",
+  "remote dpad left",
+  "remote dpad right",
+  "remote dpad center",
+  "remote media play pause",
+  "remote media stop",
+  "remote media next",
+  "remote media previous",
+  "remote media rewind",
+  "remote media fast forward",
+  "remote system navigation up",
+  "remote system navigation down",
+  "remote button a",
+  "remote button b",
+  "remote menu",
+  "tv input",
+  "tv input hdmi 1",
+  "tv input hdmi 2",
+  "tv input hdmi 3",
+];
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cur = row[j]!;
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = cur;
+    }
+  }
+  return row[b.length]!;
+}
+
+function suggest(name: string, candidates: string[]): string {
+  const lower = name.toLowerCase();
+  const best = candidates
+    .map((c) => ({ c, d: editDistance(lower, c.toLowerCase()) }))
+    .sort((x, y) => x.d - y.d)[0];
+  return best && best.d <= Math.max(2, Math.floor(name.length / 3)) ? ` (did you mean "${best.c}"?)` : "";
+}
+
+function describe(node: YamlNode | null): string {
+  if (!node || (node.kind === "scalar" && node.value === null)) return "nothing";
+  return node.kind === "scalar" ? `a ${typeof node.value}` : node.kind === "map" ? "a mapping" : "a list";
+}
+
+type LintContext = {
+  issues: FlowLintIssue[];
+  files: string[];
+  commands: number;
+  // Files on the current include chain, to report cycles instead of recursing forever.
+  stack: string[];
+};
+
+class FileLinter {
+  #ctx: LintContext;
+  #file: string;
+
+  constructor(ctx: LintContext, file: string) {
+    this.#ctx = ctx;
+    this.#file = file;
+  }
+
+  issue(severity: FlowLintIssue["severity"], line: number, message: string): void {
+    this.#ctx.issues.push({ severity, file: this.#file, line, message });
+  }
+
+  error(line: number, message: string): void {
+    this.issue("error", line, message);
+  }
+
+  warn(line: number, message: string): void {
+    this.issue("warning", line, message);
+  }
+
+  async commandList(node: YamlNode | null, line: number): Promise<void> {
+    if (!node || node.kind !== "seq") {
+      this.error(node?.line ?? line, `Expected a list of commands, got ${describe(node)}`);
+      return;
+    }
+    for (const item of node.items) await this.command(item);
+  }
+
+  async command(node: YamlNode): Promise<void> {
+    this.#ctx.commands += 1;
+    let name: string;
+    let arg: YamlNode | null = null;
+    if (node.kind === "scalar") {
+      if (typeof node.value !== "string") {
+        this.error(node.line, `Expected a command, got ${describe(node)}`);
+        return;
+      }
+      name = node.value;
+    } else if (node.kind === "map") {
+      if (node.entries.length !== 1) {
+        const keys = node.entries.map((e) => e.key).join(", ");
+        this.error(node.line, `A step must have exactly one command, got ${node.entries.length} (${keys}); indent its arguments under the command`);
+        return;
+      }
+      name = node.entries[0]!.key;
+      arg = node.entries[0]!.value;
+    } else {
+      this.error(node.line, "Expected a command, got a nested list");
+      return;
+    }
+
+    const spec = MAESTRO_COMMANDS[name];
+    if (!spec) {
+      this.error(node.line, `Unknown command "${name}"${suggest(name, Object.keys(MAESTRO_COMMANDS))}`);
+      return;
+    }
+    await this.argument(name, spec, arg, node.line);
+  }
+
+  async argument(name: string, spec: CommandSpec, arg: YamlNode | null, line: number): Promise<void> {
+    const empty = !arg || (arg.kind === "scalar" && arg.value === null);
+    if (empty) {
+      if (!spec.bare) this.error(line, `${name} requires an argument`);
+      return;
+    }
+    if (arg.kind === "scalar") {
+      if (!spec.scalar) {
+        this.error(arg.line, `${name} does not take a scalar argument${spec.keys ? `; use a mapping with ${spec.keys.filter((k) => !COMMON_KEYS.includes(k)).join(", ")}` : ""}`);
+        return;
+      }
+      if (name === "pressKey" && !PRESS_KEY_NAMES.includes(String(arg.value).toLowerCase())) {
+        this.warn(arg.line, `Unknown key "${String(arg.value)}" for pressKey${suggest(String(arg.value), PRESS_KEY_NAMES)}`);
+      }
+      if (name === "runFlow" || name === "runScript") await this.include(name, String(arg.value), arg.line);
+      return;
+    }
+    if (arg.kind === "seq") {
+      if (!spec.list) this.error(arg.line, `${name} does not take a list argument`);
+      return;
+    }
+    if (!spec.keys) {
+      this.error(arg.line, `${name} does not take a mapping argument`);
+      return;
+    }
+
+    for (const entry of arg.entries) {
+      if (!spec.keys.includes(entry.key)) {
+        this.warn(entry.line, `Unknown ${name} argument "${entry.key}"${suggest(entry.key, spec.keys)}`);
+        continue;
+      }
+      if (entry.key === "when") this.when(entry.value);
+      if (spec.nested?.includes(entry.key)) await this.commandList(entry.value, entry.line);
+      if (entry.key === "element") this.selector(entry.value, entry.line);
+      if (entry.key === "file" && (name === "runFlow" || name === "runScript" || name === "retry")) {
+        if (entry.value.kind === "scalar" && typeof entry.value.value === "string") {
+          await this.include(name === "runScript" ? "runScript" : "runFlow", entry.value.value, entry.value.line);
+        } else {
+          this.error(entry.value.line, `${name} file must be a path, got ${describe(entry.value)}`);
+        }
+      }
+    }
+    for (const group of spec.requires ?? []) {
+      if (!group.some((k) => arg.entries.some((e) => e.key === k))) {
+        this.error(arg.line, `${name} requires ${group.length === 1 ? `"${group[0]}"` : `one of ${group.map((k) => `"${k}"`).join(", ")}`}`);
+      }
+    }
+    if (name === "swipe" && arg.entries.some((e) => e.key === "start") !== arg.entries.some((e) => e.key === "end")) {
+      this.error(arg.line, "swipe needs both start and end");
+    }
+  }
+
+  selector(node: YamlNode, line: number): void {
+    if (node.kind === "scalar") return;
+    if (node.kind !== "map") {
+      this.error(node.line ?? line, `Expected a selector (text or mapping), got ${describe(node)}`);
+      return;
+    }
+    for (const entry of node.entries) {
+      if (!SELECTOR_KEYS.includes(entry.key)) this.warn(entry.line, `Unknown selector key "${entry.key}"${suggest(entry.key, SELECTOR_KEYS)}`);
+    }
+  }
+
+  when(node: YamlNode): void {
+    if (node.kind !== "map") {
+      this.error(node.line, `when must be a mapping of ${WHEN_KEYS.join(", ")}`);
+      return;
+    }
+    for (const entry of node.entries) {
+      if (!WHEN_KEYS.includes(entry.key)) this.warn(entry.line, `Unknown when condition "${entry.key}"${suggest(entry.key, WHEN_KEYS)}`);
+    }
+  }
+
+  // Maestro resolves includes relative to the including file. Paths with ${VARS} are only known at run time.
+  async include(kind: "runFlow" | "runScript", target: string, line: number): Promise<void> {
+    if (target.includes("${")) return;
+    const resolved = path.resolve(path.dirname(this.#file), target);
+    if (kind === "runFlow" && this.#ctx.stack.includes(resolved)) {
+      this.error(line, `runFlow cycle: ${[...this.#ctx.stack, resolved].map((f) => path.basename(f)).join(" -> ")}`);
+      return;
+    }
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (!stat?.isFile()) {
+      this.error(line, `${kind} file not found: ${target} (resolved to ${resolved})`);
+      return;
+    }
+    if (kind === "runScript") {
+      if (!this.#ctx.files.includes(resolved)) this.#ctx.files.push(resolved);
+      return;
+    }
+    if (this.#ctx.files.includes(resolved)) return;
+    await lintFile(this.#ctx, resolved, await fs.readFile(resolved, "utf8"), { configRequired: false });
+  }
+}
+
+// A flow file is a config mapping (with appId or url), `---`, then the command list. Included flows, and flows that
+// `flow run` will give an appId header, may leave out the config section.
+async function lintFile(ctx: LintContext, file: string, text: string, { configRequired }: { configRequired: boolean }): Promise<void> {
+  ctx.files.push(file);
+  ctx.stack.push(file);
+  const linter = new FileLinter(ctx, file);
+  try {
+    const headerLine = text.split(/\r?\n/).findIndex((l) => /^appId:/.test(l));
+    if (headerLine >= 0 && !text.split(/\r?\n/).some((l) => /^---\s*$/.test(l))) {
+      linter.error(headerLine + 1, "Missing --- separator between the appId header and the commands");
+      return;
+    }
+
+    let docs;
+    try {
+      docs = parseYamlDocuments(text);
+    } catch (e) {
+      // Maestro may well accept what this reader cannot follow; that is no reason to stop the run.
+      if (e instanceof YamlUnsupportedError) {
+        linter.warn(e.line, `File not checked: ${e.message}`);
+        return;
+      }
+      if (e instanceof YamlSyntaxError) {
+        linter.error(e.line, `YAML syntax error: ${e.message}`);
+        return;
+      }
+      throw e;
+    }
+
+    if (docs.length === 0) {
+      linter.error(1, "Flow is empty");
+      return;
+    }
+    if (docs.length > 2) {
+      linter.error(docs[2]!.line, `Expected a config section and a command list, found ${docs.length} documents`);
+      return;
+    }
+
+    const [first, second] = docs;
+    if (docs.length === 1) {
+      if (first!.node?.kind === "map" && first!.node.entries.some((e) => CONFIG_KEYS.includes(e.key))) {
+        linter.error(first!.line, "Flow has a config section but no commands; add --- and a list of commands");
+        return;
+      }
+      if (configRequired) linter.error(first!.line, "Missing config section; start the flow with appId: <id> and --- (or pass --app-id)");
+      await linter.commandList(first!.node, first!.line);
+      return;
+    }
+
+    const config = first!.node;
+    if (!config || config.kind !== "map") {
+      linter.error(first!.line, `The config section before --- must be a mapping, got ${describe(config)}`);
+    } else {
+      for (const entry of config.entries) {
+        if (MAESTRO_COMMANDS[entry.key]) linter.error(entry.line, `Command "${entry.key}" is in the config section; move it below ---`);
+        else if (!CONFIG_KEYS.includes(entry.key)) linter.warn(entry.line, `Unknown config key "${entry.key}"${suggest(entry.key, CONFIG_KEYS)}`);
+      }
+      const appId = config.entries.find((e) => e.key === "appId" || e.key === "url");
+      if (!appId) linter.error(config.line, "The config section needs appId (or url for web flows)");
+      else if (appId.value.kind !== "scalar" || typeof appId.value.value !== "string" || !appId.value.value.trim()) {
+        linter.error(appId.line, `${appId.key} must be a non-empty string`);
+      }
+      for (const hook of ["onFlowStart", "onFlowComplete"]) {
+        const entry = config.entries.find((e) => e.key === hook);
+        if (entry) await linter.commandList(entry.value, entry.line);
+      }
+    }
+    await linter.commandList(second!.node, second!.line);
+  } finally {
+    ctx.stack.pop();
+  }
+}
+
+// Checks a flow against the Maestro command set before anything touches a device. `file` is where the flow lives (or
+// will be written): includes resolve relative to it. `appId` is the header `flow run` adds to a flow without one; it
+// is not spliced into `text`, so reported lines stay those of the user's file.
+export async function lintFlow(text: string, file: string, { appId = null }: { appId?: string | null } = {}): Promise<FlowLintResult> {
+  const ctx: LintContext = { issues: [], files: [], commands: 0, stack: [] };
+  const headerSupplied = Boolean(appId) && !/^appId:\s*/m.test(text);
+  await lintFile(ctx, path.resolve(file), text, { configRequired: !headerSupplied });
+  ctx.issues.sort((a, b) => (a.file === b.file ? a.line - b.line : ctx.files.indexOf(a.file) - ctx.files.indexOf(b.file)));
+  return { ok: !ctx.issues.some((i) => i.severity === "error"), files: ctx.files, commands: ctx.commands, issues: ctx.issues };
+}
+
+// `test --flow <dir>` runs every top-level flow in the directory; config.yaml is Maestro's workspace config.
+export async function lintFlowPath(target: string): Promise<FlowLintResult> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return await lintFlow(await fs.readFile(target, "utf8"), target);
+  const flows = await listFlowFiles(target);
+  const results = await Promise.all(flows.map(async (f) => await lintFlow(await fs.readFile(f, "utf8"), f)));
+  const issues = results.flatMap((r) => r.issues);
+  return {
+    ok: results.every((r) => r.ok),
+    files: [...new Set(results.flatMap((r) => r.files))],
+    commands: results.reduce((n, r) => n + r.commands, 0),
+    issues,
+  };
+}
+
+export function formatLintIssue(issue: FlowLintIssue): string {
+  return `${issue.file}:${issue.line}: ${issue.severity}: ${issue.message}`;
+}
+
+// Pre-flight failure for `flow run` and `test`: stops before any device setup.
+export function flowInvalidError(result: FlowLintResult): CLIError {
+  const errors = result.issues.filter((i) => i.severity === "error");
+  return new CLIError(`Flow failed lint with ${errors.length} error${errors.length === 1 ? "" : "s"}; Maestro was not started.`, {
+    exitCode: 1,
+    code: "FLOW_INVALID",
+    details: [...errors.map((i) => formatLintIssue(i)), "Skip the check with --no-lint."],
+  });
+}
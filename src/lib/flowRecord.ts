@@ -0,0 +1,125 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { accessibleLabel } from "./a11yAudit.js";
+import { getFlowRecordingPath } from "./dirs.js";
+import { atomicWriteFile } from "./fsAtomic.js";
+import type { Point } from "./gesture.js";
+import { ensureDir } from "./paths.js";
+import type { CanonicalElement, UISnapshot } from "./uiSnapshot.js";
+
+// How a recorded step finds its element again on replay: by id, by visible text, or at fixed coordinates.
+export type FlowTarget = { id: string } | { text: string } | { point: Point };
+
+export type FlowStep =
+  | { action: "tap" | "long-press" | "double-tap"; target: FlowTarget; ref: string | null }
+  | { action: "input-text"; text: string }
+  | { action: "swipe"; from: Point; to: Point; duration_ms: number }
+  | { action: "press-key"; key: string }
+  | { action: "assert-visible" | "assert-not-visible"; text: string };
+
+export type FlowRecording = {
+  started_at: string;
+  app_id: string | null;
+  steps: Array<FlowStep & { at: string }>;
+};
+
+// Maestro `pressKey` names for `ui press` keys. iOS `back` is an edge swipe and is recorded as one.
+export const MAESTRO_KEYS: Record<string, string> = {
+  back: "Back",
+  enter: "Enter",
+  tab: "Tab",
+  escape: "Escape",
+  home: "Home",
+  lock: "Lock",
+  "volume-up": "Volume Up",
+  "volume-down": "Volume Down",
+};
+
+export async function readFlowRecording(sessionName: string): Promise<FlowRecording | null> {
+  const raw = await fs.readFile(getFlowRecordingPath(sessionName), "utf8").catch(() => null);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as FlowRecording;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeFlowRecording(sessionName: string, recording: FlowRecording): Promise<void> {
+  const p = getFlowRecordingPath(sessionName);
+  await ensureDir(path.dirname(p));
+  await atomicWriteFile(p, `${JSON.stringify(recording, null, 2)}\n`);
+}
+
+export async function clearFlowRecording(sessionName: string): Promise<void> {
+  await fs.rm(getFlowRecordingPath(sessionName), { force: true });
+}
+
+// Appends a successful ui action to the session's flow recording; a no-op when nothing is being recorded.
+export async function recordFlowStep(sessionName: string, step: FlowStep): Promise<void> {
+  const recording = await readFlowRecording(sessionName);
+  if (!recording) return;
+  recording.steps.push({ ...step, at: new Date().toISOString() });
+  await writeFlowRecording(sessionName, recording);
+}
+
+// Prefers an id, then the announced label, as long as it identifies the element uniquely on the snapshot's screen;
+// anything else (no element, or only ambiguous ids and labels) replays at the tapped coordinates.
+export function flowTargetFor(element: CanonicalElement | null, point: Point, snapshot: UISnapshot | null): FlowTarget {
+  if (element && snapshot) {
+    const idOf = (e: CanonicalElement) => e.selectors.ios.id || e.selectors.android.resource_id || "";
+    const id = idOf(element);
+    if (id && snapshot.elements.filter((e) => idOf(e) === id).length === 1) return { id };
+    const label = accessibleLabel(element, snapshot.platform);
+    if (label && snapshot.elements.filter((e) => accessibleLabel(e, snapshot.platform) === label).length === 1) return { text: label };
+  }
+  return { point: { x: Math.round(point.x), y: Math.round(point.y) } };
+}
+
+// Maestro matches `id` and `text` as full regular expressions.
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// JSON strings are valid YAML double-quoted scalars.
+function q(value: string): string {
+  return JSON.stringify(value);
+}
+
+function targetLines(command: string, target: FlowTarget): string[] {
+  if ("id" in target) return [`- ${command}:`, `    id: ${q(escapeRegex(target.id))}`];
+  if ("text" in target) return [`- ${command}:`, `    text: ${q(escapeRegex(target.text))}`];
+  return [`- ${command}:`, `    point: ${q(`${target.point.x},${target.point.y}`)}`];
+}
+
+function stepLines(step: FlowStep): string[] {
+  switch (step.action) {
+    case "tap":
+      return targetLines("tapOn", step.target);
+    case "long-press":
+      return targetLines("longPressOn", step.target);
+    case "double-tap":
+      return targetLines("doubleTapOn", step.target);
+    case "input-text":
+      return [`- inputText: ${q(step.text)}`];
+    case "swipe":
+      return [
+        "- swipe:",
+        `    start: ${q(`${Math.round(step.from.x)}, ${Math.round(step.from.y)}`)}`,
+        `    end: ${q(`${Math.round(step.to.x)}, ${Math.round(step.to.y)}`)}`,
+        `    duration: ${step.duration_ms}`,
+      ];
+    case "press-key":
+      return [`- pressKey: ${step.key}`];
+    case "assert-visible":
+    case "assert-not-visible":
+      // `ui assert-visible` matches a substring of an element's name.
+      return [`- ${step.action === "assert-visible" ? "assertVisible" : "assertNotVisible"}:`, `    text: ${q(`.*${escapeRegex(step.text)}.*`)}`];
+  }
+}
+
+// Renders the recording as a Maestro flow. Without an app id the header is left out; `flow run` adds the session's.
+export function renderMaestroFlow(recording: Pick<FlowRecording, "app_id" | "steps">): string {
+  const header = recording.app_id ? [`appId: ${recording.app_id}`, "---"] : [];
+  return `${[...header, ...recording.steps.flatMap((s) => stepLines(s))].join("\n")}\n`;
+}
@@ -1,12 +1,22 @@
-export function printJSON(value: unknown): void {
-  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+export type Writer = (text: string) => void;
+
+function stdoutWriter(text: string): void {
+  process.stdout.write(text);
+}
+
+function stderrWriter(text: string): void {
+  process.stderr.write(text);
+}
+
+export function printJSON(value: unknown, write: Writer = stdoutWriter): void {
+  write(`${JSON.stringify(value, null, 2)}\n`);
 }
 
-export function printHuman(lines: string[]): void {
-  process.stdout.write(`${lines.join("\n")}\n`);
+export function printHuman(lines: string[], write: Writer = stdoutWriter): void {
+  write(`${lines.join("\n")}\n`);
 }
 
-export function printError(lines: string[] | string): void {
+export function printError(lines: string[] | string, write: Writer = stderrWriter): void {
   const payload = Array.isArray(lines) ? lines.join("\n") : lines;
-  process.stderr.write(`${payload}\n`);
+  write(`${payload}\n`);
 }
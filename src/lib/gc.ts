@@ -8,6 +8,9 @@ export type RunInfo = {
   startedAtSource: "name" | "mtime";
   mtimeMs: number;
   ok: boolean | null; // null = unknown
+  // From result.json (e.g. "test", "ui.tap"); null when the run has none.
+  command: string | null;
+  session: string | null;
   sizeBytes: number;
 };
 
@@ -46,16 +49,20 @@ async function dirSizeBytes(dirPath: string): Promise<number> {
   return total;
 }
 
-async function readRunOk(runDir: string): Promise<boolean | null> {
+async function readRunResult(runDir: string): Promise<Pick<RunInfo, "ok" | "command" | "session">> {
+  const unknown = { ok: null, command: null, session: null };
   const p = path.join(runDir, "result.json");
   const raw = await fs.readFile(p, "utf8").catch(() => null);
-  if (!raw) return null;
+  if (!raw) return unknown;
   try {
-    const parsed = JSON.parse(raw) as { ok?: unknown };
-    if (typeof parsed.ok === "boolean") return parsed.ok;
-    return null;
+    const parsed = JSON.parse(raw) as { ok?: unknown; command?: { name?: unknown }; session?: unknown };
+    return {
+      ok: typeof parsed.ok === "boolean" ? parsed.ok : null,
+      command: typeof parsed.command?.name === "string" ? parsed.command.name : null,
+      session: typeof parsed.session === "string" ? parsed.session : null,
+    };
   } catch {
-    return null;
+    return unknown;
   }
 }
 
@@ -72,9 +79,9 @@ export async function listRuns(rootDir: string): Promise<RunInfo[]> {
     const startedAt = fromName ?? (st ? st.mtime : new Date(0));
     const startedAtSource = fromName ? "name" : "mtime";
     const mtimeMs = st ? st.mtimeMs : 0;
-    const ok = await readRunOk(dir);
+    const { ok, command, session } = await readRunResult(dir);
     const sizeBytes = await dirSizeBytes(dir);
-    out.push({ dir, startedAt, startedAtSource, mtimeMs, ok, sizeBytes });
+    out.push({ dir, startedAt, startedAtSource, mtimeMs, ok, command, session, sizeBytes });
   }
 
   return out.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
@@ -0,0 +1,176 @@
+import type { Bounds, UISnapshot } from "./uiSnapshot.js";
+
+export type SwipeDirection = "up" | "down" | "left" | "right";
+export type SwipeCoords = { x1: number; y1: number; x2: number; y2: number };
+
+const SWIPE_DIRECTIONS: readonly string[] = ["up", "down", "left", "right"];
+
+export function parseSwipeDirection(raw: string): SwipeDirection | null {
+  const v = raw.trim().toLowerCase();
+  return SWIPE_DIRECTIONS.includes(v) ? (v as SwipeDirection) : null;
+}
+
+// A finger swipe of `amountPx` from `center` in `direction`.
+export function directionSwipe(center: { x: number; y: number }, direction: SwipeDirection, amountPx: number): SwipeCoords {
+  const { x, y } = center;
+  if (direction === "up") return { x1: x, y1: y, x2: x, y2: y - amountPx };
+  if (direction === "down") return { x1: x, y1: y, x2: x, y2: y + amountPx };
+  if (direction === "left") return { x1: x, y1: y, x2: x - amountPx, y2: y };
+  return { x1: x, y1: y, x2: x + amountPx, y2: y };
+}
+
+const OPPOSITE: Record<SwipeDirection, SwipeDirection> = { up: "down", down: "up", left: "right", right: "left" };
+
+// Scrolling reveals content in `direction`, so the finger moves the opposite way across half of the viewport,
+// centered so the swipe never starts on a screen edge (which would trigger system gestures).
+export function scrollSwipe(viewport: Bounds, direction: SwipeDirection): SwipeCoords {
+  const vertical = direction === "up" || direction === "down";
+  const amount = Math.round((vertical ? viewport.h : viewport.w) / 2);
+  const center = { x: Math.round(viewport.x + viewport.w / 2), y: Math.round(viewport.y + viewport.h / 2) };
+  const half = Math.round(amount / 2);
+  const finger = OPPOSITE[direction];
+  const start =
+    finger === "up"
+      ? { x: center.x, y: center.y + half }
+      : finger === "down"
+        ? { x: center.x, y: center.y - half }
+        : finger === "left"
+          ? { x: center.x + half, y: center.y }
+          : { x: center.x - half, y: center.y };
+  return directionSwipe(start, finger, amount);
+}
+
+// The screen area covered by a snapshot: the union of its visible, non-empty elements.
+export function snapshotViewport(snapshot: UISnapshot): Bounds | null {
+  const boxes = snapshot.elements.filter((e) => e.states.visible && e.bounds.w > 0 && e.bounds.h > 0).map((e) => e.bounds);
+  if (!boxes.length) return null;
+  const x = Math.min(...boxes.map((b) => b.x));
+  const y = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.w));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.h));
+  return { x, y, w: right - x, h: bottom - y };
+}
+
+export function centerInside(bounds: Bounds, rect: Bounds): boolean {
+  const cx = bounds.x + bounds.w / 2;
+  const cy = bounds.y + bounds.h / 2;
+  return cx >= rect.x && cx <= rect.x + rect.w && cy >= rect.y && cy <= rect.y + rect.h;
+}
+
+export type Point = { x: number; y: number };
+
+// Touch gestures beyond a single tap; `durationMs` is how long the finger stays down.
+export type TouchGesture =
+  | { kind: "long-press"; at: Point; durationMs: number }
+  | { kind: "double-tap"; at: Point }
+  | { kind: "drag"; from: Point; to: Point; durationMs: number }
+  // Two fingers on a horizontal line through `at`, `radiusPx` from it at the wide end; `scale` is the ratio of the
+  // final to the initial finger distance (> 1 zooms in, < 1 zooms out).
+  | { kind: "pinch"; at: Point; scale: number; radiusPx: number; durationMs: number };
+
+function xy(p: Point): string[] {
+  return [String(Math.round(p.x)), String(Math.round(p.y))];
+}
+
+function pt(p: Point): string {
+  return xy(p).join(" ");
+}
+
+// `adb shell` arguments for one gesture. Double taps run both taps in one device shell so the second lands within
+// the double-tap timeout; drags use `input draganddrop`, which holds the finger before moving (see adbMotionDragArgs).
+export function buildAdbGestureArgs(serial: string, gesture: Exclude<TouchGesture, { kind: "pinch" }>): string[] {
+  const shell = ["-s", serial, "shell"];
+  if (gesture.kind === "long-press") {
+    return [...shell, "input", "swipe", ...xy(gesture.at), ...xy(gesture.at), String(gesture.durationMs)];
+  }
+  if (gesture.kind === "double-tap") return [...shell, `input tap ${pt(gesture.at)}; input tap ${pt(gesture.at)}`];
+  return [...shell, "input", "draganddrop", ...xy(gesture.from), ...xy(gesture.to), String(gesture.durationMs)];
+}
+
+// Fallback for devices whose `input` lacks draganddrop: press, hold, move, release via raw motion events.
+export function adbMotionDragArgs(serial: string, gesture: Extract<TouchGesture, { kind: "drag" }>): string[] {
+  const hold = (gesture.durationMs / 1000).toFixed(3);
+  return [
+    "-s",
+    serial,
+    "shell",
+    `input motionevent DOWN ${pt(gesture.from)}; sleep ${hold}; input motionevent MOVE ${pt(gesture.to)}; input motionevent UP ${pt(gesture.to)}`,
+  ];
+}
+
+// Finger positions for each step of a pinch, first to last.
+export function pinchFrames(gesture: Extract<TouchGesture, { kind: "pinch" }>, steps: number): Array<[Point, Point]> {
+  const wide = gesture.radiusPx;
+  const narrow = gesture.scale >= 1 ? wide / gesture.scale : wide * gesture.scale;
+  const [from, to] = gesture.scale >= 1 ? [narrow, wide] : [wide, narrow];
+  const frames: Array<[Point, Point]> = [];
+  for (let i = 0; i <= steps; i++) {
+    const r = from + ((to - from) * i) / steps;
+    frames.push([
+      { x: Math.round(gesture.at.x - r), y: Math.round(gesture.at.y) },
+      { x: Math.round(gesture.at.x + r), y: Math.round(gesture.at.y) },
+    ]);
+  }
+  return frames;
+}
+
+export type AndroidTouchscreen = { path: string; x: { min: number; max: number }; y: { min: number; max: number } };
+
+// The first multi-touch (type B, with slots) device in `getevent -pl` output, or null when there is none.
+export function parseGeteventTouchscreen(output: string): AndroidTouchscreen | null {
+  for (const block of output.split(/^add device \d+:\s*/m).slice(1)) {
+    const range = (axis: string) => {
+      const m = block.match(new RegExp(`${axis}\\s*:.*?min (-?\\d+), max (-?\\d+)`));
+      return m ? { min: Number(m[1]), max: Number(m[2]) } : null;
+    };
+    const x = range("ABS_MT_POSITION_X");
+    const y = range("ABS_MT_POSITION_Y");
+    if (x && y && /ABS_MT_SLOT/.test(block) && /ABS_MT_TRACKING_ID/.test(block)) return { path: block.split(/\s/, 1)[0]!, x, y };
+  }
+  return null;
+}
+
+const EV_SYN = 0;
+const EV_KEY = 1;
+const EV_ABS = 3;
+const BTN_TOUCH = 330;
+const ABS_MT_SLOT = 47;
+const ABS_MT_POSITION_X = 53;
+const ABS_MT_POSITION_Y = 54;
+const ABS_MT_TRACKING_ID = 57;
+
+// `adb shell` arguments for a pinch: `input` drives a single pointer, so both fingers are written to the touchscreen
+// with `sendevent` (multi-touch protocol B), scaled from screen pixels to the device's axis ranges.
+export function adbSendeventPinchArgs(
+  serial: string,
+  gesture: Extract<TouchGesture, { kind: "pinch" }>,
+  touch: AndroidTouchscreen,
+  screen: { w: number; h: number }
+): string[] {
+  const steps = Math.max(5, Math.round(gesture.durationMs / 50));
+  const frames = pinchFrames(gesture, steps);
+  const ev = (type: number, code: number, value: number) => `sendevent ${touch.path} ${type} ${code} ${value}`;
+  const scale = (v: number, size: number, range: { min: number; max: number }) =>
+    Math.round(range.min + (Math.min(Math.max(v, 0), size - 1) / Math.max(size - 1, 1)) * (range.max - range.min));
+  const move = (fingers: [Point, Point]) =>
+    fingers.flatMap((p, slot) => [
+      ev(EV_ABS, ABS_MT_SLOT, slot),
+      ev(EV_ABS, ABS_MT_POSITION_X, scale(p.x, screen.w, touch.x)),
+      ev(EV_ABS, ABS_MT_POSITION_Y, scale(p.y, screen.h, touch.y)),
+    ]);
+  const sync = ev(EV_SYN, 0, 0);
+  const pause = `sleep ${(gesture.durationMs / 1000 / steps).toFixed(3)}`;
+  const down = [ev(EV_ABS, ABS_MT_SLOT, 0), ev(EV_ABS, ABS_MT_TRACKING_ID, 1), ev(EV_ABS, ABS_MT_SLOT, 1), ev(EV_ABS, ABS_MT_TRACKING_ID, 2)];
+  const up = [0, 1].flatMap((slot) => [ev(EV_ABS, ABS_MT_SLOT, slot), ev(EV_ABS, ABS_MT_TRACKING_ID, -1)]);
+  const script = [
+    ...down,
+    ...move(frames[0]!),
+    ev(EV_KEY, BTN_TOUCH, 1),
+    sync,
+    ...frames.slice(1).flatMap((f) => [pause, ...move(f), sync]),
+    ...up,
+    ev(EV_KEY, BTN_TOUCH, 0),
+    sync,
+  ];
+  return ["-s", serial, "shell", script.join("; ")];
+}
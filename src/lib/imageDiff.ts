@@ -0,0 +1,95 @@
+import { usageError } from "./cliError.js";
+import type { RGBAImage } from "./png.js";
+import type { Bounds, UISnapshot } from "./uiSnapshot.js";
+
+export type ImageDiffResult = {
+  width: number;
+  height: number;
+  // Pixels compared, i.e. not inside an ignore region.
+  compared_pixels: number;
+  mismatched_pixels: number;
+  ignored_pixels: number;
+  mismatch_pct: number;
+  // Faded copy of the actual image: mismatches in red, ignored regions tinted blue.
+  diff: RGBAImage;
+};
+
+// Parses an ignore rectangle `rect:x,y,w,h`, in screenshot pixels.
+export function parseRect(token: string): Bounds {
+  const parts = token.slice("rect:".length).split(",").map((p) => Number(p.trim()));
+  if (!token.startsWith("rect:") || parts.length !== 4 || parts.some((n) => !Number.isFinite(n)) || parts[2]! <= 0 || parts[3]! <= 0) {
+    throw usageError(`Invalid rect: ${token} (expected rect:x,y,w,h)`);
+  }
+  const [x, y, w, h] = parts as [number, number, number, number];
+  return { x, y, w, h };
+}
+
+// Screenshot pixels per snapshot unit. Android bounds are already pixels; iOS bounds are points, so the ratio of the
+// screenshot to the screen width is the device scale. Snapshots without a recorded screen fall back to the widest
+// element, which may not span the screen, so the ratio is capped at the largest iOS scale (3).
+export function screenshotScale(imageWidth: number, snapshot: UISnapshot): number {
+  if (snapshot.platform === "android") return 1;
+  const screenWidth = snapshot.screen?.w ?? Math.max(0, ...snapshot.elements.map((e) => e.bounds.x + e.bounds.w));
+  if (screenWidth <= 0) return 1;
+  return Math.min(3, Math.max(1, Math.round(imageWidth / screenWidth)));
+}
+
+export function scaleBounds(b: Bounds, scale: number): Bounds {
+  return { x: b.x * scale, y: b.y * scale, w: b.w * scale, h: b.h * scale };
+}
+
+function ignoreMask(width: number, height: number, regions: Bounds[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const r of regions) {
+    const x0 = Math.max(0, Math.floor(r.x));
+    const y0 = Math.max(0, Math.floor(r.y));
+    const x1 = Math.min(width, Math.ceil(r.x + r.w));
+    const y1 = Math.min(height, Math.ceil(r.y + r.h));
+    for (let y = y0; y < y1; y++) mask.fill(1, y * width + x0, Math.max(y * width + x0, y * width + x1));
+  }
+  return mask;
+}
+
+// Compares two equally sized images. A pixel mismatches when any channel differs by more than `threshold`
+// (0..1 of the channel range); `ignore` regions are in image pixels.
+export function diffImages(baseline: RGBAImage, actual: RGBAImage, { threshold, ignore }: { threshold: number; ignore: Bounds[] }): ImageDiffResult {
+  const { width, height } = actual;
+  const mask = ignoreMask(width, height, ignore);
+  const limit = threshold * 255;
+  const out = new Uint8Array(width * height * 4);
+  let mismatched = 0;
+  let ignored = 0;
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    const a = actual.data;
+    const b = baseline.data;
+    const lum = 0.299 * a[i]! + 0.587 * a[i + 1]! + 0.114 * a[i + 2]!;
+    const faded = Math.round(255 - (255 - lum) * 0.25);
+    if (mask[p]) {
+      ignored += 1;
+      out[i] = Math.round(faded * 0.6);
+      out[i + 1] = Math.round(faded * 0.7);
+      out[i + 2] = 255;
+      out[i + 3] = 255;
+      continue;
+    }
+    const delta = Math.max(Math.abs(a[i]! - b[i]!), Math.abs(a[i + 1]! - b[i + 1]!), Math.abs(a[i + 2]! - b[i + 2]!), Math.abs(a[i + 3]! - b[i + 3]!));
+    if (delta > limit) mismatched += 1;
+    out[i] = delta > limit ? 255 : faded;
+    out[i + 1] = delta > limit ? 0 : faded;
+    out[i + 2] = delta > limit ? 0 : faded;
+    out[i + 3] = 255;
+  }
+
+  const compared = width * height - ignored;
+  return {
+    width,
+    height,
+    compared_pixels: compared,
+    mismatched_pixels: mismatched,
+    ignored_pixels: ignored,
+    mismatch_pct: compared ? Math.round((mismatched / compared) * 1e6) / 1e4 : 0,
+    diff: { width, height, data: out },
+  };
+}
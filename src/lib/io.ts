@@ -1,5 +1,5 @@
 import process from "node:process";
-import { printHuman, printJSON, printError } from "./format.js";
+import { printHuman, printJSON, printError, type Writer } from "./format.js";
 import type { ResultEnvelope } from "./envelope.js";
 import type { JsonlEvent, JsonlResult, RunContext } from "./run.js";
 
@@ -11,51 +11,71 @@ export type OutputConfig = {
   verbose: boolean;
 };
 
-function writeJSONLine(value: unknown): void {
-  process.stdout.write(`${JSON.stringify(value)}\n`);
-}
+// Where a command's stdout/stderr text ends up. Live mode swaps this out to forward output over its socket.
+export type OutputSink = {
+  stdout: Writer;
+  stderr: Writer;
+};
+
+export const processSink: OutputSink = {
+  stdout: (text) => {
+    process.stdout.write(text);
+  },
+  stderr: (text) => {
+    process.stderr.write(text);
+  },
+};
 
 export class CommandIO {
   config: OutputConfig;
+  sink: OutputSink;
+  // repl tags every JSON line with the id of the request that produced it (null when the id was unreadable).
+  requestId: number | string | null | undefined;
   run: RunContext | null = null;
 
-  constructor(config: OutputConfig) {
+  constructor(config: OutputConfig, sink: OutputSink = processSink, requestId?: number | string | null) {
     this.config = config;
+    this.sink = sink;
+    this.requestId = requestId;
   }
 
   attachRun(run: RunContext): void {
     this.run = run;
   }
 
+  #writeJSONLine(value: object): void {
+    const line = this.requestId === undefined ? value : { id: this.requestId, ...value };
+    this.sink.stdout(`${JSON.stringify(line)}\n`);
+  }
+
   event(event: JsonlEvent): void {
     if (this.config.mode === "jsonl") {
-      writeJSONLine(event);
+      this.#writeJSONLine(event);
     }
   }
 
   human(lines: string[]): void {
     if (this.config.mode !== "human") return;
     if (this.config.quiet) return;
-    printHuman(lines);
+    printHuman(lines, this.sink.stdout);
   }
 
   error(lines: string[] | string): void {
     if (this.config.mode !== "human") return;
     if (this.config.quiet) return;
-    printError(lines);
+    printError(lines, this.sink.stderr);
   }
 
   result(envelope: ResultEnvelope): void {
     if (this.config.mode === "json") {
-      printJSON(envelope);
+      printJSON(envelope, this.sink.stdout);
       return;
     }
     if (this.config.mode === "jsonl") {
       const resultLine: JsonlResult<ResultEnvelope> = { type: "result", ...envelope };
-      writeJSONLine(resultLine);
+      this.#writeJSONLine(resultLine);
       return;
     }
     // human mode: commands decide what to print; still return nothing.
   }
 }
-
@@ -0,0 +1,181 @@
+// Just enough JUnit XML to read and merge the reports Maestro writes (one <testsuite> per run) without an XML dependency.
+
+export type JUnitSuite = {
+  attrs: Record<string, string>;
+  // Inner XML (testcases, properties), kept verbatim.
+  body: string;
+};
+
+export type JUnitTotals = { tests: number; failures: number; errors: number; time: number };
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" };
+
+function xmlUnescape(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] === "#") return String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : Number(e.slice(1)));
+    return ENTITIES[e] ?? m;
+  });
+}
+
+function xmlEscape(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ESCAPES[c]!);
+}
+
+function parseXmlAttrs(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) attrs[m[1]!] = xmlUnescape(m[2] ?? m[3] ?? "");
+  return attrs;
+}
+
+function formatAttrs(attrs: Record<string, string>): string {
+  return Object.entries(attrs)
+    .map(([k, v]) => ` ${k}="${xmlEscape(v)}"`)
+    .join("");
+}
+
+export function parseJUnitSuites(xml: string): JUnitSuite[] {
+  const suites: JUnitSuite[] = [];
+  // `\b` keeps <testsuites> out: the next character is a word character.
+  for (const m of xml.matchAll(/<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g)) {
+    suites.push({ attrs: parseXmlAttrs(m[1]!), body: m[2] ?? "" });
+  }
+  return suites;
+}
+
+function count(body: string, tag: string): number {
+  return (body.match(new RegExp(`<${tag}\\b`, "g")) ?? []).length;
+}
+
+function suiteTotals(suite: JUnitSuite): JUnitTotals {
+  const num = (key: string, fallback: number) => {
+    const value = suite.attrs[key];
+    return value !== undefined && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : fallback;
+  };
+  return {
+    tests: num("tests", count(suite.body, "testcase")),
+    failures: num("failures", count(suite.body, "failure")),
+    errors: num("errors", count(suite.body, "error")),
+    time: num("time", 0),
+  };
+}
+
+export type JUnitShardReport = {
+  shard: string;
+  // Null when the shard produced no report (Maestro crashed or never started).
+  xml: string | null;
+  // Recorded as an errored testcase when there is no report.
+  error?: string;
+};
+
+// Concatenates the shards' suites under one <testsuites> with summed totals. Suite names get the shard appended so
+// CI dashboards keep them apart; `time` is the longest shard since shards run in parallel.
+export function mergeJUnitReports(reports: JUnitShardReport[]): { xml: string; totals: JUnitTotals } {
+  const totals: JUnitTotals = { tests: 0, failures: 0, errors: 0, time: 0 };
+  const blocks: string[] = [];
+  for (const report of reports) {
+    const suites = report.xml ? parseJUnitSuites(report.xml) : [];
+    if (suites.length === 0) {
+      const message = report.error ?? "no JUnit report";
+      totals.tests += 1;
+      totals.errors += 1;
+      blocks.push(
+        `  <testsuite name="${xmlEscape(report.shard)}" tests="1" failures="0" errors="1" time="0">\n` +
+          `    <testcase name="${xmlEscape(report.shard)}" classname="${xmlEscape(report.shard)}"><error message="${xmlEscape(message)}"/></testcase>\n` +
+          "  </testsuite>"
+      );
+      continue;
+    }
+    let shardTime = 0;
+    for (const suite of suites) {
+      const t = suiteTotals(suite);
+      totals.tests += t.tests;
+      totals.failures += t.failures;
+      totals.errors += t.errors;
+      shardTime += t.time;
+      const attrs = { ...suite.attrs, name: `${suite.attrs.name ?? "Test Suite"} (${report.shard})` };
+      blocks.push(`  <testsuite${formatAttrs(attrs)}>${suite.body}</testsuite>`);
+    }
+    totals.time = Math.max(totals.time, shardTime);
+  }
+  const head = `<testsuites tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" time="${totals.time}">`;
+  return { xml: `<?xml version="1.0" encoding="UTF-8"?>\n${head}\n${blocks.join("\n")}\n</testsuites>\n`, totals };
+}
+
+export type JUnitCase = {
+  suite: string;
+  name: string;
+  classname: string | null;
+  time_s: number | null;
+  status: "passed" | "failed" | "error" | "skipped";
+  // Failure/error message attribute, else the element text.
+  message: string | null;
+};
+
+function elementMessage(body: string, tag: string): string | null {
+  const m = body.match(new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`));
+  if (!m) return null;
+  const text = xmlUnescape((m[2] ?? "").replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")).trim();
+  return parseXmlAttrs(m[1]!).message || text || null;
+}
+
+export function parseJUnitCases(xml: string): JUnitCase[] {
+  const cases: JUnitCase[] = [];
+  for (const suite of parseJUnitSuites(xml)) {
+    for (const m of suite.body.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+      const attrs = parseXmlAttrs(m[1]!);
+      const body = m[2] ?? "";
+      const failure = elementMessage(body, "failure");
+      const error = elementMessage(body, "error");
+      const skipped = /<skipped\b/.test(body);
+      const time = attrs.time !== undefined && attrs.time.trim() !== "" ? Number(attrs.time) : NaN;
+      cases.push({
+        suite: suite.attrs.name ?? "",
+        name: attrs.name ?? attrs.id ?? "",
+        classname: attrs.classname ?? null,
+        time_s: Number.isFinite(time) ? time : null,
+        status: /<failure\b/.test(body) ? "failed" : /<error\b/.test(body) ? "error" : skipped ? "skipped" : "passed",
+        message: failure ?? error,
+      });
+    }
+  }
+  return cases;
+}
+
+export type JUnitOutcome = {
+  name: string;
+  time_s: number | null;
+  status: "passed" | "failed" | "skipped" | "flaky";
+  message: string | null;
+  // Messages of the failed attempts before a flaky flow passed.
+  flaky_messages: string[];
+};
+
+function caseChildren(c: JUnitOutcome): string {
+  if (c.status === "failed") return `<failure message="${xmlEscape(c.message ?? "failed")}"/>`;
+  if (c.status === "skipped") return "<skipped/>";
+  if (c.status === "flaky") return c.flaky_messages.map((m) => `<flakyFailure message="${xmlEscape(m)}"/>`).join("");
+  return "";
+}
+
+// Writes one suite of final outcomes. Flaky testcases pass and carry a <flakyFailure> per failed attempt (the Maven
+// Surefire rerun convention, which CI report viewers understand).
+export function renderJUnitReport(suiteName: string, cases: JUnitOutcome[]): string {
+  const failures = cases.filter((c) => c.status === "failed").length;
+  const skipped = cases.filter((c) => c.status === "skipped").length;
+  const time = cases.reduce((n, c) => n + (c.time_s ?? 0), 0);
+  const lines = cases.map((c) => {
+    const attrs = formatAttrs({ name: c.name, classname: c.name, time: String(c.time_s ?? 0) });
+    const children = caseChildren(c);
+    return children ? `    <testcase${attrs}>${children}</testcase>` : `    <testcase${attrs}/>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${cases.length}" failures="${failures}" errors="0" time="${time}">`,
+    `  <testsuite${formatAttrs({ name: suiteName, tests: String(cases.length), failures: String(failures), errors: "0", skipped: String(skipped), time: String(time) })}>`,
+    ...lines,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,306 @@
+import fs from "node:fs/promises";
+import fssync from "node:fs";
+import net from "node:net";
+import { spawn } from "node:child_process";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { getLiveDir, getLiveLogPath, getLivePidPath, getLiveSocketPath } from "./dirs.js";
+import { CLIError } from "./cliError.js";
+import { ensureDir } from "./paths.js";
+import type { OutputSink } from "./io.js";
+import type { WarmEntryInfo } from "./warm.js";
+
+// Wire protocol: one JSON object per line in both directions over a per-session Unix socket.
+export type LiveRequest =
+  // `env` holds the caller's forwarded variables (see liveRequestEnv); without it the daemon's own apply.
+  | { id: number | string; op: "exec"; argv: string[]; cwd: string; env?: Record<string, string> }
+  | { id: number | string; op: "status" }
+  | { id: number | string; op: "stop" };
+
+export type LiveStatus = {
+  pid: number;
+  session: string;
+  socket: string;
+  started_at: string;
+  ttl_ms: number;
+  idle_expires_at: string;
+  requests: number;
+  warm: WarmEntryInfo[];
+};
+
+export type LiveMessage =
+  | { id: number | string; type: "stdout" | "stderr"; data: string }
+  | { id: number | string; type: "exit"; code: number }
+  | { id: number | string; type: "status"; data: LiveStatus }
+  | { id: number | string; type: "stopping" }
+  | { id: number | string | null; type: "error"; code: string; message: string };
+
+// Commands that are forwarded to a running Live process. Everything else (stdin readers, long-running
+// streams, Live management itself) always runs in the invoking process.
+export const LIVE_ROUTED_COMMANDS = new Set(["session", "device", "app", "ui"]);
+
+// Besides MOBILE_DEV_AGENT_*, the variables that decide which tools and SDKs a command finds.
+const LIVE_FORWARDED_ENV = ["PATH", "ANDROID_HOME", "ANDROID_SDK_ROOT", "ANDROID_SERIAL", "DEVELOPER_DIR", "XDG_CACHE_HOME"];
+
+// The part of an environment that Live requests carry, so a routed command runs as it would have in the caller.
+export function liveRequestEnv(env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined && (key.startsWith("MOBILE_DEV_AGENT_") || LIVE_FORWARDED_ENV.includes(key))) out[key] = value;
+  }
+  return out;
+}
+
+// Replaces the forwarded variables in process.env with a request's for the duration of that request; the returned
+// function puts the daemon's back. Live runs one request at a time, so this cannot leak into another request.
+export function applyLiveRequestEnv(env: Record<string, string>): () => void {
+  const saved = liveRequestEnv();
+  const keys = new Set([...Object.keys(saved), ...Object.keys(env)]);
+  const set = (source: Record<string, string>) => {
+    for (const key of keys) {
+      if (key in source) process.env[key] = source[key];
+      else delete process.env[key];
+    }
+  };
+  set(env);
+  return () => set(saved);
+}
+
+const HTTP_REQUEST_LINE = /^(GET|HEAD|POST|PUT|DELETE|CONNECT|OPTIONS|TRACE|PATCH|PRI) \S+ HTTP\/\d/;
+
+export function looksLikeHttp(payload: string): boolean {
+  return HTTP_REQUEST_LINE.test(payload.trimStart());
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function parseLiveRequest(line: string): LiveRequest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new CLIError("Invalid request (not JSON).", { exitCode: 2, code: "BAD_REQUEST" });
+  }
+  if (!isRecord(parsed)) throw new CLIError("Invalid request (expected an object).", { exitCode: 2, code: "BAD_REQUEST" });
+  const { id, op } = parsed;
+  if (typeof id !== "number" && typeof id !== "string") {
+    throw new CLIError("Invalid request (missing id).", { exitCode: 2, code: "BAD_REQUEST" });
+  }
+  if (op === "status" || op === "stop") return { id, op };
+  if (op === "exec") {
+    const { argv, cwd, env } = parsed;
+    if (!Array.isArray(argv) || !argv.every((a) => typeof a === "string")) {
+      throw new CLIError("Invalid exec request (argv must be an array of strings).", { exitCode: 2, code: "BAD_REQUEST" });
+    }
+    if (typeof cwd !== "string" || !path.isAbsolute(cwd)) {
+      throw new CLIError("Invalid exec request (cwd must be an absolute path).", { exitCode: 2, code: "BAD_REQUEST" });
+    }
+    if (env !== undefined && (!isRecord(env) || !Object.values(env).every((v) => typeof v === "string"))) {
+      throw new CLIError("Invalid exec request (env must map names to strings).", { exitCode: 2, code: "BAD_REQUEST" });
+    }
+    return { id, op, argv, cwd, ...(env === undefined ? {} : { env: env as Record<string, string> }) };
+  }
+  throw new CLIError(`Invalid request (unknown op: ${String(op)}).`, { exitCode: 2, code: "BAD_REQUEST" });
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export async function readLivePid(sessionName: string): Promise<number | null> {
+  const raw = await fs.readFile(getLivePidPath(sessionName), "utf8").catch(() => null);
+  if (!raw) return null;
+  const pid = Number(raw.trim());
+  return Number.isInteger(pid) && pid > 0 ? pid : null;
+}
+
+// Removes pid/socket files left behind by a Live process that is no longer running.
+export async function cleanupStaleLive(sessionName: string): Promise<boolean> {
+  const pid = await readLivePid(sessionName);
+  if (pid !== null && isProcessAlive(pid)) return false;
+  const sockPath = getLiveSocketPath(sessionName);
+  const pidPath = getLivePidPath(sessionName);
+  const existed = (await fs.stat(sockPath).catch(() => null)) !== null || (await fs.stat(pidPath).catch(() => null)) !== null;
+  await fs.rm(sockPath, { force: true }).catch(() => null);
+  await fs.rm(pidPath, { force: true }).catch(() => null);
+  return existed;
+}
+
+// Path of the CLI entrypoint used to spawn the Live process (dist/src/lib -> dist/src/bin).
+export function liveEntrypointPath(): string {
+  return path.resolve(fileURLToPath(new URL("../bin/mobile-dev-agent.js", import.meta.url)));
+}
+
+function isTerminal(request: LiveRequest, msg: LiveMessage): boolean {
+  if (msg.type === "error") return true;
+  if (request.op === "exec") return msg.type === "exit";
+  if (request.op === "status") return msg.type === "status";
+  return msg.type === "stopping";
+}
+
+export async function liveRequest(
+  sessionName: string,
+  request: LiveRequest,
+  onMessage: (msg: LiveMessage) => void,
+  { connectTimeoutMs = 1000 }: { connectTimeoutMs?: number } = {}
+): Promise<void> {
+  const sockPath = getLiveSocketPath(sessionName);
+  await new Promise<void>((resolve, reject) => {
+    const conn = net.createConnection(sockPath);
+    let buf = "";
+    let done = false;
+
+    const connectTimer = setTimeout(() => {
+      conn.destroy();
+      finish(new CLIError(`Timed out connecting to Live mode socket: ${sockPath}`, { exitCode: 1, code: "LIVE_UNAVAILABLE" }));
+    }, connectTimeoutMs);
+
+    const finish = (err?: Error) => {
+      if (done) return;
+      done = true;
+      clearTimeout(connectTimer);
+      conn.end();
+      if (err) reject(err);
+      else resolve();
+    };
+
+    conn.setEncoding("utf8");
+    conn.on("connect", () => {
+      clearTimeout(connectTimer);
+      conn.write(`${JSON.stringify(request)}\n`);
+    });
+    conn.on("data", (chunk: string) => {
+      buf += chunk;
+      const lines = buf.split("\n");
+      buf = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.trim() || done) continue;
+        let msg: LiveMessage;
+        try {
+          msg = JSON.parse(line) as LiveMessage;
+        } catch {
+          finish(new CLIError("Live mode sent an invalid message.", { exitCode: 1, code: "LIVE_PROTOCOL", details: [line.slice(0, 200)] }));
+          return;
+        }
+        if (msg.id !== request.id && msg.id !== null) continue;
+        onMessage(msg);
+        if (isTerminal(request, msg)) finish();
+      }
+    });
+    conn.on("error", (err: NodeJS.ErrnoException) => {
+      finish(new CLIError(`Live mode socket error: ${err.message}`, { exitCode: 1, code: "LIVE_UNAVAILABLE" }));
+    });
+    conn.on("close", () => {
+      finish(new CLIError("Live mode closed the connection before replying.", { exitCode: 1, code: "LIVE_UNAVAILABLE" }));
+    });
+  });
+}
+
+export async function getLiveStatus(sessionName: string): Promise<LiveStatus | null> {
+  const pid = await readLivePid(sessionName);
+  if (pid === null || !isProcessAlive(pid)) {
+    await cleanupStaleLive(sessionName);
+    return null;
+  }
+  let status: LiveStatus | null = null;
+  try {
+    await liveRequest(sessionName, { id: "status", op: "status" }, (msg) => {
+      if (msg.type === "status") status = msg.data;
+    });
+  } catch {
+    return null;
+  }
+  return status;
+}
+
+// Forwards a full CLI invocation to the session's Live process. Returns null when no Live process is
+// reachable so the caller can run the command locally instead.
+export async function execThroughLive(sessionName: string, argv: string[], sink: OutputSink): Promise<number | null> {
+  const pid = await readLivePid(sessionName);
+  if (pid === null) return null;
+  if (!isProcessAlive(pid)) {
+    await cleanupStaleLive(sessionName);
+    return null;
+  }
+
+  let exitCode: number | null = null;
+  let rejected: { code: string; message: string } | null = null;
+  let replied = false;
+  try {
+    await liveRequest(sessionName, { id: 1, op: "exec", argv, cwd: process.cwd(), env: liveRequestEnv() }, (msg) => {
+      replied = true;
+      if (msg.type === "stdout") sink.stdout(msg.data);
+      else if (msg.type === "stderr") sink.stderr(msg.data);
+      else if (msg.type === "exit") exitCode = msg.code;
+      else if (msg.type === "error") rejected = { code: msg.code, message: msg.message };
+    });
+  } catch (e) {
+    if (!replied) return null;
+    throw e;
+  }
+  if (rejected) {
+    const { code, message } = rejected;
+    throw new CLIError(`Live mode rejected the request: ${message}`, { exitCode: 1, code });
+  }
+  return exitCode ?? 1;
+}
+
+const LIVE_LOG_MAX_BYTES = 1024 * 1024;
+
+async function rotateLiveLog(logPath: string): Promise<void> {
+  const st = await fs.stat(logPath).catch(() => null);
+  if (!st || st.size < LIVE_LOG_MAX_BYTES) return;
+  await fs.rename(logPath, `${logPath}.1`).catch(() => null);
+}
+
+async function readLogTail(logPath: string, lines = 20): Promise<string[]> {
+  const raw = await fs.readFile(logPath, "utf8").catch(() => "");
+  return raw ? raw.trimEnd().split(/\r?\n/).slice(-lines) : [];
+}
+
+// Spawns a detached Live process for the session and waits until its socket answers a status request.
+export async function spawnLiveProcess(
+  sessionName: string,
+  { ttl, readyTimeoutMs = 5000 }: { ttl: string; readyTimeoutMs?: number }
+): Promise<LiveStatus> {
+  const dir = getLiveDir(sessionName);
+  await ensureDir(dir);
+  await fs.chmod(dir, 0o700).catch(() => null);
+  await cleanupStaleLive(sessionName);
+
+  const logPath = getLiveLogPath(sessionName);
+  await rotateLiveLog(logPath);
+  const logFd = fssync.openSync(logPath, "a");
+  let exited: number | null = null;
+  try {
+    const child = spawn(process.execPath, [liveEntrypointPath(), "--session", sessionName, "live", "serve", "--ttl", ttl], {
+      detached: true,
+      stdio: ["ignore", logFd, logFd],
+    });
+    child.once("exit", (code) => {
+      exited = code ?? 1;
+    });
+    child.unref();
+  } finally {
+    fssync.closeSync(logFd);
+  }
+
+  const deadline = Date.now() + readyTimeoutMs;
+  while (Date.now() <= deadline && exited === null) {
+    const status = await getLiveStatus(sessionName);
+    if (status) return status;
+    await new Promise((r) => setTimeout(r, 100));
+  }
+
+  throw new CLIError(
+    exited !== null ? `Live mode exited during startup (code=${exited}).` : "Timed out waiting for Live mode to start.",
+    { exitCode: 1, code: "LIVE_START_FAILED", details: await readLogTail(logPath) }
+  );
+}
@@ -0,0 +1,217 @@
+import fs from "node:fs/promises";
+import net from "node:net";
+import { getLiveDir, getLivePidPath, getLiveSocketPath } from "./dirs.js";
+import { CLIError } from "./cliError.js";
+import { ensureDir } from "./paths.js";
+import { atomicWriteFile } from "./fsAtomic.js";
+import type { OutputSink } from "./io.js";
+import {
+  applyLiveRequestEnv,
+  cleanupStaleLive,
+  isProcessAlive,
+  looksLikeHttp,
+  parseLiveRequest,
+  readLivePid,
+  type LiveMessage,
+  type LiveStatus,
+} from "./live.js";
+import { describeWarmState, enableWarmState, invalidateWarm } from "./warm.js";
+
+export type LiveExecutor = (argv: string[], sink: OutputSink) => Promise<number>;
+
+export type LiveServeSummary = {
+  started_at: string;
+  stopped_at: string;
+  reason: "idle" | "stop" | "signal";
+  requests: number;
+};
+
+function nowRFC3339(): string {
+  return new Date().toISOString();
+}
+
+// Runs the Live process for a session until it is stopped or sits idle for ttlMs. Requests are executed one
+// at a time: commands share process-wide state (cwd, warm caches), so they must not interleave.
+export async function serveLive({
+  sessionName,
+  ttlMs,
+  execute,
+  log,
+}: {
+  sessionName: string;
+  ttlMs: number;
+  execute: LiveExecutor;
+  log: (line: string) => void;
+}): Promise<LiveServeSummary> {
+  const dir = getLiveDir(sessionName);
+  const sockPath = getLiveSocketPath(sessionName);
+  const pidPath = getLivePidPath(sessionName);
+
+  await ensureDir(dir);
+  await fs.chmod(dir, 0o700).catch(() => null);
+
+  const existingPid = await readLivePid(sessionName);
+  if (existingPid !== null && existingPid !== process.pid && isProcessAlive(existingPid)) {
+    throw new CLIError(`Live mode is already running for session "${sessionName}" (pid=${existingPid}).`, { exitCode: 1, code: "LIVE_RUNNING" });
+  }
+  await cleanupStaleLive(sessionName);
+  await fs.rm(sockPath, { force: true }).catch(() => null);
+
+  enableWarmState();
+
+  const startedAt = nowRFC3339();
+  const connections = new Set<net.Socket>();
+  let requests = 0;
+  let active = 0;
+  // Warm state resolved under one caller environment (device lists, the AXe path) is dropped when the next differs.
+  let lastEnv: string | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  let idleTimer: NodeJS.Timeout | undefined;
+  let idleExpiresAt = Date.now() + ttlMs;
+  let stopping = false;
+  let resolveStopped: (reason: LiveServeSummary["reason"]) => void = () => {};
+  const stopped = new Promise<LiveServeSummary["reason"]>((resolve) => {
+    resolveStopped = resolve;
+  });
+
+  const stop = (reason: LiveServeSummary["reason"]) => {
+    if (stopping) return;
+    stopping = true;
+    if (idleTimer) clearTimeout(idleTimer);
+    resolveStopped(reason);
+  };
+
+  const touch = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    if (stopping || active > 0) return;
+    idleExpiresAt = Date.now() + ttlMs;
+    idleTimer = setTimeout(() => stop("idle"), ttlMs);
+  };
+
+  const status = (): LiveStatus => ({
+    pid: process.pid,
+    session: sessionName,
+    socket: sockPath,
+    started_at: startedAt,
+    ttl_ms: ttlMs,
+    idle_expires_at: new Date(idleExpiresAt).toISOString(),
+    requests,
+    warm: describeWarmState(),
+  });
+
+  const handleLine = (conn: net.Socket, line: string) => {
+    const send = (msg: LiveMessage) => {
+      if (!conn.destroyed) conn.write(`${JSON.stringify(msg)}\n`);
+    };
+
+    let request;
+    try {
+      request = parseLiveRequest(line);
+    } catch (e) {
+      const err = e as CLIError;
+      send({ id: null, type: "error", code: err.code ?? "BAD_REQUEST", message: err.message });
+      return;
+    }
+
+    if (request.op === "status") {
+      send({ id: request.id, type: "status", data: status() });
+      return;
+    }
+    if (request.op === "stop") {
+      log("stop requested");
+      send({ id: request.id, type: "stopping" });
+      stop("stop");
+      return;
+    }
+
+    const { id, argv, cwd, env } = request;
+    const sink: OutputSink = {
+      stdout: (data) => send({ id, type: "stdout", data }),
+      stderr: (data) => send({ id, type: "stderr", data }),
+    };
+    active += 1;
+    if (idleTimer) clearTimeout(idleTimer);
+    queue = queue.then(async () => {
+      const started = Date.now();
+      let code = 1;
+      const restoreEnv = env ? applyLiveRequestEnv(env) : () => {};
+      const envKey = JSON.stringify(Object.entries(env ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+      if (lastEnv !== null && envKey !== lastEnv) invalidateWarm("");
+      lastEnv = envKey;
+      try {
+        process.chdir(cwd);
+        code = await execute(argv, sink);
+      } catch (e) {
+        sink.stderr(`Error: ${e instanceof Error ? e.message : String(e)}\n`);
+      } finally {
+        restoreEnv();
+        requests += 1;
+        active -= 1;
+        log(`exec ${JSON.stringify(argv)} exit=${code} duration_ms=${Date.now() - started}`);
+        send({ id, type: "exit", code });
+        touch();
+      }
+    });
+  };
+
+  const server = net.createServer((conn) => {
+    connections.add(conn);
+    conn.setEncoding("utf8");
+    let buf = "";
+    let first = true;
+    conn.on("data", (chunk: string) => {
+      if (first) {
+        first = false;
+        if (looksLikeHttp(chunk)) {
+          log("rejected HTTP-like payload");
+          conn.end(`${JSON.stringify({ id: null, type: "error", code: "BAD_REQUEST", message: "HTTP is not supported on the Live socket." })}\n`);
+          return;
+        }
+      }
+      buf += chunk;
+      const lines = buf.split("\n");
+      buf = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) handleLine(conn, line);
+      }
+    });
+    conn.on("error", () => conn.destroy());
+    conn.on("close", () => connections.delete(conn));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(sockPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  await fs.chmod(sockPath, 0o600).catch(() => null);
+  await atomicWriteFile(pidPath, `${process.pid}\n`, "utf8");
+
+  const onSignal = () => stop("signal");
+  process.once("SIGTERM", onSignal);
+  process.once("SIGINT", onSignal);
+
+  log(`listening on ${sockPath} (pid=${process.pid}, ttl_ms=${ttlMs})`);
+  touch();
+
+  const reason = await stopped;
+  process.off("SIGTERM", onSignal);
+  process.off("SIGINT", onSignal);
+
+  // Let an in-flight command finish before tearing the socket down.
+  await queue;
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    for (const conn of connections) {
+      conn.end();
+      setTimeout(() => conn.destroy(), 500).unref();
+    }
+  });
+  if ((await readLivePid(sessionName)) === process.pid) await fs.rm(pidPath, { force: true }).catch(() => null);
+  await fs.rm(sockPath, { force: true }).catch(() => null);
+  log(`stopped (${reason}) after ${requests} requests`);
+
+  return { started_at: startedAt, stopped_at: nowRFC3339(), reason, requests };
+}
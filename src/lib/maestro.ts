@@ -1,3 +1,6 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
 export type MaestroTestArgs = {
   flowPath: string;
   device?: string;
@@ -25,3 +28,28 @@ export function buildMaestroTestArgs({
   args.push(flowPath);
   return args;
 }
+
+// The flows `maestro test <dir>` runs by default: top-level YAML files, minus the workspace config.
+export async function listFlowFiles(dir: string): Promise<string[]> {
+  const names = (await fs.readdir(dir, { withFileTypes: true }))
+    .filter((e) => e.isFile() && /\.ya?ml$/.test(e.name) && !/^config\.ya?ml$/.test(e.name))
+    .map((e) => e.name)
+    .sort();
+  return names.map((n) => path.join(dir, n));
+}
+
+// Deals flows round-robin so every shard gets a similar count; empty shards are dropped.
+export function splitFlows(flows: string[], shards: number): string[][] {
+  const out: string[][] = Array.from({ length: shards }, () => []);
+  flows.forEach((f, i) => out[i % shards]!.push(f));
+  return out.filter((s) => s.length > 0);
+}
+
+// Flow files passed one by one skip the directory's workspace config unless it is named with --config.
+export async function findWorkspaceConfig(dir: string): Promise<string | null> {
+  for (const name of ["config.yaml", "config.yml"]) {
+    const candidate = path.join(dir, name);
+    if ((await fs.stat(candidate).catch(() => null))?.isFile()) return candidate;
+  }
+  return null;
+}
@@ -0,0 +1,218 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseJUnitCases, type JUnitCase } from "./junit.js";
+import type { RunContext } from "./run.js";
+import { parseYamlDocuments } from "./yaml.js";
+
+export type MaestroStepStatus = "completed" | "failed" | "warned" | "skipped" | "pending" | "running";
+
+export type MaestroStepResult = {
+  index: number;
+  // The Maestro command as serialized in the debug output (tapOnElement, inputTextCommand, ...).
+  command: string;
+  // The command's target or argument when it has one, e.g. `text "Sign in"`.
+  detail: string | null;
+  status: MaestroStepStatus;
+  duration_ms: number | null;
+  error: string | null;
+};
+
+export type MaestroFlowResult = {
+  name: string;
+  status: "passed" | "failed" | "skipped";
+  duration_ms: number | null;
+  failure: string | null;
+  failed_step: MaestroStepResult | null;
+  steps: MaestroStepResult[];
+  commands_json: string | null;
+  failure_screenshots: string[];
+};
+
+export type MaestroResultsSummary = { total: number; passed: number; failed: number; skipped: number; flaky: number };
+
+export type FlowAttempt = {
+  attempt: number;
+  status: MaestroFlowResult["status"];
+  duration_ms: number | null;
+  failure: string | null;
+  run_dir: string;
+};
+
+// A flow's outcome across `test --retries` attempts: `flaky` when it failed and then passed. The other fields are
+// from its last attempt.
+export type RetriedFlowResult = Omit<MaestroFlowResult, "status"> & {
+  status: MaestroFlowResult["status"] | "flaky";
+  attempts: FlowAttempt[];
+};
+
+type DebugFiles = { commands: Map<string, string>; screenshots: Map<string, string[]> };
+
+// Maestro names debug files after the flow: `commands-(<flow>).json` and `screenshot-<status>-<ts>-(<flow>).png`, where
+// the status is an emoji and ❌ marks the failing command. Depending on the Maestro version they sit directly in
+// --debug-output or in a dated subdirectory, so the walk goes a few levels down.
+async function findDebugFiles(dir: string, depth = 0, found: DebugFiles = { commands: new Map(), screenshots: new Map() }): Promise<DebugFiles> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const p = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (depth < 3) await findDebugFiles(p, depth + 1, found);
+      continue;
+    }
+    const commands = entry.name.match(/^commands-\((.+)\)\.json$/);
+    if (commands) found.commands.set(commands[1]!, p);
+    const screenshot = entry.name.match(/^screenshot-(.+?)-\d+-\((.+)\)\.png$/);
+    if (screenshot && screenshot[1]!.includes("❌")) found.screenshots.set(screenshot[2]!, [...(found.screenshots.get(screenshot[2]!) ?? []), p]);
+  }
+  return found;
+}
+
+function stringField(value: unknown, ...keys: string[]): string | null {
+  if (!value || typeof value !== "object") return null;
+  for (const key of keys) {
+    const v = (value as Record<string, unknown>)[key];
+    if (typeof v === "string" && v) return v;
+  }
+  return null;
+}
+
+function describeCommand(args: unknown): string | null {
+  const selector = args && typeof args === "object" ? (args as Record<string, unknown>).selector : null;
+  const text = stringField(selector, "textRegex", "text");
+  if (text) return `text ${JSON.stringify(text)}`;
+  const id = stringField(selector, "idRegex", "id");
+  if (id) return `id ${JSON.stringify(id)}`;
+  const value = stringField(args, "text", "appId", "link", "sourceDescription", "code");
+  return value ? JSON.stringify(value) : null;
+}
+
+function errorMessage(error: unknown): string | null {
+  if (typeof error === "string") return error;
+  return stringField(error, "message", "localizedMessage");
+}
+
+// Parses `commands-(<flow>).json`: an array of { command: { <name>: {...args} }, metadata: { status, duration, error } }.
+export function parseMaestroCommands(json: unknown): MaestroStepResult[] {
+  if (!Array.isArray(json)) return [];
+  return json.map((item: unknown, index) => {
+    const command = (item as { command?: Record<string, unknown> })?.command ?? {};
+    const metadata = (item as { metadata?: Record<string, unknown> })?.metadata ?? {};
+    const name = Object.keys(command)[0] ?? "unknown";
+    const status = String(metadata.status ?? "pending").toLowerCase() as MaestroStepStatus;
+    const duration = Number(metadata.duration);
+    return {
+      index,
+      command: name,
+      detail: describeCommand(command[name]),
+      status,
+      duration_ms: metadata.duration !== undefined && metadata.duration !== null && Number.isFinite(duration) ? duration : null,
+      error: errorMessage(metadata.error),
+    };
+  });
+}
+
+function flowStatus(junit: JUnitCase | null, failedStep: MaestroStepResult | null): MaestroFlowResult["status"] {
+  if (!junit) return failedStep ? "failed" : "passed";
+  return junit.status === "passed" || junit.status === "skipped" ? junit.status : "failed";
+}
+
+function flowDuration(junit: JUnitCase | null, steps: MaestroStepResult[]): number | null {
+  if (junit?.time_s != null) return Math.round(junit.time_s * 1000);
+  const timed = steps.filter((s) => s.duration_ms !== null);
+  return timed.length ? timed.reduce((n, s) => n + s.duration_ms!, 0) : null;
+}
+
+// Combines the JUnit report (flow status, duration, failure message) with the debug output (per-command status).
+// Either source alone is enough: without a report, a flow failed when one of its commands did.
+export async function readMaestroResults({ reportPath, debugDir }: { reportPath: string | null; debugDir: string }): Promise<MaestroFlowResult[]> {
+  const xml = reportPath ? await fs.readFile(reportPath, "utf8").catch(() => null) : null;
+  const cases = xml ? parseJUnitCases(xml) : [];
+  const debug = await findDebugFiles(debugDir);
+
+  // Debug files replace "/" in flow names.
+  const fileKeyOf = (name: string) => name.replace(/\//g, "_");
+  const names = [...new Set(cases.map((c) => c.name))];
+  for (const key of debug.commands.keys()) if (!names.some((n) => fileKeyOf(n) === key)) names.push(key);
+  const results: MaestroFlowResult[] = [];
+  for (const name of names) {
+    const fileKey = fileKeyOf(name);
+    const commandsJson = debug.commands.get(fileKey) ?? null;
+    const raw = commandsJson ? await fs.readFile(commandsJson, "utf8").catch(() => null) : null;
+    let steps: MaestroStepResult[] = [];
+    try {
+      steps = raw ? parseMaestroCommands(JSON.parse(raw)) : [];
+    } catch {
+      steps = [];
+    }
+    const failedStep = steps.find((s) => s.status === "failed") ?? null;
+    const junit = cases.find((c) => c.name === name) ?? null;
+    results.push({
+      name,
+      status: flowStatus(junit, failedStep),
+      duration_ms: flowDuration(junit, steps),
+      failure: junit?.message ?? failedStep?.error ?? null,
+      failed_step: failedStep,
+      steps,
+      commands_json: commandsJson,
+      failure_screenshots: debug.screenshots.get(fileKey) ?? [],
+    });
+  }
+  return results;
+}
+
+export function summarizeMaestroResults(flows: Array<{ status: MaestroFlowResult["status"] | "flaky" }>): MaestroResultsSummary {
+  const count = (status: string) => flows.filter((f) => f.status === status).length;
+  return { total: flows.length, passed: count("passed"), failed: count("failed"), skipped: count("skipped"), flaky: count("flaky") };
+}
+
+// Folds per-attempt results into one result per flow, in first-seen order.
+export function classifyFlowAttempts(attempts: Array<{ attempt: number; run_dir: string; flows: MaestroFlowResult[] }>): RetriedFlowResult[] {
+  const byName = new Map<string, RetriedFlowResult>();
+  for (const { attempt, run_dir, flows } of attempts) {
+    for (const flow of flows) {
+      const history = [...(byName.get(flow.name)?.attempts ?? [])];
+      history.push({ attempt, status: flow.status, duration_ms: flow.duration_ms, failure: flow.failure, run_dir });
+      const failedBefore = history.slice(0, -1).some((a) => a.status === "failed");
+      byName.set(flow.name, { ...flow, status: flow.status === "passed" && failedBefore ? "flaky" : flow.status, attempts: history });
+    }
+  }
+  return [...byName.values()];
+}
+
+// Maestro names a flow after its config `name`, else its file name without the extension; JUnit testcases and debug
+// files use that name, so retries map failed names back to files through it.
+export async function flowFilesByName(files: string[]): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  for (const file of files) {
+    let name: string | null = null;
+    try {
+      const docs = parseYamlDocuments(await fs.readFile(file, "utf8"));
+      const config = docs.length > 1 ? docs[0]!.node : null;
+      const entry = config?.kind === "map" ? config.entries.find((e) => e.key === "name") : undefined;
+      if (entry?.value.kind === "scalar" && typeof entry.value.value === "string" && entry.value.value.trim()) name = entry.value.value;
+    } catch {
+      // Unreadable or invalid YAML: Maestro falls back to the file name too.
+    }
+    out.set(name ?? path.basename(file).replace(/\.ya?ml$/, ""), file);
+  }
+  return out;
+}
+
+// One line per failed flow for human output: which flow, which step, why.
+export function describeFlowFailure(flow: Pick<MaestroFlowResult, "name" | "failure" | "failed_step">): string {
+  const step = flow.failed_step;
+  const where = step ? ` at step ${step.index + 1} (${step.command}${step.detail ? ` ${step.detail}` : ""})` : "";
+  return `${flow.name} failed${where}${flow.failure ? `: ${flow.failure}` : ""}`;
+}
+
+// Reads a finished run's results and indexes the per-flow command logs and failure screenshots as run artifacts.
+export async function collectMaestroResults(
+  run: RunContext,
+  { reportPath, debugDir }: { reportPath: string | null; debugDir: string }
+): Promise<{ flows: MaestroFlowResult[]; summary: MaestroResultsSummary }> {
+  const flows = await readMaestroResults({ reportPath, debugDir });
+  for (const flow of flows) {
+    if (flow.commands_json) run.artifact({ type: "maestro_commands", path: flow.commands_json, mime: "application/json" });
+    for (const p of flow.failure_screenshots) run.artifact({ type: "failure_screenshot", path: p, mime: "image/png" });
+  }
+  return { flows, summary: summarizeMaestroResults(flows) };
+}
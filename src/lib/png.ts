@@ -0,0 +1,203 @@
+import zlib from "node:zlib";
+import { CLIError } from "./cliError.js";
+
+// 8-bit RGBA pixels, row-major, 4 bytes per pixel.
+export type RGBAImage = { width: number; height: number; data: Uint8Array };
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: [x start, y start, x step, y step].
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+function invalid(message: string): CLIError {
+  return new CLIError(`Invalid PNG: ${message}`, { exitCode: 1, code: "INVALID_PNG" });
+}
+
+type Header = { width: number; height: number; bitDepth: number; colorType: number; interlace: number };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Reverses the per-row filters of one (sub)image starting at `offset` and returns its rows.
+function unfilter(raw: Buffer, offset: number, rowBytes: number, rows: number, bpp: number): Uint8Array[] {
+  const out: Uint8Array[] = [];
+  let prev = new Uint8Array(rowBytes);
+  for (let y = 0; y < rows; y++) {
+    const filter = raw[offset];
+    const row = Uint8Array.from(raw.subarray(offset + 1, offset + 1 + rowBytes));
+    if (row.length !== rowBytes) throw invalid("truncated image data");
+    offset += rowBytes + 1;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? row[i - bpp]! : 0;
+      const up = prev[i]!;
+      const upLeft = i >= bpp ? prev[i - bpp]! : 0;
+      if (filter === 1) row[i] = (row[i]! + left) & 0xff;
+      else if (filter === 2) row[i] = (row[i]! + up) & 0xff;
+      else if (filter === 3) row[i] = (row[i]! + ((left + up) >> 1)) & 0xff;
+      else if (filter === 4) row[i] = (row[i]! + paeth(left, up, upLeft)) & 0xff;
+      else if (filter !== 0) throw invalid(`unknown filter type ${filter}`);
+    }
+    out.push(row);
+    prev = row;
+  }
+  return out;
+}
+
+export function decodePNG(buf: Buffer): RGBAImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(SIGNATURE)) throw invalid("missing signature");
+
+  let header: Header | null = null;
+  let palette: Buffer | null = null;
+  let trns: Buffer | null = null;
+  const idat: Buffer[] = [];
+  for (let pos = 8; pos + 8 <= buf.length; ) {
+    const length = buf.readUInt32BE(pos);
+    const type = buf.toString("latin1", pos + 4, pos + 8);
+    const body = buf.subarray(pos + 8, pos + 8 + length);
+    if (body.length !== length) throw invalid(`truncated ${type} chunk`);
+    pos += 12 + length;
+    if (type === "IHDR") {
+      header = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8]!,
+        colorType: body[9]!,
+        interlace: body[12]!,
+      };
+    } else if (type === "PLTE") palette = body;
+    else if (type === "tRNS") trns = body;
+    else if (type === "IDAT") idat.push(body);
+    else if (type === "IEND") break;
+  }
+  if (!header) throw invalid("missing IHDR");
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) throw invalid(`unsupported color type ${colorType} / bit depth ${bitDepth}`);
+  if (colorType === 3 && !palette) throw invalid("missing PLTE");
+
+  let raw: Buffer;
+  try {
+    raw = zlib.inflateSync(Buffer.concat(idat));
+  } catch (e) {
+    throw invalid(`bad image data (${String(e)})`);
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const data = new Uint8Array(width * height * 4);
+
+  const sample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index]!;
+    if (bitDepth === 16) return (row[index * 2]! << 8) | row[index * 2 + 1]!;
+    const bit = index * bitDepth;
+    return (row[bit >> 3]! >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (v: number) => (bitDepth === 16 ? v >> 8 : bitDepth === 8 ? v : Math.round((v * 255) / maxSample));
+  const key = (i: number) => (trns && trns.length >= (i + 1) * 2 ? trns.readUInt16BE(i * 2) : -1);
+
+  const put = (row: Uint8Array, x: number, dst: number) => {
+    const s = x * channels;
+    let r: number, g: number, b: number, a = 255;
+    if (colorType === 3) {
+      const idx = sample(row, x);
+      r = palette![idx * 3] ?? 0;
+      g = palette![idx * 3 + 1] ?? 0;
+      b = palette![idx * 3 + 2] ?? 0;
+      a = trns && idx < trns.length ? trns[idx]! : 255;
+    } else if (colorType === 0 || colorType === 4) {
+      const v = sample(row, s);
+      r = g = b = to8(v);
+      if (colorType === 4) a = to8(sample(row, s + 1));
+      else if (v === key(0)) a = 0;
+    } else {
+      const rv = sample(row, s);
+      const gv = sample(row, s + 1);
+      const bv = sample(row, s + 2);
+      r = to8(rv);
+      g = to8(gv);
+      b = to8(bv);
+      if (colorType === 6) a = to8(sample(row, s + 3));
+      else if (rv === key(0) && gv === key(1) && bv === key(2)) a = 0;
+    }
+    data[dst] = r;
+    data[dst + 1] = g;
+    data[dst + 2] = b;
+    data[dst + 3] = a;
+  };
+
+  const passes = interlace === 1 ? ADAM7 : ([[0, 0, 1, 1]] as const);
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw <= 0 || ph <= 0) continue;
+    const rowBytes = Math.ceil((pw * bitsPerPixel) / 8);
+    const rows = unfilter(raw, offset, rowBytes, ph, bpp);
+    offset += (rowBytes + 1) * ph;
+    rows.forEach((row, j) => {
+      const y = y0 + j * dy;
+      for (let i = 0; i < pw; i++) put(row, i, (y * width + x0 + i * dx) * 4);
+    });
+  }
+  return { width, height, data };
+}
+
+// zlib.crc32 needs Node 22.2, newer than the engines floor.
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+}
+
+// Encodes 8-bit RGBA with the "sub" filter, which compresses flat UI screenshots well.
+export function encodePNG(image: RGBAImage): Buffer {
+  const { width, height, data } = image;
+  const rowBytes = width * 4;
+  const raw = Buffer.alloc((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const dst = y * (rowBytes + 1);
+    const src = y * rowBytes;
+    raw[dst] = 1;
+    for (let i = 0; i < rowBytes; i++) {
+      raw[dst + 1 + i] = (data[src + i]! - (i >= 4 ? data[src + i - 4]! : 0)) & 0xff;
+    }
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 6;
+  return Buffer.concat([SIGNATURE, chunk("IHDR", ihdr), chunk("IDAT", zlib.deflateSync(raw)), chunk("IEND", Buffer.alloc(0))]);
+}
@@ -0,0 +1,283 @@
+import fs from "node:fs/promises";
+import fssync from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { getRecordingStatePath } from "./dirs.js";
+import { CLIError } from "./cliError.js";
+import { atomicWriteFile } from "./fsAtomic.js";
+import { isProcessAlive, liveEntrypointPath } from "./live.js";
+import { ensureDir } from "./paths.js";
+import type { RunContext } from "./run.js";
+
+// `screenrecord` refuses --time-limit above 180 seconds; longer Android recordings are recorded in chunks.
+export const ANDROID_SCREENRECORD_MAX_S = 180;
+
+export type RecordingState = {
+  pid: number;
+  platform: "ios" | "android";
+  device_id: string;
+  run_dir: string;
+  started_at: string;
+  duration_ms: number | null;
+};
+
+// Written by the recorder process to <run_dir>/recorder.json: "recording" once capture started, then the final result.
+export type RecorderOutcome = {
+  status: "recording" | "done" | "failed";
+  files: string[];
+  chunks: number;
+  stitched: boolean;
+  stopped_by: "stop" | "duration" | "exit" | null;
+  error: string | null;
+  warnings: string[];
+};
+
+export async function readRecordingState(sessionName: string): Promise<RecordingState | null> {
+  const raw = await fs.readFile(getRecordingStatePath(sessionName), "utf8").catch(() => null);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RecordingState;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeRecordingState(sessionName: string, state: RecordingState): Promise<void> {
+  const p = getRecordingStatePath(sessionName);
+  await ensureDir(path.dirname(p));
+  await atomicWriteFile(p, `${JSON.stringify(state, null, 2)}\n`);
+}
+
+export async function clearRecordingState(sessionName: string): Promise<void> {
+  await fs.rm(getRecordingStatePath(sessionName), { force: true });
+}
+
+function outcomePath(runDir: string): string {
+  return path.join(runDir, "recorder.json");
+}
+
+export async function readRecorderOutcome(runDir: string): Promise<RecorderOutcome | null> {
+  const raw = await fs.readFile(outcomePath(runDir), "utf8").catch(() => null);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RecorderOutcome;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeRecorderOutcome(runDir: string, outcome: RecorderOutcome): Promise<void> {
+  await atomicWriteFile(outcomePath(runDir), `${JSON.stringify(outcome, null, 2)}\n`);
+}
+
+export function buildSimctlRecordArgs(udid: string, outPath: string): string[] {
+  return ["simctl", "io", udid, "recordVideo", "--codec=h264", "--force", outPath];
+}
+
+// The device shell prints its pid before exec'ing screenrecord, so the recording can be stopped with SIGINT (which
+// makes screenrecord finalize the file) by pid.
+export function buildScreenrecordArgs(serial: string, devicePath: string, timeLimitS: number): string[] {
+  return ["-s", serial, "shell", `echo $$; exec screenrecord --time-limit ${timeLimitS} ${devicePath}`];
+}
+
+// Seconds to record in the next Android chunk, or 0 once `durationMs` is used up. Without a duration every chunk is full.
+export function nextChunkSeconds(durationMs: number | null, elapsedMs: number): number {
+  if (durationMs === null) return ANDROID_SCREENRECORD_MAX_S;
+  const remainingS = Math.floor((durationMs - elapsedMs) / 1000);
+  return Math.max(0, Math.min(ANDROID_SCREENRECORD_MAX_S, remainingS));
+}
+
+export function ffmpegConcatList(files: string[]): string {
+  return files.map((f) => `file '${f.replace(/'/g, "'\\''")}'\n`).join("");
+}
+
+export function buildFfmpegConcatArgs(listPath: string, outPath: string): string[] {
+  return ["-hide_banner", "-loglevel", "error", "-y", "-f", "concat", "-safe", "0", "-i", listPath, "-c", "copy", outPath];
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function nonEmptyFile(p: string): Promise<boolean> {
+  const st = await fs.stat(p).catch(() => null);
+  return Boolean(st && st.isFile() && st.size > 0);
+}
+
+async function recordIOS(
+  run: RunContext,
+  { deviceId, durationMs, stopRequested, onStarted }: RecorderOptions
+): Promise<RecorderOutcome> {
+  const outPath = path.join(run.artifactsDir, "recording.mp4");
+  const stream = run.startStream("simctl", "record_video", "xcrun", buildSimctlRecordArgs(deviceId, outPath), {
+    outPath: path.join(run.logsDir, "record_video.out"),
+  });
+  await onStarted();
+  const stoppedBy = await Promise.race([
+    stream.done.then(() => "exit" as const),
+    stopRequested.then(() => "stop" as const),
+    ...(durationMs !== null ? [delay(durationMs).then(() => "duration" as const)] : []),
+  ]);
+  const res = await stream.stop();
+  if (!(await nonEmptyFile(outPath))) {
+    return { status: "failed", files: [], chunks: 0, stitched: false, stopped_by: stoppedBy, error: res.stderr.trim() || "simctl recordVideo wrote no video", warnings: [] };
+  }
+  return { status: "done", files: [outPath], chunks: 1, stitched: false, stopped_by: stoppedBy, error: null, warnings: [] };
+}
+
+async function recordAndroid(
+  run: RunContext,
+  { deviceId, durationMs, stopRequested, onStarted }: RecorderOptions
+): Promise<RecorderOutcome> {
+  const startedAt = Date.now();
+  const devicePaths: string[] = [];
+  let stoppedBy: RecorderOutcome["stopped_by"] = null;
+  let error: string | null = null;
+  let stopping = false;
+  void stopRequested.then(() => {
+    stopping = true;
+  });
+
+  for (let i = 1; !stopping; i++) {
+    const seconds = nextChunkSeconds(durationMs, Date.now() - startedAt);
+    if (seconds === 0) {
+      stoppedBy = "duration";
+      break;
+    }
+    const devicePath = `/sdcard/mobile-dev-agent-record-${i}.mp4`;
+    let devicePid: string | null = null;
+    const stream = run.startStream("adb", `screenrecord_${i}`, "adb", buildScreenrecordArgs(deviceId, devicePath, seconds), {
+      outPath: path.join(run.logsDir, `screenrecord_${i}.out`),
+      onLine: (line) => {
+        if (devicePid === null && /^\d+$/.test(line.trim())) devicePid = line.trim();
+      },
+    });
+    if (i === 1) await onStarted();
+    const ended = await Promise.race([stream.done.then(() => "exit" as const), stopRequested.then(() => "stop" as const)]);
+    if (ended === "stop") {
+      stoppedBy = "stop";
+      if (devicePid) await run.execLogged("adb", "screenrecord_stop", "adb", ["-s", deviceId, "shell", "kill", "-INT", devicePid], { timeoutMs: 15000 });
+      await Promise.race([stream.done, delay(10000).then(() => stream.stop())]);
+    }
+    const res = await stream.done;
+    devicePaths.push(devicePath);
+    if (ended === "exit" && !res.ok) {
+      error = res.stderr.trim() || `screenrecord failed (code=${res.code})`;
+      stoppedBy = "exit";
+      break;
+    }
+  }
+
+  const chunks: string[] = [];
+  for (const [idx, devicePath] of devicePaths.entries()) {
+    const local = path.join(run.artifactsDir, `recording-${String(idx + 1).padStart(3, "0")}.mp4`);
+    const pulled = await run.execLogged("adb", "pull_recording", "adb", ["-s", deviceId, "pull", devicePath, local], { timeoutMs: 120000 });
+    await run.execLogged("adb", "rm_recording", "adb", ["-s", deviceId, "shell", "rm", "-f", devicePath], { timeoutMs: 15000 });
+    if (pulled.ok && (await nonEmptyFile(local))) chunks.push(local);
+  }
+  if (!chunks.length) {
+    return { status: "failed", files: [], chunks: 0, stitched: false, stopped_by: stoppedBy, error: error ?? "screenrecord produced no video", warnings: [] };
+  }
+
+  const warnings = error ? [`Recording ended early: ${error}`] : [];
+  const outPath = path.join(run.artifactsDir, "recording.mp4");
+  if (chunks.length === 1) {
+    await fs.rename(chunks[0]!, outPath);
+    return { status: "done", files: [outPath], chunks: 1, stitched: false, stopped_by: stoppedBy, error: null, warnings };
+  }
+
+  const listPath = path.join(run.logsDir, "recording_chunks.txt");
+  await fs.writeFile(listPath, ffmpegConcatList(chunks), "utf8");
+  const res = await run.execLogged("ffmpeg", "concat", "ffmpeg", buildFfmpegConcatArgs(listPath, outPath), { timeoutMs: 300000 });
+  if (res.ok && (await nonEmptyFile(outPath))) {
+    await Promise.all(chunks.map((c) => fs.rm(c, { force: true })));
+    return { status: "done", files: [outPath], chunks: chunks.length, stitched: true, stopped_by: stoppedBy, error: null, warnings };
+  }
+  warnings.push(
+    res.code === null
+      ? `ffmpeg not found; kept ${chunks.length} chunks of up to ${ANDROID_SCREENRECORD_MAX_S}s each.`
+      : `ffmpeg could not stitch the chunks (code=${res.code}); kept ${chunks.length} chunks.`
+  );
+  return { status: "done", files: chunks, chunks: chunks.length, stitched: false, stopped_by: stoppedBy, error: null, warnings };
+}
+
+type RecorderOptions = {
+  deviceId: string;
+  durationMs: number | null;
+  // Resolves when `device record stop` signals the recorder.
+  stopRequested: Promise<void>;
+  onStarted: () => Promise<void>;
+};
+
+// The body of the detached recorder process: records until stopped, `durationMs` elapses, or the recorder exits.
+export async function runRecorder(run: RunContext, platform: "ios" | "android", options: RecorderOptions): Promise<RecorderOutcome> {
+  return platform === "ios" ? await recordIOS(run, options) : await recordAndroid(run, options);
+}
+
+// Spawns the detached recorder for a session and waits until it reports that capture started. Returns its pid.
+export async function spawnRecorder(
+  sessionName: string,
+  { platform, deviceId, runDir, durationMs, readyTimeoutMs = 15000 }: { platform: "ios" | "android"; deviceId: string; runDir: string; durationMs: number | null; readyTimeoutMs?: number }
+): Promise<number> {
+  const logPath = path.join(runDir, "logs", "recorder.log");
+  const logFd = fssync.openSync(logPath, "a");
+  let pid: number | undefined;
+  let exited: number | null = null;
+  try {
+    const child = spawn(
+      process.execPath,
+      [
+        liveEntrypointPath(),
+        "--session",
+        sessionName,
+        "device",
+        "record",
+        "serve",
+        "--platform",
+        platform,
+        "--device-id",
+        deviceId,
+        "--run-dir",
+        runDir,
+        ...(durationMs !== null ? ["--duration-ms", String(durationMs)] : []),
+      ],
+      { detached: true, stdio: ["ignore", logFd, logFd] }
+    );
+    pid = child.pid;
+    child.once("exit", (code) => {
+      exited = code ?? 1;
+    });
+    child.unref();
+  } finally {
+    fssync.closeSync(logFd);
+  }
+
+  const deadline = Date.now() + readyTimeoutMs;
+  while (Date.now() <= deadline && exited === null) {
+    const outcome = await readRecorderOutcome(runDir);
+    if (outcome?.status === "recording" && pid !== undefined) return pid;
+    if (outcome?.status === "failed") break;
+    await delay(100);
+  }
+
+  const outcome = await readRecorderOutcome(runDir);
+  if (pid !== undefined && exited === null && isProcessAlive(pid)) process.kill(pid, "SIGTERM");
+  const tail = (await fs.readFile(logPath, "utf8").catch(() => "")).trimEnd().split(/\r?\n/).slice(-20);
+  throw new CLIError(outcome?.error ?? (exited !== null ? `Recorder exited during startup (code=${exited}).` : "Timed out waiting for the recorder to start."), {
+    exitCode: 1,
+    code: "RECORDING_START_FAILED",
+    details: tail,
+  });
+}
+
+// Signals the recorder to finish and waits for it to write its outcome (pulling and stitching may take a while).
+export async function stopRecorder(state: RecordingState, { timeoutMs = 120000 }: { timeoutMs?: number } = {}): Promise<void> {
+  if (!isProcessAlive(state.pid)) return;
+  process.kill(state.pid, "SIGINT");
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() <= deadline) {
+    if (!isProcessAlive(state.pid)) return;
+    await delay(100);
+  }
+  throw new CLIError(`Recorder did not stop (pid=${state.pid}).`, { exitCode: 1, code: "RECORDING_STOP_FAILED" });
+}
@@ -0,0 +1,43 @@
+import { CLIError } from "./cliError.js";
+import type { OutputSink } from "./io.js";
+
+// One request per stdin line: {"id":1,"argv":["ui","tap","@e3"]}. Every output line is tagged with the id.
+export type ReplRequest = {
+  id: number | string;
+  argv: string[];
+};
+
+export type ReplExecutor = (request: ReplRequest, sink: OutputSink) => Promise<number>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Best-effort id recovery so a malformed request can still be answered on its own id.
+export function replRequestIdOrNull(line: string): number | string | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (isRecord(parsed) && (typeof parsed.id === "number" || typeof parsed.id === "string")) return parsed.id;
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+export function parseReplRequest(line: string): ReplRequest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new CLIError("Invalid repl request (not JSON).", { exitCode: 2, code: "BAD_REQUEST" });
+  }
+  if (!isRecord(parsed)) throw new CLIError("Invalid repl request (expected an object).", { exitCode: 2, code: "BAD_REQUEST" });
+  const { id, argv } = parsed;
+  if (typeof id !== "number" && typeof id !== "string") {
+    throw new CLIError("Invalid repl request (id must be a number or string).", { exitCode: 2, code: "BAD_REQUEST" });
+  }
+  if (!Array.isArray(argv) || argv.length === 0 || !argv.every((a) => typeof a === "string")) {
+    throw new CLIError("Invalid repl request (argv must be a non-empty array of strings).", { exitCode: 2, code: "BAD_REQUEST" });
+  }
+  return { id, argv };
+}
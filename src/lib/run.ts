@@ -43,6 +43,22 @@ export type ExecBinaryToFileResult = {
   stderr: string;
 };
 
+export type RunStreamResult = {
+  ok: boolean;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  command: string;
+  logPath: string;
+  outPath: string;
+  lines: number;
+  stderr: string;
+};
+
+export type RunStream = {
+  done: Promise<RunStreamResult>;
+  stop: () => Promise<RunStreamResult>;
+};
+
 function nowRFC3339(): string {
   return new Date().toISOString();
 }
@@ -107,6 +123,23 @@ export class RunContext {
     this.emit({ type: "event", ts: nowRFC3339(), event: "artifact", data: artifact });
   }
 
+  // A nested run under <run_dir>/<group>/<name> with its own logs, artifacts and trace (one per test shard). Its events
+  // and artifacts also land in this run, so the parent envelope indexes everything.
+  async createSubRun(group: string, name: string): Promise<RunContext> {
+    const dir = path.join(this.runDir, safeName(group), safeName(name));
+    await ensureDir(path.join(dir, "logs"));
+    await ensureDir(path.join(dir, "artifacts"));
+    const child = new RunContext(dir, {
+      maxCaptureBytes: this.#maxCaptureBytes,
+      onEvent: (event) => {
+        if (event.event === "artifact") this.artifacts.push(event.data as RunArtifact);
+        this.emit(event);
+      },
+    });
+    this.artifact(child.artifacts[0]!);
+    return child;
+  }
+
   async writeResultJson(result: unknown): Promise<string> {
     const p = path.join(this.runDir, "result.json");
     // Ensure the persisted envelope matches the in-memory envelope by adding the artifact before writing.
@@ -375,4 +408,118 @@ export class RunContext {
       });
     });
   }
+
+  // Starts a long-running text producer (log streams). stdout lines go to outPath and onLine; stderr goes to the
+  // process log. The process runs until it exits on its own or stop() interrupts it.
+  startStream(
+    tool: string,
+    action: string,
+    cmd: string,
+    args: string[],
+    {
+      cwd,
+      env,
+      outPath,
+      onLine,
+    }: {
+      cwd?: string;
+      env?: NodeJS.ProcessEnv;
+      outPath: string;
+      onLine?: (line: string) => void;
+    }
+  ): RunStream {
+    this.#logSeq += 1;
+    const logName = `${String(this.#logSeq).padStart(3, "0")}_${safeName(tool)}_${safeName(action)}.log`;
+    const logPath = path.join(this.logsDir, logName);
+    this.artifact({ type: "process_log", path: logPath, mime: "text/plain" });
+
+    const fullCommand = [cmd, ...args].join(" ");
+    this.emit({
+      type: "event",
+      ts: nowRFC3339(),
+      event: "spawn",
+      data: { tool, action, cmd, args, command: fullCommand, outPath },
+    });
+
+    fssync.mkdirSync(path.dirname(outPath), { recursive: true });
+    const child = spawn(cmd, args, {
+      cwd,
+      env: env ? { ...process.env, ...env } : process.env,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const logStream = fssync.createWriteStream(logPath, { flags: "a" });
+    const outStream = fssync.createWriteStream(outPath, { flags: "w" });
+    let lines = 0;
+    let stdoutBuf = "";
+    let stderr = "";
+    let stderrBuf = "";
+
+    const emitLine = (line: string) => {
+      lines += 1;
+      outStream.write(`${line}\n`);
+      onLine?.(line);
+    };
+
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", (d: string) => {
+      const parts = (stdoutBuf + d).split(/\r?\n/);
+      stdoutBuf = parts.pop() ?? "";
+      for (const line of parts) emitLine(line);
+    });
+
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (d: string) => {
+      if (Buffer.byteLength(stderr, "utf8") < this.#maxCaptureBytes) stderr += d;
+      const ts = nowRFC3339();
+      const parts = (stderrBuf + d).split(/\r?\n/);
+      stderrBuf = parts.pop() ?? "";
+      for (const line of parts) logStream.write(`${ts} stderr | ${line}\n`);
+    });
+
+    const done = new Promise<RunStreamResult>((resolve) => {
+      let finished = false;
+      const finish = (code: number | null, signal: NodeJS.Signals | null, err?: Error) => {
+        // A spawn failure reports both "error" and "close".
+        if (finished) return;
+        finished = true;
+        const ts = nowRFC3339();
+        if (stdoutBuf) emitLine(stdoutBuf);
+        if (stderrBuf) logStream.write(`${ts} stderr | ${stderrBuf}\n`);
+        if (err) logStream.write(`${ts} stderr | ${String(err)}\n`);
+        logStream.write(`${ts} stdout | <${lines} lines streamed to ${outPath}>\n`);
+        stdoutBuf = "";
+        stderrBuf = "";
+        if (err) stderr = `${stderr}${stderr.endsWith("\n") || stderr.length === 0 ? "" : "\n"}${String(err)}`;
+        // Resolve only once both files are flushed so callers can post-process outPath.
+        let pending = 2;
+        const closed = () => {
+          pending -= 1;
+          if (pending === 0) {
+            resolve({ ok: !err && (code === 0 || stopped), code, signal, command: fullCommand, logPath, outPath, lines, stderr });
+          }
+        };
+        logStream.end(closed);
+        outStream.end(closed);
+      };
+      child.once("error", (err) => finish(null, null, err));
+      child.once("close", (code, signal) => finish(code, signal ?? null));
+    });
+
+    let stopped = false;
+    const stop = async (): Promise<RunStreamResult> => {
+      if (!stopped && child.exitCode === null && child.signalCode === null) {
+        stopped = true;
+        child.kill("SIGINT");
+        const force = setTimeout(() => child.kill("SIGKILL"), 3000);
+        force.unref();
+        const result = await done;
+        clearTimeout(force);
+        return result;
+      }
+      return await done;
+    };
+
+    return { done, stop };
+  }
 }
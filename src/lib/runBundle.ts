@@ -0,0 +1,238 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import { createWriteStream } from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { CLIError } from "./cliError.js";
+import type { ResultArtifact } from "./envelope.js";
+import { atomicWriteFile } from "./fsAtomic.js";
+import { ensureDir } from "./paths.js";
+import { readTarGz, TarWriter } from "./tar.js";
+import { getVersionString } from "./version.js";
+
+export const BUNDLE_FORMAT = "mobile-dev-agent-run";
+
+export type BundleFile = { path: string; size: number; sha256: string };
+
+// Paths in a bundle are relative to the run's root and use "/".
+export type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  run_id: string;
+  exported_at: string;
+  exported_by: string;
+  source_dir: string;
+  files: BundleFile[];
+  // Artifacts that lived outside the run dir, copied under external/.
+  external: Array<{ type: string; original_path: string; path: string }>;
+  // Artifacts left out: by --exclude-type or --no-external, or already gone.
+  excluded: Array<{ type: string; path: string; reason: "excluded" | "missing" }>;
+};
+
+type StoredResult = { run_dir?: unknown; artifacts?: ResultArtifact[] } & Record<string, unknown>;
+
+function invalidBundle(message: string): CLIError {
+  return new CLIError(`Invalid run bundle: ${message}`, { exitCode: 1, code: "BUNDLE_INVALID" });
+}
+
+function isInside(dir: string, p: string): boolean {
+  const rel = path.relative(dir, p);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+// Regular files under dir (symlinks are skipped), as paths relative to dir, sorted.
+async function walkFiles(dir: string, rel = ""): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, rel), { withFileTypes: true }).catch(() => []);
+  const out: string[] = [];
+  for (const e of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const child = path.join(rel, e.name);
+    if (e.isDirectory()) out.push(...(await walkFiles(dir, child)));
+    else if (e.isFile()) out.push(child);
+  }
+  return out;
+}
+
+export async function exportRunBundle(
+  runDir: string,
+  outPath: string,
+  { includeExternal, excludeTypes }: { includeExternal: boolean; excludeTypes: string[] }
+): Promise<BundleManifest> {
+  const runId = path.basename(runDir);
+  const raw = await fs.readFile(path.join(runDir, "result.json"), "utf8").catch(() => null);
+  let result: StoredResult | null = null;
+  try {
+    result = raw ? (JSON.parse(raw) as StoredResult) : null;
+  } catch {
+    result = null;
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    run_id: runId,
+    exported_at: new Date().toISOString(),
+    exported_by: getVersionString(),
+    source_dir: runDir,
+    files: [],
+    external: [],
+    excluded: [],
+  };
+
+  // Decide each artifact's place in the bundle: its path relative to the run, a copy under external/, or nothing.
+  const skipped: string[] = [];
+  const copies: Array<{ source: string; dest: string }> = [];
+  const bundlePaths = new Map<string, string>();
+  const artifacts: ResultArtifact[] = [];
+  for (const artifact of result?.artifacts ?? []) {
+    const source = path.resolve(artifact.path);
+    const inside = isInside(runDir, source);
+    if (excludeTypes.includes(artifact.type) || (!inside && !includeExternal)) {
+      manifest.excluded.push({ type: artifact.type, path: artifact.path, reason: "excluded" });
+      if (inside) skipped.push(source);
+      continue;
+    }
+    let dest = bundlePaths.get(source);
+    if (!dest && inside) {
+      dest = toPosix(path.relative(runDir, source)) || ".";
+    } else if (!dest) {
+      if (!(await fs.stat(source).catch(() => null))) {
+        manifest.excluded.push({ type: artifact.type, path: artifact.path, reason: "missing" });
+        continue;
+      }
+      dest = `external/${copies.length + 1}-${path.basename(source)}`;
+      copies.push({ source, dest });
+      manifest.external.push({ type: artifact.type, original_path: artifact.path, path: dest });
+    }
+    bundlePaths.set(source, dest);
+    artifacts.push({ ...artifact, path: dest });
+  }
+
+  await ensureDir(path.dirname(outPath));
+  const tar = new TarWriter(outPath);
+  try {
+    await tar.addDirectory(runId);
+    const add = async (rel: string, source: string | Buffer) => {
+      const entry = `${runId}/${rel}`;
+      const written = Buffer.isBuffer(source) ? await tar.addBuffer(entry, source) : await tar.addFile(entry, source);
+      manifest.files.push({ path: rel, ...written });
+    };
+
+    for (const rel of await walkFiles(runDir)) {
+      const abs = path.join(runDir, rel);
+      const posix = toPosix(rel);
+      // An imported run's manifest describes the earlier bundle; this export writes its own.
+      if (posix === "manifest.json" || skipped.some((s) => isInside(s, abs))) continue;
+      if (posix === "result.json" && result) {
+        // Artifact paths become relative to the bundle so they resolve wherever it is unpacked.
+        await add(posix, Buffer.from(`${JSON.stringify({ ...result, run_dir: ".", artifacts }, null, 2)}\n`, "utf8"));
+        continue;
+      }
+      await add(posix, abs);
+    }
+    for (const { source, dest } of copies) {
+      const st = await fs.stat(source);
+      if (st.isFile()) await add(dest, source);
+      else for (const rel of await walkFiles(source)) await add(`${dest}/${toPosix(rel)}`, path.join(source, rel));
+    }
+    await tar.addBuffer(`${runId}/manifest.json`, Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, "utf8"));
+    await tar.finish();
+  } catch (e) {
+    await fs.rm(outPath, { force: true }).catch(() => null);
+    throw e;
+  }
+  return manifest;
+}
+
+// A bundle entry's path under its root dir, or an error for anything that could escape the destination.
+function entryPath(name: string, root: string | null): { root: string; rel: string } {
+  const parts = name.replace(/\/+$/, "").split("/");
+  if (name.startsWith("/") || parts.some((p) => p === ".." || p === "") || name.includes("\\")) throw invalidBundle(`unsafe path ${name}`);
+  if (root !== null && parts[0] !== root) throw invalidBundle(`entry outside ${root}/: ${name}`);
+  if (!/^[\w.-]+$/.test(parts[0]!) || parts[0] === ".") throw invalidBundle(`bad run id ${parts[0]}`);
+  return { root: parts[0]!, rel: parts.slice(1).join("/") };
+}
+
+// Unpacks into <runsRoot>/<run_id> after checking every file against the manifest's sha256. Artifact paths in
+// result.json are made absolute again for the new location.
+export async function importRunBundle(bundlePath: string, runsRoot: string, stagingRoot: string): Promise<{ dir: string; manifest: BundleManifest }> {
+  await ensureDir(stagingRoot);
+  const staging = await fs.mkdtemp(path.join(stagingRoot, "import-"));
+  try {
+    const found: { root: string | null; manifest: Buffer | null } = { root: null, manifest: null };
+    const written = new Map<string, BundleFile>();
+    await readTarGz(bundlePath, async (entry, body) => {
+      const { root, rel } = entryPath(entry.name, found.root);
+      found.root = root;
+      if (entry.type !== "file" || !rel) return;
+      if (rel === "manifest.json") {
+        const chunks: Buffer[] = [];
+        for await (const chunk of body) chunks.push(chunk);
+        found.manifest = Buffer.concat(chunks);
+        return;
+      }
+      const dest = path.join(staging, ...rel.split("/"));
+      await ensureDir(path.dirname(dest));
+      const hash = crypto.createHash("sha256");
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            yield chunk;
+          }
+        },
+        createWriteStream(dest)
+      );
+      written.set(rel, { path: rel, size: entry.size, sha256: hash.digest("hex") });
+    });
+
+    if (!found.root || !found.manifest) throw invalidBundle("no manifest.json");
+    let manifest: BundleManifest;
+    try {
+      manifest = JSON.parse(found.manifest.toString("utf8")) as BundleManifest;
+    } catch {
+      throw invalidBundle("manifest.json is not JSON");
+    }
+    if (manifest.format !== BUNDLE_FORMAT || manifest.version !== 1 || manifest.run_id !== found.root || !Array.isArray(manifest.files)) {
+      throw invalidBundle(`unsupported manifest (format=${String(manifest.format)}, version=${String(manifest.version)})`);
+    }
+    const problems: string[] = [];
+    for (const file of manifest.files) {
+      const got = written.get(file.path);
+      if (!got) problems.push(`Missing: ${file.path}`);
+      else if (got.sha256 !== file.sha256 || got.size !== file.size) problems.push(`Checksum mismatch: ${file.path}`);
+      written.delete(file.path);
+    }
+    for (const rel of written.keys()) problems.push(`Not in manifest: ${rel}`);
+    if (problems.length) throw new CLIError("Run bundle failed verification.", { exitCode: 1, code: "BUNDLE_INVALID", details: problems });
+
+    const dir = path.join(runsRoot, manifest.run_id);
+    if (await fs.stat(dir).catch(() => null)) {
+      throw new CLIError(`Run already exists: ${manifest.run_id}`, {
+        exitCode: 1,
+        code: "RUN_EXISTS",
+        details: [`Dir: ${dir}`, "Delete it first to import this bundle again."],
+      });
+    }
+
+    const resultPath = path.join(staging, "result.json");
+    const result = await fs
+      .readFile(resultPath, "utf8")
+      .then((raw) => JSON.parse(raw) as StoredResult)
+      .catch(() => null);
+    if (result) {
+      const artifacts = (result.artifacts ?? []).map((a) => ({ ...a, path: path.isAbsolute(a.path) ? a.path : path.join(dir, ...a.path.split("/")) }));
+      await atomicWriteFile(resultPath, `${JSON.stringify({ ...result, run_dir: dir, artifacts }, null, 2)}\n`);
+    }
+    await fs.writeFile(path.join(staging, "manifest.json"), found.manifest);
+    await ensureDir(runsRoot);
+    await fs.rename(staging, dir);
+    return { dir, manifest };
+  } finally {
+    await fs.rm(staging, { recursive: true, force: true }).catch(() => null);
+  }
+}
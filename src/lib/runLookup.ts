@@ -0,0 +1,71 @@
+import path from "node:path";
+import { CLIError, usageError } from "./cliError.js";
+import type { RunInfo } from "./gc.js";
+
+export type RunSummary = {
+  // The run dir's name, e.g. 20260301-101500-a1b2c3.
+  id: string;
+  dir: string;
+  started_at: string;
+  ok: boolean | null;
+  command: string | null;
+  session: string | null;
+  size_bytes: number;
+};
+
+export type RunFilter = {
+  // Result command name; "ui tap" and "ui.tap" are the same.
+  command?: string | null;
+  // Failed runs, and runs without a result (crashed or still running).
+  failed?: boolean;
+  since?: Date | null;
+  // Runs without a result carry no session, so they match every session.
+  session?: string | null;
+};
+
+export function runId(run: RunInfo): string {
+  return path.basename(run.dir);
+}
+
+export function summarizeRun(run: RunInfo): RunSummary {
+  return {
+    id: runId(run),
+    dir: run.dir,
+    started_at: run.startedAt.toISOString(),
+    ok: run.ok,
+    command: run.command,
+    session: run.session,
+    size_bytes: run.sizeBytes,
+  };
+}
+
+export function filterRuns(runs: RunInfo[], { command, failed, since, session }: RunFilter): RunInfo[] {
+  const wanted = command?.trim().replace(/\s+/g, ".") || null;
+  return runs.filter(
+    (r) =>
+      (!wanted || r.command === wanted) &&
+      (!failed || r.ok !== true) &&
+      (!since || r.startedAt.getTime() >= since.getTime()) &&
+      (!session || r.session === null || r.session === session)
+  );
+}
+
+// Accepts a run id, a unique prefix of one, or the run dir's path (as printed in run_dir).
+export function resolveRun(runs: RunInfo[], token: string): RunInfo {
+  const t = token.trim();
+  if (!t) throw usageError("Run id is empty");
+  const byPath = runs.find((r) => r.dir === path.resolve(t));
+  if (byPath) return byPath;
+  const exact = runs.find((r) => runId(r) === t);
+  if (exact) return exact;
+  const matches = runs.filter((r) => runId(r).startsWith(t));
+  if (matches.length === 1) return matches[0]!;
+  if (matches.length > 1) {
+    throw usageError(`Run id prefix ${t} matches ${matches.length} runs`, matches.slice(0, 10).map((r) => `Candidate: ${runId(r)}`));
+  }
+  throw new CLIError(`Run not found: ${t}`, {
+    exitCode: 1,
+    code: "RUN_NOT_FOUND",
+    details: ["List runs with `mobile-dev-agent runs list`; gc may have deleted it."],
+  });
+}
@@ -1,44 +1,87 @@
-import { usageError } from "./cliError.js";
-import type { CanonicalElement, UISnapshot } from "./uiSnapshot.js";
+import { CLIError, usageError } from "./cliError.js";
+import { ancestorsOf, snapshotRefSeq, type Bounds, type CanonicalElement, type ElementStates, type UISnapshot } from "./uiSnapshot.js";
+
+export type TextMatcher =
+  | { kind: "exact"; value: string }
+  | { kind: "contains"; value: string }
+  | { kind: "regex"; source: string; flags: string };
+
+export type SelectorRelation = "within" | "below" | "above" | "right-of" | "left-of";
+
+// Every clause narrows the match set; relations point at another selector (the anchor).
+export type ElementQuery = {
+  ref: string | null;
+  id: string | null;
+  role: string | null;
+  name: TextMatcher | null;
+  value: TextMatcher | null;
+  states: Array<{ state: keyof ElementStates; value: boolean }>;
+  relations: Array<{ relation: SelectorRelation; anchor: ParsedSelector }>;
+  // 1-based index into the ordered matches.
+  nth: number | null;
+};
 
 export type ParsedSelector =
   | { kind: "ref"; ref: string }
   | { kind: "coords"; x: number; y: number }
-  | { kind: "text"; text: string }
-  | { kind: "id"; id: string };
+  | { kind: "query"; query: ElementQuery; source: string };
 
-export function parseSelectorToken(token: string): ParsedSelector {
-  const t = token.trim();
-  if (!t) throw usageError("Empty selector");
+const STATE_WORDS: Record<string, { state: keyof ElementStates; value: boolean }> = {
+  enabled: { state: "enabled", value: true },
+  disabled: { state: "enabled", value: false },
+  visible: { state: "visible", value: true },
+  hidden: { state: "visible", value: false },
+  focused: { state: "focused", value: true },
+  unfocused: { state: "focused", value: false },
+  checked: { state: "checked", value: true },
+  unchecked: { state: "checked", value: false },
+};
 
-  if (t.startsWith("@")) {
-    const ref = t.slice(1);
-    if (!/^e\d+$/.test(ref)) throw usageError(`Invalid ref selector: ${token}`);
-    return { kind: "ref", ref };
-  }
+const CLAUSE = /^(text|name|value|id|role|state|nth|within|below|above|right-of|left-of)(~=|=|:)([\s\S]*)$/;
 
-  if (t.startsWith("coords:")) {
-    const parts = t.slice("coords:".length).split(",");
-    if (parts.length !== 2) throw usageError(`Invalid coords selector: ${token}`);
-    const x = Number(parts[0]);
-    const y = Number(parts[1]);
-    if (!Number.isFinite(x) || !Number.isFinite(y)) throw usageError(`Invalid coords selector: ${token}`);
-    return { kind: "coords", x, y };
-  }
+function emptyQuery(): ElementQuery {
+  return { ref: null, id: null, role: null, name: null, value: null, states: [], relations: [], nth: null };
+}
 
-  if (t.startsWith("text:")) {
-    const v = stripQuotes(t.slice("text:".length).trim());
-    if (!v) throw usageError(`Invalid text selector: ${token}`);
-    return { kind: "text", text: v };
-  }
+// Splits a selector into whitespace-separated clauses, keeping quoted strings, /regex/ literals and (grouped)
+// anchors in one piece.
+export function splitSelectorClauses(input: string): string[] {
+  const clauses: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let regex = false;
+  let depth = 0;
 
-  if (t.startsWith("id:")) {
-    const v = stripQuotes(t.slice("id:".length).trim());
-    if (!v) throw usageError(`Invalid id selector: ${token}`);
-    return { kind: "id", id: v };
+  for (let i = 0; i < input.length; i += 1) {
+    const c = input[i]!;
+    if (regex) {
+      current += c;
+      if (c === "\\" && i + 1 < input.length) current += input[++i];
+      else if (c === "/") regex = false;
+      continue;
+    }
+    if (quote) {
+      current += c;
+      if (c === quote) quote = null;
+      continue;
+    }
+    if (c === "\"" || c === "'") quote = c;
+    else if (c === "/" && /[:=]$/.test(current)) regex = true;
+    else if (c === "(") depth += 1;
+    else if (c === ")") {
+      depth -= 1;
+      if (depth < 0) throw usageError(`Unbalanced ")" in selector: ${input}`);
+    } else if (/\s/.test(c) && depth === 0) {
+      if (current) clauses.push(current);
+      current = "";
+      continue;
+    }
+    current += c;
   }
 
-  throw usageError(`Unknown selector: ${token}`);
+  if (quote || regex || depth !== 0) throw usageError(`Unterminated quote, regex or group in selector: ${input}`);
+  if (current) clauses.push(current);
+  return clauses;
 }
 
 function stripQuotes(value: string): string {
@@ -50,6 +93,127 @@ function stripQuotes(value: string): string {
   return v;
 }
 
+function stripGroup(value: string): string {
+  const v = value.trim();
+  return v.startsWith("(") && v.endsWith(")") ? v.slice(1, -1) : v;
+}
+
+function parseTextMatcher(raw: string, op: string, clause: string): TextMatcher {
+  const v = raw.trim();
+  if (v.startsWith("/")) {
+    const end = v.lastIndexOf("/");
+    const source = end > 0 ? v.slice(1, end) : "";
+    const flags = end > 0 ? v.slice(end + 1) : "";
+    if (!source) throw usageError(`Invalid regex in selector clause: ${clause}`);
+    try {
+      new RegExp(source, flags);
+    } catch (e) {
+      throw usageError(`Invalid regex in selector clause: ${clause}`, [String(e)]);
+    }
+    return { kind: "regex", source, flags };
+  }
+  const value = stripQuotes(v);
+  if (!value) throw usageError(`Empty value in selector clause: ${clause}`);
+  return op === "~=" ? { kind: "contains", value } : { kind: "exact", value };
+}
+
+function parseAnchor(raw: string, clause: string): ParsedSelector {
+  const anchor = parseSelectorToken(stripGroup(raw));
+  if (anchor.kind === "coords") throw usageError(`coords cannot be used as an anchor: ${clause}`);
+  return anchor;
+}
+
+function setOnce<K extends "id" | "role" | "name" | "value" | "nth">(query: ElementQuery, key: K, value: ElementQuery[K], clause: string): void {
+  if (query[key] !== null) throw usageError(`Selector sets ${key} more than once: ${clause}`);
+  query[key] = value;
+}
+
+function parseClause(clause: string, query: ElementQuery): void {
+  if (clause.startsWith("@")) {
+    const ref = clause.slice(1);
+    if (!/^e\d+$/.test(ref)) throw usageError(`Invalid ref selector: ${clause}`);
+    if (query.ref !== null) throw usageError(`Selector sets ref more than once: ${clause}`);
+    query.ref = ref;
+    return;
+  }
+
+  const m = clause.match(CLAUSE);
+  if (!m) throw usageError(`Unknown selector clause: ${clause}`);
+  const key = m[1]!;
+  const op = m[2]!;
+  const raw = m[3]!;
+
+  if (key === "text" || key === "name") return setOnce(query, "name", parseTextMatcher(raw, op, clause), clause);
+  if (key === "value") return setOnce(query, "value", parseTextMatcher(raw, op, clause), clause);
+  if (key === "id") {
+    const id = stripQuotes(raw);
+    if (!id) throw usageError(`Invalid id selector: ${clause}`);
+    return setOnce(query, "id", id, clause);
+  }
+  if (key === "role") {
+    const role = stripQuotes(raw).toLowerCase();
+    if (!role) throw usageError(`Invalid role selector: ${clause}`);
+    return setOnce(query, "role", role, clause);
+  }
+  if (key === "state") {
+    const state = STATE_WORDS[stripQuotes(raw).toLowerCase()];
+    if (!state) throw usageError(`Unknown state in selector: ${clause}`, [`Expected one of: ${Object.keys(STATE_WORDS).join(", ")}`]);
+    query.states.push(state);
+    return;
+  }
+  if (key === "nth") {
+    const nth = Number(stripQuotes(raw));
+    if (!Number.isInteger(nth) || nth < 1) throw usageError(`Invalid nth (expected an integer >= 1): ${clause}`);
+    return setOnce(query, "nth", nth, clause);
+  }
+  query.relations.push({ relation: key as SelectorRelation, anchor: parseAnchor(raw, clause) });
+}
+
+function parseQuery(clauses: string[], source: string): Exclude<ParsedSelector, { kind: "coords" }> {
+  if (!clauses.length) throw usageError(`Empty selector: ${source}`);
+  const query = emptyQuery();
+  for (const clause of clauses) parseClause(clause, query);
+  if (clauses.length === 1 && query.ref !== null) return { kind: "ref", ref: query.ref };
+  return { kind: "query", query, source };
+}
+
+// `A >> B` is shorthand for `B within:(A)`; chains nest left to right.
+function parseScopedClauses(clauses: string[], source: string): Exclude<ParsedSelector, { kind: "coords" }> {
+  const sep = clauses.lastIndexOf(">>");
+  if (sep === -1) return parseQuery(clauses, source);
+  const scope = parseScopedClauses(clauses.slice(0, sep), source);
+  const target = parseQuery(clauses.slice(sep + 1), source);
+  const query = target.kind === "query" ? target.query : { ...emptyQuery(), ref: target.ref };
+  query.relations.push({ relation: "within", anchor: scope });
+  return { kind: "query", query, source };
+}
+
+export function parseSelectorToken(token: string): ParsedSelector {
+  const t = token.trim();
+  if (!t) throw usageError("Empty selector");
+
+  if (t.startsWith("coords:")) {
+    const parts = t.slice("coords:".length).split(",");
+    if (parts.length !== 2) throw usageError(`Invalid coords selector: ${token}`);
+    const x = Number(parts[0]);
+    const y = Number(parts[1]);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) throw usageError(`Invalid coords selector: ${token}`);
+    return { kind: "coords", x, y };
+  }
+
+  try {
+    return parseScopedClauses(splitSelectorClauses(t), t);
+  } catch (e) {
+    // Unquoted `text:Sign in` / `id:Sign in` predate clause syntax: the whole remainder is the value.
+    const legacy = t.match(/^(text|id):([^"'/][\s\S]*)$/);
+    if (!legacy) throw e;
+    const query = emptyQuery();
+    if (legacy[1] === "text") query.name = { kind: "exact", value: legacy[2]!.trim() };
+    else query.id = legacy[2]!.trim();
+    return { kind: "query", query, source: t };
+  }
+}
+
 export type ResolvedTapTarget =
   | { kind: "coords"; x: number; y: number }
   | { kind: "element"; element: CanonicalElement; x: number; y: number };
@@ -59,35 +223,163 @@ export function elementCenter(el: CanonicalElement): { x: number; y: number } {
   return { x: Math.round(x + w / 2), y: Math.round(y + h / 2) };
 }
 
+function matchText(matcher: TextMatcher, text: string): boolean {
+  if (matcher.kind === "exact") return text === matcher.value;
+  if (matcher.kind === "contains") return text.toLowerCase().includes(matcher.value.toLowerCase());
+  return new RegExp(matcher.source, matcher.flags).test(text);
+}
+
+// Ids resolve by preference: iOS identifier/label, then Android resource-id, then content-desc.
+function matchId(elements: CanonicalElement[], id: string): CanonicalElement[] {
+  for (const match of [
+    (e: CanonicalElement) => e.selectors.ios.id === id || e.selectors.ios.label === id,
+    (e: CanonicalElement) => e.selectors.android.resource_id === id,
+    (e: CanonicalElement) => e.selectors.android.content_desc === id,
+  ]) {
+    const found = elements.filter(match);
+    if (found.length) return found;
+  }
+  return [];
+}
+
+const EDGE_TOLERANCE = 2;
+
+function spatialDistance(relation: Exclude<SelectorRelation, "within">, el: Bounds, anchor: Bounds): number | null {
+  const ok =
+    relation === "below"
+      ? el.y >= anchor.y + anchor.h - EDGE_TOLERANCE
+      : relation === "above"
+        ? el.y + el.h <= anchor.y + EDGE_TOLERANCE
+        : relation === "right-of"
+          ? el.x >= anchor.x + anchor.w - EDGE_TOLERANCE
+          : el.x + el.w <= anchor.x + EDGE_TOLERANCE;
+  if (!ok) return null;
+  const dx = el.x + el.w / 2 - (anchor.x + anchor.w / 2);
+  const dy = el.y + el.h / 2 - (anchor.y + anchor.h / 2);
+  return Math.hypot(dx, dy);
+}
+
+type Matches = {
+  elements: CanonicalElement[];
+  // Distance to the spatial anchors, parallel to `elements`; null when the selector has no spatial relation.
+  distances: number[] | null;
+};
+
+// Context elements (labeled ancestors an interactive-only snapshot keeps for scoping) only match as an anchor or
+// when a role= or ref clause asks for them, so a cell never competes with the same-named button inside it.
+function queryMatches(snapshot: UISnapshot, query: ElementQuery, asAnchor: boolean): Matches {
+  const withContext = asAnchor || query.role !== null || query.ref !== null;
+  let elements = withContext ? snapshot.elements : snapshot.elements.filter((e) => !e.context);
+  if (query.ref !== null) elements = elements.filter((e) => e.ref === query.ref);
+  if (query.role !== null) elements = elements.filter((e) => e.role === query.role);
+  if (query.name !== null) elements = elements.filter((e) => matchText(query.name!, e.name));
+  if (query.value !== null) elements = elements.filter((e) => e.value !== null && matchText(query.value!, e.value));
+  for (const { state, value } of query.states) elements = elements.filter((e) => e.states[state] === value);
+  if (query.id !== null) elements = matchId(elements, query.id);
+
+  let distances: Map<CanonicalElement, number> | null = null;
+  for (const { relation, anchor } of query.relations) {
+    if (relation === "within") {
+      const scopes = new Set(selectorMatches(snapshot, anchor, true));
+      elements = elements.filter((e) => ancestorsOf(snapshot, e).some((a) => scopes.has(a)));
+      continue;
+    }
+    // A missing anchor means no match (the screen may not have it yet); an ambiguous one is still an error.
+    if (!selectorMatches(snapshot, anchor, true).length) return { elements: [], distances: null };
+    const anchorEl = resolveSelector(snapshot, anchor, true);
+    const next = new Map<CanonicalElement, number>();
+    for (const e of elements) {
+      const d = e === anchorEl ? null : spatialDistance(relation, e.bounds, anchorEl.bounds);
+      if (d !== null) next.set(e, (distances?.get(e) ?? 0) + d);
+    }
+    elements = elements.filter((e) => next.has(e));
+    distances = next;
+  }
+
+  // Spatial selectors rank nearest first; otherwise matches stay in tree order.
+  if (distances) {
+    const d = distances;
+    elements = [...elements].sort((a, b) => d.get(a)! - d.get(b)!);
+  }
+  if (query.nth !== null) {
+    const picked = elements[query.nth - 1];
+    return { elements: picked ? [picked] : [], distances: null };
+  }
+  return { elements, distances: distances ? elements.map((e) => distances!.get(e)!) : null };
+}
+
+// All elements matching an element selector (tree order, or nearest first for spatial selectors).
+export function matchSelector(snapshot: UISnapshot, selector: ParsedSelector): CanonicalElement[] {
+  return selectorMatches(snapshot, selector, false);
+}
+
+function selectorMatches(snapshot: UISnapshot, selector: ParsedSelector, asAnchor: boolean): CanonicalElement[] {
+  if (selector.kind === "coords") return [];
+  if (selector.kind === "ref") {
+    const el = snapshot.refs[selector.ref];
+    return el ? [el] : [];
+  }
+  return queryMatches(snapshot, selector.query, asAnchor).elements;
+}
+
+export function formatElementLine(e: CanonicalElement): string {
+  const b = e.bounds;
+  return `@${e.ref} [${e.role}] ${e.name ? JSON.stringify(e.name) : '""'} (${b.x},${b.y},${b.w},${b.h})`;
+}
+
+const MAX_LISTED_CANDIDATES = 10;
+
+export function ambiguousSelectorError(description: string, candidates: CanonicalElement[]): CLIError {
+  const listed = candidates.slice(0, MAX_LISTED_CANDIDATES).map(formatElementLine);
+  if (candidates.length > listed.length) listed.push(`… ${candidates.length - listed.length} more`);
+  return new CLIError(`Selector is ambiguous: ${description} matches ${candidates.length} elements.`, {
+    exitCode: 2,
+    code: "AMBIGUOUS_SELECTOR",
+    details: [...listed, "Narrow it with role=, within:(...), state=, nth=N, or target an @eN ref."],
+  });
+}
+
+// Resolves a selector to exactly one element: no match, a stale ref, or an ambiguous match is an error. Spatial
+// selectors take the nearest match unless the two nearest are equally far.
+export function resolveElement(snapshot: UISnapshot, selector: ParsedSelector): CanonicalElement {
+  return resolveSelector(snapshot, selector, false);
+}
+
+function resolveSelector(snapshot: UISnapshot, selector: ParsedSelector, asAnchor: boolean): CanonicalElement {
+  if (selector.kind === "coords") throw usageError(`coords do not select an element: ${formatSelector(selector)}`);
+
+  if (selector.kind === "ref") {
+    const el = snapshot.refs[selector.ref];
+    if (el) return el;
+    // Refs are never reused, so a known ref that is gone means its element left the screen; never guess a stand-in.
+    if (Number(selector.ref.slice(1)) <= snapshotRefSeq(snapshot)) {
+      throw new CLIError(`Stale ref: @${selector.ref} is no longer on screen (snapshot ${snapshot.snapshot_id}).`, {
+        exitCode: 1,
+        code: "STALE_REF",
+        details: ["Re-run: mobile-dev-agent ui snapshot -i"],
+      });
+    }
+    throw usageError(`No matching element for selector: ${formatSelector(selector)}`);
+  }
+
+  const { elements, distances } = queryMatches(snapshot, selector.query, asAnchor);
+  if (!elements.length) throw usageError(`No matching element for selector: ${formatSelector(selector)}`);
+  if (elements.length === 1) return elements[0]!;
+  if (distances && distances[0]! < distances[1]!) return elements[0]!;
+  throw ambiguousSelectorError(formatSelector(selector), elements);
+}
+
 export function resolveTapTarget(snapshot: UISnapshot, selector: ParsedSelector): ResolvedTapTarget {
   if (selector.kind === "coords") {
     return { kind: "coords", x: selector.x, y: selector.y };
   }
-
-  let el: CanonicalElement | null = null;
-  if (selector.kind === "ref") {
-    el = snapshot.refs[selector.ref] ?? null;
-  } else if (selector.kind === "text") {
-    el = snapshot.elements.find((e) => e.name === selector.text) ?? null;
-  } else if (selector.kind === "id") {
-    const id = selector.id;
-    el =
-      snapshot.elements.find((e) => e.selectors.ios.id === id || e.selectors.ios.label === id) ??
-      snapshot.elements.find((e) => e.selectors.android.resource_id === id) ??
-      snapshot.elements.find((e) => e.selectors.android.content_desc === id) ??
-      null;
-  }
-
-  if (!el) throw usageError(`No matching element for selector: ${formatSelector(selector)}`);
+  const el = resolveElement(snapshot, selector);
   const { x, y } = elementCenter(el);
   return { kind: "element", element: el, x, y };
 }
 
-function formatSelector(selector: ParsedSelector): string {
+export function formatSelector(selector: ParsedSelector): string {
   if (selector.kind === "ref") return `@${selector.ref}`;
   if (selector.kind === "coords") return `coords:${selector.x},${selector.y}`;
-  if (selector.kind === "text") return `text:${JSON.stringify(selector.text)}`;
-  if (selector.kind === "id") return `id:${JSON.stringify(selector.id)}`;
-  return "unknown";
+  return selector.source;
 }
-
@@ -1,9 +1,10 @@
 import fs from "node:fs/promises";
 import { ensureDir } from "./paths.js";
-import { getLastSnapshotPath, getLastTargetPath, getSessionDir, getSessionFilePath } from "./dirs.js";
+import { getLastSnapshotPath, getLastTargetPath, getPreviousSnapshotPath, getSessionDir, getSessionFilePath } from "./dirs.js";
 import { CLIError } from "./cliError.js";
 import { atomicWriteFile } from "./fsAtomic.js";
 import { withFileLock } from "./lock.js";
+import { isWarmStateEnabled, setWarm, warm } from "./warm.js";
 
 export type SessionPlatform = "ios" | "android";
 
@@ -166,17 +167,39 @@ export async function resetSession(sessionName: string): Promise<void> {
   });
 }
 
+async function lastSnapshotStamp(sessionName: string): Promise<number | null> {
+  // Only Live mode keeps a parsed snapshot around; other processes may rewrite the file, so key it by mtime.
+  if (!isWarmStateEnabled()) return null;
+  const st = await fs.stat(getLastSnapshotPath(sessionName)).catch(() => null);
+  return st ? st.mtimeMs : null;
+}
+
 export async function writeLastSnapshot(sessionName: string, snapshot: unknown): Promise<void> {
   const dir = getSessionDir(sessionName);
   await ensureDir(dir);
+  await fs.rename(getLastSnapshotPath(sessionName), getPreviousSnapshotPath(sessionName)).catch(() => null);
   await atomicWriteFile(getLastSnapshotPath(sessionName), `${JSON.stringify(snapshot, null, 2)}\n`, "utf8");
+  setWarm(`snapshot:${sessionName}`, snapshot, { stamp: await lastSnapshotStamp(sessionName) });
 }
 
 export async function readLastSnapshot(sessionName: string): Promise<unknown | null> {
-  const raw = await fs.readFile(getLastSnapshotPath(sessionName), "utf8").catch(() => null);
+  const stamp = await lastSnapshotStamp(sessionName);
+  return await warm(`snapshot:${sessionName}`, { stamp }, async () => {
+    const raw = await fs.readFile(getLastSnapshotPath(sessionName), "utf8").catch(() => null);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      return null;
+    }
+  });
+}
+
+export async function readPreviousSnapshot(sessionName: string): Promise<unknown | null> {
+  const raw = await fs.readFile(getPreviousSnapshotPath(sessionName), "utf8").catch(() => null);
   if (!raw) return null;
   try {
-    return JSON.parse(raw);
+    return JSON.parse(raw) as unknown;
   } catch {
     return null;
   }
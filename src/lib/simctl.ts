@@ -1,10 +1,12 @@
 import { execFile } from "./exec.js";
+import { DEVICE_LIST_WARM_TTL_MS, invalidateWarm, warm } from "./warm.js";
 
 export type SimctlDevice = {
   name: string;
   udid: string;
   state: string;
   isAvailable: boolean;
+  deviceTypeIdentifier?: string;
 };
 
 export type SimctlDevicesJSON = {
@@ -17,14 +19,17 @@ export type IOSDevice = {
   state: string;
   isAvailable: boolean;
   runtime: string;
+  deviceType?: string;
 };
 
 export async function simctlListDevicesJSON(): Promise<SimctlDevicesJSON> {
-  const res = await execFile("xcrun", ["simctl", "list", "devices", "--json"], { timeoutMs: 30000 });
-  if (!res.ok) {
-    throw new Error(`simctl list devices failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
-  }
-  return JSON.parse(res.stdout) as SimctlDevicesJSON;
+  return await warm("devices:ios", { ttlMs: DEVICE_LIST_WARM_TTL_MS }, async () => {
+    const res = await execFile("xcrun", ["simctl", "list", "devices", "--json"], { timeoutMs: 30000 });
+    if (!res.ok) {
+      throw new Error(`simctl list devices failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+    }
+    return JSON.parse(res.stdout) as SimctlDevicesJSON;
+  });
 }
 
 export function flattenIOSDevices(simctlJSON: SimctlDevicesJSON): IOSDevice[] {
@@ -39,6 +44,7 @@ export function flattenIOSDevices(simctlJSON: SimctlDevicesJSON): IOSDevice[] {
         state: d.state,
         isAvailable: Boolean(d.isAvailable),
         runtime,
+        ...(d.deviceTypeIdentifier ? { deviceType: d.deviceTypeIdentifier } : {}),
       });
     }
   }
@@ -145,6 +151,7 @@ export async function resolveIOSDestination(
 export async function simctlBoot(udid: string): Promise<void> {
   // `simctl boot` exits non-zero if already booted in some configurations. Use bootstatus for the wait.
   await execFile("xcrun", ["simctl", "boot", udid]);
+  invalidateWarm("devices:ios");
 }
 
 export async function simctlBootStatus(udid: string): Promise<void> {
@@ -154,6 +161,52 @@ export async function simctlBootStatus(udid: string): Promise<void> {
   }
 }
 
+// `simctl clone` copies installed apps and data but only works while the source is shut down.
+export async function simctlClone(udid: string, name: string): Promise<string> {
+  const res = await execFile("xcrun", ["simctl", "clone", udid, name], { timeoutMs: 120000 });
+  invalidateWarm("devices:ios");
+  if (!res.ok) {
+    throw new Error(`simctl clone failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+  }
+  return res.stdout.trim();
+}
+
+export async function simctlCreate(name: string, deviceType: string, runtime: string): Promise<string> {
+  const res = await execFile("xcrun", ["simctl", "create", name, deviceType, runtime], { timeoutMs: 120000 });
+  invalidateWarm("devices:ios");
+  if (!res.ok) {
+    throw new Error(`simctl create failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+  }
+  return res.stdout.trim();
+}
+
+// Returns `count` simulators for sharding: the base device plus "<base> (shard N)" copies, reusing copies left by
+// earlier runs. New copies are clones when the base is shut down, otherwise fresh devices of the same type and runtime.
+export async function ensureIOSShardDevices(base: IOSDevice, count: number): Promise<IOSDevice[]> {
+  const devices = flattenIOSDevices(await simctlListDevicesJSON()).filter((d) => d.isAvailable);
+  const out: IOSDevice[] = [base];
+  for (let n = 2; n <= count; n += 1) {
+    const name = `${base.name} (shard ${n})`;
+    const existing = devices.find((d) => d.name === name && d.runtime === base.runtime);
+    if (existing) {
+      out.push(existing);
+      continue;
+    }
+    const udid =
+      base.state === "Shutdown"
+        ? await simctlClone(base.udid, name)
+        : await simctlCreate(name, base.deviceType ?? base.name, base.runtime);
+    out.push({ name, udid, state: "Shutdown", isAvailable: true, runtime: base.runtime, deviceType: base.deviceType });
+  }
+  return out;
+}
+
+// The installed .app bundle of appId on a booted simulator, or null when it is not installed.
+export async function simctlAppContainer(udid: string, appId: string): Promise<string | null> {
+  const res = await execFile("xcrun", ["simctl", "get_app_container", udid, appId, "app"], { timeoutMs: 30000 });
+  return res.ok ? res.stdout.trim() || null : null;
+}
+
 export async function simctlInstallApp(udid: string, appPath: string): Promise<void> {
   const res = await execFile("xcrun", ["simctl", "install", udid, appPath]);
   if (!res.ok) {
@@ -170,6 +223,7 @@ export async function simctlScreenshot(udid: string, outPath: string): Promise<v
 
 export async function simctlShutdown(udid: string): Promise<void> {
   const res = await execFile("xcrun", ["simctl", "shutdown", udid]);
+  invalidateWarm("devices:ios");
   if (!res.ok) {
     throw new Error(`simctl shutdown failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
   }
@@ -177,6 +231,7 @@ export async function simctlShutdown(udid: string): Promise<void> {
 
 export async function simctlErase(udid: string): Promise<void> {
   const res = await execFile("xcrun", ["simctl", "erase", udid]);
+  invalidateWarm("devices:ios");
   if (!res.ok) {
     throw new Error(`simctl erase failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
   }
@@ -203,6 +258,36 @@ export async function simctlTerminateApp(udid: string, appId: string): Promise<v
   }
 }
 
+// `simctl appinfo` prints an old-style plist; the executable name is what `log` reports as the process name.
+export function parseSimctlAppInfoExecutable(output: string): string | null {
+  const m = output.match(/CFBundleExecutable\s*=\s*"?([^";\n]+?)"?\s*;/);
+  return m?.[1]?.trim() || null;
+}
+
+// "<CFBundleShortVersionString> (<CFBundleVersion>)", or whichever of the two is set.
+export function parseSimctlAppInfoVersion(output: string): string | null {
+  const value = (key: string) => output.match(new RegExp(`\\b${key}\\s*=\\s*"?([^";\\n]+?)"?\\s*;`))?.[1]?.trim() || null;
+  const version = value("CFBundleShortVersionString");
+  const build = value("CFBundleVersion");
+  return version && build && build !== version ? `${version} (${build})` : (version ?? build);
+}
+
+// Null when the app is not installed or simctl fails; callers use it for reporting only.
+export async function simctlAppVersion(udid: string, appId: string): Promise<string | null> {
+  const res = await execFile("xcrun", ["simctl", "appinfo", udid, appId], { timeoutMs: 15000 });
+  return res.ok ? parseSimctlAppInfoVersion(res.stdout) : null;
+}
+
+export async function simctlAppExecutableName(udid: string, appId: string): Promise<string> {
+  const res = await execFile("xcrun", ["simctl", "appinfo", udid, appId]);
+  if (!res.ok) {
+    throw new Error(`simctl appinfo failed (code=${res.code}): ${res.stderr || res.stdout}`.trim());
+  }
+  const name = parseSimctlAppInfoExecutable(res.stdout);
+  if (!name) throw new Error(`App is not installed on ${udid}: ${appId}`);
+  return name;
+}
+
 export async function resolveIOSSimulator({
   udid,
   name,
@@ -0,0 +1,220 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { once } from "node:events";
+import { pipeline } from "node:stream/promises";
+import zlib from "node:zlib";
+import { CLIError } from "./cliError.js";
+
+// Just enough gzipped ustar to write and read run bundles without a tar dependency: regular files and directories,
+// with pax `path` records for names that don't fit the header. Contents are streamed, never held in memory whole.
+
+export type TarEntry = { name: string; type: "file" | "directory" | "other"; size: number };
+
+export type TarWrittenFile = { size: number; sha256: string };
+
+const BLOCK = 512;
+
+function invalid(message: string): CLIError {
+  return new CLIError(`Invalid archive: ${message}`, { exitCode: 1, code: "INVALID_ARCHIVE" });
+}
+
+function padding(size: number): number {
+  return (BLOCK - (size % BLOCK)) % BLOCK;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function buildHeader(name: string, type: "0" | "5" | "x", size: number, mode: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  header.fill(" ", 148, 156);
+  const checksum = header.reduce((n, b) => n + b, 0);
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+// A pax record is "<length> path=<value>\n", where <length> counts its own digits.
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return Buffer.from(`${length}${body}`, "utf8");
+}
+
+export class TarWriter {
+  #gzip = zlib.createGzip();
+  #done: Promise<void>;
+
+  constructor(filePath: string) {
+    this.#done = pipeline(this.#gzip, fs.createWriteStream(filePath));
+    // Surfaced by finish(); a failed write also rejects the pending drain.
+    this.#done.catch(() => {});
+  }
+
+  async #write(chunk: Buffer): Promise<void> {
+    if (!this.#gzip.write(chunk)) await once(this.#gzip, "drain");
+  }
+
+  async #header(name: string, type: "0" | "5", size: number, mode: number, mtime: Date): Promise<void> {
+    if (Buffer.byteLength(name) > 100) {
+      const pax = paxRecord("path", name);
+      await this.#write(buildHeader("PaxHeader", "x", pax.length, 0o644, mtime));
+      await this.#write(Buffer.concat([pax, Buffer.alloc(padding(pax.length))]));
+    }
+    await this.#write(buildHeader(name, type, size, mode, mtime));
+  }
+
+  async addBuffer(name: string, data: Buffer): Promise<TarWrittenFile> {
+    await this.#header(name, "0", data.length, 0o644, new Date());
+    await this.#write(Buffer.concat([data, Buffer.alloc(padding(data.length))]));
+    return { size: data.length, sha256: crypto.createHash("sha256").update(data).digest("hex") };
+  }
+
+  async addFile(name: string, sourcePath: string): Promise<TarWrittenFile> {
+    const st = await fs.promises.stat(sourcePath);
+    await this.#header(name, "0", st.size, st.mode & 0o777, st.mtime);
+    const hash = crypto.createHash("sha256");
+    let written = 0;
+    // Reads at most the size in the header, so a file that grows meanwhile cannot corrupt the archive.
+    if (st.size > 0) {
+      for await (const chunk of fs.createReadStream(sourcePath, { start: 0, end: st.size - 1 }) as AsyncIterable<Buffer>) {
+        hash.update(chunk);
+        written += chunk.length;
+        await this.#write(chunk);
+      }
+    }
+    if (written !== st.size) throw new Error(`File shrank while archiving: ${sourcePath}`);
+    await this.#write(Buffer.alloc(padding(st.size)));
+    return { size: st.size, sha256: hash.digest("hex") };
+  }
+
+  async addDirectory(name: string): Promise<void> {
+    await this.#header(name.endsWith("/") ? name : `${name}/`, "5", 0, 0o755, new Date());
+  }
+
+  async finish(): Promise<void> {
+    this.#gzip.end(Buffer.alloc(BLOCK * 2));
+    await this.#done;
+  }
+}
+
+// Pulls exact byte counts out of a chunked stream.
+class ByteReader {
+  #it: AsyncIterator<Buffer>;
+  #buf: Buffer = Buffer.alloc(0);
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.#it = source[Symbol.asyncIterator]();
+  }
+
+  async #more(): Promise<boolean> {
+    const next = await this.#it.next();
+    if (next.done) return false;
+    this.#buf = this.#buf.length ? Buffer.concat([this.#buf, next.value]) : next.value;
+    return true;
+  }
+
+  // Null at a clean end of input.
+  async take(n: number): Promise<Buffer | null> {
+    while (this.#buf.length < n) {
+      if (!(await this.#more())) {
+        if (this.#buf.length === 0) return null;
+        throw invalid("truncated");
+      }
+    }
+    const out = this.#buf.subarray(0, n);
+    this.#buf = this.#buf.subarray(n);
+    return out;
+  }
+
+  async *chunks(n: number, consumed: { bytes: number }): AsyncGenerator<Buffer> {
+    while (consumed.bytes < n) {
+      if (this.#buf.length === 0 && !(await this.#more())) throw invalid("truncated");
+      const chunk = this.#buf.subarray(0, Math.min(n - consumed.bytes, this.#buf.length));
+      this.#buf = this.#buf.subarray(chunk.length);
+      consumed.bytes += chunk.length;
+      yield chunk;
+    }
+  }
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  const value = text ? parseInt(text, 8) : 0;
+  if (!Number.isFinite(value)) throw invalid("bad number field");
+  return value;
+}
+
+function paxPath(body: Buffer): string | null {
+  let path: string | null = null;
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    const length = Number(body.subarray(offset, space).toString("ascii"));
+    if (space === -1 || !Number.isInteger(length) || length <= 0) throw invalid("bad pax header");
+    const record = body.subarray(space + 1, offset + length - 1).toString("utf8");
+    const eq = record.indexOf("=");
+    if (record.slice(0, eq) === "path") path = record.slice(eq + 1);
+    offset += length;
+  }
+  return path;
+}
+
+// Calls onEntry for each entry in order. Whatever part of a body onEntry doesn't read is skipped.
+export async function readTarGz(filePath: string, onEntry: (entry: TarEntry, body: AsyncIterable<Buffer>) => Promise<void>): Promise<void> {
+  const gunzip = zlib.createGunzip();
+  // pipeline (unlike pipe) passes a read error on to gunzip, which ends the iteration below.
+  pipeline(fs.createReadStream(filePath), gunzip).catch(() => {});
+  const reader = new ByteReader(gunzip as AsyncIterable<Buffer>);
+  let longName: string | null = null;
+  try {
+    for (;;) {
+      const header = await reader.take(BLOCK);
+      if (!header || header.every((b) => b === 0)) break;
+      const stored = readOctal(header, 148, 8);
+      const sum = header.reduce((n, b, i) => n + (i >= 148 && i < 156 ? 0x20 : b), 0);
+      if (stored !== sum) throw invalid("header checksum mismatch");
+
+      const type = String.fromCharCode(header[156]!);
+      const size = readOctal(header, 124, 12);
+      if (type === "x" || type === "g") {
+        const body = (await reader.take(size + padding(size))) ?? Buffer.alloc(0);
+        if (type === "x") longName = paxPath(body.subarray(0, size));
+        continue;
+      }
+
+      const prefix = readString(header, 345, 155);
+      const shortName = readString(header, 0, 100);
+      const name = longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+      longName = null;
+      const kind = type === "0" || type === "\0" ? "file" : type === "5" ? "directory" : "other";
+      const consumed = { bytes: 0 };
+      await onEntry({ name, type: kind, size }, reader.chunks(size, consumed));
+      for await (const _ of reader.chunks(size, consumed)) void _;
+      await reader.take(padding(size));
+    }
+  } catch (e) {
+    if (e instanceof CLIError) throw e;
+    const err = e as NodeJS.ErrnoException;
+    if (err.code === "ENOENT") throw e;
+    throw invalid(err.message || "not a gzipped tar file");
+  } finally {
+    gunzip.destroy();
+  }
+}
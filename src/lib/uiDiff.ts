@@ -0,0 +1,173 @@
+import type { Bounds, CanonicalElement, ElementStates, UISnapshot } from "./uiSnapshot.js";
+
+export type UIDiffElement = {
+  ref: string;
+  role: string;
+  name: string;
+  bounds: Bounds;
+};
+
+// A matched element that changed between snapshots. `ref` is its ref in the newer snapshot.
+export type UIDiffChange<T> = {
+  ref: string;
+  previous_ref: string;
+  role: string;
+  name: string;
+  from: T;
+  to: T;
+};
+
+export type UIDiff = {
+  from: { snapshot_id: string; taken_at: string };
+  to: { snapshot_id: string; taken_at: string };
+  added: UIDiffElement[];
+  removed: UIDiffElement[];
+  moved: UIDiffChange<Bounds>[];
+  resized: UIDiffChange<Bounds>[];
+  renamed: UIDiffChange<string>[];
+  state_changed: UIDiffChange<Partial<ElementStates>>[];
+  value_changed: UIDiffChange<string | null>[];
+  unchanged: number;
+};
+
+const BOUNDS_EPSILON = 0.5;
+
+function summarize(e: CanonicalElement): UIDiffElement {
+  return { ref: e.ref, role: e.role, name: e.name, bounds: e.bounds };
+}
+
+function elementId(e: CanonicalElement): string | null {
+  return e.selectors.ios.id || e.selectors.android.resource_id || null;
+}
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) <= BOUNDS_EPSILON;
+}
+
+// Pairs elements of two snapshots from the most to the least specific identity, so that an element whose name
+// changed is reported as renamed rather than as removed + added. Within a pass, candidates pair in tree order.
+export function matchElements(from: CanonicalElement[], to: CanonicalElement[]): Array<[CanonicalElement, CanonicalElement]> {
+  const pairs: Array<[CanonicalElement, CanonicalElement]> = [];
+  const usedFrom = new Set<CanonicalElement>();
+  const usedTo = new Set<CanonicalElement>();
+
+  const keys: Array<(e: CanonicalElement) => string | null> = [
+    (e) => `${e.role}\u0000${elementId(e) ?? ""}\u0000${e.name}`,
+    (e) => (elementId(e) ? `${e.role}\u0000${elementId(e)}` : null),
+    (e) => (e.name ? `${e.role}\u0000${e.name}` : null),
+    (e) => `${e.role}\u0000${Math.round(e.bounds.x)},${Math.round(e.bounds.y)},${Math.round(e.bounds.w)},${Math.round(e.bounds.h)}`,
+  ];
+
+  for (const key of keys) {
+    const candidates = new Map<string, CanonicalElement[]>();
+    for (const e of to) {
+      if (usedTo.has(e)) continue;
+      const k = key(e);
+      if (k === null) continue;
+      const list = candidates.get(k) ?? [];
+      list.push(e);
+      candidates.set(k, list);
+    }
+    for (const e of from) {
+      if (usedFrom.has(e)) continue;
+      const k = key(e);
+      if (k === null) continue;
+      const match = candidates.get(k)?.shift();
+      if (!match) continue;
+      usedFrom.add(e);
+      usedTo.add(match);
+      pairs.push([e, match]);
+    }
+  }
+
+  return pairs;
+}
+
+export function diffSnapshots(from: UISnapshot, to: UISnapshot): UIDiff {
+  const diff: UIDiff = {
+    from: { snapshot_id: from.snapshot_id, taken_at: from.taken_at },
+    to: { snapshot_id: to.snapshot_id, taken_at: to.taken_at },
+    added: [],
+    removed: [],
+    moved: [],
+    resized: [],
+    renamed: [],
+    state_changed: [],
+    value_changed: [],
+    unchanged: 0,
+  };
+
+  const pairs = matchElements(from.elements, to.elements);
+  const matchedFrom = new Set(pairs.map(([a]) => a));
+  const matchedTo = new Set(pairs.map(([, b]) => b));
+
+  for (const [a, b] of pairs) {
+    const base = { ref: b.ref, previous_ref: a.ref, role: b.role, name: b.name };
+    let changed = false;
+    if (!near(a.bounds.x, b.bounds.x) || !near(a.bounds.y, b.bounds.y)) {
+      diff.moved.push({ ...base, from: a.bounds, to: b.bounds });
+      changed = true;
+    }
+    if (!near(a.bounds.w, b.bounds.w) || !near(a.bounds.h, b.bounds.h)) {
+      diff.resized.push({ ...base, from: a.bounds, to: b.bounds });
+      changed = true;
+    }
+    if (a.name !== b.name) {
+      diff.renamed.push({ ...base, from: a.name, to: b.name });
+      changed = true;
+    }
+    if (a.value !== b.value) {
+      diff.value_changed.push({ ...base, from: a.value, to: b.value });
+      changed = true;
+    }
+    const before: Partial<ElementStates> = {};
+    const after: Partial<ElementStates> = {};
+    for (const k of Object.keys(b.states) as Array<keyof ElementStates>) {
+      if (a.states[k] === b.states[k]) continue;
+      before[k] = a.states[k];
+      after[k] = b.states[k];
+    }
+    if (Object.keys(after).length) {
+      diff.state_changed.push({ ...base, from: before, to: after });
+      changed = true;
+    }
+    if (!changed) diff.unchanged += 1;
+  }
+
+  diff.removed = from.elements.filter((e) => !matchedFrom.has(e)).map(summarize);
+  diff.added = to.elements.filter((e) => !matchedTo.has(e)).map(summarize);
+  return diff;
+}
+
+const CHANGE_KINDS = ["added", "removed", "moved", "resized", "renamed", "state_changed", "value_changed"] as const;
+
+export function isEmptyDiff(diff: UIDiff): boolean {
+  return CHANGE_KINDS.every((kind) => diff[kind].length === 0);
+}
+
+function label(e: { ref: string; role: string; name: string }): string {
+  return `@${e.ref} [${e.role}] ${e.name ? JSON.stringify(e.name) : '""'}`;
+}
+
+function fmtBounds(b: Bounds): string {
+  return `(${b.x},${b.y},${b.w},${b.h})`;
+}
+
+function fmtStates(s: Partial<ElementStates>): string {
+  return Object.entries(s)
+    .map(([k, v]) => `${k}=${String(v)}`)
+    .join(" ");
+}
+
+export function renderDiff(diff: UIDiff): string[] {
+  if (isEmptyDiff(diff)) return ["No UI changes."];
+  return [
+    ...diff.added.map((e) => `+ ${label(e)} ${fmtBounds(e.bounds)}`),
+    ...diff.removed.map((e) => `- ${label(e)} ${fmtBounds(e.bounds)}`),
+    ...diff.renamed.map((c) => `~ ${label(c)} renamed from ${JSON.stringify(c.from)}`),
+    ...diff.moved.map((c) => `~ ${label(c)} moved ${fmtBounds(c.from)} -> ${fmtBounds(c.to)}`),
+    ...diff.resized.map((c) => `~ ${label(c)} resized ${fmtBounds(c.from)} -> ${fmtBounds(c.to)}`),
+    ...diff.state_changed.map((c) => `~ ${label(c)} state ${fmtStates(c.from)} -> ${fmtStates(c.to)}`),
+    ...diff.value_changed.map((c) => `~ ${label(c)} value ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`),
+  ];
+}
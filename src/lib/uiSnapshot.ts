@@ -14,8 +14,19 @@ export type CanonicalElement = {
     ios: { id: string | null; label: string | null };
     android: { resource_id: string | null; content_desc: string | null; class: string | null };
   };
+  // Position in the snapshot's (possibly filtered) accessibility tree. Snapshots written before the hierarchy was
+  // kept have none of these; readers treat them as roots.
+  parent_ref: string | null;
+  children: string[];
+  depth: number;
+  // Set on labeled ancestors an interactive-only snapshot keeps just so selectors can be scoped to them.
+  context?: true;
 };
 
+// A parsed element before refs are assigned. `parent` indexes the nearest kept ancestor in the same array, which
+// always comes before its children (tree order).
+export type RawElement = Omit<CanonicalElement, "ref" | "parent_ref" | "children" | "depth"> & { parent: number | null };
+
 export type UISnapshot = {
   snapshot_id: string;
   taken_at: string;
@@ -25,6 +36,11 @@ export type UISnapshot = {
   tree: string;
   elements: CanonicalElement[];
   refs: Record<string, CanonicalElement>;
+  // Highest ref number ever issued in this session's snapshot lineage. Refs are never reused, so a ref that is
+  // missing from the current snapshot is known to be stale rather than silently pointing at something else.
+  ref_seq?: number;
+  // Screen size in element units (iOS points), measured before interactive-only pruning; absent when unknown.
+  screen?: { w: number; h: number };
 };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -44,7 +60,7 @@ export function isUISnapshot(value: unknown): value is UISnapshot {
   return true;
 }
 
-const INTERACTABLE_ROLES = new Set(["button", "textbox", "link", "checkbox", "switch"]);
+export const INTERACTABLE_ROLES = new Set(["button", "textbox", "link", "checkbox", "switch"]);
 
 function nonZeroBounds(b: Bounds): boolean {
   return b.w > 0 && b.h > 0;
@@ -54,16 +70,97 @@ function defaultStates(): ElementStates {
   return { enabled: true, visible: true, focused: false, checked: false };
 }
 
-export function assignRefs(elements: Omit<CanonicalElement, "ref">[]): { elements: CanonicalElement[]; refs: Record<string, CanonicalElement> } {
+function refNumber(ref: string): number {
+  const m = ref.match(/^e(\d+)$/);
+  return m ? Number(m[1]) : 0;
+}
+
+export function snapshotRefSeq(snapshot: UISnapshot): number {
+  if (typeof snapshot.ref_seq === "number") return snapshot.ref_seq;
+  return Object.keys(snapshot.refs).reduce((max, ref) => Math.max(max, refNumber(ref)), 0);
+}
+
+function elementId(e: Pick<CanonicalElement, "selectors">): string | null {
+  return e.selectors.ios.id || e.selectors.android.resource_id || null;
+}
+
+function boundsNear(a: Bounds, b: Bounds): boolean {
+  const tol = (x: number, y: number) => Math.max(8, 0.2 * Math.max(x, y));
+  const dx = Math.abs(a.x + a.w / 2 - (b.x + b.w / 2));
+  const dy = Math.abs(a.y + a.h / 2 - (b.y + b.h / 2));
+  return dx <= tol(a.w, b.w) && dy <= tol(a.h, b.h) && Math.abs(a.w - b.w) <= tol(a.w, b.w) && Math.abs(a.h - b.h) <= tol(a.h, b.h);
+}
+
+// How strongly `next` looks like `prior`, or 0 when it must not inherit prior's ref. Elements only match within the
+// same role and never across different ids; they need an equal id or name unless neither has anything but bounds.
+function refMatchScore(prior: CanonicalElement, next: RawElement): number {
+  if (prior.role !== next.role) return 0;
+  const priorId = elementId(prior);
+  const nextId = elementId(next);
+  if (priorId && nextId && priorId !== nextId) return 0;
+  const sameId = Boolean(priorId && priorId === nextId);
+  const sameName = prior.name === next.name;
+  const near = boundsNear(prior.bounds, next.bounds);
+  if (!sameId && !(sameName && (prior.name || near))) return 0;
+  return (sameId ? 8 : 0) + (sameName ? 4 : 0) + (near ? 2 : 0);
+}
+
+// Elements that match one in `previous` keep its ref; everything else gets a fresh ref past previous.ref_seq.
+export function assignRefs(
+  elements: RawElement[],
+  previous: UISnapshot | null = null
+): { elements: CanonicalElement[]; refs: Record<string, CanonicalElement>; ref_seq: number } {
+  const inherited = new Map<number, string>();
+  let seq = 0;
+
+  if (previous) {
+    seq = snapshotRefSeq(previous);
+    const candidates: Array<{ score: number; prior: number; next: number }> = [];
+    previous.elements.forEach((prior, pi) => {
+      elements.forEach((next, ni) => {
+        const score = refMatchScore(prior, next);
+        if (score > 0) candidates.push({ score, prior: pi, next: ni });
+      });
+    });
+    // Best matches first; ties resolve in tree order so identical rows keep their relative order.
+    candidates.sort((a, b) => b.score - a.score || a.next - b.next || a.prior - b.prior);
+    const usedPrior = new Set<number>();
+    for (const c of candidates) {
+      if (usedPrior.has(c.prior) || inherited.has(c.next)) continue;
+      usedPrior.add(c.prior);
+      inherited.set(c.next, previous.elements[c.prior]!.ref);
+    }
+  }
+
   const out: CanonicalElement[] = [];
   const refs: Record<string, CanonicalElement> = {};
   for (let i = 0; i < elements.length; i += 1) {
-    const ref = `e${i + 1}`;
-    const el: CanonicalElement = { ...elements[i], ref };
+    let ref = inherited.get(i);
+    if (!ref) {
+      seq += 1;
+      ref = `e${seq}`;
+    }
+    const { parent, ...rest } = elements[i]!;
+    const parentEl = parent !== null ? out[parent] : undefined;
+    const el: CanonicalElement = { ...rest, ref, parent_ref: parentEl?.ref ?? null, children: [], depth: parentEl ? parentEl.depth + 1 : 0 };
+    parentEl?.children.push(ref);
     out.push(el);
     refs[ref] = el;
   }
-  return { elements: out, refs };
+  return { elements: out, refs, ref_seq: seq };
+}
+
+// Ancestors of `el`, nearest first.
+export function ancestorsOf(snapshot: UISnapshot, el: CanonicalElement): CanonicalElement[] {
+  const out: CanonicalElement[] = [];
+  let parentRef = el.parent_ref ?? null;
+  while (parentRef) {
+    const parent = snapshot.refs[parentRef];
+    if (!parent || out.includes(parent)) break;
+    out.push(parent);
+    parentRef = parent.parent_ref ?? null;
+  }
+  return out;
 }
 
 export function renderTree(elements: CanonicalElement[]): string {
@@ -71,7 +168,7 @@ export function renderTree(elements: CanonicalElement[]): string {
     .map((e) => {
       const b = e.bounds;
       const label = e.name ? JSON.stringify(e.name) : "\"\"";
-      return `@${e.ref} [${e.role}] ${label} (${b.x},${b.y},${b.w},${b.h})`;
+      return `${"  ".repeat(e.depth ?? 0)}@${e.ref} [${e.role}] ${label} (${b.x},${b.y},${b.w},${b.h})`;
     })
     .join("\n");
 }
@@ -81,13 +178,19 @@ export function buildSnapshot({
   deviceId,
   appId,
   elements,
+  previous = null,
+  screen = null,
 }: {
   platform: "ios" | "android";
   deviceId: string | null;
   appId: string | null;
-  elements: Omit<CanonicalElement, "ref">[];
+  elements: RawElement[];
+  // The session's prior snapshot; only used for ref continuity when it is of the same device.
+  previous?: unknown;
+  screen?: { w: number; h: number } | null;
 }): UISnapshot {
-  const assigned = assignRefs(elements);
+  const prior = isUISnapshot(previous) && previous.platform === platform && previous.device_id === deviceId ? previous : null;
+  const assigned = assignRefs(elements, prior);
   const tree = renderTree(assigned.elements);
   return {
     snapshot_id: crypto.randomUUID(),
@@ -98,6 +201,8 @@ export function buildSnapshot({
     tree,
     elements: assigned.elements,
     refs: assigned.refs,
+    ref_seq: assigned.ref_seq,
+    ...(screen ? { screen } : {}),
   };
 }
 
@@ -157,7 +262,7 @@ function getFirstString(obj: Record<string, unknown>, keys: string[]): string |
   return null;
 }
 
-function maybeCanonicalIOS(obj: Record<string, unknown>): Omit<CanonicalElement, "ref"> | null {
+function maybeCanonicalIOS(obj: Record<string, unknown>): Omit<RawElement, "parent"> | null {
   const roleRaw =
     getFirstString(obj, ["role", "AXRole", "type", "elementType", "class", "AXElementType"]) ??
     (typeof obj.traits === "string" ? obj.traits : null);
@@ -191,39 +296,87 @@ function maybeCanonicalIOS(obj: Record<string, unknown>): Omit<CanonicalElement,
   };
 }
 
-function walkAny(value: unknown, visitor: (obj: Record<string, unknown>) => void): void {
+// The visitor returns the index its object became (or null when it is not an element); children are visited with
+// the nearest such ancestor index.
+function walkAny(value: unknown, parent: number | null, visitor: (obj: Record<string, unknown>, parent: number | null) => number | null): void {
   if (!value) return;
   if (Array.isArray(value)) {
-    for (const item of value) walkAny(item, visitor);
+    for (const item of value) walkAny(item, parent, visitor);
     return;
   }
   if (typeof value !== "object") return;
   const obj = value as Record<string, unknown>;
-  visitor(obj);
+  const index = visitor(obj, parent) ?? parent;
 
   for (const key of ["children", "elements", "nodes", "subviews", "descendants"]) {
-    if (key in obj) walkAny(obj[key], visitor);
+    if (key in obj) walkAny(obj[key], index, visitor);
   }
 }
 
-export function parseIOSAxeDescribeUI(raw: unknown, { interactiveOnly }: { interactiveOnly: boolean }): Omit<CanonicalElement, "ref">[] {
-  const candidates: Omit<CanonicalElement, "ref">[] = [];
-  walkAny(raw, (obj) => {
-    const el = maybeCanonicalIOS(obj);
-    if (el) candidates.push(el);
+// Keeps the elements `keep` accepts plus their `context` ancestors (so a button inside a named cell can still be
+// scoped to that cell), re-pointing each kept element at its nearest kept ancestor. Ancestors kept only as context
+// are marked so selectors don't match them by text.
+function pruneTree(
+  elements: RawElement[],
+  keep: (e: RawElement, i: number) => boolean,
+  context: (e: RawElement, i: number) => boolean
+): RawElement[] {
+  const kept = new Set<number>();
+  const wanted = new Set<number>();
+  elements.forEach((e, i) => {
+    if (!keep(e, i)) return;
+    wanted.add(i);
+    kept.add(i);
+    for (let p = e.parent; p !== null; p = elements[p]!.parent) {
+      if (context(elements[p]!, p)) kept.add(p);
+    }
+  });
+
+  const newIndex = new Map<number, number>();
+  const out: RawElement[] = [];
+  elements.forEach((e, i) => {
+    if (!kept.has(i)) return;
+    let p = e.parent;
+    while (p !== null && !kept.has(p)) p = elements[p]!.parent;
+    newIndex.set(i, out.length);
+    out.push({ ...e, parent: p === null ? null : newIndex.get(p)!, ...(wanted.has(i) ? {} : { context: true as const }) });
+  });
+  return out;
+}
+
+// The root (application) frame of an AXe dump: the screen in points. Interactive-only pruning drops the root unless it
+// is labeled, so snapshots record this instead of relying on an element spanning the screen.
+export function axeScreenSize(raw: unknown): { w: number; h: number } | null {
+  let screen: { w: number; h: number } | null = null;
+  walkAny(raw, null, (obj) => {
+    const b = extractBounds(obj);
+    if (!screen && nonZeroBounds(b)) screen = { w: b.x + b.w, h: b.y + b.h };
+    return null;
   });
+  return screen;
+}
 
-  // De-dupe very similar elements (common in recursive dumps).
-  const seen = new Set<string>();
-  const deduped = candidates.filter((e) => {
-    const key = `${e.role}|${e.name}|${e.selectors.ios.id ?? ""}|${e.bounds.x},${e.bounds.y},${e.bounds.w},${e.bounds.h}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
+export function parseIOSAxeDescribeUI(raw: unknown, { interactiveOnly }: { interactiveOnly: boolean }): RawElement[] {
+  const candidates: RawElement[] = [];
+  // De-dupe very similar elements (common in recursive dumps); a duplicate's children attach to the first copy.
+  const seen = new Map<string, number>();
+  walkAny(raw, null, (obj, parent) => {
+    const el = maybeCanonicalIOS(obj);
+    if (!el) return null;
+    const key = `${el.role}|${el.name}|${el.selectors.ios.id ?? ""}|${el.bounds.x},${el.bounds.y},${el.bounds.w},${el.bounds.h}`;
+    const existing = seen.get(key);
+    if (existing !== undefined) return existing;
+    seen.set(key, candidates.length);
+    candidates.push({ ...el, parent });
+    return candidates.length - 1;
   });
 
-  if (!interactiveOnly) return deduped;
-  return deduped.filter((e) => INTERACTABLE_ROLES.has(e.role) && nonZeroBounds(e.bounds));
+  if (!interactiveOnly) return candidates;
+  return pruneTree(
+    candidates,
+    (e) => INTERACTABLE_ROLES.has(e.role) && nonZeroBounds(e.bounds),
+    (e) => Boolean(e.selectors.ios.label || e.selectors.ios.id)
+  );
 }
 
 function parseAndroidBounds(bounds: string): Bounds {
@@ -254,12 +407,19 @@ function attrMap(attrText: string): Record<string, string> {
   return out;
 }
 
-export function parseAndroidUiautomatorXml(xml: string, { interactiveOnly }: { interactiveOnly: boolean }): Omit<CanonicalElement, "ref">[] {
-  const nodes: Omit<CanonicalElement, "ref">[] = [];
-  const re = /<node\b([^>]*)\/?>/g;
+export function parseAndroidUiautomatorXml(xml: string, { interactiveOnly }: { interactiveOnly: boolean }): RawElement[] {
+  const nodes: RawElement[] = [];
+  const interactables = new Set<number>();
+  const labeled = new Set<number>();
+  const stack: number[] = [];
+  const re = /<node\b([^>]*?)(\/?)>|<\/node>/g;
   let m: RegExpExecArray | null = null;
   while ((m = re.exec(xml))) {
-    const attrs = attrMap(m[1] ?? "");
+    if (m[1] === undefined) {
+      stack.pop();
+      continue;
+    }
+    const attrs = attrMap(m[1]);
     const className = attrs.class ?? "";
     const boundsRaw = attrs.bounds ?? "";
     const bounds = parseAndroidBounds(boundsRaw);
@@ -288,25 +448,28 @@ export function parseAndroidUiautomatorXml(xml: string, { interactiveOnly }: { i
       checked: attrs.checked === "true",
     };
 
-	    const element: Omit<CanonicalElement, "ref"> = {
-	      role,
-	      name,
-	      value: null,
-	      bounds,
-	      states,
-	      selectors: {
-	        ios: { id: null, label: null },
-	        android: { resource_id: resourceId || null, content_desc: contentDesc || null, class: className || null },
-	      },
-	    };
-
-    if (interactiveOnly) {
-      if (!interactable) continue;
-      if (!nonZeroBounds(bounds)) continue;
-    }
-
-    nodes.push(element);
+    const index = nodes.length;
+    nodes.push({
+      role,
+      name,
+      value: null,
+      bounds,
+      states,
+      selectors: {
+        ios: { id: null, label: null },
+        android: { resource_id: resourceId || null, content_desc: contentDesc || null, class: className || null },
+      },
+      parent: stack.length ? stack[stack.length - 1]! : null,
+    });
+    if (interactable && nonZeroBounds(bounds)) interactables.add(index);
+    if (text || contentDesc) labeled.add(index);
+    if (m[2] !== "/") stack.push(index);
   }
 
-  return nodes;
+  if (!interactiveOnly) return nodes;
+  return pruneTree(
+    nodes,
+    (_e, i) => interactables.has(i),
+    (_e, i) => labeled.has(i)
+  );
 }
@@ -0,0 +1,61 @@
+import { usageError } from "./cliError.js";
+import { matchSelector, type ParsedSelector } from "./selector.js";
+import { diffSnapshots, isEmptyDiff } from "./uiDiff.js";
+import type { CanonicalElement, UISnapshot } from "./uiSnapshot.js";
+
+export const UI_WAIT_CONDITIONS = ["appears", "disappears", "enabled", "value-equals", "count", "stable"] as const;
+export type UIWaitCondition = (typeof UI_WAIT_CONDITIONS)[number];
+
+export type UIWaitSpec =
+  | { condition: "stable"; stableSnapshots: number }
+  | { condition: "appears" | "disappears" | "enabled"; selector: ParsedSelector }
+  | { condition: "value-equals"; selector: ParsedSelector; value: string }
+  | { condition: "count"; selector: ParsedSelector; count: number };
+
+export type UIWaitCheck = {
+  satisfied: boolean;
+  // The element that satisfied the condition (first match for appears/count), if any.
+  element: CanonicalElement | null;
+  match_count: number;
+};
+
+export function parseWaitCondition(raw: string): UIWaitCondition {
+  const v = raw.trim().toLowerCase();
+  if (!(UI_WAIT_CONDITIONS as readonly string[]).includes(v)) {
+    throw usageError(`Invalid --for: ${raw} (expected ${UI_WAIT_CONDITIONS.join(", ")})`);
+  }
+  return v as UIWaitCondition;
+}
+
+// Evaluates a selector condition against one snapshot. `stable` spans several snapshots; see createStabilityCheck.
+export function checkWaitCondition(spec: Exclude<UIWaitSpec, { condition: "stable" }>, snapshot: UISnapshot): UIWaitCheck {
+  const matches = matchSelector(snapshot, spec.selector);
+  const first = matches[0] ?? null;
+  switch (spec.condition) {
+    case "appears":
+      return { satisfied: matches.length > 0, element: first, match_count: matches.length };
+    case "disappears":
+      return { satisfied: matches.length === 0, element: null, match_count: matches.length };
+    case "enabled": {
+      const el = matches.find((e) => e.states.enabled) ?? null;
+      return { satisfied: el !== null, element: el ?? first, match_count: matches.length };
+    }
+    case "value-equals": {
+      const el = matches.find((e) => e.value === spec.value) ?? null;
+      return { satisfied: el !== null, element: el ?? first, match_count: matches.length };
+    }
+    case "count":
+      return { satisfied: matches.length >= spec.count, element: first, match_count: matches.length };
+  }
+}
+
+// The screen is stable once `required` consecutive snapshots show no difference (refs aside).
+export function createStabilityCheck(required: number): (snapshot: UISnapshot) => { satisfied: boolean; streak: number } {
+  let previous: UISnapshot | null = null;
+  let streak = 0;
+  return (snapshot) => {
+    streak = previous && isEmptyDiff(diffSnapshots(previous, snapshot)) ? streak + 1 : 1;
+    previous = snapshot;
+    return { satisfied: streak >= required, streak };
+  };
+}
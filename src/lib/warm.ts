@@ -0,0 +1,72 @@
+// In-process memo for state that is expensive to rebuild on every command (device lists, resolved devices,
+// the AXe path, the last snapshot). Disabled by default so one-shot CLI invocations always read fresh state;
+// Live mode enables it so consecutive requests reuse what the previous one already resolved.
+
+type WarmEntry = {
+  value: Promise<unknown>;
+  stamp: string | number | null;
+  loadedAt: number;
+  expiresAt: number;
+};
+
+// Device lists (and devices resolved from them) go stale when simulators/emulators boot outside this process.
+export const DEVICE_LIST_WARM_TTL_MS = 15000;
+
+export type WarmEntryInfo = { key: string; loaded_at: string; expires_at: string | null };
+
+const entries = new Map<string, WarmEntry>();
+let enabled = false;
+
+export function enableWarmState(): void {
+  enabled = true;
+}
+
+export function isWarmStateEnabled(): boolean {
+  return enabled;
+}
+
+export async function warm<T>(
+  key: string,
+  { ttlMs = Infinity, stamp = null }: { ttlMs?: number; stamp?: string | number | null },
+  load: () => Promise<T>
+): Promise<T> {
+  if (!enabled) return await load();
+
+  const now = Date.now();
+  const hit = entries.get(key);
+  if (hit && hit.expiresAt > now && hit.stamp === stamp) return (await hit.value) as T;
+
+  const value = load();
+  entries.set(key, { value, stamp, loadedAt: now, expiresAt: now + ttlMs });
+  // Failed loads must not poison the cache.
+  value.catch(() => {
+    if (entries.get(key)?.value === value) entries.delete(key);
+  });
+  return await value;
+}
+
+export function setWarm(key: string, value: unknown, { stamp = null }: { stamp?: string | number | null } = {}): void {
+  if (!enabled) return;
+  const now = Date.now();
+  entries.set(key, { value: Promise.resolve(value), stamp, loadedAt: now, expiresAt: Infinity });
+}
+
+export function invalidateWarm(prefix: string): void {
+  for (const key of [...entries.keys()]) {
+    if (key.startsWith(prefix)) entries.delete(key);
+  }
+}
+
+export function describeWarmState(): WarmEntryInfo[] {
+  const now = Date.now();
+  const out: WarmEntryInfo[] = [];
+  for (const [key, e] of entries) {
+    if (e.expiresAt <= now) continue;
+    out.push({
+      key,
+      loaded_at: new Date(e.loadedAt).toISOString(),
+      expires_at: Number.isFinite(e.expiresAt) ? new Date(e.expiresAt).toISOString() : null,
+    });
+  }
+  return out.sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,447 @@
+// A small YAML reader for Maestro flows: block mappings and sequences, flow collections, quoted, plain and block
+// scalars, comments, and `---` documents. Every node keeps its 1-based source line for error reporting. Anchors,
+// aliases, and complex keys are not supported.
+
+export type YamlScalar = string | number | boolean | null;
+
+export type YamlNode =
+  | { kind: "scalar"; value: YamlScalar; line: number }
+  | { kind: "map"; entries: YamlEntry[]; line: number }
+  | { kind: "seq"; items: YamlNode[]; line: number };
+
+export type YamlEntry = { key: string; line: number; value: YamlNode };
+
+export type YamlDocument = { node: YamlNode | null; line: number };
+
+export class YamlSyntaxError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.line = line;
+  }
+}
+
+// Valid YAML this reader does not handle (anchors, aliases, complex keys): callers may skip the file rather than
+// reject it.
+export class YamlUnsupportedError extends YamlSyntaxError {}
+
+const DOC_START = /^---(?:\s|$)/;
+const DOC_END = /^\.\.\.(?:\s|$)/;
+
+function indentOf(raw: string): number {
+  return raw.length - raw.trimStart().length;
+}
+
+// Removes a trailing comment: `#` at the start or after whitespace, outside quotes.
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === "\\" && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      if (i === 0 || /[\s[{,:]/.test(text[i - 1]!)) quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]!))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+export function resolvePlainScalar(text: string): YamlScalar {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return Number.parseInt(text.slice(2), 16);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0", '"': '"', "\\": "\\", "/": "/", " ": " ", e: "\x1b" };
+
+// Reads a quoted scalar starting at text[start]; returns its value and the index after the closing quote, or null
+// when the quote is not closed on this text.
+function readQuoted(text: string, start: number, line: number): { value: string; end: number } | null {
+  const quote = text[start]!;
+  let out = "";
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote === "'") {
+      if (ch === "'") {
+        if (text[i + 1] === "'") {
+          out += "'";
+          i++;
+          continue;
+        }
+        return { value: out, end: i + 1 };
+      }
+      out += ch;
+      continue;
+    }
+    if (ch === '"') return { value: out, end: i + 1 };
+    if (ch !== "\\") {
+      out += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === "x" || next === "u" || next === "U") {
+      const len = next === "x" ? 2 : next === "u" ? 4 : 8;
+      const hex = text.slice(i + 2, i + 2 + len);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== len) throw new YamlSyntaxError(`Invalid escape \\${next}${hex}`, line);
+      out += String.fromCodePoint(Number.parseInt(hex, 16));
+      i += 1 + len;
+      continue;
+    }
+    const mapped = ESCAPES[next];
+    if (mapped === undefined) throw new YamlSyntaxError(`Invalid escape \\${next} in double-quoted string`, line);
+    out += mapped;
+    i++;
+  }
+  return null;
+}
+
+// Index of the `:` that separates a block mapping key from its value, or -1 when the text is not a key.
+function findKeyColon(text: string): number {
+  let i = 0;
+  if (text[0] === '"' || text[0] === "'") {
+    const q = readQuoted(text, 0, 0);
+    if (!q) return -1;
+    i = q.end;
+    while (text[i] === " ") i++;
+    return text[i] === ":" && (i + 1 === text.length || text[i + 1] === " ") ? i : -1;
+  }
+  if (text[0] === "[" || text[0] === "{") return -1;
+  for (; i < text.length; i++) {
+    if (text[i] === ":" && (i + 1 === text.length || text[i + 1] === " ")) return i;
+  }
+  return -1;
+}
+
+class FlowReader {
+  #text: string;
+  #line: number;
+  #i = 0;
+
+  constructor(text: string, line: number) {
+    this.#text = text;
+    this.#line = line;
+  }
+
+  read(): YamlNode {
+    const node = this.value();
+    this.space();
+    if (this.#i < this.#text.length) this.fail(`Unexpected "${this.#text.slice(this.#i, this.#i + 10)}" after flow collection`);
+    return node;
+  }
+
+  fail(message: string): never {
+    throw new YamlSyntaxError(message, this.#line);
+  }
+
+  space(): void {
+    while (this.#i < this.#text.length && /\s/.test(this.#text[this.#i]!)) this.#i++;
+  }
+
+  value(): YamlNode {
+    this.space();
+    const ch = this.#text[this.#i];
+    if (ch === "[") return this.seq();
+    if (ch === "{") return this.map();
+    return { kind: "scalar", value: this.scalar(), line: this.#line };
+  }
+
+  scalar(): YamlScalar {
+    const ch = this.#text[this.#i];
+    if (ch === '"' || ch === "'") {
+      const q = readQuoted(this.#text, this.#i, this.#line);
+      if (!q) this.fail("Unterminated quoted string");
+      this.#i = q.end;
+      return q.value;
+    }
+    const start = this.#i;
+    while (this.#i < this.#text.length) {
+      const c = this.#text[this.#i]!;
+      if (c === "," || c === "]" || c === "}") break;
+      if (c === ":" && /[\s,\]}]/.test(this.#text[this.#i + 1] ?? " ")) break;
+      this.#i++;
+    }
+    return resolvePlainScalar(this.#text.slice(start, this.#i).trim());
+  }
+
+  seq(): YamlNode {
+    this.#i++;
+    const items: YamlNode[] = [];
+    for (;;) {
+      this.space();
+      if (this.#text[this.#i] === "]") {
+        this.#i++;
+        return { kind: "seq", items, line: this.#line };
+      }
+      items.push(this.value());
+      this.space();
+      if (this.#text[this.#i] === ",") this.#i++;
+      else if (this.#text[this.#i] !== "]") this.fail("Expected , or ] in flow sequence");
+    }
+  }
+
+  map(): YamlNode {
+    this.#i++;
+    const entries: YamlEntry[] = [];
+    for (;;) {
+      this.space();
+      if (this.#text[this.#i] === "}") {
+        this.#i++;
+        return { kind: "map", entries, line: this.#line };
+      }
+      const key = this.scalar();
+      this.space();
+      let value: YamlNode = { kind: "scalar", value: null, line: this.#line };
+      if (this.#text[this.#i] === ":") {
+        this.#i++;
+        value = this.value();
+      }
+      if (entries.some((e) => e.key === String(key))) this.fail(`Duplicate key "${String(key)}"`);
+      entries.push({ key: String(key), line: this.#line, value });
+      this.space();
+      if (this.#text[this.#i] === ",") this.#i++;
+      else if (this.#text[this.#i] !== "}") this.fail("Expected , or } in flow mapping");
+    }
+  }
+}
+
+function bracketDepth(text: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === "\\" && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "[" || ch === "{") depth++;
+    else if (ch === "]" || ch === "}") depth--;
+  }
+  return depth;
+}
+
+class BlockParser {
+  #lines: string[];
+  #end: number;
+  #pos: number;
+
+  // `lines` is the whole file; the document spans [start, end).
+  constructor(lines: string[], start: number, end: number) {
+    this.#lines = lines;
+    this.#end = end;
+    this.#pos = start;
+  }
+
+  parseDocument(): YamlNode | null {
+    const first = this.peek();
+    if (first === null) return null;
+    const node = this.block(0, first);
+    const rest = this.peek();
+    if (rest !== null) throw new YamlSyntaxError("Unexpected content (check the indentation)", rest + 1);
+    return node;
+  }
+
+  // Next line with content, skipping blank and comment-only lines; null at the end of the document.
+  peek(): number | null {
+    while (this.#pos < this.#end) {
+      const raw = this.#lines[this.#pos]!;
+      if (/^\s*\t/.test(raw) && raw.trim()) throw new YamlSyntaxError("Tabs are not allowed for indentation", this.#pos + 1);
+      if (stripComment(raw).trim()) return this.#pos;
+      this.#pos++;
+    }
+    return null;
+  }
+
+  content(index: number): string {
+    return stripComment(this.#lines[index]!).trim();
+  }
+
+  block(indent: number, index: number): YamlNode {
+    const text = this.content(index);
+    if (text === "-" || text.startsWith("- ")) return this.seq(indent, index);
+    if (findKeyColon(text) >= 0) return this.map(indent, index);
+    this.#pos = index + 1;
+    return this.inline(text, index, indent - 1);
+  }
+
+  seq(indent: number, first: number): YamlNode {
+    const items: YamlNode[] = [];
+    let index: number | null = first;
+    while (index !== null) {
+      const col = indentOf(this.#lines[index]!);
+      if (col < indent) break;
+      if (col > indent) throw new YamlSyntaxError("Unexpected indentation in sequence", index + 1);
+      const text = this.content(index);
+      if (!(text === "-" || text.startsWith("- "))) break;
+      const rest = text.slice(1).trimStart();
+      if (!rest) {
+        this.#pos = index + 1;
+        items.push(this.child(indent, index));
+      } else {
+        // `- key: value` and `- - x` start a nested block at the item's column; re-read this line from there.
+        const itemCol = col + text.length - rest.length;
+        this.#lines[index] = " ".repeat(itemCol) + rest;
+        if (rest === "-" || rest.startsWith("- ") || findKeyColon(rest) >= 0) {
+          items.push(this.block(itemCol, index));
+        } else {
+          this.#pos = index + 1;
+          items.push(this.inline(rest, index, indent));
+        }
+      }
+      index = this.peek();
+    }
+    return { kind: "seq", items, line: first + 1 };
+  }
+
+  map(indent: number, first: number): YamlNode {
+    const entries: YamlEntry[] = [];
+    let index: number | null = first;
+    while (index !== null) {
+      const col = indentOf(this.#lines[index]!);
+      if (col < indent) break;
+      if (col > indent) throw new YamlSyntaxError("Unexpected indentation in mapping", index + 1);
+      const text = this.content(index);
+      if (text === "-" || text.startsWith("- ")) break;
+      const colon = findKeyColon(text);
+      if (colon < 0) throw new YamlSyntaxError(`Expected "key: value", got "${text}"`, index + 1);
+      const rawKey = text.slice(0, colon).trim();
+      const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? readQuoted(rawKey, 0, index + 1)!.value : rawKey;
+      if (key.startsWith("? ")) throw new YamlUnsupportedError("Complex mapping keys are not supported", index + 1);
+      if (entries.some((e) => e.key === key)) throw new YamlSyntaxError(`Duplicate key "${key}"`, index + 1);
+      const rest = text.slice(colon + 1).trim();
+      this.#pos = index + 1;
+      const value = rest ? this.inline(rest, index, indent) : this.child(indent, index, true);
+      entries.push({ key, line: index + 1, value });
+      index = this.peek();
+    }
+    return { kind: "map", entries, line: first + 1 };
+  }
+
+  // The block value under a key or `-` on line `owner`. A mapping value may be a sequence at the key's own indent.
+  child(indent: number, owner: number, sameIndentSeq = false): YamlNode {
+    const next = this.peek();
+    if (next !== null) {
+      const col = indentOf(this.#lines[next]!);
+      const text = this.content(next);
+      const isSeq = text === "-" || text.startsWith("- ");
+      if (col > indent || (sameIndentSeq && col === indent && isSeq)) return this.block(col, next);
+    }
+    return { kind: "scalar", value: null, line: owner + 1 };
+  }
+
+  // A value written after `key:` or `- ` on line `index`; `parentIndent` bounds multi-line continuations.
+  inline(text: string, index: number, parentIndent: number): YamlNode {
+    const line = index + 1;
+    if (text.startsWith("&") || text.startsWith("*")) throw new YamlUnsupportedError("Anchors and aliases are not supported", line);
+    if (text.startsWith("!")) {
+      const space = text.indexOf(" ");
+      text = space < 0 ? "" : text.slice(space + 1).trim();
+    }
+    if (/^[|>][-+0-9]*$/.test(text)) return this.blockScalar(text, index, parentIndent);
+    if (text.startsWith("[") || text.startsWith("{")) {
+      let joined = text;
+      while (bracketDepth(joined) > 0) {
+        const next = this.peek();
+        if (next === null) throw new YamlSyntaxError("Unterminated flow collection", line);
+        joined += ` ${this.content(next)}`;
+        this.#pos = next + 1;
+      }
+      return new FlowReader(joined, line).read();
+    }
+    if (text.startsWith('"') || text.startsWith("'")) {
+      let joined = text;
+      let q = readQuoted(joined, 0, line);
+      while (!q) {
+        if (this.#pos >= this.#end) throw new YamlSyntaxError("Unterminated quoted string", line);
+        const raw = this.#lines[this.#pos]!.trim();
+        joined += raw ? ` ${raw}` : "\n";
+        this.#pos++;
+        q = readQuoted(joined, 0, line);
+      }
+      const after = stripComment(joined.slice(q.end)).trim();
+      if (after) throw new YamlSyntaxError(`Unexpected "${after}" after quoted string`, line);
+      return { kind: "scalar", value: q.value, line };
+    }
+    // Plain scalars may continue on more-indented lines, folded with spaces.
+    let value = text;
+    for (let next = this.peek(); next !== null && indentOf(this.#lines[next]!) > parentIndent; next = this.peek()) {
+      const more = this.content(next);
+      if (more.startsWith("- ") || findKeyColon(more) >= 0) throw new YamlSyntaxError("Unexpected indentation", next + 1);
+      value += ` ${more}`;
+      this.#pos = next + 1;
+    }
+    return { kind: "scalar", value: resolvePlainScalar(value), line };
+  }
+
+  blockScalar(header: string, index: number, parentIndent: number): YamlNode {
+    const folded = header[0] === ">";
+    const chomp = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip";
+    const explicit = header.match(/\d/);
+    const body: string[] = [];
+    let contentIndent = explicit ? parentIndent + 1 + Number(explicit[0]) : -1;
+    let i = index + 1;
+    for (; i < this.#end; i++) {
+      const raw = this.#lines[i]!;
+      if (!raw.trim()) {
+        body.push("");
+        continue;
+      }
+      const col = indentOf(raw);
+      if (contentIndent < 0) contentIndent = col;
+      if (col < contentIndent || col <= parentIndent) break;
+      body.push(raw.slice(contentIndent));
+    }
+    this.#pos = i;
+    let trailing = 0;
+    while (body.length && body[body.length - 1] === "") {
+      body.pop();
+      trailing++;
+    }
+    this.#pos -= trailing;
+    // Folding joins adjacent lines with a space; each blank line becomes a newline.
+    let value = folded ? body.map((l, n) => (n === 0 ? l : l === "" ? "\n" : body[n - 1] === "" ? l : ` ${l}`)).join("") : body.join("\n");
+    if (chomp === "clip" && body.length) value += "\n";
+    if (chomp === "keep") value += "\n".repeat(trailing + 1);
+    return { kind: "scalar", value, line: index + 1 };
+  }
+}
+
+export function parseYamlDocuments(text: string): YamlDocument[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const docs: YamlDocument[] = [];
+  let start = 0;
+  const flush = (end: number, explicit: boolean) => {
+    const node = new BlockParser(lines, start, end).parseDocument();
+    if (node !== null || explicit) docs.push({ node, line: start + 1 });
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i]!;
+    if (DOC_START.test(raw)) {
+      const trailing = stripComment(raw.slice(3)).trim();
+      if (trailing) throw new YamlUnsupportedError("Content after --- is not supported; start the document on the next line", i + 1);
+      flush(i, docs.length > 0 || i > start);
+      start = i + 1;
+    } else if (DOC_END.test(raw)) {
+      flush(i, true);
+      start = i + 1;
+    }
+  }
+  flush(lines.length, false);
+  return docs;
+}
+
+// Plain JS value of a node (maps become objects), for callers that do not need line numbers.
+export function yamlToJs(node: YamlNode | null): unknown {
+  if (!node) return null;
+  if (node.kind === "scalar") return node.value;
+  if (node.kind === "seq") return node.items.map((n) => yamlToJs(n));
+  return Object.fromEntries(node.entries.map((e) => [e.key, yamlToJs(e.value)]));
+}
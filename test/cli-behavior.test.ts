@@ -1,5 +1,7 @@
 import test from "node:test";
 import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
 import { spawn } from "node:child_process";
 import { fileURLToPath } from "node:url";
@@ -20,13 +22,20 @@ function distBinPath(): string {
 
 async function runCli(
   args: string[],
-  opts?: { env?: NodeJS.ProcessEnv; timeoutMs?: number }
+  opts?: { env?: NodeJS.ProcessEnv; timeoutMs?: number; input?: string; holdStdinMs?: number }
 ): Promise<RunResult> {
   const timeoutMs = opts?.timeoutMs ?? 2000;
   const child = spawn(process.execPath, [distBinPath(), ...args], {
-    stdio: ["ignore", "pipe", "pipe"],
+    stdio: ["pipe", "pipe", "pipe"],
     env: { ...process.env, ...opts?.env },
   });
+  // holdStdinMs keeps stdin open after the input, the way an agent driving repl does.
+  if (opts?.holdStdinMs) {
+    child.stdin.write(opts.input ?? "");
+    setTimeout(() => child.stdin.end(), opts.holdStdinMs).unref();
+  } else {
+    child.stdin.end(opts?.input ?? "");
+  }
 
   let stdout = "";
   let stderr = "";
@@ -84,3 +93,194 @@ test("unknown command returns usage error", async () => {
   assert.equal(result.code, 2);
   assert.match(result.stderr, /Unknown command: studio/);
 });
+
+test("live start routes session commands through the Live process until stopped", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-live-"));
+  const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: path.join(stateDir, "cache") };
+  try {
+    const started = await runCli(["live", "start", "--ttl", "1m", "--json"], { env, timeoutMs: 10000 });
+    assert.equal(started.code, 0, started.stderr);
+    assert.equal(JSON.parse(started.stdout).data.running, true);
+
+    const shown = await runCli(["session", "show", "--json"], { env, timeoutMs: 5000 });
+    assert.equal(shown.code, 0, shown.stderr);
+    assert.equal(JSON.parse(shown.stdout).command.name, "session.show");
+
+    const status = JSON.parse((await runCli(["live", "status", "--json"], { env, timeoutMs: 5000 })).stdout);
+    assert.equal(status.data.running, true);
+    assert.equal(status.data.status.requests, 1);
+  } finally {
+    const stopped = await runCli(["live", "stop", "--json"], { env, timeoutMs: 10000 });
+    assert.equal(JSON.parse(stopped.stdout).data.running, false);
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
+
+test("live runs routed commands with the caller's MOBILE_DEV_AGENT_* environment", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-live-env-"));
+  const daemonCache = path.join(stateDir, "daemon-cache");
+  const callerCache = path.join(stateDir, "caller-cache");
+  try {
+    const started = await runCli(["live", "start", "--ttl", "1m", "--json"], {
+      env: { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: daemonCache },
+      timeoutMs: 10000,
+    });
+    assert.equal(started.code, 0, started.stderr);
+
+    // Fails for lack of adb, but only after creating its run dir in the cache dir it was given.
+    const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: callerCache, PATH: path.join(stateDir, "bin") };
+    const tapped = await runCli(["ui", "long-press", "coords:1,1", "--platform", "android", "--json"], { env, timeoutMs: 5000 });
+    assert.equal(JSON.parse(tapped.stdout).command.name, "ui.long-press");
+    const status = JSON.parse((await runCli(["live", "status", "--json"], { env, timeoutMs: 5000 })).stdout);
+    assert.equal(status.data.status.requests, 1);
+
+    assert.equal((await fs.readdir(path.join(callerCache, "runs"))).length, 1);
+    await assert.rejects(fs.stat(path.join(daemonCache, "runs")));
+  } finally {
+    await runCli(["live", "stop", "--json"], { env: { MOBILE_DEV_AGENT_STATE_DIR: stateDir }, timeoutMs: 10000 });
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
+
+test("sharded test --retries re-runs each shard's failed flows on its own device", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-shard-retries-"));
+  const bin = path.join(stateDir, "bin");
+  const flows = path.join(stateDir, "flows");
+  const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: path.join(stateDir, "cache"), PATH: `${bin}:/usr/bin:/bin` };
+  try {
+    await fs.mkdir(bin);
+    await fs.mkdir(flows);
+    for (const name of ["home", "login", "search"]) await fs.writeFile(path.join(flows, `${name}.yaml`), "appId: com.example.app\n---\n- launchApp\n");
+    await fs.writeFile(
+      path.join(bin, "adb"),
+      "#!/bin/sh\nprintf 'List of devices attached\\nemulator-5554 device model:Pixel_7\\nemulator-5556 device model:Pixel_8\\n'\n",
+      { mode: 0o755 }
+    );
+    // login fails the first time it runs, then passes.
+    await fs.writeFile(
+      path.join(bin, "maestro"),
+      [
+        "#!/bin/sh",
+        "out=''; cases=''; failed=0",
+        "while [ $# -gt 0 ]; do",
+        '  case "$1" in',
+        '    --output) out="$2"; shift ;;',
+        '    --config|--device|--debug-output|--test-output-dir|--format) shift ;;',
+        "    *.yaml)",
+        '      name=$(basename "$1" .yaml)',
+        `      if [ "$name" = login ] && [ ! -e "${stateDir}/login-failed" ]; then`,
+        `        touch "${stateDir}/login-failed"; failed=1`,
+        '        cases="$cases<testcase name=\\"$name\\"><failure message=\\"timeout\\"/></testcase>"',
+        '      else cases="$cases<testcase name=\\"$name\\"/>"; fi ;;',
+        "  esac",
+        "  shift",
+        "done",
+        'printf "<testsuites><testsuite name=\\"Test Suite\\">%s</testsuite></testsuites>" "$cases" > "$out"',
+        "exit $failed",
+        "",
+      ].join("\n"),
+      { mode: 0o755 }
+    );
+
+    const result = await runCli(
+      ["test", "--flow", flows, "--platform", "android", "--devices", "emulator-5554,emulator-5556", "--retries", "1", "--json"],
+      { env, timeoutMs: 20000 }
+    );
+    assert.equal(result.code, 0, result.stdout + result.stderr);
+    const { data } = JSON.parse(result.stdout);
+    assert.deepEqual(data.summary, { total: 3, passed: 2, failed: 0, skipped: 0, flaky: 1 });
+    assert.deepEqual(
+      data.flows.map((f: { name: string; status: string; shard: string }) => [f.shard, f.name, f.status]),
+      [
+        ["shard-1", "home", "passed"],
+        ["shard-1", "search", "passed"],
+        ["shard-2", "login", "flaky"],
+      ]
+    );
+    assert.deepEqual(
+      data.shards.map((s: { attempts: Array<{ flows: string[] }> }) => s.attempts.map((a) => a.flows)),
+      [[["home", "search"]], [["login"], ["login"]]]
+    );
+    assert.match(data.shards[1].attempts[1].run_dir, /shards\/shard-2\/attempts\/attempt-2$/);
+    assert.match(await fs.readFile(data.report, "utf8"), /<testcase name="login"[^>]*><flakyFailure message="timeout"\/><\/testcase>/);
+  } finally {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
+
+test("repl answers each JSON request with a result line tagged by id", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-repl-"));
+  const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: path.join(stateDir, "cache") };
+  try {
+    const input = [
+      JSON.stringify({ id: 1, argv: ["session", "set", "--platform", "android"] }),
+      JSON.stringify({ id: 2, argv: ["session", "show"] }),
+      "not json",
+      JSON.stringify({ id: "bad", argv: ["studio"] }),
+    ].join("\n");
+    const result = await runCli(["repl"], { env, input, timeoutMs: 5000 });
+    assert.equal(result.code, 0, result.stderr);
+
+    const lines = result.stdout.trim().split("\n").map((l) => JSON.parse(l));
+    const results = lines.filter((l) => l.type === "result");
+    assert.deepEqual(
+      results.map((r) => [r.id, r.ok]),
+      [
+        [1, true],
+        [2, true],
+        [null, false],
+        ["bad", false],
+        [undefined, true],
+      ]
+    );
+    assert.equal(results[1].data.session.defaults.platform, "android");
+    assert.equal(results[2].error.code, "BAD_REQUEST");
+    assert.deepEqual(results[4].data, { requests: 4, failed: 2 });
+  } finally {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
+
+test("flow lint reports the lines of a headerless file when --app-id supplies the header", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-flow-lint-"));
+  const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: path.join(stateDir, "cache") };
+  try {
+    const flow = path.join(stateDir, "f.yaml");
+    await fs.writeFile(flow, "- tapOn: A\n- bogusCmd\n");
+    const result = await runCli(["flow", "lint", flow, "--app-id", "com.x", "--json"], { env, timeoutMs: 10000 });
+    assert.equal(result.code, 1, result.stderr);
+    const envelope = JSON.parse(result.stdout);
+    assert.deepEqual(envelope.error.details, [`${flow}:2: error: Unknown command "bogusCmd"`]);
+  } finally {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
+
+test("repl flow run --flow leaves stdin to the repl while the client holds it open", async () => {
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-repl-flow-"));
+  const env = { MOBILE_DEV_AGENT_STATE_DIR: stateDir, MOBILE_DEV_AGENT_CACHE_DIR: path.join(stateDir, "cache"), PATH: path.join(stateDir, "bin") };
+  try {
+    const flow = path.join(stateDir, "f.yaml");
+    await fs.writeFile(flow, "appId: com.example.app\n---\n- launchApp\n");
+    const input = [
+      JSON.stringify({ id: 1, argv: ["flow", "run", "--flow", flow, "--platform", "android"] }),
+      JSON.stringify({ id: 2, argv: ["session", "show"] }),
+      "",
+    ].join("\n");
+    const result = await runCli(["repl"], { env, input, holdStdinMs: 1500, timeoutMs: 10000 });
+    assert.equal(result.code, 0, result.stderr);
+
+    const results = result.stdout
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l))
+      .filter((l) => l.type === "result");
+    assert.deepEqual(results.map((r) => r.id), [1, 2, undefined]);
+    assert.equal(results[0].command.name, "flow.run");
+    // It gets as far as looking for a device (there is no adb on PATH) instead of failing to read stdin.
+    assert.match(results[0].error.message, /adb/);
+    assert.equal(results[1].ok, true);
+  } finally {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  }
+});
@@ -2,9 +2,16 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import path from "node:path";
 
-import { buildMaestroTestArgs } from "../src/lib/maestro.js";
+import { buildMaestroTestArgs, splitFlows } from "../src/lib/maestro.js";
+import { mergeJUnitReports, parseJUnitSuites } from "../src/lib/junit.js";
 import { buildXcodebuildArgs, pickSingleApp } from "../src/lib/xcodebuild.js";
-import { flattenIOSDevices } from "../src/lib/simctl.js";
+import { flattenIOSDevices, parseSimctlAppInfoExecutable, parseSimctlAppInfoVersion } from "../src/lib/simctl.js";
+import { parseDumpsysPackageVersion } from "../src/lib/android.js";
+import { buildAndroidLogcatArgs, buildIOSLogArgs, trimDeviceLogToWindow } from "../src/lib/deviceLog.js";
+import { buildAxeKeyArgs, buildAxeSwipeArgs, buildAxeTouchArgs, IOS_KEYS } from "../src/lib/axe.js";
+import { adbMotionDragArgs, adbSendeventPinchArgs, buildAdbGestureArgs, parseGeteventTouchscreen, pinchFrames } from "../src/lib/gesture.js";
+import { ANDROID_SCREENRECORD_MAX_S, buildScreenrecordArgs, ffmpegConcatList, nextChunkSeconds } from "../src/lib/recording.js";
+import { buildAdbKeyboardArgs, buildInputTextArgs, canUseInputText, parseAndroidTextStrategy } from "../src/lib/androidText.js";
 
 test("buildMaestroTestArgs constructs expected args", () => {
   assert.deepEqual(
@@ -62,3 +69,224 @@ test("flattenIOSDevices filters and flattens runtimes", () => {
   assert.equal(devices[0].udid, "A");
   assert.equal(devices[0].runtime.includes("iOS"), true);
 });
+
+test("device log args filter by process name (iOS) and pid (Android)", () => {
+  assert.deepEqual(buildIOSLogArgs("UDID-123", { follow: true, processName: "My App" }), [
+    "simctl",
+    "spawn",
+    "UDID-123",
+    "log",
+    "stream",
+    "--style",
+    "compact",
+    "--level",
+    "debug",
+    "--predicate",
+    'process == "My App"',
+  ]);
+  assert.deepEqual(buildIOSLogArgs("UDID-123", { follow: false }), ["simctl", "spawn", "UDID-123", "log", "show", "--style", "compact", "--last", "5m"]);
+  assert.deepEqual(buildAndroidLogcatArgs("emulator-5554", { follow: true, pid: "4321" }), [
+    "-s",
+    "emulator-5554",
+    "logcat",
+    "-v",
+    "threadtime",
+    "-v",
+    "year",
+    "-v",
+    "UTC",
+    "--pid=4321",
+  ]);
+  assert.deepEqual(buildAndroidLogcatArgs("emulator-5554", { follow: false }).slice(-3), ["-d", "-t", "200"]);
+});
+
+test("parseSimctlAppInfoExecutable reads CFBundleExecutable", () => {
+  const output = `{
+    ApplicationType = User;
+    CFBundleExecutable = "My App";
+    CFBundleIdentifier = "com.example.app";
+}`;
+  assert.equal(parseSimctlAppInfoExecutable(output), "My App");
+  assert.equal(parseSimctlAppInfoExecutable("{\n    CFBundleExecutable = Runner;\n}"), "Runner");
+  assert.equal(parseSimctlAppInfoExecutable("{}"), null);
+});
+
+test("installed app versions combine version and build from simctl appinfo and dumpsys", () => {
+  assert.equal(parseSimctlAppInfoVersion('{\n    CFBundleShortVersionString = "1.4.2";\n    CFBundleVersion = 87;\n}'), "1.4.2 (87)");
+  assert.equal(parseSimctlAppInfoVersion("{\n    CFBundleShortVersionString = 2.0;\n    CFBundleVersion = 2.0;\n}"), "2.0");
+  assert.equal(parseSimctlAppInfoVersion("{}"), null);
+  assert.equal(parseDumpsysPackageVersion("    versionCode=87 minSdk=24 targetSdk=34\n    versionName=1.4.2\n"), "1.4.2 (87)");
+  assert.equal(parseDumpsysPackageVersion("Unable to find package: com.x\n"), null);
+});
+
+test("trimDeviceLogToWindow keeps stamped lines and their continuations inside the window", () => {
+  const log = [
+    "--------- beginning of main",
+    "2026-02-04 10:00:00.000  100  100 I Old: before the run",
+    "2026-02-04 10:00:05.250  100  100 E App: crash",
+    "    at com.example.Main.run(Main.java:10)",
+    "2026-02-04 10:00:09.000  100  100 I New: after the run",
+  ].join("\n");
+  const start = Date.UTC(2026, 1, 4, 10, 0, 5);
+  const end = Date.UTC(2026, 1, 4, 10, 0, 8);
+  assert.equal(
+    trimDeviceLogToWindow(log, "android", start, end),
+    "2026-02-04 10:00:05.250  100  100 E App: crash\n    at com.example.Main.run(Main.java:10)\n"
+  );
+});
+
+test("AXe swipe and key args use points, seconds and HID usage codes", () => {
+  assert.deepEqual(buildAxeSwipeArgs("UDID-123", { x1: 195.4, y1: 600, x2: 195.4, y2: 200 }, 300), [
+    "swipe",
+    "--start-x",
+    "195",
+    "--start-y",
+    "600",
+    "--end-x",
+    "195",
+    "--end-y",
+    "200",
+    "--duration",
+    "0.3",
+    "--udid",
+    "UDID-123",
+  ]);
+  assert.deepEqual(buildAxeKeyArgs("UDID-123", { kind: "button", button: "lock" }), ["button", "lock", "--udid", "UDID-123"]);
+  assert.deepEqual(IOS_KEYS.enter, { kind: "key", keycode: 40 });
+  assert.deepEqual(IOS_KEYS.back, { kind: "edge-swipe" });
+});
+
+test("Android text input quotes shell metacharacters and routes non-ASCII to a helper", () => {
+  assert.deepEqual(buildInputTextArgs("emulator-5554", `a b&c;'d"`), [
+    "-s",
+    "emulator-5554",
+    "shell",
+    "input",
+    "text",
+    `'a%sb&c;'\\''d"'`,
+  ]);
+  assert.equal(canUseInputText("user@example.com $HOME | (x)"), true);
+  assert.equal(canUseInputText("Grüße"), false);
+  assert.equal(canUseInputText("50%s"), false);
+  assert.deepEqual(buildAdbKeyboardArgs("emulator-5554", "héllo 👋").slice(-2), ["msg", Buffer.from("héllo 👋").toString("base64")]);
+  assert.equal(parseAndroidTextStrategy("adb-keyboard"), "adb_keyboard");
+  assert.throws(() => parseAndroidTextStrategy("paste"), /Invalid --strategy/);
+});
+
+test("touch gestures map to adb input and AXe touch commands", () => {
+  assert.deepEqual(buildAdbGestureArgs("emulator-5554", { kind: "long-press", at: { x: 100.4, y: 200 }, durationMs: 1000 }), [
+    "-s",
+    "emulator-5554",
+    "shell",
+    "input",
+    "swipe",
+    "100",
+    "200",
+    "100",
+    "200",
+    "1000",
+  ]);
+  assert.deepEqual(buildAdbGestureArgs("emulator-5554", { kind: "double-tap", at: { x: 10, y: 20 } }).slice(3), ["input tap 10 20; input tap 10 20"]);
+  const drag = { kind: "drag", from: { x: 10, y: 20 }, to: { x: 30, y: 40 }, durationMs: 1500 } as const;
+  assert.deepEqual(buildAdbGestureArgs("emulator-5554", drag).slice(3), ["input", "draganddrop", "10", "20", "30", "40", "1500"]);
+  assert.deepEqual(adbMotionDragArgs("emulator-5554", drag).slice(3), [
+    "input motionevent DOWN 10 20; sleep 1.500; input motionevent MOVE 30 40; input motionevent UP 30 40",
+  ]);
+  assert.deepEqual(buildAxeTouchArgs("UDID-123", { x: 50, y: 60 }, 800), ["touch", "-x", "50", "-y", "60", "--down", "--up", "--delay", "0.8", "--udid", "UDID-123"]);
+});
+
+test("pinch drives two fingers through sendevent on the multi-touch screen", () => {
+  const getevent = [
+    "add device 1: /dev/input/event0",
+    '  name:     "qwerty2"',
+    "  events:",
+    "    KEY (0001): KEY_ESC KEY_1",
+    "add device 2: /dev/input/event2",
+    '  name:     "virtio_input_multi_touch_1"',
+    "  events:",
+    "    KEY (0001): BTN_TOUCH",
+    "    ABS (0003): ABS_MT_SLOT           : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0",
+    "                ABS_MT_POSITION_X     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0",
+    "                ABS_MT_POSITION_Y     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0",
+    "                ABS_MT_TRACKING_ID    : value 0, min 0, max 10, fuzz 0, flat 0, resolution 0",
+    "  input props:",
+    "    INPUT_PROP_DIRECT",
+  ].join("\n");
+  const touch = parseGeteventTouchscreen(getevent);
+  assert.deepEqual(touch, { path: "/dev/input/event2", x: { min: 0, max: 32767 }, y: { min: 0, max: 32767 } });
+  assert.equal(parseGeteventTouchscreen(getevent.split("add device 2")[0]!), null);
+
+  const zoomIn = { kind: "pinch", at: { x: 500, y: 1000 }, scale: 2, radiusPx: 400, durationMs: 250 } as const;
+  const frames = pinchFrames(zoomIn, 4);
+  assert.deepEqual(frames[0], [{ x: 300, y: 1000 }, { x: 700, y: 1000 }]);
+  assert.deepEqual(frames[4], [{ x: 100, y: 1000 }, { x: 900, y: 1000 }]);
+  assert.deepEqual(pinchFrames({ ...zoomIn, scale: 0.5 }, 4)[4], [{ x: 300, y: 1000 }, { x: 700, y: 1000 }]);
+
+  const args = adbSendeventPinchArgs("emulator-5554", zoomIn, touch!, { w: 1001, h: 2001 });
+  assert.deepEqual(args.slice(0, 3), ["-s", "emulator-5554", "shell"]);
+  const script = args[3]!.split("; ");
+  assert.deepEqual(script.slice(0, 10), [
+    "sendevent /dev/input/event2 3 47 0",
+    "sendevent /dev/input/event2 3 57 1",
+    "sendevent /dev/input/event2 3 47 1",
+    "sendevent /dev/input/event2 3 57 2",
+    "sendevent /dev/input/event2 3 47 0",
+    "sendevent /dev/input/event2 3 53 9830",
+    "sendevent /dev/input/event2 3 54 16384",
+    "sendevent /dev/input/event2 3 47 1",
+    "sendevent /dev/input/event2 3 53 22937",
+    "sendevent /dev/input/event2 3 54 16384",
+  ]);
+  assert.equal(script.filter((c) => c.startsWith("sleep ")).length, 5);
+  assert.deepEqual(script.slice(-6), [
+    "sendevent /dev/input/event2 3 47 0",
+    "sendevent /dev/input/event2 3 57 -1",
+    "sendevent /dev/input/event2 3 47 1",
+    "sendevent /dev/input/event2 3 57 -1",
+    "sendevent /dev/input/event2 1 330 0",
+    "sendevent /dev/input/event2 0 0 0",
+  ]);
+});
+
+test("Android recordings are chunked at the screenrecord limit and stitched with ffmpeg concat", () => {
+  assert.equal(nextChunkSeconds(null, 500_000), ANDROID_SCREENRECORD_MAX_S);
+  assert.equal(nextChunkSeconds(300_000, 0), 180);
+  assert.equal(nextChunkSeconds(300_000, 180_400), 119);
+  assert.equal(nextChunkSeconds(30_000, 30_200), 0);
+  assert.deepEqual(buildScreenrecordArgs("emulator-5554", "/sdcard/r-1.mp4", 120), [
+    "-s",
+    "emulator-5554",
+    "shell",
+    "echo $$; exec screenrecord --time-limit 120 /sdcard/r-1.mp4",
+  ]);
+  assert.equal(ffmpegConcatList(["/runs/a/recording-001.mp4", "/runs/it's/recording-002.mp4"]), "file '/runs/a/recording-001.mp4'\nfile '/runs/it'\\''s/recording-002.mp4'\n");
+});
+
+test("shards deal flows round-robin and merge their JUnit reports", () => {
+  assert.deepEqual(splitFlows(["a", "b", "c", "d", "e"], 2), [["a", "c", "e"], ["b", "d"]]);
+  assert.deepEqual(splitFlows(["a"], 3), [["a"]]);
+
+  const shard1 = `<?xml version='1.0' encoding='UTF-8'?>
+<testsuites>
+  <testsuite name="Test Suite" device="iPhone 15" tests="2" failures="1" time="20">
+    <testcase id="login" name="login" classname="login" time="8" status="SUCCESS"/>
+    <testcase id="checkout" name="checkout" classname="checkout" time="12" status="ERROR"><failure>Element not found &amp; timed out</failure></testcase>
+  </testsuite>
+</testsuites>`;
+  const shard2 = `<testsuites><testsuite name="Test Suite" tests="1" failures="0" time="31"><testcase name="search" time="31"/></testsuite></testsuites>`;
+  const { xml, totals } = mergeJUnitReports([
+    { shard: "shard-1 iPhone 15", xml: shard1 },
+    { shard: "shard-2 iPhone 15 Pro", xml: shard2 },
+    { shard: "shard-3", xml: null, error: 'maestro exited (code=1) without a "report"' },
+  ]);
+  assert.deepEqual(totals, { tests: 4, failures: 1, errors: 1, time: 31 });
+  const suites = parseJUnitSuites(xml);
+  assert.deepEqual(
+    suites.map((s) => s.attrs.name),
+    ["Test Suite (shard-1 iPhone 15)", "Test Suite (shard-2 iPhone 15 Pro)", "shard-3"]
+  );
+  assert.equal(suites[0]!.attrs.device, "iPhone 15");
+  assert.match(suites[0]!.body, /Element not found &amp; timed out/);
+  assert.match(suites[2]!.body, /<error message="maestro exited \(code=1\) without a &quot;report&quot;"\/>/);
+  assert.match(xml, /^<\?xml[^>]*\?>\n<testsuites tests="4" failures="1" errors="1" time="31">/);
+});
@@ -2,10 +2,31 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import fs from "node:fs/promises";
 import path from "node:path";
+import os from "node:os";
 
 import { getHelpText, HELP_CANON } from "../src/helpCanon.js";
-import { buildSnapshot, parseAndroidUiautomatorXml, parseIOSAxeDescribeUI } from "../src/lib/uiSnapshot.js";
-import { parseSelectorToken, resolveTapTarget } from "../src/lib/selector.js";
+import { axeScreenSize, buildSnapshot, parseAndroidUiautomatorXml, parseIOSAxeDescribeUI } from "../src/lib/uiSnapshot.js";
+import { parseSelectorToken, resolveTapTarget, splitSelectorClauses } from "../src/lib/selector.js";
+import { parseDurationMs } from "../src/lib/duration.js";
+import { applyLiveRequestEnv, liveRequestEnv, looksLikeHttp, parseLiveRequest } from "../src/lib/live.js";
+import { parseReplRequest, replRequestIdOrNull } from "../src/lib/repl.js";
+import { diffSnapshots } from "../src/lib/uiDiff.js";
+import { checkWaitCondition, createStabilityCheck, parseWaitCondition } from "../src/lib/uiWait.js";
+import { centerInside, directionSwipe, scrollSwipe, snapshotViewport } from "../src/lib/gesture.js";
+import { decodePNG, encodePNG } from "../src/lib/png.js";
+import { diffImages, parseRect, scaleBounds, screenshotScale } from "../src/lib/imageDiff.js";
+import { annotateScreenshot } from "../src/lib/annotate.js";
+import { flowTargetFor, renderMaestroFlow } from "../src/lib/flowRecord.js";
+import { auditSnapshot, auditToSarif, minTargetSize, parseWmDensity } from "../src/lib/a11yAudit.js";
+import { parseYamlDocuments, yamlToJs, YamlSyntaxError, YamlUnsupportedError } from "../src/lib/yaml.js";
+import { lintFlow } from "../src/lib/flowLint.js";
+import { filterRuns, resolveRun, summarizeRun } from "../src/lib/runLookup.js";
+import type { RunInfo } from "../src/lib/gc.js";
+import { exportRunBundle, importRunBundle } from "../src/lib/runBundle.js";
+import { readTarGz, TarWriter } from "../src/lib/tar.js";
+import { computeFlowStats, flowHistoryFromResult, percentile, topFlakyFlows } from "../src/lib/flowHistory.js";
+import { parseJUnitCases, renderJUnitReport } from "../src/lib/junit.js";
+import { classifyFlowAttempts, flowFilesByName, readMaestroResults, summarizeMaestroResults } from "../src/lib/maestroResults.js";
 
 test("help canon map matches plans/CLI_HELP_CANON.md", async () => {
   const mdPath = path.resolve("plans/CLI_HELP_CANON.md");
@@ -94,3 +115,947 @@ test("selector parsing and resolution (ref/text/id/coords)", () => {
   assert.equal(coordsTarget.x, 50);
   assert.equal(coordsTarget.y, 60);
 });
+
+test("live request parsing rejects HTTP and malformed payloads", () => {
+  assert.equal(looksLikeHttp("GET / HTTP/1.1\r\nHost: localhost\r\n\r\n"), true);
+  assert.equal(looksLikeHttp('{"id":1,"op":"status"}'), false);
+
+  assert.deepEqual(parseLiveRequest('{"id":1,"op":"exec","argv":["ui","snapshot"],"cwd":"/tmp"}'), {
+    id: 1,
+    op: "exec",
+    argv: ["ui", "snapshot"],
+    cwd: "/tmp",
+  });
+  assert.deepEqual(parseLiveRequest('{"id":"s","op":"status"}'), { id: "s", op: "status" });
+  assert.throws(() => parseLiveRequest("not json"), /not JSON/);
+  assert.throws(() => parseLiveRequest('{"op":"status"}'), /missing id/);
+  assert.throws(() => parseLiveRequest('{"id":1,"op":"exec","argv":["ui"],"cwd":"relative"}'), /absolute path/);
+  assert.deepEqual(parseLiveRequest('{"id":1,"op":"exec","argv":["ui"],"cwd":"/tmp","env":{"PATH":"/bin"}}'), {
+    id: 1,
+    op: "exec",
+    argv: ["ui"],
+    cwd: "/tmp",
+    env: { PATH: "/bin" },
+  });
+  assert.throws(() => parseLiveRequest('{"id":1,"op":"exec","argv":["ui"],"cwd":"/tmp","env":{"PATH":1}}'), /env must map/);
+});
+
+test("live requests carry the caller's tool environment and apply it for one request", () => {
+  assert.deepEqual(liveRequestEnv({ MOBILE_DEV_AGENT_AXE_PATH: "/opt/axe", ANDROID_HOME: "/sdk", HOME: "/root", TERM: "xterm" }), {
+    MOBILE_DEV_AGENT_AXE_PATH: "/opt/axe",
+    ANDROID_HOME: "/sdk",
+  });
+  const before = { ...process.env };
+  process.env.MOBILE_DEV_AGENT_TEST_ONLY = "daemon";
+  try {
+    const restore = applyLiveRequestEnv({ MOBILE_DEV_AGENT_AXE_PATH: "/caller/axe", PATH: "/caller/bin" });
+    assert.equal(process.env.MOBILE_DEV_AGENT_AXE_PATH, "/caller/axe");
+    assert.equal(process.env.PATH, "/caller/bin");
+    assert.equal(process.env.MOBILE_DEV_AGENT_TEST_ONLY, undefined);
+    restore();
+    assert.equal(process.env.MOBILE_DEV_AGENT_TEST_ONLY, "daemon");
+    assert.equal(process.env.PATH, before.PATH);
+    assert.equal(process.env.MOBILE_DEV_AGENT_AXE_PATH, before.MOBILE_DEV_AGENT_AXE_PATH);
+  } finally {
+    delete process.env.MOBILE_DEV_AGENT_TEST_ONLY;
+  }
+});
+
+test("parseDurationMs accepts unit suffixes", () => {
+  assert.equal(parseDurationMs("250"), 250);
+  assert.equal(parseDurationMs("1.5s"), 1500);
+  assert.equal(parseDurationMs("10m"), 600_000);
+  assert.equal(parseDurationMs("2h"), 7_200_000);
+  assert.throws(() => parseDurationMs("soon", "--ttl"), /--ttl/);
+});
+
+test("repl request parsing validates id and argv", () => {
+  assert.deepEqual(parseReplRequest('{"id":1,"argv":["ui","tap","@e3"]}'), { id: 1, argv: ["ui", "tap", "@e3"] });
+  assert.throws(() => parseReplRequest('{"argv":["ui"]}'), /id must be/);
+  assert.throws(() => parseReplRequest('{"id":1,"argv":[]}'), /non-empty array/);
+  assert.equal(replRequestIdOrNull('{"id":"a","argv":"ui"}'), "a");
+  assert.equal(replRequestIdOrNull("nope"), null);
+});
+
+test("ui diff reports added, removed, renamed, moved and state changes", () => {
+  const before = buildSnapshot({
+    platform: "ios",
+    deviceId: "UDID-123",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      {
+        children: [
+          { role: "AXButton", label: "Edit", id: "btnEdit", frame: { x: 10, y: 20, width: 100, height: 40 } },
+          { role: "AXButton", label: "Save", id: "btnSave", enabled: true, frame: { x: 10, y: 80, width: 100, height: 40 } },
+          { role: "AXButton", label: "Delete", frame: { x: 10, y: 140, width: 100, height: 40 } },
+        ],
+      },
+      { interactiveOnly: false }
+    ),
+  });
+  const after = buildSnapshot({
+    platform: "ios",
+    deviceId: "UDID-123",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      {
+        children: [
+          { role: "AXButton", label: "Done", id: "btnEdit", frame: { x: 10, y: 20, width: 100, height: 40 } },
+          { role: "AXButton", label: "Save", id: "btnSave", enabled: false, frame: { x: 10, y: 200, width: 100, height: 40 } },
+          { role: "AXButton", label: "Cancel", frame: { x: 10, y: 260, width: 100, height: 40 } },
+        ],
+      },
+      { interactiveOnly: false }
+    ),
+  });
+
+  const diff = diffSnapshots(before, after);
+  assert.deepEqual(diff.renamed.map((c) => [c.from, c.to]), [["Edit", "Done"]]);
+  assert.deepEqual(diff.moved.map((c) => [c.name, c.from.y, c.to.y]), [["Save", 80, 200]]);
+  assert.deepEqual(diff.state_changed.map((c) => [c.name, c.from, c.to]), [["Save", { enabled: true }, { enabled: false }]]);
+  assert.deepEqual(diff.removed.map((e) => e.name), ["Delete"]);
+  assert.deepEqual(diff.added.map((e) => e.name), ["Cancel"]);
+  assert.equal(diff.unchanged, 0);
+  assert.equal(diffSnapshots(after, after).unchanged, 3);
+});
+
+test("refs stay stable across snapshots and stale refs fail loudly", () => {
+  const snap = (children: unknown[], previous: unknown = null) =>
+    buildSnapshot({
+      platform: "ios",
+      deviceId: "UDID-123",
+      appId: null,
+      elements: parseIOSAxeDescribeUI({ children }, { interactiveOnly: false }),
+      previous,
+    });
+  const first = snap([
+    { role: "AXButton", label: "Back", frame: { x: 0, y: 40, width: 60, height: 40 } },
+    { role: "AXButton", label: "Delete", id: "btnDelete", frame: { x: 10, y: 140, width: 100, height: 40 } },
+    { role: "AXButton", label: "Save", frame: { x: 10, y: 200, width: 100, height: 40 } },
+  ]);
+  assert.deepEqual(Object.keys(first.refs), ["e1", "e2", "e3"]);
+
+  // A banner pushes content down, Delete is renamed but keeps its id, Save disappears.
+  const second = snap(
+    [
+      { role: "AXStaticText", label: "Saved", frame: { x: 0, y: 0, width: 300, height: 30 } },
+      { role: "AXButton", label: "Back", frame: { x: 0, y: 70, width: 60, height: 40 } },
+      { role: "AXButton", label: "Remove", id: "btnDelete", frame: { x: 10, y: 170, width: 100, height: 40 } },
+    ],
+    first
+  );
+  assert.deepEqual(
+    second.elements.map((e) => [e.ref, e.name]),
+    [
+      ["e4", "Saved"],
+      ["e1", "Back"],
+      ["e2", "Remove"],
+    ]
+  );
+  assert.equal(second.ref_seq, 4);
+
+  assert.equal(resolveTapTarget(second, parseSelectorToken("@e2")).y, 190);
+  assert.throws(
+    () => resolveTapTarget(second, parseSelectorToken("@e3")),
+    (err: unknown) => (err as { code?: string }).code === "STALE_REF"
+  );
+  assert.throws(() => resolveTapTarget(second, parseSelectorToken("@e9")), /No matching element/);
+
+  // Snapshots of another device start a fresh lineage.
+  const other = buildSnapshot({ platform: "ios", deviceId: "UDID-999", appId: null, elements: [], previous: second });
+  assert.equal(other.ref_seq, 0);
+});
+
+test("snapshots keep the hierarchy and selectors can be scoped to an ancestor", () => {
+  const cell = (name: string, y: number) => ({
+    role: "AXCell",
+    label: name,
+    frame: { x: 0, y, width: 390, height: 60 },
+    children: [
+      { role: "AXStaticText", frame: { x: 16, y: y + 20, width: 200, height: 20 } },
+      { role: "AXButton", label: "Delete", frame: { x: 300, y: y + 10, width: 80, height: 40 } },
+    ],
+  });
+  const raw = { role: "AXTable", label: "Invoices", frame: { x: 0, y: 0, width: 390, height: 600 }, children: [cell("Invoice 41", 0), cell("Invoice 42", 60)] };
+
+  const full = buildSnapshot({ platform: "ios", deviceId: "UDID-123", appId: null, elements: parseIOSAxeDescribeUI(raw, { interactiveOnly: false }) });
+  const table = full.elements[0];
+  assert.equal(table.depth, 0);
+  assert.equal(table.children.length, 2);
+  assert.equal(full.refs[table.children[1]].name, "Invoice 42");
+  assert.match(full.tree, /^@e1 \[axtable\] "Invoices"/);
+  assert.match(full.tree, /\n {4}@e\d+ \[button\] "Delete"/);
+
+  // Interactive-only keeps labeled ancestors as context, so scoping still works.
+  const interactive = buildSnapshot({ platform: "ios", deviceId: "UDID-123", appId: null, elements: parseIOSAxeDescribeUI(raw, { interactiveOnly: true }) });
+  assert.deepEqual(
+    interactive.elements.map((e) => [e.name, e.depth]),
+    [
+      ["Invoices", 0],
+      ["Invoice 41", 1],
+      ["Delete", 2],
+      ["Invoice 42", 1],
+      ["Delete", 2],
+    ]
+  );
+  const target = resolveTapTarget(interactive, parseSelectorToken('text:"Invoice 42" >> text:"Delete"'));
+  assert.equal(target.kind, "element");
+  assert.equal(target.y, 90);
+  assert.equal(target.element.parent_ref, interactive.elements[3].ref);
+  assert.throws(() => resolveTapTarget(interactive, parseSelectorToken('text:"Invoice 43" >> text:"Delete"')), /Invoice 43/);
+
+  const xml = `<hierarchy><node class="android.widget.FrameLayout" bounds="[0,0][1080,1920]"><node text="" class="android.widget.LinearLayout" content-desc="Invoice 42" bounds="[0,100][1080,200]"><node text="Delete" class="android.widget.Button" clickable="true" bounds="[900,120][1060,180]" /></node></node></hierarchy>`;
+  const android = parseAndroidUiautomatorXml(xml, { interactiveOnly: true });
+  assert.deepEqual(
+    android.map((e) => [e.name, e.parent]),
+    [
+      ["Invoice 42", null],
+      ["Delete", 0],
+    ]
+  );
+});
+
+test("context ancestors do not compete with a same-named button inside them", () => {
+  const raw = {
+    role: "AXCell",
+    label: "Wi-Fi",
+    frame: { x: 0, y: 100, width: 390, height: 60 },
+    children: [{ role: "AXButton", label: "Wi-Fi", frame: { x: 300, y: 110, width: 80, height: 40 } }],
+  };
+  const snapshot = buildSnapshot({ platform: "ios", deviceId: "UDID-123", appId: null, elements: parseIOSAxeDescribeUI(raw, { interactiveOnly: true }) });
+  assert.deepEqual(
+    snapshot.elements.map((e) => [e.role, e.context ?? false]),
+    [
+      ["axcell", true],
+      ["button", false],
+    ]
+  );
+  const roleOf = (token: string) => {
+    const target = resolveTapTarget(snapshot, parseSelectorToken(token));
+    return target.kind === "element" ? target.element.role : null;
+  };
+  assert.equal(roleOf('text:"Wi-Fi"'), "button");
+  assert.equal(roleOf("id=Wi-Fi"), "button");
+  assert.equal(roleOf('text:"Wi-Fi" >> text:"Wi-Fi"'), "button");
+  assert.equal(roleOf('role=axcell text:"Wi-Fi"'), "axcell");
+  assert.equal(roleOf(`@${snapshot.elements[0].ref}`), "axcell");
+
+  // Full snapshots have no context elements, so the same text is ambiguous there.
+  const full = buildSnapshot({ platform: "ios", deviceId: "UDID-123", appId: null, elements: parseIOSAxeDescribeUI(raw, { interactiveOnly: false }) });
+  assert.equal(full.elements.some((e) => e.context), false);
+  assert.throws(
+    () => resolveTapTarget(full, parseSelectorToken('text:"Wi-Fi"')),
+    (err: unknown) => (err as { code?: string }).code === "AMBIGUOUS_SELECTOR"
+  );
+
+  const xml = `<hierarchy><node text="" class="android.widget.LinearLayout" content-desc="Wi-Fi" bounds="[0,100][1080,200]"><node text="Wi-Fi" class="android.widget.Button" clickable="true" bounds="[900,120][1060,180]" /></node></hierarchy>`;
+  const android = buildSnapshot({ platform: "android", deviceId: "emulator-5554", appId: null, elements: parseAndroidUiautomatorXml(xml, { interactiveOnly: true }) });
+  const target = resolveTapTarget(android, parseSelectorToken('text:"Wi-Fi"'));
+  assert.equal(target.kind === "element" && target.element.role, "button");
+});
+
+test("rich selectors combine clauses, relations and ambiguity errors", () => {
+  const snapshot = buildSnapshot({
+    platform: "ios",
+    deviceId: "UDID-123",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      {
+        children: [
+          { role: "AXStaticText", label: "Email", frame: { x: 20, y: 100, width: 80, height: 20 } },
+          { role: "AXTextField", label: "Email field", value: "me@example.com", frame: { x: 20, y: 130, width: 300, height: 40 } },
+          { role: "AXStaticText", label: "Password", frame: { x: 20, y: 190, width: 80, height: 20 } },
+          { role: "AXTextField", label: "Password field", value: "", frame: { x: 20, y: 220, width: 300, height: 40 } },
+          { role: "AXButton", label: "Sign in", frame: { x: 20, y: 300, width: 140, height: 44 } },
+          { role: "AXButton", label: "Sign up", enabled: false, frame: { x: 180, y: 300, width: 140, height: 44 } },
+          { role: "AXButton", label: "Continue with Apple", frame: { x: 20, y: 360, width: 300, height: 44 } },
+        ],
+      },
+      { interactiveOnly: false }
+    ),
+  });
+  const resolve = (token: string) => resolveTapTarget(snapshot, parseSelectorToken(token));
+  const nameOf = (token: string) => {
+    const target = resolve(token);
+    return target.kind === "element" ? target.element.name : null;
+  };
+
+  assert.deepEqual(splitSelectorClauses('role=button name~="Sign in" text:/a b/i within:(text:"x y")'), [
+    "role=button",
+    'name~="Sign in"',
+    "text:/a b/i",
+    'within:(text:"x y")',
+  ]);
+  assert.equal(nameOf("role=button state=enabled name~=sign"), "Sign in");
+  assert.equal(nameOf("text:/^continue/i"), "Continue with Apple");
+  assert.equal(nameOf('value:"me@example.com"'), "Email field");
+  assert.equal(nameOf("role=button name~=Sign nth=2"), "Sign up");
+  assert.equal(nameOf('role=textbox below:text:"Password"'), "Password field");
+  assert.equal(nameOf('role=textbox below:(role=axstatictext name="Email")'), "Email field");
+  assert.equal(nameOf('role=button right-of:text:"Sign in"'), "Sign up");
+  assert.equal(nameOf("text:Sign in"), "Sign in");
+
+  assert.throws(
+    () => resolve("role=button name~=Sign"),
+    (err: unknown) => {
+      const e = err as { code?: string; details?: string[] };
+      return e.code === "AMBIGUOUS_SELECTOR" && e.details?.[0]?.includes('"Sign in"') === true;
+    }
+  );
+  assert.throws(() => resolve("role=button nth=9"), /No matching element/);
+  assert.throws(() => parseSelectorToken("state=sleepy"), /Unknown state/);
+  assert.throws(() => parseSelectorToken("text:/(/"), /Invalid regex/);
+  assert.throws(() => parseSelectorToken('within:(text:"x"'), /Unterminated/);
+});
+
+test("ui wait conditions evaluate selectors and screen stability", () => {
+  const snap = (children: unknown[]) =>
+    buildSnapshot({ platform: "ios", deviceId: "UDID-123", appId: null, elements: parseIOSAxeDescribeUI({ children }, { interactiveOnly: false }) });
+  const loading = snap([{ role: "AXButton", label: "Pay", enabled: false, frame: { x: 0, y: 0, width: 100, height: 40 } }]);
+  const readyChildren = [
+    { role: "AXButton", label: "Pay", enabled: true, frame: { x: 0, y: 0, width: 100, height: 40 } },
+    { role: "AXTextField", label: "Total", value: "$42", frame: { x: 0, y: 60, width: 100, height: 40 } },
+  ];
+  const ready = snap(readyChildren);
+  const pay = parseSelectorToken('text:"Pay"');
+
+  assert.equal(checkWaitCondition({ condition: "enabled", selector: pay }, loading).satisfied, false);
+  assert.equal(checkWaitCondition({ condition: "enabled", selector: pay }, ready).element?.name, "Pay");
+  assert.equal(checkWaitCondition({ condition: "appears", selector: parseSelectorToken("role=textbox") }, loading).satisfied, false);
+  assert.equal(checkWaitCondition({ condition: "disappears", selector: parseSelectorToken("role=textbox") }, loading).satisfied, true);
+  assert.equal(checkWaitCondition({ condition: "value-equals", selector: parseSelectorToken("role=textbox"), value: "$42" }, ready).satisfied, true);
+  assert.deepEqual(
+    { ...checkWaitCondition({ condition: "count", selector: parseSelectorToken("name~=a"), count: 2 }, ready), element: null },
+    { satisfied: true, element: null, match_count: 2 }
+  );
+  assert.throws(() => parseWaitCondition("visible"), /Invalid --for/);
+
+  const stable = createStabilityCheck(2);
+  assert.deepEqual(stable(loading), { satisfied: false, streak: 1 });
+  assert.deepEqual(stable(ready), { satisfied: false, streak: 1 });
+  assert.deepEqual(stable(snap(readyChildren)), { satisfied: true, streak: 2 });
+});
+
+test("scroll gestures swipe against the scroll direction inside the viewport", () => {
+  const viewport = { x: 0, y: 100, w: 400, h: 800 };
+  assert.deepEqual(scrollSwipe(viewport, "down"), { x1: 200, y1: 700, x2: 200, y2: 300 });
+  assert.deepEqual(scrollSwipe(viewport, "up"), { x1: 200, y1: 300, x2: 200, y2: 700 });
+  assert.deepEqual(scrollSwipe(viewport, "right"), { x1: 300, y1: 500, x2: 100, y2: 500 });
+  assert.deepEqual(directionSwipe({ x: 10, y: 10 }, "left", 5), { x1: 10, y1: 10, x2: 5, y2: 10 });
+
+  const snapshot = buildSnapshot({
+    platform: "ios",
+    deviceId: "UDID-123",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      {
+        children: [
+          { role: "AXButton", label: "Top", frame: { x: 0, y: 0, width: 390, height: 44 } },
+          { role: "AXButton", label: "Bottom", frame: { x: 0, y: 800, width: 390, height: 44 } },
+          { role: "AXButton", label: "Hidden", visible: false, frame: { x: 0, y: 2000, width: 390, height: 44 } },
+        ],
+      },
+      { interactiveOnly: false }
+    ),
+  });
+  assert.deepEqual(snapshotViewport(snapshot), { x: 0, y: 0, w: 390, h: 844 });
+  assert.equal(centerInside({ x: 0, y: 800, w: 390, h: 44 }, { x: 0, y: 0, w: 390, h: 820 }), false);
+});
+
+test("PNG codec round-trips RGBA and decodes palette images", async () => {
+  const zlib = await import("node:zlib");
+  const image = { width: 3, height: 2, data: Uint8Array.from([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255]) };
+  assert.deepEqual(decodePNG(encodePNG(image)), image);
+  // Chunk CRCs are computed without zlib.crc32 (Node 22.2+); IEND's is the well-known AE 42 60 82.
+  assert.equal(encodePNG(image).subarray(-4).toString("hex"), "ae426082");
+
+  // 2x1, 2-bit palette: index 1 (green, opaque) then index 0 (red, transparent via tRNS).
+  const chunk = (type: string, body: Buffer) => {
+    const len = Buffer.alloc(4);
+    len.writeUInt32BE(body.length);
+    return Buffer.concat([len, Buffer.from(type, "latin1"), body, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.from([0, 0, 0, 2, 0, 0, 0, 1, 2, 3, 0, 0, 0]);
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    chunk("PLTE", Buffer.from([255, 0, 0, 0, 255, 0])),
+    chunk("tRNS", Buffer.from([0])),
+    chunk("IDAT", zlib.deflateSync(Buffer.from([0, 0b01000000]))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+  assert.deepEqual(Array.from(decodePNG(png).data), [0, 255, 0, 255, 255, 0, 0, 0]);
+});
+
+test("image diff counts mismatches outside ignore regions and scales iOS bounds", () => {
+  const solid = (w: number, h: number, v: number) => ({ width: w, height: h, data: new Uint8Array(w * h * 4).fill(v) });
+  const baseline = solid(4, 4, 200);
+  const actual = solid(4, 4, 200);
+  actual.data.set([0, 0, 0, 255], 0); // (0,0) changed
+  actual.data.set([0, 0, 0, 255], (3 * 4 + 3) * 4); // (3,3) changed, but ignored below
+  actual.data.set([210, 210, 210, 200], (1 * 4 + 1) * 4); // within threshold
+
+  const result = diffImages(baseline, actual, { threshold: 0.1, ignore: [parseRect("rect:3,3,1,1")] });
+  assert.equal(result.mismatched_pixels, 1);
+  assert.equal(result.ignored_pixels, 1);
+  assert.equal(result.compared_pixels, 15);
+  assert.equal(result.mismatch_pct, 6.6667);
+  assert.deepEqual(Array.from(result.diff.data.subarray(0, 4)), [255, 0, 0, 255]);
+  assert.throws(() => parseRect("rect:1,2,3"), /Invalid rect/);
+
+  const ios = buildSnapshot({
+    platform: "ios",
+    deviceId: "SIM-1",
+    appId: null,
+    elements: parseIOSAxeDescribeUI([{ type: "Application", AXLabel: "App", frame: { x: 0, y: 0, width: 390, height: 844 }, children: [] }], {
+      interactiveOnly: false,
+    }),
+  });
+  assert.equal(screenshotScale(1170, ios), 3);
+  assert.deepEqual(scaleBounds({ x: 10, y: 20, w: 30, h: 40 }, 3), { x: 30, y: 60, w: 90, h: 120 });
+});
+
+test("annotated screenshots box element bounds in pixels and label refs", () => {
+  const snapshot = buildSnapshot({
+    platform: "ios",
+    deviceId: "SIM-1",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      [
+        {
+          type: "Application",
+          AXLabel: "App",
+          frame: { x: 0, y: 0, width: 100, height: 200 },
+          children: [{ type: "Button", AXLabel: "OK", frame: { x: 10, y: 40, width: 40, height: 20 }, children: [] }],
+        },
+      ],
+      { interactiveOnly: false },
+    ),
+  });
+  const screenshot = { width: 300, height: 600, data: new Uint8Array(300 * 600 * 4).fill(255) };
+  const annotated = annotateScreenshot(screenshot, snapshot);
+  const px = (x: number, y: number) => Array.from(annotated.data.subarray((y * 300 + x) * 4, (y * 300 + x) * 4 + 4));
+
+  // The button (points 10,40 40x20) is boxed at 3x: 30,120 120x60, with its label just above the box.
+  assert.notDeepEqual(px(30, 120), [255, 255, 255, 255]);
+  assert.notDeepEqual(px(149, 179), [255, 255, 255, 255]);
+  assert.deepEqual(px(90, 150), [255, 255, 255, 255]);
+  assert.deepEqual(px(30, 111), px(30, 120));
+  // The full-screen application frame is not boxed, and the input is left untouched.
+  assert.deepEqual(px(0, 599), [255, 255, 255, 255]);
+  assert.equal(screenshot.data.every((v) => v === 255), true);
+});
+
+test("annotated screenshots of interactive-only snapshots scale by the recorded screen, not the widest element", () => {
+  // Unlabeled root: -i keeps only the narrow button, which alone would suggest a 6.7x (capped 3x) scale on a 2x screen.
+  const raw = [
+    {
+      type: "Application",
+      frame: { x: 0, y: 0, width: 100, height: 200 },
+      children: [{ type: "Button", AXLabel: "Back", frame: { x: 10, y: 40, width: 20, height: 20 }, children: [] }],
+    },
+  ];
+  const elements = parseIOSAxeDescribeUI(raw, { interactiveOnly: true });
+  assert.deepEqual(elements.map((e) => e.name), ["Back"]);
+  const snapshot = buildSnapshot({ platform: "ios", deviceId: "SIM-1", appId: null, elements, screen: axeScreenSize(raw) });
+  assert.deepEqual(snapshot.screen, { w: 100, h: 200 });
+  assert.equal(screenshotScale(200, snapshot), 2);
+  assert.equal(screenshotScale(200, { ...snapshot, screen: undefined }), 3);
+
+  const annotated = annotateScreenshot({ width: 200, height: 400, data: new Uint8Array(200 * 400 * 4).fill(255) }, snapshot);
+  const px = (x: number, y: number) => Array.from(annotated.data.subarray((y * 200 + x) * 4, (y * 200 + x) * 4 + 4));
+  // The button (points 10,40 20x20) is boxed at 2x: 20,80 40x40.
+  assert.notDeepEqual(px(20, 80), [255, 255, 255, 255]);
+  assert.notDeepEqual(px(59, 119), [255, 255, 255, 255]);
+  assert.deepEqual(px(40, 100), [255, 255, 255, 255]);
+});
+
+test("ui audit flags unlabeled, small, duplicate and disabled elements", () => {
+  const xml = `<?xml version="1.0"?><hierarchy>
+<node class="android.widget.FrameLayout" bounds="[0,0][1080,2400]">
+<node class="android.widget.Button" text="Save" resource-id="app:id/save1" clickable="true" bounds="[0,0][300,168]" />
+<node class="android.widget.Button" text="Save" resource-id="app:id/save2" clickable="true" bounds="[0,200][300,368]" />
+<node class="android.widget.ImageButton" resource-id="app:id/close" clickable="true" bounds="[400,0][500,100]" />
+<node class="android.widget.Button" resource-id="app:id/menu" clickable="true" bounds="[600,0][900,168]" />
+<node class="android.widget.EditText" text="alice" resource-id="app:id/user" bounds="[0,400][1080,568]" />
+<node class="android.widget.EditText" text="" content-desc="Password" bounds="[0,600][1080,768]" />
+<node class="android.widget.CheckBox" enabled="false" resource-id="app:id/terms" bounds="[0,800][100,968]" />
+</node></hierarchy>`;
+  const snapshot = buildSnapshot({
+    platform: "android",
+    deviceId: "emulator-5554",
+    appId: null,
+    elements: parseAndroidUiautomatorXml(xml, { interactiveOnly: false }),
+  });
+  const ref = (id: string) => snapshot.elements.find((e) => e.selectors.android.resource_id === `app:id/${id}`)!.ref;
+
+  assert.equal(parseWmDensity("Physical density: 420\nOverride density: 480\n"), 480);
+  assert.equal(minTargetSize("android", 420), 126);
+  assert.equal(minTargetSize("ios", null), 44);
+
+  const report = auditSnapshot(snapshot, { minTarget: minTargetSize("android", 420) });
+  const found = report.findings.map((f) => `${f.rule} ${f.ref}`).sort();
+  assert.deepEqual(
+    found,
+    [
+      `disabled-unlabeled ${ref("terms")}`,
+      `duplicate-label ${ref("save1")}`,
+      `duplicate-label ${ref("save2")}`,
+      `missing-label ${ref("menu")}`,
+      `small-tap-target ${ref("terms")}`,
+      `textbox-unlabeled ${ref("user")}`,
+    ].sort()
+  );
+  assert.deepEqual(report.counts, { error: 2, warning: 3, info: 1 });
+  assert.equal(report.findings[0]!.severity, "error");
+  assert.deepEqual(report.findings.find((f) => f.ref === ref("save1"))!.related_refs, [ref("save2")]);
+
+  const unknownDensity = auditSnapshot(snapshot, { minTarget: minTargetSize("android", null) });
+  assert.deepEqual(unknownDensity.rules_skipped, ["small-tap-target"]);
+
+  const sarif = auditToSarif(report, "mobile-dev-agent@0.2.0") as { version: string; runs: Array<{ results: Array<{ ruleId: string; level: string }> }> };
+  assert.equal(sarif.version, "2.1.0");
+  assert.equal(sarif.runs[0]!.results.length, 6);
+  assert.equal(sarif.runs[0]!.results.find((r) => r.ruleId === "disabled-unlabeled")!.level, "note");
+});
+
+test("recorded ui actions render as a Maestro flow with stable targets", () => {
+  const snapshot = buildSnapshot({
+    platform: "ios",
+    deviceId: "SIM-1",
+    appId: null,
+    elements: parseIOSAxeDescribeUI(
+      [
+        { type: "Button", AXLabel: "Sign in (beta)", AXIdentifier: "signIn", frame: { x: 0, y: 0, width: 100, height: 44 }, children: [] },
+        { type: "Button", AXLabel: "Continue", frame: { x: 0, y: 50, width: 100, height: 44 }, children: [] },
+        { type: "Button", AXLabel: "Delete", frame: { x: 0, y: 100, width: 100, height: 44 }, children: [] },
+        { type: "Button", AXLabel: "Delete", frame: { x: 0, y: 150, width: 100, height: 44 }, children: [] },
+      ],
+      { interactiveOnly: false }
+    ),
+  });
+  const [signIn, cont, del] = snapshot.elements;
+  assert.deepEqual(flowTargetFor(signIn!, { x: 50, y: 22 }, snapshot), { id: "signIn" });
+  assert.deepEqual(flowTargetFor(cont!, { x: 50, y: 72 }, snapshot), { text: "Continue" });
+  assert.deepEqual(flowTargetFor(del!, { x: 50.4, y: 122 }, snapshot), { point: { x: 50, y: 122 } });
+  assert.deepEqual(flowTargetFor(null, { x: 5, y: 6 }, null), { point: { x: 5, y: 6 } });
+
+  const yaml = renderMaestroFlow({
+    app_id: "com.example.app",
+    steps: [
+      { action: "tap", target: { text: "Sign in (beta)" }, ref: "e1", at: "" },
+      { action: "input-text", text: 'say "hi"', at: "" },
+      { action: "swipe", from: { x: 200, y: 600 }, to: { x: 200, y: 300 }, duration_ms: 300, at: "" },
+      { action: "press-key", key: "Enter", at: "" },
+      { action: "long-press", target: { point: { x: 5, y: 6 } }, ref: null, at: "" },
+      { action: "assert-visible", text: "Welcome", at: "" },
+    ],
+  });
+  assert.equal(
+    yaml,
+    [
+      "appId: com.example.app",
+      "---",
+      "- tapOn:",
+      '    text: "Sign in \\\\(beta\\\\)"',
+      '- inputText: "say \\"hi\\""',
+      "- swipe:",
+      '    start: "200, 600"',
+      '    end: "200, 300"',
+      "    duration: 300",
+      "- pressKey: Enter",
+      "- longPressOn:",
+      '    point: "5,6"',
+      "- assertVisible:",
+      '    text: ".*Welcome.*"',
+      "",
+    ].join("\n")
+  );
+  assert.equal(renderMaestroFlow({ app_id: null, steps: [{ action: "press-key", key: "Back", at: "" }] }), "- pressKey: Back\n");
+});
+
+test("YAML reader handles flow-style, quoted, block and compact sequence values with line numbers", () => {
+  const docs = parseYamlDocuments(
+    [
+      "appId: com.example.app # comment",
+      "tags: [smoke, 'login']",
+      "---",
+      "- launchApp",
+      '- tapOn: "Sign in: now"',
+      "- tapOn:",
+      "    id: login",
+      "    index: 2",
+      "- inputText: |",
+      "    line one",
+      "    line two",
+      "- runFlow:",
+      "    commands:",
+      "      - back",
+      "      - swipe: {start: 10%, end: '90%,50%'}",
+      "",
+    ].join("\n")
+  );
+  assert.equal(docs.length, 2);
+  assert.deepEqual(yamlToJs(docs[0]!.node), { appId: "com.example.app", tags: ["smoke", "login"] });
+  assert.deepEqual(yamlToJs(docs[1]!.node), [
+    "launchApp",
+    { tapOn: "Sign in: now" },
+    { tapOn: { id: "login", index: 2 } },
+    { inputText: "line one\nline two\n" },
+    { runFlow: { commands: ["back", { swipe: { start: "10%", end: "90%,50%" } }] } },
+  ]);
+  const commands = docs[1]!.node!;
+  assert.equal(commands.kind, "seq");
+  assert.deepEqual(commands.kind === "seq" ? commands.items.map((i) => i.line) : [], [4, 5, 6, 9, 12]);
+
+  assert.throws(() => parseYamlDocuments("a: 1\na: 2\n"), (e: unknown) => e instanceof YamlSyntaxError && e.line === 2);
+  assert.throws(() => parseYamlDocuments("- tapOn: [a, b\n"), YamlSyntaxError);
+  assert.throws(() => parseYamlDocuments("- tapOn: *u\n"), (e: unknown) => e instanceof YamlUnsupportedError && e.line === 1);
+});
+
+test("flow lint reports unknown commands, bad shapes, headers and missing includes with lines", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-flowlint-"));
+  try {
+    await fs.writeFile(path.join(dir, "login.yaml"), "- tapOn: OK\n- runFlow: main.yaml\n");
+    const flow = [
+      "appId: com.example.app",
+      "---",
+      "- launchApp",
+      "- tappOn: Login",
+      "- tapOn:",
+      "    txt: Login",
+      "- inputText",
+      "- swipe: up",
+      "- runFlow: login.yaml",
+      "- runScript: missing.js",
+      "",
+    ].join("\n");
+    const main = path.join(dir, "main.yaml");
+    const result = await lintFlow(flow, main);
+    assert.equal(result.ok, false);
+    assert.deepEqual(result.files, [main, path.join(dir, "login.yaml")]);
+    assert.deepEqual(
+      result.issues.map((i) => [path.basename(i.file), i.line, i.severity]),
+      [
+        ["main.yaml", 4, "error"],
+        ["main.yaml", 6, "warning"],
+        ["main.yaml", 7, "error"],
+        ["main.yaml", 8, "error"],
+        ["main.yaml", 10, "error"],
+        ["login.yaml", 2, "error"],
+      ]
+    );
+    assert.match(result.issues[0]!.message, /Unknown command "tappOn" \(did you mean "tapOn"\?\)/);
+    assert.match(result.issues[5]!.message, /cycle: main.yaml -> login.yaml -> main.yaml/);
+
+    const noSeparator = await lintFlow("appId: com.example.app\n- launchApp\n", main);
+    assert.deepEqual(noSeparator.issues.map((i) => [i.line, i.message]), [[1, "Missing --- separator between the appId header and the commands"]]);
+    const noHeader = await lintFlow("- launchApp\n", main);
+    assert.match(noHeader.issues[0]!.message, /Missing config section/);
+    // A supplied app id stands in for the header without shifting the lines of the file as written.
+    const supplied = await lintFlow("\n- tapOn: A\n- bogusCmd\n", main, { appId: "com.x" });
+    assert.deepEqual(supplied.issues.map((i) => [i.line, i.message]), [[3, 'Unknown command "bogusCmd"']]);
+    assert.equal((await lintFlow("appId: a\n---\n- launchApp\n- assertVisible:\n    text: Home\n", main)).issues.length, 0);
+    // Anchors are valid YAML the reader does not follow: the file is skipped with a warning, not failed.
+    const anchors = await lintFlow("appId: a\n---\n- tapOn: &u Login\n- assertVisible: *u\n", main);
+    assert.equal(anchors.ok, true);
+    assert.deepEqual(anchors.issues.map((i) => [i.line, i.severity, i.message]), [[3, "warning", "File not checked: Anchors and aliases are not supported"]]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("Maestro results combine JUnit testcases with per-command debug output", async () => {
+  const report = `<?xml version='1.0' encoding='UTF-8'?>
+<testsuites><testsuite name="Test Suite" tests="3" failures="1" time="9">
+  <testcase id="home" name="home" classname="home" time="1.25" status="SUCCESS"/>
+  <testcase id="login" name="login" classname="login" time="5.9" status="ERROR"><failure>Element not found: &quot;Sign in&quot;</failure></testcase>
+  <testcase name="later" time="0"><skipped/></testcase>
+</testsuite></testsuites>`;
+  assert.deepEqual(
+    parseJUnitCases(report).map((c) => [c.name, c.status, c.time_s, c.message]),
+    [
+      ["home", "passed", 1.25, null],
+      ["login", "failed", 5.9, 'Element not found: "Sign in"'],
+      ["later", "skipped", 0, null],
+    ]
+  );
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-maestro-results-"));
+  try {
+    const debug = path.join(dir, "debug", ".maestro", "tests", "2026-01-01_000000");
+    await fs.mkdir(debug, { recursive: true });
+    await fs.writeFile(path.join(dir, "report.xml"), report);
+    await fs.writeFile(
+      path.join(debug, "commands-(login).json"),
+      JSON.stringify([
+        { command: { launchAppCommand: { appId: "com.example.app" } }, metadata: { status: "COMPLETED", duration: 900 } },
+        {
+          command: { tapOnElement: { selector: { textRegex: "Sign in" } } },
+          metadata: { status: "FAILED", duration: 5000, error: { message: "Element not found" } },
+        },
+        { command: { inputTextCommand: { text: "secret" } }, metadata: { status: "SKIPPED" } },
+      ])
+    );
+    await fs.writeFile(path.join(debug, "commands-(orphan).json"), JSON.stringify([{ command: { backPressCommand: {} }, metadata: { status: "FAILED", duration: 10 } }]));
+    await fs.writeFile(path.join(debug, "screenshot-❌-1700000000000-(login).png"), "");
+    await fs.writeFile(path.join(debug, "screenshot-✅-1700000000000-(home).png"), "");
+
+    const flows = await readMaestroResults({ reportPath: path.join(dir, "report.xml"), debugDir: path.join(dir, "debug") });
+    assert.deepEqual(
+      flows.map((f) => [f.name, f.status, f.duration_ms, f.steps.length]),
+      [
+        ["home", "passed", 1250, 0],
+        ["login", "failed", 5900, 3],
+        ["later", "skipped", 0, 0],
+        ["orphan", "failed", 10, 1],
+      ]
+    );
+    const login = flows[1]!;
+    assert.deepEqual(login.failed_step, {
+      index: 1,
+      command: "tapOnElement",
+      detail: 'text "Sign in"',
+      status: "failed",
+      duration_ms: 5000,
+      error: "Element not found",
+    });
+    assert.equal(login.failure, 'Element not found: "Sign in"');
+    assert.deepEqual(login.steps.map((s) => s.status), ["completed", "failed", "skipped"]);
+    assert.deepEqual(login.failure_screenshots.map((p) => path.basename(p)), ["screenshot-❌-1700000000000-(login).png"]);
+    assert.deepEqual(flows[0]!.failure_screenshots, []);
+    assert.deepEqual(summarizeMaestroResults(flows), { total: 4, passed: 1, failed: 2, skipped: 1, flaky: 0 });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("test retries classify flows as flaky and report them in JUnit", async () => {
+  const flow = (name: string, status: "passed" | "failed", failure: string | null = null) => ({
+    name,
+    status,
+    duration_ms: 1000,
+    failure,
+    failed_step: null,
+    steps: [],
+    commands_json: null,
+    failure_screenshots: [],
+  });
+  const flows = classifyFlowAttempts([
+    { attempt: 1, run_dir: "a1", flows: [flow("home", "passed"), flow("login", "failed", "timeout"), flow("pay", "failed", "crash")] },
+    { attempt: 2, run_dir: "a2", flows: [flow("login", "passed"), flow("pay", "failed", "crash")] },
+  ]);
+  assert.deepEqual(
+    flows.map((f) => [f.name, f.status, f.attempts.map((a) => `${a.run_dir}:${a.status}`)]),
+    [
+      ["home", "passed", ["a1:passed"]],
+      ["login", "flaky", ["a1:failed", "a2:passed"]],
+      ["pay", "failed", ["a1:failed", "a2:failed"]],
+    ]
+  );
+  assert.deepEqual(summarizeMaestroResults(flows), { total: 3, passed: 1, failed: 1, skipped: 0, flaky: 1 });
+
+  const xml = renderJUnitReport("Test Suite", [
+    { name: "login", time_s: 1, status: "flaky", message: null, flaky_messages: ["timeout"] },
+    { name: "pay", time_s: 2, status: "failed", message: 'Element "Pay" not found', flaky_messages: [] },
+  ]);
+  assert.match(xml, /<testcase name="login" classname="login" time="1"><flakyFailure message="timeout"\/><\/testcase>/);
+  assert.match(xml, /<failure message="Element &quot;Pay&quot; not found"\/>/);
+  assert.deepEqual(
+    parseJUnitCases(xml).map((c) => [c.name, c.status]),
+    [
+      ["login", "passed"],
+      ["pay", "failed"],
+    ]
+  );
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mda-flow-names-"));
+  try {
+    await fs.writeFile(path.join(dir, "login.yaml"), "appId: a\nname: Sign in\n---\n- launchApp\n");
+    await fs.writeFile(path.join(dir, "home.yml"), "appId: a\n---\n- launchApp\n");
+    const byName = await flowFilesByName([path.join(dir, "login.yaml"), path.join(dir, "home.yml")]);
+    assert.deepEqual([...byName.entries()].map(([n, f]) => [n, path.basename(f)]), [
+      ["Sign in", "login.yaml"],
+      ["home", "home.yml"],
+    ]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("flow history indexes test results and ranks flaky flows", () => {
+  const result = (day: number, flows: Array<{ name: string; status: string; duration_ms: number; attempts?: unknown[] }>) => ({
+    command: { name: "test" },
+    session: "default",
+    platform: "ios",
+    timing: { started_at: `2026-03-0${day}T10:00:00.000Z` },
+    target: { device: { platform: "ios", id: "UDID-1", name: "iPhone 15" }, app: { app_id: "com.example.app" } },
+    data: { app_version: "1.4.2 (87)", flows },
+  });
+  const records = [
+    ...flowHistoryFromResult("r1", result(1, [{ name: "home", status: "passed", duration_ms: 1000 }, { name: "login", status: "failed", duration_ms: 5000 }])),
+    ...flowHistoryFromResult("r2", result(2, [{ name: "home", status: "passed", duration_ms: 3000 }, { name: "login", status: "passed", duration_ms: 4000 }])),
+    ...flowHistoryFromResult(
+      "r3",
+      result(3, [
+        { name: "home", status: "passed", duration_ms: 2000 },
+        { name: "login", status: "flaky", duration_ms: 4500, attempts: [{}, {}] },
+      ])
+    ),
+  ];
+  assert.deepEqual(records[3], {
+    run_id: "r2",
+    started_at: "2026-03-02T10:00:00.000Z",
+    session: "default",
+    flow: "login",
+    status: "passed",
+    duration_ms: 4000,
+    attempts: 1,
+    platform: "ios",
+    device: { id: "UDID-1", name: "iPhone 15" },
+    app_id: "com.example.app",
+    app_version: "1.4.2 (87)",
+  });
+  assert.equal(records[5]!.attempts, 2);
+  assert.deepEqual(flowHistoryFromResult("r4", { command: { name: "flow.run" }, data: { flows: [{ name: "flow", status: "passed" }] } }), []);
+
+  const sharded = flowHistoryFromResult("r5", {
+    command: { name: "test" },
+    platform: "android",
+    timing: { started_at: "2026-03-04T10:00:00.000Z" },
+    target: { device: null, app: null },
+    data: {
+      flows: [{ name: "pay", status: "failed", duration_ms: 10, shard: "shard-2" }],
+      shards: [{ shard: "shard-2", device: { id: "emulator-5556", name: "Pixel_7" }, app_version: "3.0 (1)" }],
+    },
+  });
+  assert.deepEqual([sharded[0]!.device, sharded[0]!.app_version], [{ id: "emulator-5556", name: "Pixel_7" }, "3.0 (1)"]);
+
+  const stats = computeFlowStats(records);
+  assert.deepEqual(
+    stats.map((s) => [s.flow, s.runs, s.passed, s.failed, s.flaky, s.pass_rate, s.flips, s.flakiness, s.p50_ms, s.p95_ms, s.last_status]),
+    [
+      ["home", 3, 3, 0, 0, 1, 0, 0, 2000, 3000, "passed"],
+      ["login", 3, 1, 1, 1, 0.333, 1, 0.667, 4500, 5000, "flaky"],
+    ]
+  );
+  assert.deepEqual(stats[1]!.devices, ["iPhone 15"]);
+  assert.deepEqual(topFlakyFlows(stats, 10).map((s) => s.flow), ["login"]);
+  assert.equal(percentile([], 50), null);
+  assert.equal(percentile([5, 1, 4, 2, 3], 95), 5);
+});
+
+test("runs filter by command, failure, age and session and resolve by id prefix or path", () => {
+  const run = (id: string, ok: boolean | null, command: string | null, session: string | null): RunInfo => ({
+    dir: path.join("/cache/runs", id),
+    startedAt: new Date(`2026-03-01T10:${id.slice(11, 13)}:00.000Z`),
+    startedAtSource: "name",
+    mtimeMs: 0,
+    ok,
+    command,
+    session,
+    sizeBytes: 10,
+  });
+  const runs = [
+    run("20260301-104000-aaaaaa", null, null, null),
+    run("20260301-103000-bbbbbb", false, "test", "ci"),
+    run("20260301-102000-cccccc", true, "ui.tap", "default"),
+    run("20260301-101000-dddddd", false, "ui.tap", "default"),
+  ];
+  const ids = (list: RunInfo[]) => list.map((r) => summarizeRun(r).id.slice(-6));
+
+  assert.deepEqual(ids(filterRuns(runs, { session: "default" })), ["aaaaaa", "cccccc", "dddddd"]);
+  assert.deepEqual(ids(filterRuns(runs, { command: "ui tap", failed: true })), ["dddddd"]);
+  assert.deepEqual(ids(filterRuns(runs, { failed: true, session: "ci" })), ["aaaaaa", "bbbbbb"]);
+  assert.deepEqual(ids(filterRuns(runs, { since: new Date("2026-03-01T10:25:00.000Z") })), ["aaaaaa", "bbbbbb"]);
+  assert.deepEqual(summarizeRun(runs[1]!), {
+    id: "20260301-103000-bbbbbb",
+    dir: path.join("/cache/runs", "20260301-103000-bbbbbb"),
+    started_at: "2026-03-01T10:30:00.000Z",
+    ok: false,
+    command: "test",
+    session: "ci",
+    size_bytes: 10,
+  });
+
+  assert.equal(summarizeRun(resolveRun(runs, "20260301-102000-cccccc")).id, "20260301-102000-cccccc");
+  assert.equal(summarizeRun(resolveRun(runs, "20260301-1010")).id, "20260301-101000-dddddd");
+  assert.equal(summarizeRun(resolveRun(runs, "/cache/runs/20260301-103000-bbbbbb/")).id, "20260301-103000-bbbbbb");
+  assert.throws(() => resolveRun(runs, "20260301"), (e: { exitCode?: number }) => e.exitCode === 2);
+  assert.throws(() => resolveRun(runs, "nope"), (e: { code?: string; exitCode?: number }) => e.code === "RUN_NOT_FOUND" && e.exitCode === 1);
+});
+
+test("runs export bundles a run with relative paths and import verifies and restores it", async () => {
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "mda-run-bundle-"));
+  try {
+    const id = "20260301-101500-a1b2c3";
+    const runDir = path.join(tmp, "src", "runs", id);
+    await fs.mkdir(path.join(runDir, "logs"), { recursive: true });
+    await fs.mkdir(path.join(runDir, "artifacts"), { recursive: true });
+    await fs.mkdir(path.join(tmp, "build", "App.app"), { recursive: true });
+    await fs.writeFile(path.join(runDir, "trace.jsonl"), '{"event":"start"}\n');
+    await fs.writeFile(path.join(runDir, "logs", "device.log"), "log line\n");
+    await fs.writeFile(path.join(runDir, "artifacts", "recording.mp4"), "video");
+    await fs.writeFile(path.join(tmp, "report.xml"), "<testsuites/>");
+    await fs.writeFile(path.join(tmp, "build", "App.app", "Info.plist"), "plist");
+    const artifacts = [
+      { type: "log", path: path.join(runDir, "logs", "device.log") },
+      { type: "video", path: path.join(runDir, "artifacts", "recording.mp4") },
+      { type: "junit", path: path.join(tmp, "report.xml") },
+      { type: "app", path: path.join(tmp, "build", "App.app") },
+      { type: "screenshot", path: path.join(tmp, "gone.png") },
+    ];
+    await fs.writeFile(path.join(runDir, "result.json"), JSON.stringify({ ok: false, run_dir: runDir, artifacts }));
+
+    const out = path.join(tmp, "bundle.tar.gz");
+    const manifest = await exportRunBundle(runDir, out, { includeExternal: true, excludeTypes: ["video"] });
+    assert.deepEqual(
+      manifest.files.map((f) => f.path),
+      ["logs/device.log", "result.json", "trace.jsonl", "external/1-report.xml", "external/2-App.app/Info.plist"]
+    );
+    assert.deepEqual(manifest.external.map((e) => [e.type, e.path]), [["junit", "external/1-report.xml"], ["app", "external/2-App.app"]]);
+    assert.deepEqual(manifest.excluded.map((e) => [e.type, e.reason]), [["video", "excluded"], ["screenshot", "missing"]]);
+
+    const entries: Record<string, string> = {};
+    await readTarGz(out, async (entry, body) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) chunks.push(chunk);
+      entries[entry.name] = Buffer.concat(chunks).toString("utf8");
+    });
+    assert.ok(!(`${id}/artifacts/recording.mp4` in entries));
+    const bundled = JSON.parse(entries[`${id}/result.json`]!) as { run_dir: string; artifacts: Array<{ path: string }> };
+    assert.equal(bundled.run_dir, ".");
+    assert.deepEqual(bundled.artifacts.map((a) => a.path), ["logs/device.log", "external/1-report.xml", "external/2-App.app"]);
+
+    const runsRoot = path.join(tmp, "dst", "runs");
+    const staging = path.join(tmp, "dst", "tmp");
+    const imported = await importRunBundle(out, runsRoot, staging);
+    assert.equal(imported.dir, path.join(runsRoot, id));
+    const restored = JSON.parse(await fs.readFile(path.join(imported.dir, "result.json"), "utf8")) as { run_dir: string; artifacts: Array<{ path: string }> };
+    assert.equal(restored.run_dir, imported.dir);
+    assert.equal(await fs.readFile(restored.artifacts[1]!.path, "utf8"), "<testsuites/>");
+    assert.equal(await fs.readFile(path.join(restored.artifacts[2]!.path, "Info.plist"), "utf8"), "plist");
+    assert.deepEqual(await fs.readdir(staging), []);
+    await assert.rejects(importRunBundle(out, runsRoot, staging), (e: { code?: string }) => e.code === "RUN_EXISTS");
+
+    // An edited file no longer matches the manifest, and an escaping path is refused outright.
+    const tampered = path.join(tmp, "tampered.tar.gz");
+    const writer = new TarWriter(tampered);
+    await writer.addBuffer(`${id}/trace.jsonl`, Buffer.from("edited\n"));
+    await writer.addBuffer(`${id}/manifest.json`, Buffer.from(JSON.stringify({ ...manifest, files: manifest.files.filter((f) => f.path === "trace.jsonl") })));
+    await writer.finish();
+    await assert.rejects(
+      importRunBundle(tampered, path.join(tmp, "other"), staging),
+      (e: { code?: string; details?: string[] }) => e.code === "BUNDLE_INVALID" && e.details?.[0] === "Checksum mismatch: trace.jsonl"
+    );
+    const unsafe = path.join(tmp, "unsafe.tar.gz");
+    const evil = new TarWriter(unsafe);
+    await evil.addBuffer(`${id}/../../evil.txt`, Buffer.from("x"));
+    await evil.finish();
+    await assert.rejects(importRunBundle(unsafe, path.join(tmp, "other"), staging), (e: { code?: string }) => e.code === "BUNDLE_INVALID");
+    await assert.rejects(fs.stat(path.join(tmp, "evil.txt")));
+    assert.deepEqual(await fs.readdir(staging), []);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+});